@@ -0,0 +1,34 @@
+'use client'
+
+import { useEffect } from 'react'
+import Link from 'next/link'
+
+// Shown when a CMS page fails to load. Nothing is cached for the request, so
+// the page is rendered again on the next visit.
+export default function CmsPageError({ error, reset }: { error: Error & { digest?: string }; reset: () => void }) {
+  useEffect(() => {
+    console.error('CMS page failed to load:', error)
+  }, [error])
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-24 text-center">
+      <h1 className="text-3xl font-bold text-gray-900 mb-4">This page couldn&apos;t be loaded</h1>
+      <p className="text-gray-600 mb-8">Something went wrong on our end. Please try again in a moment.</p>
+      <div className="flex flex-col sm:flex-row gap-4 justify-center">
+        <button
+          type="button"
+          onClick={reset}
+          className="bg-black text-white px-6 py-3 rounded-lg hover:bg-gray-800 transition-colors"
+        >
+          Try Again
+        </button>
+        <Link
+          href="/"
+          className="border border-gray-300 text-gray-700 px-6 py-3 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          Back to Home
+        </Link>
+      </div>
+    </div>
+  )
+}
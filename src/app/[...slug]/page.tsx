@@ -0,0 +1,62 @@
+import { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import { DynamicSection } from '@/components/sections/DynamicSection'
+import { getCmsPage } from '@/lib/cms-pages'
+import { isPreviewMode } from '@/lib/preview'
+
+// Statically rendered and regenerated at most every CONTENT_REVALIDATE_SECONDS;
+// content changes invalidate the cache tags sooner
+export const revalidate = 300
+
+interface CmsPageProps {
+  params: Promise<{
+    slug: string[]
+  }>
+}
+
+// Null only when no such page is visible. Query errors are rethrown for the
+// error boundary, so ISR never caches a 404 for a page that exists.
+async function loadPage(slug: string[]) {
+  try {
+    return await getCmsPage(slug, { preview: await isPreviewMode() })
+  } catch (error) {
+    console.error('Error loading CMS page:', error)
+    throw error
+  }
+}
+
+// Generate metadata from the page's SEO fields
+export async function generateMetadata({ params }: CmsPageProps): Promise<Metadata> {
+  const { slug } = await params
+  const content = await loadPage(slug)
+
+  if (!content) {
+    return {
+      title: 'Page Not Found - DOCM Church',
+    }
+  }
+
+  const { page } = content
+  return {
+    title: page.seo_meta?.title || `${page.title} - DOCM Church`,
+    description: page.seo_meta?.description || page.description || undefined,
+    keywords: page.seo_meta?.keywords,
+  }
+}
+
+export default async function CmsPage({ params }: CmsPageProps) {
+  const { slug } = await params
+  const content = await loadPage(slug)
+
+  if (!content) {
+    notFound()
+  }
+
+  return (
+    <>
+      {content.sections.map(section => (
+        <DynamicSection key={section.id} type={section.type} props={section.props} />
+      ))}
+    </>
+  )
+}
@@ -2,16 +2,25 @@ import { AboutHero } from '@/components/sections/about-hero'
 import { OurStory } from '@/components/sections/our-story'
 import { Leadership } from '@/components/sections/leadership'
 import { MissionVision } from '@/components/sections/mission-vision'
+import { ServerContentProvider } from '@/components/ServerContentProvider'
+import { getAboutContent } from '@/lib/content'
+import { isPreviewMode } from '@/lib/preview'
 import { Metadata } from 'next'
 
+// Statically rendered and regenerated at most every CONTENT_REVALIDATE_SECONDS;
+// content changes invalidate the cache tags sooner
+export const revalidate = 300
+
 export const metadata: Metadata = {
   title: 'About Us - DOCM Church',
   description: 'Learn about our story, mission, vision, and leadership team at Demonstration of Christ Ministries.',
 }
 
-export default function AboutPage() {
+export default async function AboutPage() {
+  const { content } = await getAboutContent({ preview: await isPreviewMode() })
+
   return (
-    <>
+    <ServerContentProvider content={{ about: content }}>
       {/* About Hero Section */}
       <AboutHero />
       
@@ -23,6 +32,6 @@ export default function AboutPage() {
       
       {/* Leadership Team */}
       <Leadership />
-    </>
+    </ServerContentProvider>
   )
 } 
\ No newline at end of file
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerSupabaseClient } from '@/lib/supabase'
+import { pageHeroShape, readSectionProps } from '@/lib/page-section-props'
+import { pagesRepo } from '@/lib/repositories'
+import { string } from '@/lib/section-schema'
 
 // Define the interface for blog page structure
 interface BlogPageData {
@@ -67,19 +69,25 @@ const defaultBlogPageData: BlogPageData = {
   }
 }
 
+// Section props as stored, narrowed before use
+const postsSectionShape = {
+  sectionTitle: string(),
+  sectionHeading: string(),
+  sectionDescription: string()
+}
+
+const newsletterShape = {
+  ...postsSectionShape,
+  placeholderText: string(),
+  buttonText: string()
+}
+
 export async function GET(request: NextRequest) {
   try {
     console.log('🔍 Attempting to fetch blog page from database...')
     
-    const supabase = createServerSupabaseClient()
-
     // Fetch blog page content
-    const { data: pageData, error: pageError } = await supabase
-      .from('pages')
-      .select('id, slug, title, seo_meta, published_at, created_at, updated_at')
-      .eq('slug', 'blog')
-      .not('published_at', 'is', null)
-      .single()
+    const { data: pageData, error: pageError } = await pagesRepo.getBySlug('blog')
 
     if (pageError || !pageData) {
       console.log('⚠️ Blog page not found in database, using defaults')
@@ -91,11 +99,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Fetch blog page sections
-    const { data: sectionsData, error: sectionsError } = await supabase
-      .from('page_sections')
-      .select('id, type, order, props')
-      .eq('page_id', pageData.id)
-      .order('order', { ascending: true })
+    const { data: sectionsData, error: sectionsError } = await pagesRepo.listSections(pageData.id)
 
     if (sectionsError) {
       console.error('❌ Error fetching blog page sections:', sectionsError)
@@ -120,32 +124,38 @@ export async function GET(request: NextRequest) {
       console.log(`  Section ${section.order} (${section.type}):`, section.props)
 
       switch (section.type) {
-        case 'hero':
+        case 'hero': {
+          const props = readSectionProps(section.type, pageHeroShape, section.props)
           blogPageData.hero = {
-            first_line_text: section.props.first_line_text || defaultBlogPageData.hero.first_line_text,
-            heading: section.props.heading || defaultBlogPageData.hero.heading,
-            subheading: section.props.subheading || defaultBlogPageData.hero.subheading,
-            backgroundImage: section.props.backgroundImage || section.props.backgroundMedia?.url || "",
-            backgroundMedia: section.props.backgroundMedia,
-            ctaButtons: section.props.ctaButtons || defaultBlogPageData.hero.ctaButtons
+            first_line_text: props.first_line_text || defaultBlogPageData.hero.first_line_text,
+            heading: props.heading || defaultBlogPageData.hero.heading,
+            subheading: props.subheading || defaultBlogPageData.hero.subheading,
+            backgroundImage: props.backgroundImage || props.backgroundMedia?.url || "",
+            backgroundMedia: props.backgroundMedia,
+            ctaButtons: props.ctaButtons || defaultBlogPageData.hero.ctaButtons
           }
           break
-        case 'posts_section':
+        }
+        case 'posts_section': {
+          const props = readSectionProps(section.type, postsSectionShape, section.props)
           blogPageData.posts_section = {
-            sectionTitle: section.props.sectionTitle || defaultBlogPageData.posts_section.sectionTitle,
-            sectionHeading: section.props.sectionHeading || defaultBlogPageData.posts_section.sectionHeading,
-            sectionDescription: section.props.sectionDescription || defaultBlogPageData.posts_section.sectionDescription
+            sectionTitle: props.sectionTitle || defaultBlogPageData.posts_section.sectionTitle,
+            sectionHeading: props.sectionHeading || defaultBlogPageData.posts_section.sectionHeading,
+            sectionDescription: props.sectionDescription || defaultBlogPageData.posts_section.sectionDescription
           }
           break
-        case 'newsletter':
+        }
+        case 'newsletter': {
+          const props = readSectionProps(section.type, newsletterShape, section.props)
           blogPageData.newsletter = {
-            sectionTitle: section.props.sectionTitle || defaultBlogPageData.newsletter.sectionTitle,
-            sectionHeading: section.props.sectionHeading || defaultBlogPageData.newsletter.sectionHeading,
-            sectionDescription: section.props.sectionDescription || defaultBlogPageData.newsletter.sectionDescription,
-            placeholderText: section.props.placeholderText || defaultBlogPageData.newsletter.placeholderText,
-            buttonText: section.props.buttonText || defaultBlogPageData.newsletter.buttonText
+            sectionTitle: props.sectionTitle || defaultBlogPageData.newsletter.sectionTitle,
+            sectionHeading: props.sectionHeading || defaultBlogPageData.newsletter.sectionHeading,
+            sectionDescription: props.sectionDescription || defaultBlogPageData.newsletter.sectionDescription,
+            placeholderText: props.placeholderText || defaultBlogPageData.newsletter.placeholderText,
+            buttonText: props.buttonText || defaultBlogPageData.newsletter.buttonText
           }
           break
+        }
       }
     })
 
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerSupabaseClient } from '@/lib/supabase'
+import { isPreviewRequest } from '@/lib/preview'
+import { isWithinPublishWindow, nextWindowBoundary, publishWindowCacheControl } from '@/lib/publish-window'
+import { blogsRepo } from '@/lib/repositories'
 
 export interface BlogPost {
   id: string
@@ -29,14 +31,9 @@ export async function GET(
     const { slug } = params
     console.log(`🔍 Fetching blog post with slug: ${slug}`)
 
-    const supabase = createServerSupabaseClient()
-
-    const { data: blog, error } = await supabase
-      .from('blogs')
-      .select('*')
-      .eq('slug', slug)
-      .eq('status', 'published')
-      .single()
+    // Preview mode also shows drafts
+    const preview = isPreviewRequest(request)
+    const { data: blog, error } = await blogsRepo.findBySlug(slug, { preview })
 
     if (error) {
       console.error('❌ Error fetching blog post:', error)
@@ -51,7 +48,9 @@ export async function GET(
       throw error
     }
 
-    if (!blog) {
+    // Scheduled or expired posts are hidden outside preview mode
+    const now = new Date()
+    if (!blog || (!preview && !isWithinPublishWindow(blog, now))) {
       return NextResponse.json(
         { error: 'Blog post not found' },
         { status: 404 }
@@ -61,7 +60,10 @@ export async function GET(
     console.log(`✅ Successfully fetched blog post: ${blog.title}`)
     return NextResponse.json({
       blog,
-      source: 'database'
+      source: 'database',
+      preview
+    }, {
+      headers: { 'Cache-Control': publishWindowCacheControl(nextWindowBoundary([blog], now), { now, preview }) }
     })
 
   } catch (error) {
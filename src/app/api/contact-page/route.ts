@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerSupabaseClient } from '@/lib/supabase'
+import { ctaButtonsField, pageHeroShape, readSectionProps } from '@/lib/page-section-props'
+import { pagesRepo } from '@/lib/repositories'
+import { arrayOf, object, required, string } from '@/lib/section-schema'
 
 // Define the interface for contact page structure
 interface ContactPageData {
@@ -135,19 +137,50 @@ const defaultContactPageData: ContactPageData = {
   }
 }
 
+// Section props as stored, narrowed before use
+const sectionHeadingShape = {
+  sectionTitle: string(),
+  sectionHeading: string(),
+  sectionDescription: string()
+}
+
+const contactFormShape = {
+  ...sectionHeadingShape,
+  urgentContactPhone: string(),
+  urgentContactDescription: string(),
+  responseTimeText: string(),
+  categories: arrayOf(string())
+}
+
+const contactInfoShape = {
+  phone: string(),
+  email: string(),
+  address: string(),
+  office_hours: object({
+    weekdays: required(string()),
+    weekends: required(string())
+  }),
+  social_media: arrayOf(object({
+    platform: required(string()),
+    url: required(string())
+  }))
+}
+
+const contactCtaShape = {
+  ...sectionHeadingShape,
+  ctaButtons: ctaButtonsField,
+  features: arrayOf(object({
+    text: required(string()),
+    icon: required(string())
+  }))
+}
+
 export async function GET(request: NextRequest) {
   try {
     console.log('🔍 Attempting to fetch contact page from database...')
     
-    const supabase = createServerSupabaseClient()
-
     // Fetch contact page content
-    const { data: pageData, error: pageError } = await supabase
-      .from('pages')
-      .select('id, slug, title, seo_meta, published_at, created_at, updated_at')
-      .eq('slug', 'contact')
-      .not('published_at', 'is', null)
-      .single()
+    const { data: pageData, error: pageError } = await pagesRepo.getBySlug('contact')
 
     if (pageError || !pageData) {
       console.log('⚠️ Contact page not found in database, using defaults')
@@ -159,11 +192,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Fetch contact page sections
-    const { data: sectionsData, error: sectionsError } = await supabase
-      .from('page_sections')
-      .select('id, type, order, props')
-      .eq('page_id', pageData.id)
-      .order('order', { ascending: true })
+    const { data: sectionsData, error: sectionsError } = await pagesRepo.listSections(pageData.id)
 
     if (sectionsError) {
       console.error('❌ Error fetching contact page sections:', sectionsError)
@@ -188,45 +217,53 @@ export async function GET(request: NextRequest) {
       console.log(`  Section ${section.order} (${section.type}):`, section.props)
 
       switch (section.type) {
-        case 'hero':
+        case 'hero': {
+          const props = readSectionProps(section.type, pageHeroShape, section.props)
           contactPageData.hero = {
-            first_line_text: section.props.first_line_text || defaultContactPageData.hero.first_line_text,
-            heading: section.props.heading || defaultContactPageData.hero.heading,
-            subheading: section.props.subheading || defaultContactPageData.hero.subheading,
-            backgroundImage: section.props.backgroundImage || section.props.backgroundMedia?.url || "",
-            backgroundMedia: section.props.backgroundMedia,
-            ctaButtons: section.props.ctaButtons || defaultContactPageData.hero.ctaButtons
+            first_line_text: props.first_line_text || defaultContactPageData.hero.first_line_text,
+            heading: props.heading || defaultContactPageData.hero.heading,
+            subheading: props.subheading || defaultContactPageData.hero.subheading,
+            backgroundImage: props.backgroundImage || props.backgroundMedia?.url || "",
+            backgroundMedia: props.backgroundMedia,
+            ctaButtons: props.ctaButtons || defaultContactPageData.hero.ctaButtons
           }
           break
-        case 'contact_form':
+        }
+        case 'contact_form': {
+          const props = readSectionProps(section.type, contactFormShape, section.props)
           contactPageData.contact_form = {
-            sectionTitle: section.props.sectionTitle || defaultContactPageData.contact_form.sectionTitle,
-            sectionHeading: section.props.sectionHeading || defaultContactPageData.contact_form.sectionHeading,
-            sectionDescription: section.props.sectionDescription || defaultContactPageData.contact_form.sectionDescription,
-            urgentContactPhone: section.props.urgentContactPhone || defaultContactPageData.contact_form.urgentContactPhone,
-            urgentContactDescription: section.props.urgentContactDescription || defaultContactPageData.contact_form.urgentContactDescription,
-            responseTimeText: section.props.responseTimeText || defaultContactPageData.contact_form.responseTimeText,
-            categories: section.props.categories || defaultContactPageData.contact_form.categories
+            sectionTitle: props.sectionTitle || defaultContactPageData.contact_form.sectionTitle,
+            sectionHeading: props.sectionHeading || defaultContactPageData.contact_form.sectionHeading,
+            sectionDescription: props.sectionDescription || defaultContactPageData.contact_form.sectionDescription,
+            urgentContactPhone: props.urgentContactPhone || defaultContactPageData.contact_form.urgentContactPhone,
+            urgentContactDescription: props.urgentContactDescription || defaultContactPageData.contact_form.urgentContactDescription,
+            responseTimeText: props.responseTimeText || defaultContactPageData.contact_form.responseTimeText,
+            categories: props.categories || defaultContactPageData.contact_form.categories
           }
           break
-        case 'contact_info':
+        }
+        case 'contact_info': {
+          const props = readSectionProps(section.type, contactInfoShape, section.props)
           contactPageData.contact_info = {
-            phone: section.props.phone || defaultContactPageData.contact_info.phone,
-            email: section.props.email || defaultContactPageData.contact_info.email,
-            address: section.props.address || defaultContactPageData.contact_info.address,
-            office_hours: section.props.office_hours || defaultContactPageData.contact_info.office_hours,
-            social_media: section.props.social_media || defaultContactPageData.contact_info.social_media
+            phone: props.phone || defaultContactPageData.contact_info.phone,
+            email: props.email || defaultContactPageData.contact_info.email,
+            address: props.address || defaultContactPageData.contact_info.address,
+            office_hours: props.office_hours || defaultContactPageData.contact_info.office_hours,
+            social_media: props.social_media || defaultContactPageData.contact_info.social_media
           }
           break
-        case 'contact_cta':
+        }
+        case 'contact_cta': {
+          const props = readSectionProps(section.type, contactCtaShape, section.props)
           contactPageData.contact_cta = {
-            sectionTitle: section.props.sectionTitle || defaultContactPageData.contact_cta.sectionTitle,
-            sectionHeading: section.props.sectionHeading || defaultContactPageData.contact_cta.sectionHeading,
-            sectionDescription: section.props.sectionDescription || defaultContactPageData.contact_cta.sectionDescription,
-            ctaButtons: section.props.ctaButtons || defaultContactPageData.contact_cta.ctaButtons,
-            features: section.props.features || defaultContactPageData.contact_cta.features
+            sectionTitle: props.sectionTitle || defaultContactPageData.contact_cta.sectionTitle,
+            sectionHeading: props.sectionHeading || defaultContactPageData.contact_cta.sectionHeading,
+            sectionDescription: props.sectionDescription || defaultContactPageData.contact_cta.sectionDescription,
+            ctaButtons: props.ctaButtons || defaultContactPageData.contact_cta.ctaButtons,
+            features: props.features || defaultContactPageData.contact_cta.features
           }
           break
+        }
       }
     })
 
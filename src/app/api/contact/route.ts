@@ -1,9 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
-
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
-const supabaseServiceKey = process.env.NEXT_PUBLIC_SUPABASE_SERVICE_ROLE_KEY!
-const supabase = createClient(supabaseUrl, supabaseServiceKey)
+import { messagesRepo, newsletterRepo } from '@/lib/repositories'
 
 export async function POST(request: NextRequest) {
   try {
@@ -52,10 +48,7 @@ export async function POST(request: NextRequest) {
         
         console.log('📧 Newsletter payload:', newsletterPayload)
         
-        const { data: newsletterData, error: newsletterError } = await supabase
-          .from('newsletter_subscribers')
-          .insert([newsletterPayload])
-          .select()
+        const { data: newsletterData, error: newsletterError } = await newsletterRepo.subscribe(newsletterPayload)
 
         if (newsletterError) {
           console.error('❌ Newsletter subscription error:', newsletterError)
@@ -98,10 +91,7 @@ export async function POST(request: NextRequest) {
 
     console.log('📝 Website message payload:', websiteMessagePayload)
 
-    const { data: websiteMessageData, error: websiteMessageError } = await supabase
-      .from('website_messages')
-      .insert([websiteMessagePayload])
-      .select()
+    const { data: websiteMessageData, error: websiteMessageError } = await messagesRepo.createWebsiteMessage(websiteMessagePayload)
 
     if (websiteMessageError) {
       console.error('❌ Error inserting website message:', websiteMessageError)
@@ -110,24 +100,19 @@ export async function POST(request: NextRequest) {
       // Fallback to contact_submissions if website_messages table doesn't exist
       console.log('📝 Attempting fallback to contact_submissions...')
       
-      const { data: fallbackData, error: fallbackError } = await supabase
-        .from('contact_submissions')
-        .insert([
-          {
-            id: submissionId,
-            name,
-            email,
-            phone: phone || null,
-            subject,
-            category: category || (isPrayerRequest ? 'Prayer Request' : 'General Inquiry'),
-            message,
-            newsletter_opt_in: newsletter || false,
-            is_prayer_request: isPrayerRequest,
-            submitted_at: timestamp,
-            status: 'new'
-          }
-        ])
-        .select()
+      const { data: fallbackData, error: fallbackError } = await messagesRepo.createContactSubmission({
+        id: submissionId,
+        name,
+        email,
+        phone: phone || null,
+        subject,
+        category: category || (isPrayerRequest ? 'Prayer Request' : 'General Inquiry'),
+        message,
+        newsletter_opt_in: newsletter || false,
+        is_prayer_request: isPrayerRequest,
+        submitted_at: timestamp,
+        status: 'new'
+      })
 
       if (fallbackError) {
         console.error('❌ Error inserting to contact_submissions:', fallbackError)
@@ -164,10 +149,7 @@ export async function POST(request: NextRequest) {
         
         console.log('🙏 Prayer request payload:', prayerPayload)
         
-        const { data: prayerData, error: prayerError } = await supabase
-          .from('prayer_requests')
-          .insert([prayerPayload])
-          .select()
+        const { data: prayerData, error: prayerError } = await messagesRepo.createPrayerRequest(prayerPayload)
 
         if (prayerError) {
           console.error('❌ Prayer request submission error:', prayerError)
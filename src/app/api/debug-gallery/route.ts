@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server'
-import { createServerSupabaseClient } from '@/lib/supabase'
+import { pagesRepo } from '@/lib/repositories'
 
 export async function GET() {
   try {
@@ -16,25 +16,9 @@ export async function GET() {
       })
     }
 
-    let supabase
-    try {
-      supabase = createServerSupabaseClient()
-      console.log('✅ DEBUG: Supabase client created successfully')
-    } catch (error) {
-      console.error('❌ DEBUG: Supabase client creation failed:', error)
-      return NextResponse.json({ 
-        error: 'Supabase client creation failed',
-        details: error
-      })
-    }
-
     // Test 1: Check if gallery page exists
     console.log('🔍 DEBUG: Checking if gallery page exists...')
-    const { data: page, error: pageError } = await supabase
-      .from('pages')
-      .select('*')
-      .eq('slug', 'gallery')
-      .single()
+    const { data: page, error: pageError } = await pagesRepo.getBySlug('gallery', { publishedOnly: false })
 
     console.log('📊 DEBUG: Gallery page query result:', { page, pageError })
 
@@ -48,11 +32,7 @@ export async function GET() {
 
     // Test 2: Check if sections exist
     console.log('🔍 DEBUG: Checking gallery page sections...')
-    const { data: sections, error: sectionsError } = await supabase
-      .from('page_sections')
-      .select('*')
-      .eq('page_id', page.id)
-      .order('order', { ascending: true })
+    const { data: sections, error: sectionsError } = await pagesRepo.listSections(page.id)
 
     console.log('📊 DEBUG: Gallery sections query result:', { sections, sectionsError })
 
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerSupabaseClient } from '@/lib/supabase'
+import { givingRepo } from '@/lib/repositories'
 import Stripe from 'stripe'
 
 // Initialize Stripe
@@ -56,39 +56,25 @@ export async function POST(request: NextRequest) {
 
     console.log('✅ Created subscription:', subscription.id)
 
-    // Update the transaction record to mark it as active/confirmed
-    const supabase = createServerSupabaseClient()
-    
+    // Update the transaction record to mark it as active/confirmed.
     // First, find the transaction record by customer and amount
-    const { data: transactionRecord, error: findError } = await supabase
-      .from('transactions')
-      .select('id')
-      .eq('stripe_customer_id', customerId)
-      .eq('amount', amount)
-      .eq('is_recurring', true)
-      .eq('payment_status', 'pending')
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .single()
+    const { data: transactionRecord, error: findError } = await givingRepo.findPendingRecurringTransaction(customerId, amount)
 
     if (findError) {
       console.error('❌ Error finding transaction record:', findError)
     } else if (transactionRecord) {
       // Update the transaction record with subscription details
-      const { error: updateError } = await supabase
-        .from('transactions')
-        .update({
-          payment_status: 'active',
-          stripe_subscription_id: subscription.id,
-          metadata: {
-            frequency,
-            source: 'church_website',
-            type: 'recurring_donation',
-            setup_intent_id: setupIntentId,
-            subscription_id: subscription.id
-          }
-        })
-        .eq('id', transactionRecord.id)
+      const { error: updateError } = await givingRepo.updateTransaction(transactionRecord.id, {
+        payment_status: 'active',
+        stripe_subscription_id: subscription.id,
+        metadata: {
+          frequency,
+          source: 'church_website',
+          type: 'recurring_donation',
+          setup_intent_id: setupIntentId,
+          subscription_id: subscription.id
+        }
+      })
 
       if (updateError) {
         console.error('❌ Error updating transaction record:', updateError)
@@ -111,12 +97,7 @@ export async function POST(request: NextRequest) {
       next_payment_date: new Date(Date.now() + (frequency === 'weekly' ? 7 : 30) * 24 * 60 * 60 * 1000).toISOString()
     }
 
-    const { error: recurringError } = await supabase
-      .from('recurring_donations')
-      .upsert(recurringDonationData, {
-        onConflict: 'stripe_subscription_id',
-        ignoreDuplicates: false
-      })
+    const { error: recurringError } = await givingRepo.upsertRecurringDonation(recurringDonationData)
 
     if (recurringError) {
       console.error('❌ Error creating/updating recurring donation record:', recurringError)
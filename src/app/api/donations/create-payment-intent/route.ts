@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerSupabaseClient } from '@/lib/supabase'
+import { contactsRepo, givingRepo } from '@/lib/repositories'
 import Stripe from 'stripe'
 
 // Initialize Stripe - using the same keys as admin
@@ -33,8 +33,6 @@ async function createTransactionRecord({
   isRecurring?: boolean
   frequency?: string
 }) {
-  const supabase = createServerSupabaseClient()
-  
   const transactionData = {
     contact_id: contactId || null,
     amount,
@@ -58,11 +56,7 @@ async function createTransactionRecord({
 
   console.log('💾 Creating transaction record:', transactionData)
 
-  const { data, error } = await supabase
-    .from('transactions')
-    .insert([transactionData])
-    .select()
-    .single()
+  const { data, error } = await givingRepo.createTransaction(transactionData)
 
   if (error) {
     console.error('❌ Error creating transaction record:', error)
@@ -110,14 +104,8 @@ export async function POST(request: NextRequest) {
     let customerId: string | undefined
     
     if (!isAnonymous && donorEmail) {
-      const supabase = createServerSupabaseClient()
-      
       // Try to find existing contact
-      const { data: existingContact } = await supabase
-        .from('contacts')
-        .select('id')
-        .eq('email', donorEmail)
-        .single()
+      const { data: existingContact } = await contactsRepo.findByEmail(donorEmail)
 
       if (existingContact) {
         contactId = existingContact.id
@@ -127,17 +115,13 @@ export async function POST(request: NextRequest) {
         const [firstName, ...lastNameParts] = donorName.split(' ')
         const lastName = lastNameParts.join(' ')
         
-        const { data: newContact, error } = await supabase
-          .from('contacts')
-          .insert([{
-            first_name: firstName,
-            last_name: lastName || '',
-            email: donorEmail,
-            phone: '',
-            source: 'online_donation'
-          }])
-          .select()
-          .single()
+        const { data: newContact, error } = await contactsRepo.create({
+          first_name: firstName,
+          last_name: lastName || '',
+          email: donorEmail,
+          phone: '',
+          source: 'online_donation'
+        })
 
         if (!error && newContact) {
           contactId = newContact.id
@@ -0,0 +1,14 @@
+import { NextRequest } from 'next/server'
+import { eventCalendarResponse } from '@/lib/icalendar'
+
+interface RouteParams {
+  params: Promise<{
+    id: string
+  }>
+}
+
+// .ics download of one event, or of one occurrence with ?occurrence=
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params
+  return eventCalendarResponse(request, id)
+}
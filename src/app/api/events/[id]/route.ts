@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerSupabaseClient } from '@/lib/supabase'
+import { expandEventOccurrences, findEventOccurrence, parseRRule } from '@/lib/event-recurrence'
+import { eventsRepo, registrationsRepo } from '@/lib/repositories'
+import { getConfiguredTimezone } from '@/lib/timezone-utils'
+
+// How far ahead to look for the next occurrence of a recurring event
+const NEXT_OCCURRENCE_HORIZON_DAYS = 366
 
 interface RouteParams {
   params: Promise<{
@@ -20,14 +25,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
     console.log('🔍 Fetching event with ID:', eventId)
 
-    const supabase = createServerSupabaseClient()
-    
     // First try simple query without joins
-    const { data: event, error } = await supabase
-      .from('events')
-      .select('*')
-      .eq('id', eventId)
-      .single()
+    const { data: event, error } = await eventsRepo.findById(eventId)
 
     if (error) {
       console.error('❌ Error fetching event:', error)
@@ -47,11 +46,44 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
     console.log('✅ Event fetched successfully:', event.name)
 
+    // A recurring event is shown as one occurrence: the one asked for, or the next
+    let occurrence = null
+    if (parseRRule(event.rrule)) {
+      const requested = request.nextUrl.searchParams.get('occurrence')
+      const [timeZone, { data: overrides }] = await Promise.all([
+        getConfiguredTimezone(),
+        eventsRepo.listOccurrenceOverrides(eventId)
+      ])
+      const now = new Date()
+
+      occurrence = requested
+        ? findEventOccurrence(event, overrides || [], timeZone, requested)
+        : expandEventOccurrences(event, overrides || [], timeZone, {
+          from: now,
+          to: new Date(now.getTime() + NEXT_OCCURRENCE_HORIZON_DAYS * 24 * 60 * 60 * 1000)
+        })[0] ?? null
+
+      if (!occurrence) {
+        console.log('❌ No such occurrence of event:', eventId, requested)
+        return NextResponse.json(
+          { error: requested ? 'Event occurrence not found' : 'This event has no upcoming dates' },
+          { status: 404 }
+        )
+      }
+    }
+
+    // With a capacity, the counts let the form say when registering joins the waitlist
+    const capacity = occurrence ? occurrence.override?.capacity ?? event.capacity : event.capacity
+    const occurrenceKey = occurrence?.occurrence_start ?? null
+    const [{ count: registeredCount }, { count: waitlistCount }] = capacity
+      ? await Promise.all([
+        registrationsRepo.countWithStatus(eventId, 'confirmed', occurrenceKey),
+        registrationsRepo.countWithStatus(eventId, 'waitlisted', occurrenceKey)
+      ])
+      : [{ count: null }, { count: null }]
+
     // Try to get images separately
-    const { data: images } = await supabase
-      .from('event_images')
-      .select('*')
-      .eq('event_id', eventId)
+    const { data: images } = await eventsRepo.listImages(eventId)
 
     console.log('📸 Images found:', images ? images.length : 0)
 
@@ -74,6 +106,17 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       success: true,
       event: {
         ...event,
+        // Overrides replace the event's own details for their occurrence
+        ...(occurrence && {
+          name: occurrence.override?.name || event.name,
+          description: occurrence.override?.description || event.description,
+          location: occurrence.override?.location || event.location,
+          capacity: occurrence.override?.capacity ?? event.capacity,
+          event_date: occurrence.event_date
+        }),
+        occurrence_start: occurrenceKey,
+        registered_count: registeredCount ?? null,
+        waitlist_count: waitlistCount ?? null,
         images: images || [],
         primary_image: primaryImage
       }
@@ -0,0 +1,7 @@
+import { NextRequest } from 'next/server'
+import { calendarFeedResponse } from '@/lib/icalendar'
+
+// Subscribable iCalendar feed of events, filterable by ?category= and ?ministry=
+export async function GET(request: NextRequest) {
+  return calendarFeedResponse(request)
+}
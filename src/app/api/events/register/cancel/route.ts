@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { registrationsRepo } from '@/lib/repositories'
+import { hasPrivilegedAccess } from '@/lib/supabase-admin'
+
+interface CancellationRequest {
+  registrationId: string
+  // Must match the email the registration was made with
+  email: string
+}
+
+/**
+ * Cancel a registration or leave a waitlist. A cancelled confirmed
+ * registration gives its place to the next person on the waitlist.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { registrationId, email }: CancellationRequest = await request.json()
+
+    if (!registrationId || !email) {
+      return NextResponse.json(
+        { error: 'Missing required fields: registrationId, email' },
+        { status: 400 }
+      )
+    }
+
+    // Cancelling needs the service role (see add_event_waitlist.sql)
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || !hasPrivilegedAccess()) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const { data: cancelled, error } = await registrationsRepo.cancel(registrationId, email.trim())
+
+    if (error) {
+      console.error('📝 Failed to cancel registration:', error)
+      return NextResponse.json(
+        { error: 'Failed to cancel registration. Please try again.' },
+        { status: 500 }
+      )
+    }
+
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: 'No active registration found for that email' },
+        { status: 404 }
+      )
+    }
+
+    console.log('🚫 Registration cancelled:', registrationId)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Registration cancelled'
+    })
+  } catch (error) {
+    console.error('❌ Error cancelling registration:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
+import { findEventOccurrence, parseRRule } from '@/lib/event-recurrence'
+import { contactsRepo, DEFAULT_TENANT_ID, eventsRepo, registrationsRepo, type RegistrationStatus } from '@/lib/repositories'
+import { hasPrivilegedAccess } from '@/lib/supabase-admin'
+import { getConfiguredTimezone } from '@/lib/timezone-utils'
 
 interface RegistrationRequest {
   eventId: string
+  // Scheduled start of the occurrence, for recurring events
+  occurrenceStart?: string
   firstName: string
   lastName: string
   email: string
@@ -10,14 +15,25 @@ interface RegistrationRequest {
   specialRequests?: string
 }
 
-// Default tenant ID from migrations - this is set up in the database
-const DEFAULT_TENANT_ID = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11'
+// Postgres unique_violation: the contact registered in a concurrent request
+const UNIQUE_VIOLATION = '23505'
+
+function alreadyRegisteredResponse(status: string | null | undefined) {
+  return NextResponse.json(
+    {
+      error: status === 'waitlisted'
+        ? 'You are already on the waitlist for this event'
+        : 'You are already registered for this event'
+    },
+    { status: 400 }
+  )
+}
 
 export async function POST(request: NextRequest) {
   try {
     const body: RegistrationRequest = await request.json()
     
-    const { eventId, firstName, lastName, email, phone, specialRequests } = body
+    const { eventId, occurrenceStart, firstName, lastName, email, phone, specialRequests } = body
 
     // Validate required fields
     if (!eventId || !firstName || !lastName || !email) {
@@ -27,47 +43,24 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Check if Supabase is configured
-    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+    // Check if Supabase is configured. Registering needs the service role (see
+    // add_event_waitlist.sql).
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || !hasPrivilegedAccess()) {
       return NextResponse.json(
         { error: 'Database not configured' },
         { status: 500 }
       )
     }
 
-    // Use service role key if available to bypass RLS policies since the anon access isn't working
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
-    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_SERVICE_ROLE_KEY
-    const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
-
-    let supabase
-    if (supabaseServiceKey) {
-      // Use service role to bypass RLS
-      supabase = createClient(supabaseUrl, supabaseServiceKey, {
-        auth: {
-          autoRefreshToken: false,
-          persistSession: false
-        }
-      })
-      console.log('🔑 Using service role for registration')
-    } else {
-      // Fallback to anon key
-      supabase = createClient(supabaseUrl, supabaseAnonKey)
-      console.log('🔑 Using anon key for registration')
-    }
-
     console.log('📝 Processing event registration:', {
       eventId,
+      occurrenceStart,
       email,
       name: `${firstName} ${lastName}`
     })
 
     // First, check if the event exists
-    const { data: event, error: eventError } = await supabase
-      .from('events')
-      .select('id, name, capacity')
-      .eq('id', eventId)
-      .single()
+    const { data: event, error: eventError } = await eventsRepo.findById(eventId)
 
     if (eventError || !event) {
       console.error('🔍 Event not found:', eventId)
@@ -77,49 +70,49 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Check if there's capacity (if event has capacity limit)
-    if (event.capacity) {
-      const { count: registrationCount } = await supabase
-        .from('registrations')
-        .select('*', { count: 'exact', head: true })
-        .eq('event_id', eventId)
-        .eq('status', 'confirmed')
-
-      if (registrationCount && registrationCount >= event.capacity) {
+    // Registration for a recurring event is for one of its occurrences
+    let occurrence = null
+    if (parseRRule(event.rrule)) {
+      if (!occurrenceStart) {
         return NextResponse.json(
-          { error: 'Event is full. Registration capacity reached.' },
+          { error: 'Missing required field for a recurring event: occurrenceStart' },
           { status: 400 }
         )
       }
+
+      const { data: overrides } = await eventsRepo.listOccurrenceOverrides(eventId)
+      occurrence = findEventOccurrence(event, overrides || [], await getConfiguredTimezone(), occurrenceStart)
+
+      if (!occurrence) {
+        console.error('🔍 Event occurrence not found:', eventId, occurrenceStart)
+        return NextResponse.json(
+          { error: 'Event occurrence not found' },
+          { status: 404 }
+        )
+      }
     }
 
+    const occurrenceKey = occurrence?.occurrence_start ?? null
+
     // Find or create contact
     let contactId: string | null = null
     
     // Try to find existing contact by email
-    const { data: existingContact, error: contactError } = await supabase
-      .from('contacts')
-      .select('id')
-      .eq('email', email)
-      .single()
+    const { data: existingContact, error: contactError } = await contactsRepo.findByEmail(email)
 
     if (existingContact) {
       contactId = existingContact.id
       console.log('👤 Found existing contact:', contactId)
     } else {
       // Create new contact with default tenant_id
-      const { data: newContact, error: createContactError } = await supabase
-        .from('contacts')
-        .insert({
-          first_name: firstName,
-          last_name: lastName,
-          email: email,
-          phone: phone || null,
-          tenant_id: DEFAULT_TENANT_ID, // Add the default tenant_id
-          lifecycle: 'registered' // Mark as registered since they're registering for an event
-        })
-        .select('id')
-        .single()
+      const { data: newContact, error: createContactError } = await contactsRepo.create({
+        first_name: firstName,
+        last_name: lastName,
+        email: email,
+        phone: phone || null,
+        tenant_id: DEFAULT_TENANT_ID, // Add the default tenant_id
+        lifecycle: 'registered' // Mark as registered since they're registering for an event
+      })
 
       if (createContactError) {
         console.error('🚫 Failed to create contact:', createContactError)
@@ -141,60 +134,54 @@ export async function POST(request: NextRequest) {
       console.log('👤 Created new contact:', contactId)
     }
 
-    // Check if already registered
-    const { data: existingRegistration } = await supabase
-      .from('registrations')
-      .select('id')
-      .eq('event_id', eventId)
-      .eq('contact_id', contactId)
-      .single()
+    // Check if already registered or waitlisted
+    const { data: existingRegistration } = await registrationsRepo.find(eventId, contactId, occurrenceKey)
 
     if (existingRegistration) {
-      return NextResponse.json(
-        { error: 'You are already registered for this event' },
-        { status: 400 }
-      )
-    }
-
-    // Create registration record
-    const registrationData = {
-      event_id: eventId,
-      contact_id: contactId,
-      status: 'confirmed'
+      return alreadyRegisteredResponse(existingRegistration.status)
     }
 
-    console.log('📝 Creating registration with data:', registrationData)
+    // Confirmed while there are places, waitlisted once the event is full
+    const { data: registration, error: registrationError } = await registrationsRepo.register(eventId, contactId, occurrenceKey)
 
-    const { data: registration, error: registrationError } = await supabase
-      .from('registrations')
-      .insert(registrationData)
-      .select('id')
-      .single()
+    if (registrationError?.code === UNIQUE_VIOLATION) {
+      const { data: concurrentRegistration } = await registrationsRepo.find(eventId, contactId, occurrenceKey)
+      return alreadyRegisteredResponse(concurrentRegistration?.status)
+    }
 
-    if (registrationError) {
+    if (registrationError || !registration) {
       console.error('📝 Failed to create registration:', registrationError)
-      console.error('📝 Registration data was:', registrationData)
+      console.error('📝 Registration was for:', { eventId, contactId, occurrenceStart: occurrenceKey })
       return NextResponse.json(
-        { error: 'Failed to create registration. Please try again.', details: registrationError.message },
+        { error: 'Failed to create registration. Please try again.', details: registrationError?.message },
         { status: 500 }
       )
     }
 
-    console.log('✅ Registration successful:', {
+    const status = registration.status as RegistrationStatus
+    const waitlisted = status === 'waitlisted'
+
+    console.log(waitlisted ? '⏳ Added to waitlist:' : '✅ Registration successful:', {
       registrationId: registration.id,
       eventName: event.name,
-      contact: `${firstName} ${lastName}`
+      occurrenceStart: occurrenceKey,
+      contact: `${firstName} ${lastName}`,
+      waitlistPosition: registration.waitlist_position
     })
 
     return NextResponse.json({
       success: true,
-      message: 'Registration successful',
+      message: waitlisted ? 'Added to the waitlist' : 'Registration successful',
       registration: {
         id: registration.id,
         eventId,
-        eventName: event.name,
+        occurrenceStart: occurrenceKey,
+        eventDate: occurrence?.event_date ?? event.event_date,
+        eventName: occurrence?.override?.name || event.name,
         contactId,
-        status: 'confirmed'
+        status,
+        // 1 for the next person to get a place; null unless waitlisted
+        waitlistPosition: registration.waitlist_position
       }
     })
 
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server'
-import { createServerSupabaseClient } from '@/lib/supabase'
+import { pageHeroShape, readSectionProps } from '@/lib/page-section-props'
+import { pagesRepo } from '@/lib/repositories'
 
 // Default gallery page content
 const defaultGalleryPage = {
@@ -45,26 +46,10 @@ export async function GET() {
       })
     }
 
-    let supabase
-    try {
-      supabase = createServerSupabaseClient()
-    } catch (error) {
-      console.log('🔄 GALLERY PAGE SOURCE: DEFAULT (Supabase client creation failed)')
-      return NextResponse.json({ 
-        galleryPage: defaultGalleryPage,
-        source: 'default',
-        message: 'Using default gallery page content - Supabase client failed'
-      })
-    }
-
     console.log('🔍 Attempting to fetch gallery page from database...')
     
     // Fetch page and sections separately to avoid reserved keyword issues
-    const { data: page, error: pageError } = await supabase
-      .from('pages')
-      .select('*')
-      .eq('slug', 'gallery')
-      .single()
+    const { data: page, error: pageError } = await pagesRepo.getBySlug('gallery', { publishedOnly: false })
 
     if (pageError) {
       console.error('📊 Gallery page database error:', pageError.message)
@@ -77,11 +62,7 @@ export async function GET() {
     }
 
     // Fetch sections separately
-    const { data: sections, error: sectionsError } = await supabase
-      .from('page_sections')
-      .select('*')
-      .eq('page_id', page.id)
-      .order('order', { ascending: true })
+    const { data: sections, error: sectionsError } = await pagesRepo.listSections(page.id)
 
     if (sectionsError) {
       console.error('📊 Gallery page sections error:', sectionsError.message)
@@ -105,11 +86,12 @@ export async function GET() {
 
     sections?.forEach(section => {
       if (section.type === 'hero') {
+        const props = readSectionProps(section.type, pageHeroShape, section.props)
         galleryPage.hero = {
           ...galleryPage.hero,
           ...section.props,
           // Support both backgroundImage and backgroundMedia properties
-          backgroundImage: section.props.backgroundImage || section.props.backgroundMedia?.url || galleryPage.hero.backgroundImage
+          backgroundImage: props.backgroundImage || props.backgroundMedia?.url || galleryPage.hero.backgroundImage
         }
       } else if (section.type === 'photo_galleries') {
         galleryPage.photo_galleries = {
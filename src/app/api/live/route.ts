@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { getLiveStream, getServiceSermon } from '@/lib/content'
+import { liveState } from '@/lib/live-schedule'
+
+// Clients recompute the live state from the schedule every second; polling
+// only picks up schedule changes and newly published recordings
+const LIVE_CACHE_SECONDS = 60
+
+export async function GET() {
+  const content = await getLiveStream()
+  const { live } = content
+  const state = liveState(live.schedule, live.timeZone, new Date())
+
+  // After a service, point at its recording once it is published
+  const sermon = state.status === 'ended' && state.current
+    ? await getServiceSermon(state.current.date)
+    : null
+
+  return NextResponse.json({ ...content, state, sermon }, {
+    headers: { 'Cache-Control': `public, s-maxage=${LIVE_CACHE_SECONDS}, stale-while-revalidate=${LIVE_CACHE_SECONDS}` }
+  })
+}
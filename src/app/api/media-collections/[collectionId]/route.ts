@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerSupabaseClient } from '@/lib/supabase'
+import { mediaRepo } from '@/lib/repositories'
 
 interface MediaItem {
   id: string
@@ -20,8 +20,6 @@ export async function GET(
   try {
     const { collectionId } = params
     
-    const supabase = createServerSupabaseClient()
-
     // Try multiple collection name formats to find a match
     const possibleNames = [
       collectionId,
@@ -33,11 +31,7 @@ export async function GET(
     ]
 
     // Query to find collections with the correct field names
-    const { data: mediaItems, error } = await supabase
-      .from('media_library')
-      .select('id, collection_name, collection_category, collection_date, description, type, url, uploaded_at, alt_text')
-      .in('collection_name', possibleNames)
-      .order('uploaded_at', { ascending: true })
+    const { data: mediaItems, error } = await mediaRepo.listCollection(possibleNames)
 
     if (error) {
       console.error('Error fetching collection media:', error)
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerSupabaseClient } from '@/lib/supabase'
+import { mediaRepo } from '@/lib/repositories'
 
 interface MediaItem {
   collection_name: string
@@ -17,28 +17,10 @@ export async function GET(request: NextRequest) {
     const type = searchParams.get('type') // 'image', 'video', 'mixed'
     const limit = parseInt(searchParams.get('limit') || '20')
 
-    const supabase = createServerSupabaseClient()
-
-    // Base query to get collections grouped by collection_name
-    let query = supabase
-      .from('media_library')
-      .select(`
-        collection_name,
-        collection_category,
-        collection_date,
-        description,
-        type,
-        url,
-        uploaded_at
-      `)
-      .filter('collection_name', 'not.is', null)
-
-    // Filter by media type
-    if (type && type !== 'mixed') {
-      query = query.eq('type', type)
-    }
-
-    const { data: mediaData, error } = await query
+    // Items that belong to a collection, filtered by media type unless 'mixed'
+    const { data: mediaData, error } = await mediaRepo.listCollectionItems({
+      type: type && type !== 'mixed' ? type : null
+    })
     
     if (error) {
       console.error('Error fetching media collections:', error)
@@ -63,7 +45,10 @@ export async function GET(request: NextRequest) {
     // Group media by collection_name
     const collectionsMap = new Map()
 
-    mediaData.forEach((item: MediaItem) => {
+    // collection_name is never null here, the query filters those out
+    const collectionItems = mediaData as MediaItem[]
+
+    collectionItems.forEach(item => {
       const collectionName = item.collection_name
       
       if (!collectionsMap.has(collectionName)) {
@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { MEMBER_COOKIE, MEMBER_FLAG_COOKIE } from '@/lib/member'
+import { safeRedirectPath } from '@/lib/preview'
+
+// Forget the member on this browser; progress stays on the server
+export async function GET(request: NextRequest) {
+  const redirectPath = safeRedirectPath(request.nextUrl.searchParams.get('redirect'))
+
+  const response = NextResponse.redirect(new URL(redirectPath, request.url))
+  response.cookies.delete(MEMBER_COOKIE)
+  response.cookies.delete(MEMBER_FLAG_COOKIE)
+
+  return response
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { MEMBER_COOKIE, MEMBER_FLAG_COOKIE, verifyMemberToken } from '@/lib/member'
+import { safeRedirectPath } from '@/lib/preview'
+
+// Identify this browser as a member: /api/member?token=<signed token>&redirect=/media/sermons
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token')
+  const payload = verifyMemberToken(token)
+
+  if (!token || !payload) {
+    console.log('❌ Member link rejected: invalid or expired token')
+    return NextResponse.json(
+      { error: 'Invalid or expired member link' },
+      { status: 401 }
+    )
+  }
+
+  const redirectPath = safeRedirectPath(request.nextUrl.searchParams.get('redirect'))
+  const maxAge = Math.max(0, payload.exp - Math.floor(Date.now() / 1000))
+
+  const response = NextResponse.redirect(new URL(redirectPath, request.url))
+  response.cookies.set(MEMBER_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge
+  })
+  response.cookies.set(MEMBER_FLAG_COOKIE, '1', {
+    sameSite: 'lax',
+    path: '/',
+    maxAge
+  })
+
+  console.log(`✅ Member link accepted, redirecting to ${redirectPath}`)
+  return response
+}
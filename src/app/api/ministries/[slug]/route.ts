@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerSupabaseClient } from '@/lib/supabase'
+import { ministriesRepo } from '@/lib/repositories'
 
 // Utility function to generate slug from name
 function generateSlug(name: string): string {
@@ -22,40 +22,10 @@ export async function GET(
       return NextResponse.json({ error: 'Slug is required' }, { status: 400 })
     }
 
-    const supabase = createServerSupabaseClient()
-
     // First, try to find in get_involved_templates
     console.log('🔍 Looking for ministry with slug:', slug)
     
-    const { data: getInvolvedTemplates, error: getInvolvedError } = await supabase
-      .from('get_involved_templates')
-      .select(`
-        id,
-        title,
-        description,
-        excerpt,
-        featured_image,
-        icon_emoji,
-        gradient_colors,
-        category,
-        requirements,
-        benefits,
-        time_commitment,
-        contact_person,
-        contact_email,
-        contact_phone,
-        custom_cta_text,
-        custom_cta_url,
-        priority_order,
-        ministry_group_id,
-        ministry_group:groups!ministry_group_id(
-          id,
-          name,
-          type,
-          image_url
-        )
-      `)
-      .eq('status', 'published')
+    const { data: getInvolvedTemplates, error: getInvolvedError } = await ministriesRepo.listTemplates()
 
     if (!getInvolvedError && getInvolvedTemplates) {
       // Find template by slug match
@@ -79,18 +49,7 @@ export async function GET(
     // If not found in get_involved_templates, try groups table
     console.log('🔄 Not found in get_involved_templates, trying groups table...')
     
-    const { data: groups, error: groupsError } = await supabase
-      .from('groups')
-      .select(`
-        id,
-        name,
-        description,
-        type,
-        status,
-        image_url,
-        created_at
-      `)
-      .eq('status', 'active')
+    const { data: groups, error: groupsError } = await ministriesRepo.listActiveGroups()
 
     if (!groupsError && groups) {
       // Find group by slug match
@@ -146,7 +105,7 @@ export async function GET(
 }
 
 // Helper functions
-function getGroupIcon(name: string, type: string): string {
+function getGroupIcon(name: string, type: string | null): string {
   const nameLower = name.toLowerCase()
   if (nameLower.includes('prayer')) return '🙏'
   if (nameLower.includes('worship')) return '🎵'
@@ -168,7 +127,7 @@ function getGroupGradient(name: string): { from: string; to: string } {
   return { from: 'blue-800', to: 'indigo-900' }
 }
 
-function getDefaultRequirements(type: string): string[] {
+function getDefaultRequirements(type: string | null): string[] {
   switch (type) {
     case 'ministry':
       return [
@@ -198,7 +157,7 @@ function getDefaultRequirements(type: string): string[] {
   }
 }
 
-function getDefaultBenefits(type: string): string[] {
+function getDefaultBenefits(type: string | null): string[] {
   switch (type) {
     case 'ministry':
       return [
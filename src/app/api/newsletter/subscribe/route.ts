@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerSupabaseClient } from '@/lib/supabase'
+import { newsletterRepo } from '@/lib/repositories'
 
 // Simple email validation function
 function isValidEmail(email: string): boolean {
@@ -34,15 +34,8 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Create Supabase client
-    const supabase = createServerSupabaseClient()
-
     // Check if email already exists
-    const { data: existingSubscriber, error: checkError } = await supabase
-      .from('newsletter_subscribers')
-      .select('id, status, first_name, last_name')
-      .eq('email', email.toLowerCase())
-      .single()
+    const { data: existingSubscriber, error: checkError } = await newsletterRepo.findByEmail(email)
 
     if (checkError && checkError.code !== 'PGRST116') {
       // PGRST116 = no rows returned, which is fine for new subscribers
@@ -61,16 +54,13 @@ export async function POST(request: NextRequest) {
         )
       } else if (existingSubscriber.status === 'unsubscribed') {
         // Reactivate subscription and update name if provided
-        const { error: updateError } = await supabase
-          .from('newsletter_subscribers')
-          .update({
-            status: 'active',
-            first_name: firstName,
-            last_name: lastName || null,
-            subscribed_at: new Date().toISOString(),
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', existingSubscriber.id)
+        const { error: updateError } = await newsletterRepo.update(existingSubscriber.id, {
+          status: 'active',
+          first_name: firstName,
+          last_name: lastName || null,
+          subscribed_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        })
 
         if (updateError) {
           console.error('Error reactivating subscription:', updateError)
@@ -88,18 +78,16 @@ export async function POST(request: NextRequest) {
     }
 
     // Create new subscription
-    const { error: insertError } = await supabase
-      .from('newsletter_subscribers')
-      .insert({
-        email: email.toLowerCase(),
-        first_name: firstName,
-        last_name: lastName || null,
-        status: 'active',
-        subscription_source: 'website',
-        subscribed_at: new Date().toISOString(),
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      })
+    const { error: insertError } = await newsletterRepo.subscribe({
+      email: email.toLowerCase(),
+      first_name: firstName,
+      last_name: lastName || null,
+      status: 'active',
+      subscription_source: 'website',
+      subscribed_at: new Date().toISOString(),
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    })
 
     if (insertError) {
       console.error('Error creating subscription:', insertError)
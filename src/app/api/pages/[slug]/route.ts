@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCmsPage } from '@/lib/cms-pages'
+import { isPreviewRequest } from '@/lib/preview'
+import { publishWindowCacheControl } from '@/lib/publish-window'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params
+    console.log(`🔍 Fetching CMS page with slug: ${slug}`)
+
+    const preview = isPreviewRequest(request)
+    const now = new Date()
+    const content = await getCmsPage(slug, { preview })
+
+    if (!content) {
+      return NextResponse.json(
+        { error: 'Page not found' },
+        { status: 404 }
+      )
+    }
+
+    console.log(`✅ Successfully fetched page "${content.page.slug}" with ${content.sections.length} sections`)
+    return NextResponse.json({
+      page: content.page,
+      sections: content.sections,
+      source: 'database',
+      preview
+    }, {
+      headers: { 'Cache-Control': publishWindowCacheControl(content.nextChangeAt, { now, preview }) }
+    })
+
+  } catch (error) {
+    console.error('❌ Error in pages API:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch page' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerSupabaseClient } from '@/lib/supabase'
+import { contactsRepo, DEFAULT_TENANT_ID, plannedVisitsRepo } from '@/lib/repositories'
 
 interface PlannedVisitFormData {
   // Personal Information
@@ -42,19 +42,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const supabase = createServerSupabaseClient()
-
     // Step 1: Create or find contact
     let contactId: string | null = null
     
     console.log('🔍 Checking for existing contact with email:', formData.email)
     
     // First, check if contact already exists by email
-    const { data: existingContact, error: searchError } = await supabase
-      .from('contacts')
-      .select('id')
-      .eq('email', formData.email)
-      .single()
+    const { data: existingContact, error: searchError } = await contactsRepo.findByEmail(formData.email)
 
     if (searchError && searchError.code !== 'PGRST116') {
       // PGRST116 is "not found" error, which is expected
@@ -68,19 +62,15 @@ export async function POST(request: NextRequest) {
     } else {
       console.log('➕ Creating new contact...')
       // Create new contact - using minimal required fields
-      const { data: newContact, error: contactError } = await supabase
-        .from('contacts')
-        .insert({
-          first_name: formData.firstName,
-          last_name: formData.lastName,
-          email: formData.email,
-          phone: formData.phone || null,
-          tenant_id: 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11', // Default tenant from migrations
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        })
-        .select('id')
-        .single()
+      const { data: newContact, error: contactError } = await contactsRepo.create({
+        first_name: formData.firstName,
+        last_name: formData.lastName,
+        email: formData.email,
+        phone: formData.phone || null,
+        tenant_id: DEFAULT_TENANT_ID,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
 
       if (contactError) {
         console.error('❌ Error creating contact:', contactError)
@@ -113,27 +103,23 @@ export async function POST(request: NextRequest) {
     })
 
     // Step 4: Create planned visit
-    const { data: plannedVisit, error: visitError } = await supabase
-      .from('planned_visits')
-      .insert({
-        contact_id: contactId,
-        event_name: eventName,
-        event_date: eventDateTime.toISOString(),
-        event_time: formData.preferredTime || '10:00',
-        interest_level: 'interested',
-        how_heard_about_us: formData.howHeardAboutUs || null,
-        coming_with_others: formData.groupSize > 1,
-        companions_count: Math.max(0, formData.groupSize - 1),
-        companions_details: formData.groupSize > 1 ? `Group of ${formData.groupSize} people` : null,
-        special_needs: formData.specialNeeds || null,
-        contact_preference: 'email',
-        notes: formData.additionalNotes || null,
-        status: 'pending',
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      })
-      .select('id')
-      .single()
+    const { data: plannedVisit, error: visitError } = await plannedVisitsRepo.create({
+      contact_id: contactId,
+      event_name: eventName,
+      event_date: eventDateTime.toISOString(),
+      event_time: formData.preferredTime || '10:00',
+      interest_level: 'interested',
+      how_heard_about_us: formData.howHeardAboutUs || null,
+      coming_with_others: formData.groupSize > 1,
+      companions_count: Math.max(0, formData.groupSize - 1),
+      companions_details: formData.groupSize > 1 ? `Group of ${formData.groupSize} people` : null,
+      special_needs: formData.specialNeeds || null,
+      contact_preference: 'email',
+      notes: formData.additionalNotes || null,
+      status: 'pending',
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    })
 
     if (visitError) {
       console.error('❌ Error creating planned visit:', visitError)
@@ -0,0 +1,17 @@
+import { draftMode } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+import { PREVIEW_COOKIE, PREVIEW_FLAG_COOKIE, safeRedirectPath } from '@/lib/preview'
+
+// Leave preview mode and return to the page the editor was viewing
+export async function GET(request: NextRequest) {
+  const redirectPath = safeRedirectPath(request.nextUrl.searchParams.get('redirect'))
+
+  const draft = await draftMode()
+  draft.disable()
+
+  const response = NextResponse.redirect(new URL(redirectPath, request.url))
+  response.cookies.delete(PREVIEW_COOKIE)
+  response.cookies.delete(PREVIEW_FLAG_COOKIE)
+
+  return response
+}
@@ -0,0 +1,41 @@
+import { draftMode } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+import { PREVIEW_COOKIE, PREVIEW_FLAG_COOKIE, safeRedirectPath, verifyPreviewToken } from '@/lib/preview'
+
+// Enter preview mode: /api/preview?token=<signed token>&redirect=/easter
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token')
+  const payload = verifyPreviewToken(token)
+
+  if (!token || !payload) {
+    console.log('❌ Preview rejected: invalid or expired token')
+    return NextResponse.json(
+      { error: 'Invalid or expired preview token' },
+      { status: 401 }
+    )
+  }
+
+  const redirectPath = safeRedirectPath(request.nextUrl.searchParams.get('redirect'))
+  const maxAge = Math.max(0, payload.exp - Math.floor(Date.now() / 1000))
+
+  // Draft mode makes statically rendered pages render per request again
+  const draft = await draftMode()
+  draft.enable()
+
+  const response = NextResponse.redirect(new URL(redirectPath, request.url))
+  response.cookies.set(PREVIEW_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge
+  })
+  response.cookies.set(PREVIEW_FLAG_COOKIE, '1', {
+    sameSite: 'lax',
+    path: '/',
+    maxAge
+  })
+
+  console.log(`👀 Preview mode enabled, redirecting to ${redirectPath}`)
+  return response
+}
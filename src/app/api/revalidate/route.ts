@@ -0,0 +1,68 @@
+import { revalidatePath, revalidateTag } from 'next/cache'
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  REVALIDATE_SIGNATURE_HEADER,
+  isRevalidatableTable,
+  mergeRevalidationPlans,
+  planRevalidation,
+  updateDerivedContent,
+  verifyRevalidationSignature,
+  type ContentChange,
+  type RevalidationPlan
+} from '@/lib/revalidation'
+
+function revalidate({ tags, paths }: RevalidationPlan) {
+  tags.forEach(tag => revalidateTag(tag))
+  paths.forEach(({ path, type }) => revalidatePath(path, type))
+}
+
+/**
+ * Change notifications from the admin app (or a Supabase database webhook):
+ * a single { type, table, record, old_record } change or { changes: [...] }.
+ * The raw body must be signed with REVALIDATE_SECRET.
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.text()
+
+  if (!verifyRevalidationSignature(body, request.headers.get(REVALIDATE_SIGNATURE_HEADER))) {
+    console.log('❌ Revalidation rejected: invalid signature')
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 })
+  }
+
+  let changes: unknown[]
+  try {
+    const payload = JSON.parse(body)
+    changes = Array.isArray(payload?.changes) ? payload.changes : [payload]
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const unsupported = changes.filter(change => !isRevalidatableTable((change as ContentChange | null)?.table))
+  if (changes.length === 0 || unsupported.length > 0) {
+    return NextResponse.json(
+      { error: 'Each change needs a supported table', unsupported },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const plans = await Promise.all((changes as ContentChange[]).map(planRevalidation))
+    revalidate(mergeRevalidationPlans(plans))
+
+    // Derived data is rebuilt once the changes themselves are invalidated, so
+    // a failure there can't hold them up; what it rebuilt is invalidated after
+    const derivedPlans: RevalidationPlan[] = []
+    for (const change of changes as ContentChange[]) {
+      derivedPlans.push(await updateDerivedContent(change))
+    }
+    revalidate(mergeRevalidationPlans(derivedPlans))
+
+    const { tags, paths } = mergeRevalidationPlans([...plans, ...derivedPlans])
+
+    console.log(`♻️ Revalidated ${tags.length} tags and ${paths.length} paths for ${changes.length} change(s)`)
+    return NextResponse.json({ revalidated: true, tags, paths: paths.map(({ path }) => path) })
+  } catch (error) {
+    console.error('❌ Revalidation error:', error)
+    return NextResponse.json({ error: 'Revalidation failed' }, { status: 500 })
+  }
+}
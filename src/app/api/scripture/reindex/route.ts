@@ -0,0 +1,31 @@
+import { revalidateTag } from 'next/cache'
+import { NextRequest, NextResponse } from 'next/server'
+import { CACHE_TAGS } from '@/lib/cache-tags'
+import { REVALIDATE_SIGNATURE_HEADER, verifyRevalidationSignature } from '@/lib/revalidation'
+import { reindexAllScripture } from '@/lib/scripture-index'
+
+/**
+ * Rebuild the scripture passage index from every sermon and blog post, e.g.
+ * after importing content. Signed like /api/revalidate (any body, usually {}).
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.text()
+
+  if (!verifyRevalidationSignature(body, request.headers.get(REVALIDATE_SIGNATURE_HEADER))) {
+    console.log('❌ Scripture reindex rejected: invalid signature')
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 })
+  }
+
+  try {
+    const indexed = await reindexAllScripture()
+    revalidateTag(CACHE_TAGS.sermons)
+    revalidateTag(CACHE_TAGS.blogs)
+    revalidateTag(CACHE_TAGS.scripture)
+
+    console.log(`📖 Reindexed scripture for ${indexed.sermon} sermons and ${indexed.blog} blog posts`)
+    return NextResponse.json({ indexed })
+  } catch (error) {
+    console.error('❌ Scripture reindex error:', error)
+    return NextResponse.json({ error: 'Failed to rebuild scripture index' }, { status: 500 })
+  }
+}
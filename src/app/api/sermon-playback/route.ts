@@ -0,0 +1,52 @@
+import { createHash } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  isPlaybackEvent,
+  isPlaybackMedia,
+  isPlaybackSessionId,
+  isTrackableSermonId
+} from '@/lib/playback-events'
+import { playbackRepo } from '@/lib/repositories'
+import { isSupabaseConfigured } from '@/lib/supabase'
+import { hasPrivilegedAccess } from '@/lib/supabase-admin'
+
+// What the database throttles playback events by: a hash of the client's
+// address, kept only for the current hour (see add_sermon_playback_events.sql)
+function sourceHash(request: NextRequest): string {
+  const address = request.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+    request.headers.get('x-real-ip') ||
+    'unknown'
+  return createHash('sha256').update(address).digest('hex')
+}
+
+// Anonymous playback milestones from the sermon players. Only the sermon, a
+// random session id, the milestone and the media type are kept; repeats from
+// the same session, and bursts from one address, are ignored by the database.
+export async function POST(request: NextRequest) {
+  let body: Record<string, unknown>
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const { sermonId, sessionId, event, media } = body ?? {}
+
+  if (!isTrackableSermonId(sermonId) || !isPlaybackSessionId(sessionId) || !isPlaybackEvent(event) || !isPlaybackMedia(media)) {
+    return NextResponse.json({ error: 'Invalid playback event' }, { status: 400 })
+  }
+
+  // Default content has nothing to count, and recording needs the service role
+  if (!isSupabaseConfigured() || !hasPrivilegedAccess()) {
+    return NextResponse.json({ recorded: false })
+  }
+
+  const { data: recorded, error } = await playbackRepo.record(sermonId, sessionId, event, media, sourceHash(request))
+
+  if (error) {
+    console.error('❌ Error recording playback event:', error)
+    return NextResponse.json({ error: 'Failed to record playback event' }, { status: 500 })
+  }
+
+  return NextResponse.json({ recorded: recorded === true })
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { Tables } from '@/lib/database.types'
+import { getRequestMemberId } from '@/lib/member'
+import { isTrackableSermonId } from '@/lib/playback-events'
+import { progressRepo, sermonsRepo } from '@/lib/repositories'
+import {
+  MAX_PROGRESS_ENTRIES,
+  isSermonProgressEntry,
+  mergeProgress,
+  type SermonProgressEntry,
+  type SermonProgressMap
+} from '@/lib/sermon-progress'
+import { isSupabaseConfigured } from '@/lib/supabase'
+
+function toEntry(row: Tables<'sermon_progress'>): SermonProgressEntry {
+  return {
+    sermonId: row.sermon_id,
+    position: Number(row.position_seconds),
+    duration: row.duration_seconds === null ? null : Number(row.duration_seconds),
+    completed: row.completed,
+    // Normalised so timestamps compare as strings with the browser's
+    updatedAt: new Date(row.updated_at).toISOString()
+  }
+}
+
+function toMap(entries: SermonProgressEntry[]): SermonProgressMap {
+  return Object.fromEntries(entries.map(entry => [entry.sermonId, entry]))
+}
+
+async function loadProgress(contactId: string) {
+  const { data, error } = await progressRepo.listForContact(contactId, MAX_PROGRESS_ENTRIES)
+  return { entries: (data || []).map(toEntry), error }
+}
+
+// The member's saved playback positions. Anonymous visitors keep theirs in the
+// browser, so they get a 401.
+export async function GET(request: NextRequest) {
+  const contactId = getRequestMemberId(request)
+  if (!contactId) {
+    return NextResponse.json({ error: 'Not a member session' }, { status: 401 })
+  }
+
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json({ progress: [] })
+  }
+
+  const { entries, error } = await loadProgress(contactId)
+  if (error) {
+    console.error('❌ Error loading sermon progress:', error)
+    return NextResponse.json({ error: 'Failed to load progress' }, { status: 500 })
+  }
+
+  return NextResponse.json({ progress: entries }, { headers: { 'Cache-Control': 'private, no-store' } })
+}
+
+// Save playback positions: { entries: SermonProgressEntry[] }. Entries older
+// than what is already saved are ignored, so a stale device cannot rewind
+// progress made elsewhere.
+export async function POST(request: NextRequest) {
+  const contactId = getRequestMemberId(request)
+  if (!contactId) {
+    return NextResponse.json({ error: 'Not a member session' }, { status: 401 })
+  }
+
+  let body: { entries?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const entries = Array.isArray(body?.entries) ? body.entries : null
+  if (!entries || entries.length > MAX_PROGRESS_ENTRIES || !entries.every(isSermonProgressEntry)) {
+    return NextResponse.json({ error: 'Invalid progress entries' }, { status: 400 })
+  }
+
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json({ saved: 0 })
+  }
+
+  // Default sermons and sermons that were since removed are not saved
+  const candidateIds = entries.map(entry => entry.sermonId).filter(isTrackableSermonId)
+  if (candidateIds.length === 0) {
+    return NextResponse.json({ saved: 0 })
+  }
+
+  const { data: sermons, error: sermonsError } = await sermonsRepo.listPublishedByIds(candidateIds)
+  if (sermonsError) {
+    console.error('❌ Error checking sermons for progress:', sermonsError)
+    return NextResponse.json({ error: 'Failed to save progress' }, { status: 500 })
+  }
+  const knownIds = new Set((sermons || []).map(sermon => sermon.id))
+
+  const { entries: saved, error: loadError } = await loadProgress(contactId)
+  if (loadError) {
+    console.error('❌ Error loading sermon progress:', loadError)
+    return NextResponse.json({ error: 'Failed to save progress' }, { status: 500 })
+  }
+
+  const current = toMap(saved)
+  const merged = mergeProgress(current, toMap(entries.filter(entry => knownIds.has(entry.sermonId))))
+  const changed = Object.values(merged).filter(entry => {
+    const before = current[entry.sermonId]
+    return !before || before.updatedAt !== entry.updatedAt || before.completed !== entry.completed
+  })
+
+  if (changed.length === 0) {
+    return NextResponse.json({ saved: 0 })
+  }
+
+  const { error } = await progressRepo.upsert(changed.map(entry => ({
+    contact_id: contactId,
+    sermon_id: entry.sermonId,
+    position_seconds: entry.position,
+    duration_seconds: entry.duration,
+    completed: entry.completed,
+    updated_at: entry.updatedAt
+  })))
+
+  if (error) {
+    console.error('❌ Error saving sermon progress:', error)
+    return NextResponse.json({ error: 'Failed to save progress' }, { status: 500 })
+  }
+
+  return NextResponse.json({ saved: changed.length })
+}
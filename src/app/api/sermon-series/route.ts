@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server'
+import { getSermonSeriesList } from '@/lib/content'
+
+export async function GET() {
+  const content = await getSermonSeriesList()
+  return NextResponse.json(content)
+}
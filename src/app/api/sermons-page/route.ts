@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerSupabaseClient } from '@/lib/supabase'
+import { pageHeroShape, readSectionProps } from '@/lib/page-section-props'
+import { pagesRepo } from '@/lib/repositories'
+import { boolean, number, string } from '@/lib/section-schema'
 
 // Define the expected section types for sermons page
 type SermonsSectionType = 'hero' | 'latest_sermons'
@@ -57,18 +59,21 @@ const defaultSermonsPageData: SermonsPageData = {
   }
 }
 
+// Section props as stored, narrowed before use
+const latestSermonsShape = {
+  sectionTitle: string(),
+  sectionHeading: string(),
+  sectionDescription: string(),
+  showFeatured: boolean(),
+  maxSermons: number()
+}
+
 export async function GET(request: NextRequest) {
   try {
     console.log('🔍 Attempting to fetch sermons page from database...')
     
-    const supabase = createServerSupabaseClient()
-
     // First, fetch the sermons page
-    const { data: page, error: pageError } = await supabase
-      .from('pages')
-      .select('id, slug, title, seo_meta, published_at, created_at, updated_at')
-      .eq('slug', 'sermons')
-      .single()
+    const { data: page, error: pageError } = await pagesRepo.getBySlug('sermons', { publishedOnly: false })
 
     if (pageError && pageError.code !== 'PGRST116') {
       console.error('❌ Error fetching sermons page:', pageError)
@@ -85,11 +90,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Then, fetch the sections separately
-    const { data: sections, error: sectionsError } = await supabase
-      .from('page_sections')
-      .select('id, page_id, type, order, props, created_at')
-      .eq('page_id', page.id)
-      .order('order', { ascending: true })
+    const { data: sections, error: sectionsError } = await pagesRepo.listSections(page.id)
 
     if (sectionsError) {
       console.error('❌ Error fetching sermons page sections:', sectionsError)
@@ -120,29 +121,31 @@ export async function GET(request: NextRequest) {
       switch (sectionType) {
         case 'hero':
           if (section.props) {
+            const props = readSectionProps(section.type, pageHeroShape, section.props)
             sermonsPageData.hero = {
-              first_line_text: section.props.first_line_text || defaultSermonsPageData.hero.first_line_text,
-              heading: section.props.heading || defaultSermonsPageData.hero.heading,
-              subheading: section.props.subheading || defaultSermonsPageData.hero.subheading,
-              backgroundImage: section.props.backgroundImage,
-              backgroundMedia: section.props.backgroundMedia ? {
-                url: section.props.backgroundMedia.url,
-                type: section.props.backgroundMedia.type || 'image',
-                alt_text: section.props.backgroundMedia.alt_text
+              first_line_text: props.first_line_text || defaultSermonsPageData.hero.first_line_text,
+              heading: props.heading || defaultSermonsPageData.hero.heading,
+              subheading: props.subheading || defaultSermonsPageData.hero.subheading,
+              backgroundImage: props.backgroundImage,
+              backgroundMedia: props.backgroundMedia ? {
+                url: props.backgroundMedia.url,
+                type: props.backgroundMedia.type,
+                alt_text: props.backgroundMedia.alt_text
               } : undefined,
-              ctaButtons: section.props.ctaButtons || defaultSermonsPageData.hero.ctaButtons
+              ctaButtons: props.ctaButtons || defaultSermonsPageData.hero.ctaButtons
             }
           }
           break
         
         case 'latest_sermons':
           if (section.props) {
+            const props = readSectionProps(section.type, latestSermonsShape, section.props)
             sermonsPageData.latest_sermons = {
-              sectionTitle: section.props.sectionTitle || defaultSermonsPageData.latest_sermons.sectionTitle,
-              sectionHeading: section.props.sectionHeading || defaultSermonsPageData.latest_sermons.sectionHeading,
-              sectionDescription: section.props.sectionDescription || defaultSermonsPageData.latest_sermons.sectionDescription,
-              showFeatured: section.props.showFeatured !== undefined ? section.props.showFeatured : defaultSermonsPageData.latest_sermons.showFeatured,
-              maxSermons: section.props.maxSermons || defaultSermonsPageData.latest_sermons.maxSermons
+              sectionTitle: props.sectionTitle || defaultSermonsPageData.latest_sermons.sectionTitle,
+              sectionHeading: props.sectionHeading || defaultSermonsPageData.latest_sermons.sectionHeading,
+              sectionDescription: props.sectionDescription || defaultSermonsPageData.latest_sermons.sectionDescription,
+              showFeatured: props.showFeatured !== undefined ? props.showFeatured : defaultSermonsPageData.latest_sermons.showFeatured,
+              maxSermons: props.maxSermons || defaultSermonsPageData.latest_sermons.maxSermons
             }
           }
           break
@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerSupabaseClient } from '@/lib/supabase'
+import { defaultSermonDetail } from '@/lib/default-content'
+import { isPreviewRequest } from '@/lib/preview'
+import { isWithinPublishWindow, nextWindowBoundary, publishWindowCacheControl } from '@/lib/publish-window'
+import { sermonsRepo } from '@/lib/repositories'
+import { fetchVideoDetails } from '@/lib/video-details'
+import { sermonVideoSource } from '@/lib/video-providers'
 
 // Utility function to generate slug from title
 function generateSlug(title: string): string {
@@ -26,67 +31,27 @@ export async function GET(
     if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
       console.log('🔄 SERMON DETAIL SOURCE: DEFAULT (Supabase not configured)')
       
-      // Return a default sermon for demo purposes
-      const defaultSermon = {
-        id: 'default-1',
-        title: 'Finding Your Purpose in God\'s Plan',
-        slug: 'finding-purpose-gods-plan',
-        description: 'Discover how God has a unique plan and purpose for your life, and learn practical steps to align your goals with His will. In this powerful message, we explore the depths of God\'s calling on your life and how to walk confidently in His perfect timing.',
-        speaker: 'Pastor Michael Johnson',
-        series: 'Life Purpose',
-        scripture_reference: 'Jeremiah 29:11',
-        sermon_date: '2024-01-21',
-        duration: 45,
-        video_type: 'youtube',
-        video_url: '',
-        youtube_url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
-        youtube_id: 'dQw4w9WgXcQ',
-        audio_url: '',
-        thumbnail_image: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=800&h=600&fit=crop',
-        transcript: '',
-        notes: 'Key Points:\n\n1. God has a unique plan for each person\n2. Trusting in His timing is essential\n3. Prayer and scripture study reveal His will\n4. Community helps us stay accountable\n\nReflection Questions:\n- How can I better align my goals with God\'s will?\n- What steps can I take to trust His timing more fully?',
-        tags: ['purpose', 'calling', 'faith', 'planning', 'trust'],
-        status: 'published',
-        view_count: 245,
-        seo_meta: {},
-        created_at: '2024-01-21T10:00:00Z',
-        updated_at: '2024-01-21T10:00:00Z'
-      }
-      
       return NextResponse.json({
         success: true,
-        sermon: defaultSermon,
+        sermon: defaultSermonDetail,
         source: 'default',
         message: 'Using default sermon - Supabase not configured'
       })
     }
 
-    let supabase
-    try {
-      supabase = createServerSupabaseClient()
-    } catch (error) {
-      console.log('🔄 SERMON DETAIL SOURCE: DEFAULT (Supabase client creation failed)')
-      return NextResponse.json({ error: 'Database connection failed' }, { status: 500 })
-    }
+    // Preview mode also shows drafts
+    const preview = isPreviewRequest(request)
 
     console.log('🔍 Attempting to fetch sermon by slug:', slug)
 
     // First try to find by exact slug match
-    let { data: sermon, error } = await supabase
-      .from('sermons')
-      .select('*')
-      .eq('slug', slug)
-      .eq('status', 'published')
-      .single()
+    let { data: sermon, error } = await sermonsRepo.findBySlug(slug, { preview })
 
     // If not found by slug, try to find by generated slug from title
     if (error && error.code === 'PGRST116') {
       console.log('🔍 Sermon not found by slug, searching by title...')
       
-      const { data: sermons, error: searchError } = await supabase
-        .from('sermons')
-        .select('*')
-        .eq('status', 'published')
+      const { data: sermons, error: searchError } = await sermonsRepo.listVisible({ preview })
 
       if (!searchError && sermons) {
         // Find sermon where generated slug matches the requested slug
@@ -109,7 +74,9 @@ export async function GET(
       return NextResponse.json({ error: 'Failed to fetch sermon' }, { status: 500 })
     }
 
-    if (!sermon) {
+    // Scheduled or expired sermons are hidden outside preview mode
+    const now = new Date()
+    if (!sermon || (!preview && !isWithinPublishWindow(sermon, now))) {
       return NextResponse.json({ error: 'Sermon not found' }, { status: 404 })
     }
 
@@ -122,13 +89,24 @@ export async function GET(
       series: sermon.series
     })
 
+    // Fill in artwork and length from the video provider when the sermon has none
+    const videoDetails = !sermon.thumbnail_image || !sermon.duration
+      ? await fetchVideoDetails(sermonVideoSource(sermon))
+      : null
+
     return NextResponse.json({
       success: true,
       sermon: {
         ...sermon,
+        thumbnail_image: sermon.thumbnail_image || videoDetails?.thumbnailUrl || null,
+        // Stored in minutes
+        duration: sermon.duration || (videoDetails?.durationSeconds ? Math.round(videoDetails.durationSeconds / 60) : null),
         tags: sermon.tags || []
       },
-      source: 'database'
+      source: 'database',
+      preview
+    }, {
+      headers: { 'Cache-Control': publishWindowCacheControl(nextWindowBoundary([sermon], now), { now, preview }) }
     })
 
   } catch (error) {
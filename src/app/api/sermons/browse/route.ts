@@ -1,328 +1,186 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerSupabaseClient } from '@/lib/supabase'
+import { defaultSermons, defaultSermonSeries, defaultSpeakers } from '@/lib/default-content'
+import { seriesRepo, sermonsRepo, speakersRepo } from '@/lib/repositories'
+import { parseScriptureReference, referencesOverlap } from '@/lib/scripture'
+import { normalizeSearchQuery, searchSermons } from '@/lib/sermon-search'
+import { withFallback } from '@/lib/with-fallback'
+
+interface BrowseFilters {
+  page: number
+  limit: number
+  searchQuery: string
+  // sermon_series id or slug
+  seriesFilter: string
+  // speakers id or slug
+  speakerFilter: string
+}
 
-// Sermon interface for web app
-interface Sermon {
+// Series and speaker filter choices
+interface SeriesOption {
   id: string
+  slug: string
   title: string
+}
+
+interface SpeakerOption {
+  id: string
   slug: string
-  description: string
-  speaker: string
-  series?: string
-  scripture_reference?: string
-  sermon_date: string
-  duration?: number
-  video_type: 'upload' | 'youtube'
-  video_url?: string
-  youtube_url?: string
-  youtube_id?: string
-  audio_url?: string
-  thumbnail_image?: string
-  tags: string[]
-  status: string
-  view_count: number
+  name: string
 }
 
-// Default sermons fallback data for browse page
-const defaultSermons: Sermon[] = [
-  {
-    id: 'default-1',
-    title: 'Finding Your Purpose in God\'s Plan',
-    slug: 'finding-purpose-gods-plan',
-    description: 'Discover how God has a unique plan and purpose for your life, and learn practical steps to align your goals with His will.',
-    speaker: 'Pastor Michael Johnson',
-    series: 'Life Purpose',
-    scripture_reference: 'Jeremiah 29:11',
-    sermon_date: '2024-01-21',
-    duration: 45,
-    video_type: 'youtube',
-    youtube_url: 'https://youtube.com/watch?v=dQw4w9WgXcQ',
-    youtube_id: 'dQw4w9WgXcQ',
-    thumbnail_image: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=800&h=600&fit=crop',
-    tags: ['purpose', 'calling', 'faith'],
-    status: 'published',
-    view_count: 245
-  },
-  {
-    id: 'default-2',
-    title: 'Walking in Faith',
-    slug: 'walking-in-faith',
-    description: 'Building unshakeable faith in uncertain times through trust in God\'s promises.',
-    speaker: 'Pastor Sarah Johnson',
-    series: 'Faith Foundations',
-    scripture_reference: 'Hebrews 11:1',
-    sermon_date: '2024-01-14',
-    duration: 38,
-    video_type: 'youtube',
-    youtube_url: 'https://youtube.com/watch?v=dQw4w9WgXcQ',
-    youtube_id: 'dQw4w9WgXcQ',
-    thumbnail_image: 'https://images.unsplash.com/photo-1544027993-37dbfe43562a?w=800&h=600&fit=crop',
-    tags: ['faith', 'trust', 'hope'],
-    status: 'published',
-    view_count: 189
-  },
-  {
-    id: 'default-3',
-    title: 'Love in Action',
-    slug: 'love-in-action',
-    description: 'Demonstrating Christ\'s love through practical service and compassion.',
-    speaker: 'Pastor Michael Chen',
-    series: 'Living Love',
-    scripture_reference: '1 John 3:18',
-    sermon_date: '2024-01-07',
-    duration: 42,
-    video_type: 'youtube',
-    youtube_url: 'https://youtube.com/watch?v=dQw4w9WgXcQ',
-    youtube_id: 'dQw4w9WgXcQ',
-    thumbnail_image: 'https://images.unsplash.com/photo-1469571486292-0ba58a3f068b?w=800&h=600&fit=crop',
-    tags: ['love', 'service', 'compassion'],
-    status: 'published',
-    view_count: 156
-  },
-  {
-    id: 'default-4',
-    title: 'The Power of Prayer',
-    slug: 'power-of-prayer',
-    description: 'Learn how to develop a powerful prayer life that transforms both you and your circumstances.',
-    speaker: 'Pastor Sarah Williams',
-    series: 'Prayer Life',
-    scripture_reference: 'Matthew 6:9-13',
-    sermon_date: '2023-12-31',
-    duration: 35,
-    video_type: 'youtube',
-    youtube_url: 'https://youtube.com/watch?v=dQw4w9WgXcQ',
-    youtube_id: 'dQw4w9WgXcQ',
-    thumbnail_image: 'https://images.unsplash.com/photo-1438032005730-c779502df39b?w=800&h=600&fit=crop',
-    tags: ['prayer', 'spiritual discipline', 'communion'],
-    status: 'published',
-    view_count: 203
-  },
-  {
-    id: 'default-5',
-    title: 'God\'s Grace in Trials',
-    slug: 'gods-grace-trials',
-    description: 'Finding hope and strength in God\'s sufficient grace during life\'s most difficult moments.',
-    speaker: 'Pastor Michael Johnson',
-    series: 'Grace & Truth',
-    scripture_reference: '2 Corinthians 12:9',
-    sermon_date: '2023-12-24',
-    duration: 40,
-    video_type: 'youtube',
-    youtube_url: 'https://youtube.com/watch?v=dQw4w9WgXcQ',
-    youtube_id: 'dQw4w9WgXcQ',
-    thumbnail_image: 'https://images.unsplash.com/photo-1500479694472-551d1fb19407?w=800&h=600&fit=crop',
-    tags: ['grace', 'trials', 'perseverance'],
-    status: 'published',
-    view_count: 134
-  },
-  {
-    id: 'default-6',
-    title: 'Building Community',
-    slug: 'building-community',
-    description: 'Creating authentic relationships and fostering genuine fellowship within the church family.',
-    speaker: 'Pastor David Chen',
-    series: 'Community Life',
-    scripture_reference: 'Acts 2:42-47',
-    sermon_date: '2023-12-17',
-    duration: 33,
-    video_type: 'youtube',
-    youtube_url: 'https://youtube.com/watch?v=dQw4w9WgXcQ',
-    youtube_id: 'dQw4w9WgXcQ',
-    thumbnail_image: 'https://images.unsplash.com/photo-1517486808906-6ca8b3f04846?w=800&h=600&fit=crop',
-    tags: ['community', 'fellowship', 'relationships'],
-    status: 'published',
-    view_count: 167
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const toSeriesOption = ({ id, slug, title }: SeriesOption): SeriesOption => ({ id, slug, title })
+const toSpeakerOption = ({ id, slug, name }: SpeakerOption): SpeakerOption => ({ id, slug, name })
+
+// Series and speakers that have published sermons. Options are a convenience,
+// so failures are logged and leave the lists empty.
+async function loadFilterOptions(now: Date) {
+  const [{ data: sermons, error }, { data: series, error: seriesError }, { data: speakers, error: speakersError }] =
+    await Promise.all([sermonsRepo.listFilterOptions(now), seriesRepo.listPublished(), speakersRepo.listPublished()])
+
+  if (error) {
+    console.error('Error fetching all sermons for filters:', error)
   }
-]
 
-export async function GET(request: NextRequest) {
-  try {
-    // Get query parameters
-    const { searchParams } = new URL(request.url)
-    const page = parseInt(searchParams.get('page') || '1')
-    const limit = parseInt(searchParams.get('limit') || '12')
-    const searchQuery = searchParams.get('search') || ''
-    const seriesFilter = searchParams.get('series') || ''
-    const speakerFilter = searchParams.get('speaker') || ''
-    
-    // Environment check
-    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
-      console.log('🔄 SERMONS BROWSE SOURCE: DEFAULT (Supabase not configured)')
-      
-      // Apply filters to default data
-      let filteredSermons = defaultSermons
-      
-      if (searchQuery) {
-        const query = searchQuery.toLowerCase()
-        filteredSermons = filteredSermons.filter(sermon =>
-          sermon.title.toLowerCase().includes(query) ||
-          sermon.description.toLowerCase().includes(query) ||
-          sermon.speaker.toLowerCase().includes(query) ||
-          sermon.series?.toLowerCase().includes(query)
-        )
-      }
-      
-      if (seriesFilter) {
-        filteredSermons = filteredSermons.filter(sermon => sermon.series === seriesFilter)
-      }
-      
-      if (speakerFilter) {
-        filteredSermons = filteredSermons.filter(sermon => sermon.speaker === speakerFilter)
-      }
-      
-      // Pagination
-      const startIndex = (page - 1) * limit
-      const endIndex = startIndex + limit
-      const paginatedSermons = filteredSermons.slice(startIndex, endIndex)
-      
-      return NextResponse.json({ 
-        sermons: paginatedSermons,
-        total: filteredSermons.length,
-        page,
-        limit,
-        allSermons: defaultSermons, // For filter options
-        source: 'default',
-        message: 'Using default sermons - Supabase not configured'
-      })
-    }
+  if (seriesError) {
+    console.error('Error fetching sermon series for filters:', seriesError)
+  }
 
-    let supabase
-    try {
-      supabase = createServerSupabaseClient()
-    } catch (error) {
-      console.log('🔄 SERMONS BROWSE SOURCE: DEFAULT (Supabase client creation failed)')
-      
-      // Apply basic filtering to default data
-      let filteredSermons = defaultSermons
-      const startIndex = (page - 1) * limit
-      const endIndex = startIndex + limit
-      const paginatedSermons = filteredSermons.slice(startIndex, endIndex)
-      
-      return NextResponse.json({ 
-        sermons: paginatedSermons,
-        total: filteredSermons.length,
-        page,
-        limit,
-        allSermons: defaultSermons,
-        source: 'default',
-        message: 'Using default sermons - Supabase client failed'
-      })
-    }
+  if (speakersError) {
+    console.error('Error fetching speakers for filters:', speakersError)
+  }
+
+  const seriesWithSermons = new Set((sermons || []).map(sermon => sermon.series_id))
+  const speakersWithSermons = new Set((sermons || []).map(sermon => sermon.speaker_id))
+
+  return {
+    seriesOptions: (series || []).filter(entry => seriesWithSermons.has(entry.id)).map(toSeriesOption),
+    speakerOptions: (speakers || []).filter(entry => speakersWithSermons.has(entry.id)).map(toSpeakerOption)
+  }
+}
+
+// The series and speaker filters take an id or a slug. Returns '' for no
+// filter, or null when the value names nothing: series_id and speaker_id are
+// uuid columns, so anything else would fail the query rather than match none.
+function resolveFilter(value: string, options: { id: string; slug: string }[]): string | null {
+  if (!value || UUID_PATTERN.test(value)) return value
+  return options.find(option => option.slug === value)?.id ?? null
+}
 
-    console.log('🔍 Attempting to fetch all sermons from database for browsing...')
-    
-    // First, get all sermons for filter options (without pagination)
-    const { data: allSermons, error: allError } = await supabase
-      .from('sermons')
-      .select('series, speaker')
-      .eq('status', 'published')
+// Apply the browse filters and pagination to the default sermons. Search is a
+// simple every-word match plus the same scripture passage overlap as the database.
+function browseDefaultSermons({ page, limit, searchQuery, seriesFilter, speakerFilter }: BrowseFilters) {
+  let filteredSermons = defaultSermons
+
+  if (searchQuery) {
+    const words = searchQuery.toLowerCase().split(' ')
+    const passages = /\d/.test(searchQuery) ? parseScriptureReference(searchQuery) : []
+    filteredSermons = filteredSermons.filter(sermon => {
+      const text = [sermon.title, sermon.description, sermon.speaker, sermon.series, sermon.scripture_reference, ...sermon.tags]
+        .join(' ')
+        .toLowerCase()
+      return words.every(word => text.includes(word)) ||
+        (passages.length > 0 && referencesOverlap(parseScriptureReference(sermon.scripture_reference), passages))
+    })
+  }
 
-    if (allError) {
-      console.error('Error fetching all sermons for filters:', allError)
-    }
+  if (seriesFilter) {
+    const seriesId = defaultSermonSeries.find(series => series.id === seriesFilter || series.slug === seriesFilter)?.id
+    filteredSermons = filteredSermons.filter(sermon => sermon.series_id === seriesId)
+  }
 
-    // Build the main query with filters
-    let query = supabase
-      .from('sermons')
-      .select('*', { count: 'exact' })
-      .eq('status', 'published')
-      .order('sermon_date', { ascending: false })
+  if (speakerFilter) {
+    const speakerId = defaultSpeakers.find(speaker => speaker.id === speakerFilter || speaker.slug === speakerFilter)?.id
+    filteredSermons = filteredSermons.filter(sermon => sermon.speaker_id === speakerId)
+  }
 
-    // Apply search filter
-    if (searchQuery) {
-      query = query.or(`title.ilike.%${searchQuery}%,description.ilike.%${searchQuery}%,speaker.ilike.%${searchQuery}%,series.ilike.%${searchQuery}%`)
-    }
+  const startIndex = (page - 1) * limit
 
-    // Apply series filter
-    if (seriesFilter) {
-      query = query.eq('series', seriesFilter)
-    }
+  return {
+    sermons: filteredSermons.slice(startIndex, startIndex + limit),
+    total: filteredSermons.length,
+    page,
+    limit,
+    seriesOptions: defaultSermonSeries.map(toSeriesOption),
+    speakerOptions: defaultSpeakers.map(toSpeakerOption)
+  }
+}
 
-    // Apply speaker filter
-    if (speakerFilter) {
-      query = query.eq('speaker', speakerFilter)
-    }
+export async function GET(request: NextRequest) {
+  // Get query parameters
+  const { searchParams } = new URL(request.url)
+  const filters: BrowseFilters = {
+    page: parseInt(searchParams.get('page') || '1'),
+    limit: parseInt(searchParams.get('limit') || '12'),
+    searchQuery: normalizeSearchQuery(searchParams.get('search')),
+    seriesFilter: searchParams.get('series') || '',
+    speakerFilter: searchParams.get('speaker') || ''
+  }
+  const { page, limit } = filters
 
-    // Apply pagination
-    const startIndex = (page - 1) * limit
-    query = query.range(startIndex, startIndex + limit - 1)
+  const result = await withFallback({
+    label: 'sermons browse',
+    fallback: () => browseDefaultSermons(filters),
+    load: async () => {
+      console.log('🔍 Attempting to fetch all sermons from database for browsing...')
 
-    const { data: sermons, error, count } = await query
+      const now = new Date()
 
-    console.log('📊 Sermons browse database query result:', {
-      sermons: sermons,
-      error: error,
-      count: count,
-      sermonsLength: sermons ? sermons.length : 0,
-      page,
-      limit,
-      searchQuery,
-      seriesFilter,
-      speakerFilter
-    })
+      // First, get the filter options (without pagination)
+      const options = await loadFilterOptions(now)
+
+      const seriesId = resolveFilter(filters.seriesFilter, options.seriesOptions)
+      const speakerId = resolveFilter(filters.speakerFilter, options.speakerOptions)
+      if (seriesId === null || speakerId === null) {
+        return { sermons: [], total: 0, page, limit, ...options }
+      }
+
+      // Searches are ranked by relevance; plain browsing is newest first
+      if (filters.searchQuery) {
+        const { sermons, total } = await searchSermons({
+          query: filters.searchQuery,
+          seriesId,
+          speakerId,
+          page,
+          limit
+        }, now)
 
-    if (error) {
-      console.error('🔄 SERMONS BROWSE SOURCE: DEFAULT (Database error):', error.message)
-      
-      // Apply basic filtering to default data
-      let filteredSermons = defaultSermons
-      const startIndex = (page - 1) * limit
-      const endIndex = startIndex + limit
-      const paginatedSermons = filteredSermons.slice(startIndex, endIndex)
-      
-      return NextResponse.json({ 
-        sermons: paginatedSermons,
-        total: filteredSermons.length,
+        console.log('📊 Sermons search result:', { total, sermonsLength: sermons.length, ...filters })
+
+        return { sermons, total, page, limit, ...options }
+      }
+
+      const { data: sermons, error, count } = await sermonsRepo.browse({
+        seriesId,
+        speakerId,
         page,
-        limit,
-        allSermons: defaultSermons,
-        source: 'default',
-        message: `Using default sermons - Database error: ${error.message}`
+        limit
+      }, now)
+
+      console.log('📊 Sermons browse database query result:', {
+        error: error,
+        count: count,
+        sermonsLength: sermons ? sermons.length : 0,
+        ...filters
       })
-    }
 
-    if (!sermons || sermons.length === 0) {
-      console.log('🔄 No sermons found with current filters')
-      return NextResponse.json({ 
-        sermons: [],
-        total: 0,
+      if (error) throw error
+
+      // An empty page is a real result here (e.g. no matches for a search),
+      // not a reason to show the default sermons
+      return {
+        sermons: sermons || [],
+        total: count || 0,
         page,
         limit,
-        allSermons: allSermons || [],
-        source: 'database',
-        message: 'No sermons found with current filters'
-      })
-    }
-
-    console.log('✅ SERMONS BROWSE SOURCE: DATABASE (Successfully loaded from database)')
-    return NextResponse.json({ 
-      sermons: sermons,
-      total: count || 0,
-      page,
-      limit,
-      allSermons: allSermons || [],
-      source: 'database',
-      message: `Loaded ${sermons.length} sermons from database (page ${page})`
-    })
+        ...options
+      }
+    },
+    describe: ({ sermons }) => sermons.length > 0
+      ? `Loaded ${sermons.length} sermons from database (page ${page})`
+      : 'No sermons found with current filters'
+  })
 
-  } catch (error) {
-    console.error('🔄 SERMONS BROWSE SOURCE: DEFAULT (Unexpected error):', error)
-    
-    // Fallback to default data with basic pagination
-    const page = parseInt(new URL(request.url).searchParams.get('page') || '1')
-    const limit = parseInt(new URL(request.url).searchParams.get('limit') || '12')
-    const startIndex = (page - 1) * limit
-    const endIndex = startIndex + limit
-    const paginatedSermons = defaultSermons.slice(startIndex, endIndex)
-    
-    return NextResponse.json({ 
-      sermons: paginatedSermons,
-      total: defaultSermons.length,
-      page,
-      limit,
-      allSermons: defaultSermons,
-      source: 'default',
-      message: 'Using default sermons - Unexpected error'
-    })
-  }
-} 
\ No newline at end of file
+  return NextResponse.json(result)
+}
@@ -1,41 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
+import { settingsRepo } from '@/lib/repositories';
+import { isSupabaseConfigured } from '@/lib/supabase';
 
 export async function GET(request: NextRequest) {
   try {
-    // For tenant settings, we need to bypass RLS since this is public church information
-    // Try to use service role key if available, otherwise use anon key with RLS disabled query
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_SERVICE_ROLE_KEY;
-    const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-    
-    if (!supabaseUrl || !supabaseAnonKey) {
+    if (!isSupabaseConfigured()) {
       return NextResponse.json({ 
         error: 'Database configuration missing',
         success: false 
       }, { status: 500 });
     }
-
-    let supabase;
-    
-    // Try service role first for bypassing RLS
-    if (supabaseServiceKey) {
-      supabase = createClient(supabaseUrl, supabaseServiceKey, {
-        auth: {
-          autoRefreshToken: false,
-          persistSession: false
-        }
-      });
-    } else {
-      // Fallback to anon key
-      supabase = createClient(supabaseUrl, supabaseAnonKey);
-    }
     
     // Try to get existing tenant settings
-    const { data: settings, error } = await supabase
-      .from('tenant_settings')
-      .select('*')
-      .limit(1);
+    const { data: settings, error } = await settingsRepo.getTenantSettings();
     
     if (error) {
       console.error('Error fetching tenant settings:', error);
@@ -66,7 +43,7 @@ export async function GET(request: NextRequest) {
     }
     
     // If no settings exist, return default ones (don't try to create via API)
-    if (!settings || settings.length === 0) {
+    if (!settings) {
       const defaultSettings = {
         id: 'default',
         name: 'DOCM Church',
@@ -88,7 +65,7 @@ export async function GET(request: NextRequest) {
     
     return NextResponse.json({ 
       success: true, 
-      data: settings[0],
+      data: settings,
       message: 'Tenant settings found',
       source: 'database'
     });
@@ -1,25 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerSupabaseClient } from '@/lib/supabase'
+import { contactsRepo, DEFAULT_TENANT_ID } from '@/lib/repositories'
 
 export async function POST(request: NextRequest) {
   try {
     const { firstName, lastName, email } = await request.json()
-    const supabase = createServerSupabaseClient()
 
     console.log('Testing contact creation with:', { firstName, lastName, email })
 
-    const { data, error } = await supabase
-      .from('contacts')
-      .insert({
-        first_name: firstName,
-        last_name: lastName,
-        email: email,
-        tenant_id: 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      })
-      .select('id')
-      .single()
+    const { data, error } = await contactsRepo.create({
+      first_name: firstName,
+      last_name: lastName,
+      email: email,
+      tenant_id: DEFAULT_TENANT_ID,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    })
 
     if (error) {
       console.error('Contact creation error:', error)
@@ -1,25 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerSupabaseClient } from '@/lib/supabase'
+import { contactsRepo, plannedVisitsRepo } from '@/lib/repositories'
 
 export async function GET(request: NextRequest) {
   try {
-    const supabase = createServerSupabaseClient()
-
     // Test contacts table
     console.log('Testing contacts table...')
-    const { data: contactsTest, error: contactsError } = await supabase
-      .from('contacts')
-      .select('id, first_name, last_name, email')
-      .limit(1)
+    const { data: contactsTest, error: contactsError } = await contactsRepo.list({ limit: 1 })
 
     console.log('Contacts test result:', { data: contactsTest, error: contactsError })
 
     // Test planned_visits table
     console.log('Testing planned_visits table...')
-    const { data: visitsTest, error: visitsError } = await supabase
-      .from('planned_visits')
-      .select('id, contact_id, event_name')
-      .limit(1)
+    const { data: visitsTest, error: visitsError } = await plannedVisitsRepo.list({ limit: 1 })
 
     console.log('Planned visits test result:', { data: visitsTest, error: visitsError })
 
@@ -1,29 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
+import { mediaRepo } from '@/lib/repositories'
 import { v4 as uuidv4 } from 'uuid'
 
-// Create admin client with service role key
-const supabaseAdmin = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY!,
-  {
-    auth: {
-      autoRefreshToken: false,
-      persistSession: false
-    }
-  }
-)
-
 // GET method to fetch existing media items
 export async function GET() {
   try {
     console.log('=== Media Fetch from upload-media route ===')
     
     // Fetch media items using admin client (bypasses RLS)
-    const { data: mediaData, error: mediaError } = await supabaseAdmin
-      .from('media_library')
-      .select('*')
-      .order('uploaded_at', { ascending: false })
+    const { data: mediaData, error: mediaError } = await mediaRepo.listAll()
     
     if (mediaError) {
       console.error('Media fetch error:', mediaError)
@@ -86,22 +71,11 @@ export async function POST(request: NextRequest) {
     
     // Ensure the bucket exists using admin privileges
     try {
-      const { data: buckets } = await supabaseAdmin.storage.listBuckets()
-      const uploadmediaBucket = buckets?.find(b => b.name === 'uploadmedia')
+      const bucketError = await mediaRepo.ensureUploadBucket()
       
-      if (!uploadmediaBucket) {
-        console.log('Creating uploadmedia bucket with admin privileges')
-        const { error: bucketError } = await supabaseAdmin.storage.createBucket('uploadmedia', {
-          public: true
-        })
-        
-        if (bucketError) {
-          console.error('Error creating bucket:', bucketError)
-          return NextResponse.json({ error: 'Failed to create storage bucket' }, { status: 500 })
-        }
-        console.log('Bucket created successfully')
-      } else {
-        console.log('Bucket already exists')
+      if (bucketError) {
+        console.error('Error creating bucket:', bucketError)
+        return NextResponse.json({ error: 'Failed to create storage bucket' }, { status: 500 })
       }
     } catch (err) {
       console.error('Error ensuring bucket exists:', err)
@@ -113,13 +87,7 @@ export async function POST(request: NextRequest) {
     
     // Upload using admin privileges
     console.log('Uploading file...')
-    const { data: uploadData, error: uploadError } = await supabaseAdmin.storage
-      .from('uploadmedia')
-      .upload(fileName, buffer, {
-        contentType: file.type,
-        cacheControl: '3600',
-        upsert: true
-      })
+    const { data: uploadData, error: uploadError } = await mediaRepo.uploadFile(fileName, buffer, file.type)
     
     if (uploadError) {
       console.error('Upload error:', uploadError)
@@ -129,9 +97,7 @@ export async function POST(request: NextRequest) {
     console.log('File uploaded successfully:', uploadData)
     
     // Get the public URL
-    const { data: urlData } = supabaseAdmin.storage
-      .from('uploadmedia')
-      .getPublicUrl(fileName)
+    const { data: urlData } = mediaRepo.getPublicUrl(fileName)
     
     if (!urlData?.publicUrl) {
       return NextResponse.json({ error: 'Failed to get public URL' }, { status: 500 })
@@ -152,19 +118,15 @@ export async function POST(request: NextRequest) {
       description: description
     })
     
-    const { data: mediaData, error: dbError } = await supabaseAdmin
-      .from('media_library')
-      .insert({
-        url: urlData.publicUrl,
-        type: fileType,
-        alt_text: altText,
-        collection_name: collectionName,
-        collection_category: collectionCategory,
-        collection_date: collectionDate,
-        description: description
-      })
-      .select()
-      .single()
+    const { data: mediaData, error: dbError } = await mediaRepo.create({
+      url: urlData.publicUrl,
+      type: fileType,
+      alt_text: altText,
+      collection_name: collectionName,
+      collection_category: collectionCategory,
+      collection_date: collectionDate,
+      description: description
+    })
     
     if (dbError) {
       console.error('❌ Database insertion error details:', {
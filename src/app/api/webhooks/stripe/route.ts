@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerSupabaseClient } from '@/lib/supabase'
+import { givingRepo } from '@/lib/repositories'
 import Stripe from 'stripe'
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
@@ -61,17 +61,12 @@ export async function POST(request: NextRequest) {
 async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent) {
   console.log('💰 Payment succeeded:', paymentIntent.id)
   
-  const supabase = createServerSupabaseClient()
-  
   // Update the transaction record to mark it as succeeded
-  const { error } = await supabase
-    .from('transactions')
-    .update({
-      payment_status: 'succeeded',
-      stripe_charge_id: paymentIntent.latest_charge as string,
-      transacted_at: new Date().toISOString()
-    })
-    .eq('stripe_payment_intent_id', paymentIntent.id)
+  const { error } = await givingRepo.updateTransactionByPaymentIntent(paymentIntent.id, {
+    payment_status: 'succeeded',
+    stripe_charge_id: paymentIntent.latest_charge as string,
+    transacted_at: new Date().toISOString()
+  })
 
   if (error) {
     console.error('❌ Error updating transaction:', error)
@@ -83,16 +78,11 @@ async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent)
 async function handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent) {
   console.log('❌ Payment failed:', paymentIntent.id)
   
-  const supabase = createServerSupabaseClient()
-  
   // Update the transaction record to mark it as failed
-  const { error } = await supabase
-    .from('transactions')
-    .update({
-      payment_status: 'failed',
-      notes: paymentIntent.last_payment_error?.message || 'Payment failed'
-    })
-    .eq('stripe_payment_intent_id', paymentIntent.id)
+  const { error } = await givingRepo.updateTransactionByPaymentIntent(paymentIntent.id, {
+    payment_status: 'failed',
+    notes: paymentIntent.last_payment_error?.message || 'Payment failed'
+  })
 
   if (error) {
     console.error('❌ Error updating failed transaction:', error)
@@ -107,8 +97,6 @@ async function handleInvoicePaymentSucceeded(invoice: Stripe.Invoice) {
   const subscriptionId = (invoice as any).subscription as string | null
   if (!subscriptionId) return
   
-  const supabase = createServerSupabaseClient()
-  
   // Create a new transaction record for the recurring payment
   
   // Get the subscription details to extract metadata
@@ -137,9 +125,7 @@ async function handleInvoicePaymentSucceeded(invoice: Stripe.Invoice) {
     }
   }
 
-  const { error } = await supabase
-    .from('transactions')
-    .insert([transactionData])
+  const { error } = await givingRepo.createTransaction(transactionData)
 
   if (error) {
     console.error('❌ Error creating recurring transaction:', error)
@@ -164,18 +150,13 @@ async function handleSubscriptionCreated(subscription: Stripe.Subscription) {
 async function handleSubscriptionUpdated(subscription: Stripe.Subscription) {
   console.log('🔄 Subscription updated:', subscription.id)
   
-  const supabase = createServerSupabaseClient()
-  
   // Update recurring donation record
-  const { error } = await supabase
-    .from('recurring_donations')
-    .update({
-      status: subscription.status,
-      next_payment_date: subscription.status === 'active' 
-        ? new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString()
-        : null
-    })
-    .eq('stripe_subscription_id', subscription.id)
+  const { error } = await givingRepo.updateRecurringDonation(subscription.id, {
+    status: subscription.status,
+    next_payment_date: subscription.status === 'active' 
+      ? new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString()
+      : null
+  })
 
   if (error) {
     console.error('❌ Error updating recurring donation:', error)
@@ -187,16 +168,11 @@ async function handleSubscriptionUpdated(subscription: Stripe.Subscription) {
 async function handleSubscriptionDeleted(subscription: Stripe.Subscription) {
   console.log('🗑️ Subscription deleted:', subscription.id)
   
-  const supabase = createServerSupabaseClient()
-  
   // Update recurring donation record to cancelled
-  const { error } = await supabase
-    .from('recurring_donations')
-    .update({
-      status: 'cancelled',
-      cancelled_at: new Date().toISOString()
-    })
-    .eq('stripe_subscription_id', subscription.id)
+  const { error } = await givingRepo.updateRecurringDonation(subscription.id, {
+    status: 'cancelled',
+    cancelled_at: new Date().toISOString()
+  })
 
   if (error) {
     console.error('❌ Error cancelling recurring donation:', error)
@@ -1,5 +1,5 @@
 import { ImageResponse } from 'next/og'
-import { createServerSupabaseClient } from '@/lib/supabase'
+import { settingsRepo } from '@/lib/repositories'
 
 // Route segment config
 export const runtime = 'edge'
@@ -14,14 +14,8 @@ export const contentType = 'image/png'
 // Image generation
 export default async function AppleIcon() {
   try {
-    const supabase = createServerSupabaseClient()
-    
     // Get the black logo URL from tenant settings
-    const { data: settings, error } = await supabase
-      .from('tenant_settings')
-      .select('logo_black_url, logo_url, name')
-      .limit(1)
-      .single()
+    const { data: settings, error } = await settingsRepo.getTenantSettings()
 
     console.log('🍎 Apple Icon: Tenant settings:', { 
       logo_black_url: settings?.logo_black_url,
@@ -38,7 +32,7 @@ export default async function AppleIcon() {
       // Always prefer black logo if available
       logoUrl = settings.logo_black_url && settings.logo_black_url.trim() !== '' 
         ? settings.logo_black_url 
-        : settings.logo_url
+        : settings.logo_url || undefined
       churchName = settings.name || 'Church'
     } else {
       // RLS blocked or no settings - use hardcoded values we know from previous testing
@@ -1,5 +1,7 @@
 import { Metadata } from 'next'
-import { createServerSupabaseClient } from '@/lib/supabase'
+import type { SeoMeta } from '@/lib/cms-pages'
+import { isPreviewMode } from '@/lib/preview'
+import { blogsRepo } from '@/lib/repositories'
 import BlogPostClient from './blog-client'
 
 interface BlogPostPageProps {
@@ -13,17 +15,13 @@ export async function generateMetadata({ params }: BlogPostPageProps): Promise<M
   const { slug } = await params
   
   try {
-    const supabase = createServerSupabaseClient()
-    const { data: blog } = await supabase
-      .from('blogs')
-      .select('title, excerpt, author, seo_meta')
-      .eq('slug', slug)
-      .eq('status', 'published')
-      .single()
+    const preview = await isPreviewMode()
+    const { data: blog } = await blogsRepo.findBySlug(slug, { preview })
 
     if (blog) {
-      const title = blog.seo_meta?.title || `${blog.title} - DOCM Church`
-      const description = blog.seo_meta?.description || blog.excerpt || `A blog post by ${blog.author}.`
+      const seoMeta = blog.seo_meta as SeoMeta | null
+      const title = seoMeta?.title || `${blog.title} - DOCM Church`
+      const description = seoMeta?.description || blog.excerpt || `A blog post by ${blog.author}.`
       
       return {
         title,
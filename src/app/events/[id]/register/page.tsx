@@ -6,16 +6,21 @@ interface PageProps {
   params: Promise<{
     id: string
   }>
+  // Scheduled start of the occurrence of a recurring event
+  searchParams: Promise<{
+    occurrence?: string
+  }>
 }
 
-export default async function EventRegistrationPage({ params }: PageProps) {
+export default async function EventRegistrationPage({ params, searchParams }: PageProps) {
   const { id } = await params
+  const { occurrence } = await searchParams
   
   return (
     <div className="min-h-screen bg-gray-50 py-12">
       <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8">
         <Suspense fallback={<EventRegistrationLoading />}>
-          <EventRegistrationForm eventId={id} />
+          <EventRegistrationForm eventId={id} occurrenceStart={occurrence ?? null} />
         </Suspense>
       </div>
     </div>
@@ -1,20 +1,28 @@
 import { EventsHero } from '@/components/sections/events-hero'
 import { UpcomingEvents } from '@/components/sections/upcoming-events'
+import { ServerContentProvider } from '@/components/ServerContentProvider'
+import { getEventsPageContent, getUpcomingEvents } from '@/lib/content'
 import { Metadata } from 'next'
 
+// Statically rendered and regenerated at most every CONTENT_REVALIDATE_SECONDS;
+// content changes invalidate the cache tags sooner
+export const revalidate = 300
+
 export const metadata: Metadata = {
   title: 'Events - DOCM Church',
   description: 'Join us for upcoming events, services, and community gatherings at Demonstration of Christ Ministries.',
 }
 
-export default function EventsPage() {
+export default async function EventsPage() {
+  const [eventsPage, events] = await Promise.all([getEventsPageContent(), getUpcomingEvents()])
+
   return (
-    <>
+    <ServerContentProvider content={{ eventsPage: eventsPage.content, events: events.content }}>
       {/* Events Hero Section */}
       <EventsHero />
       
       {/* Upcoming Events */}
       <UpcomingEvents />
-    </>
+    </ServerContentProvider>
   )
 } 
\ No newline at end of file
@@ -1,11 +1,23 @@
 import { Metadata } from 'next'
+import { ServerContentProvider } from '@/components/ServerContentProvider'
+import { getGivingPageContent } from '@/lib/content'
 import GivingPageClient from './give-client'
 
+// Statically rendered and regenerated at most every CONTENT_REVALIDATE_SECONDS;
+// content changes invalidate the cache tags sooner
+export const revalidate = 300
+
 export const metadata: Metadata = {
   title: 'Give - DOCM Church',
   description: 'Support the ministry of Demonstration of Christ Ministries through your generous giving and make an impact in our community.',
 }
 
-export default function GivingPage() {
-  return <GivingPageClient />
+export default async function GivingPage() {
+  const { content } = await getGivingPageContent()
+
+  return (
+    <ServerContentProvider content={{ givingPage: content }}>
+      <GivingPageClient />
+    </ServerContentProvider>
+  )
 } 
\ No newline at end of file
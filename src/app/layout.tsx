@@ -4,7 +4,12 @@ import "./globals.css";
 import { Navigation } from "@/components/layout/navigation";
 import { Footer } from "@/components/layout/footer";
 import { TimezoneInitializer } from "@/components/TimezoneInitializer";
-import { createServerSupabaseClient } from "@/lib/supabase";
+import { PreviewBanner } from "@/components/layout/preview-banner";
+import { MiniAudioPlayer } from "@/components/layout/mini-audio-player";
+import { AudioPlayerProvider } from "@/components/AudioPlayerProvider";
+import { ServerContentProvider } from "@/components/ServerContentProvider";
+import { getFooter, getNavigation } from "@/lib/content";
+import { settingsRepo } from "@/lib/repositories";
 
 const inter = Inter({
   subsets: ["latin"],
@@ -19,12 +24,7 @@ const jetbrainsMono = JetBrains_Mono({
 // Generate dynamic metadata
 export async function generateMetadata(): Promise<Metadata> {
   try {
-    const supabase = createServerSupabaseClient()
-    const { data: settings } = await supabase
-      .from('tenant_settings')
-      .select('name, description')
-      .limit(1)
-      .single()
+    const { data: settings } = await settingsRepo.getTenantSettings()
 
     const churchName = settings?.name || 'DOCM Church'
     const churchDescription = settings?.description || 'Join our church family and discover your purpose in Christ.'
@@ -50,20 +50,30 @@ export async function generateMetadata(): Promise<Metadata> {
   }
 }
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  // Site chrome is rendered on the server so it is in the initial HTML
+  const [navigation, footer] = await Promise.all([getNavigation(), getFooter()]);
+
   return (
     <html lang="en" className="scroll-smooth">
       <body
         className={`${inter.variable} ${jetbrainsMono.variable} antialiased font-sans`}
       >
-        <TimezoneInitializer />
-        <Navigation />
-        <main>{children}</main>
-        <Footer />
+        <ServerContentProvider content={{ navigation: navigation.content, footer: footer.content }}>
+          <AudioPlayerProvider>
+            <TimezoneInitializer />
+            <Navigation />
+            <main>{children}</main>
+            <Footer />
+            {/* Sermon audio keeps playing across navigation */}
+            <MiniAudioPlayer />
+            <PreviewBanner />
+          </AudioPlayerProvider>
+        </ServerContentProvider>
       </body>
     </html>
   );
@@ -0,0 +1,126 @@
+'use client'
+
+import Link from 'next/link'
+import { Calendar, Clock, PlayCircle, Radio } from 'lucide-react'
+import { VideoPlayer } from '@/components/ui/video-player'
+import { useLiveStream } from '@/hooks/useLiveStream'
+import {
+  formatCountdown,
+  formatServiceTime,
+  formatWeeklyService,
+  type ServiceOccurrence
+} from '@/lib/live-schedule'
+import { parseVideoUrl } from '@/lib/video-providers'
+
+export default function LiveClient() {
+  const { live, state, now, sermon, loading } = useLiveStream()
+  const stream = parseVideoUrl(live?.streamUrl, 'hls')
+  const timeZone = live?.timeZone ?? 'America/New_York'
+
+  const nextService = (service: ServiceOccurrence | null) => service && (
+    <div className="text-center">
+      <p className="text-sm uppercase tracking-wider text-gray-400 mb-3">Next service</p>
+      <p className="text-2xl md:text-3xl font-bold text-white mb-2">{service.title}</p>
+      <p className="text-gray-300 mb-8">{formatServiceTime(service, timeZone)}</p>
+      <p className="font-mono text-5xl md:text-7xl font-bold text-white" aria-live="off">
+        {formatCountdown(service.start, now)}
+      </p>
+    </div>
+  )
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <section className="bg-black pt-32 pb-16">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center gap-3 mb-8">
+            {state.status === 'live' ? (
+              <span className="flex items-center gap-2 bg-red-600 text-white text-sm font-semibold uppercase tracking-wider px-3 py-1 rounded-full">
+                <span className="w-2 h-2 rounded-full bg-white animate-pulse" />
+                Live
+              </span>
+            ) : (
+              <Radio className="w-6 h-6 text-gray-400" />
+            )}
+            <h1 className="text-3xl md:text-4xl font-bold text-white">
+              {state.status === 'live' && state.current ? state.current.title : 'Watch Live'}
+            </h1>
+          </div>
+
+          <div className="relative aspect-video bg-gray-900 rounded-2xl overflow-hidden flex items-center justify-center">
+            {loading ? (
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white" />
+            ) : state.status === 'live' ? (
+              stream ? (
+                <VideoPlayer source={stream} title={state.current?.title ?? 'Live service'} autoPlay />
+              ) : (
+                <p className="text-gray-300 px-6 text-center">The stream will appear here as soon as it starts.</p>
+              )
+            ) : state.status === 'ended' && state.current ? (
+              <div className="text-center px-6">
+                <p className="text-2xl font-bold text-white mb-2">{state.current.title} has ended</p>
+                <p className="text-gray-300 mb-6">Thank you for worshipping with us.</p>
+                {sermon ? (
+                  <Link
+                    href={`/media/sermons/${sermon.slug}`}
+                    className="inline-flex items-center gap-2 bg-white text-black px-6 py-3 rounded-lg font-semibold hover:bg-gray-200 transition-colors"
+                  >
+                    <PlayCircle className="w-5 h-5" />
+                    Watch the recording: {sermon.title}
+                  </Link>
+                ) : (
+                  <p className="text-gray-400">
+                    The recording will be posted soon in{' '}
+                    <Link href="/media/sermons/browse" className="text-white underline hover:text-gray-200">Sermons</Link>.
+                  </p>
+                )}
+              </div>
+            ) : state.status === 'upcoming' ? (
+              nextService(state.next)
+            ) : (
+              <div className="text-center px-6">
+                <p className="text-xl font-semibold text-white mb-4">No services are scheduled right now</p>
+                <Link href="/media/sermons" className="text-white underline hover:text-gray-200">
+                  Catch up on recent sermons
+                </Link>
+              </div>
+            )}
+          </div>
+        </div>
+      </section>
+
+      <section className="py-16">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 grid grid-cols-1 md:grid-cols-2 gap-8">
+          {state.status !== 'upcoming' && state.next && (
+            <div className="bg-white rounded-2xl shadow-sm p-6">
+              <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900 mb-3">
+                <Clock className="w-5 h-5" />
+                Next service
+              </h2>
+              <p className="font-medium text-gray-900">{state.next.title}</p>
+              <p className="text-gray-600 mb-3">{formatServiceTime(state.next, timeZone)}</p>
+              <p className="font-mono text-2xl font-bold text-gray-900">Starts in {formatCountdown(state.next.start, now)}</p>
+            </div>
+          )}
+
+          {live && live.schedule.length > 0 && (
+            <div className="bg-white rounded-2xl shadow-sm p-6">
+              <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900 mb-3">
+                <Calendar className="w-5 h-5" />
+                Weekly services
+              </h2>
+              <ul className="space-y-2">
+                {live.schedule.map(service => (
+                  <li key={`${service.day}-${service.start}`} className="flex justify-between gap-4 text-gray-700">
+                    <span className="font-medium text-gray-900">{service.title}</span>
+                    <span>{formatWeeklyService(service)}</span>
+                  </li>
+                ))}
+              </ul>
+              <p className="mt-4 text-xs text-gray-500">Times are in {timeZone.replace(/_/g, ' ')} time.</p>
+            </div>
+          )}
+        </div>
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,11 @@
+import { Metadata } from 'next'
+import LiveClient from './live-client'
+
+export const metadata: Metadata = {
+  title: 'Watch Live - DOCM Church',
+  description: 'Join our services live online from wherever you are.',
+}
+
+export default function LivePage() {
+  return <LiveClient />
+}
@@ -3,6 +3,8 @@
 import { useParams, useRouter } from 'next/navigation'
 import { useState } from 'react'
 import { useCollectionDetail } from '@/hooks/useCollectionDetail'
+import { VideoPlayer } from '@/components/ui/video-player'
+import { isEmbedProvider, parseVideoUrl, videoThumbnailUrl } from '@/lib/video-providers'
 import Link from 'next/link'
 
 export default function CollectionDetailPage() {
@@ -115,6 +117,7 @@ export default function CollectionDetailPage() {
   // Determine which tab to show by default
   const defaultTab = photos.length > 0 ? 'photos' : 'videos'
   const currentTab = activeTab === 'photos' && photos.length === 0 ? 'videos' : activeTab
+  const selectedVideoSource = parseVideoUrl(selectedVideo, 'upload')
 
   return (
     <>
@@ -287,31 +290,46 @@ export default function CollectionDetailPage() {
           {/* Videos Grid */}
           {(currentTab === 'videos' && videos.length > 0) && (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-              {videos.map((video) => (
-                <div
-                  key={video.id}
-                  className="group cursor-pointer bg-white rounded-2xl overflow-hidden shadow-sm hover:shadow-lg transition-all duration-300"
-                  onClick={() => setSelectedVideo(video.url)}
-                >
-                  <div className="aspect-video relative overflow-hidden bg-gray-900">
-                    <video
-                      src={video.url}
-                      className="w-full h-full object-cover"
-                      preload="metadata"
-                    />
-                    <div className="absolute inset-0 bg-black/30 group-hover:bg-black/40 transition-all duration-300 flex items-center justify-center">
-                      <div className="w-16 h-16 bg-white/20 backdrop-blur-sm rounded-full flex items-center justify-center group-hover:bg-white/30 transition-all duration-300">
-                        <svg className="w-8 h-8 text-white ml-1" fill="currentColor" viewBox="0 0 24 24">
-                          <path d="M8 5v14l11-7z"/>
-                        </svg>
+              {videos.map((video) => {
+                // Gallery uploads are files; links can point at any supported provider
+                const source = parseVideoUrl(video.url, 'upload')
+                const thumbnail = videoThumbnailUrl(source, 'medium')
+                return (
+                  <div
+                    key={video.id}
+                    className="group cursor-pointer bg-white rounded-2xl overflow-hidden shadow-sm hover:shadow-lg transition-all duration-300"
+                    onClick={() => setSelectedVideo(video.url)}
+                  >
+                    <div className="aspect-video relative overflow-hidden bg-gray-900">
+                      {source && !isEmbedProvider(source.provider) ? (
+                        <VideoPlayer
+                          source={source}
+                          title={video.alt_text || 'Video'}
+                          className="w-full h-full object-cover"
+                          controls={false}
+                          preload="metadata"
+                        />
+                      ) : thumbnail && (
+                        <img
+                          src={thumbnail}
+                          alt={video.alt_text || 'Video'}
+                          className="w-full h-full object-cover"
+                        />
+                      )}
+                      <div className="absolute inset-0 bg-black/30 group-hover:bg-black/40 transition-all duration-300 flex items-center justify-center">
+                        <div className="w-16 h-16 bg-white/20 backdrop-blur-sm rounded-full flex items-center justify-center group-hover:bg-white/30 transition-all duration-300">
+                          <svg className="w-8 h-8 text-white ml-1" fill="currentColor" viewBox="0 0 24 24">
+                            <path d="M8 5v14l11-7z"/>
+                          </svg>
+                        </div>
                       </div>
                     </div>
+                    <div className="p-4">
+                      <p className="text-sm text-gray-600 truncate">{video.alt_text || 'Video'}</p>
+                    </div>
                   </div>
-                  <div className="p-4">
-                    <p className="text-sm text-gray-600 truncate">{video.alt_text || 'Video'}</p>
-                  </div>
-                </div>
-              ))}
+                )
+              })}
             </div>
           )}
 
@@ -355,18 +373,19 @@ export default function CollectionDetailPage() {
       )}
 
       {/* Video Modal */}
-      {selectedVideo && (
+      {selectedVideoSource && (
         <div 
           className="fixed inset-0 bg-black/90 z-50 flex items-center justify-center p-4"
           onClick={() => setSelectedVideo(null)}
         >
           <div className="relative max-w-6xl max-h-full w-full">
-            <video
-              src={selectedVideo}
-              controls
-              autoPlay
-              className="max-w-full max-h-full w-full"
-            />
+            <div className="relative aspect-video" onClick={event => event.stopPropagation()}>
+              <VideoPlayer
+                source={selectedVideoSource}
+                title="Gallery video"
+                autoPlay
+              />
+            </div>
             <button
               onClick={() => setSelectedVideo(null)}
               className="absolute top-4 right-4 w-10 h-10 bg-white/20 backdrop-blur-sm rounded-full flex items-center justify-center text-white hover:bg-white/30 transition-all duration-300"
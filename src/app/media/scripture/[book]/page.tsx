@@ -0,0 +1,177 @@
+import { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { BookOpen, Calendar, User } from 'lucide-react'
+import { bookSlug, findBookBySlug, type BibleBook } from '@/lib/scripture'
+import { getScriptureBookContent, type ScriptureBookContent } from '@/lib/scripture-index'
+import { isSupabaseConfigured } from '@/lib/supabase'
+import { formatDate } from '@/lib/utils'
+
+// Statically rendered and regenerated at most every CONTENT_REVALIDATE_SECONDS;
+// content changes invalidate the cache tags sooner
+export const revalidate = 300
+
+interface ScripturePageProps {
+  params: Promise<{
+    book: string
+  }>
+  searchParams: Promise<{
+    chapter?: string
+  }>
+}
+
+async function loadBookContent(book: BibleBook, chapter: number | null): Promise<ScriptureBookContent> {
+  const empty: ScriptureBookContent = { chapters: [], sermons: [], blogs: [] }
+  if (!isSupabaseConfigured()) return empty
+
+  try {
+    return await getScriptureBookContent(book, chapter)
+  } catch (error) {
+    console.error('Error loading scripture index:', error)
+    return empty
+  }
+}
+
+function parseChapter(value: string | undefined, chapters: number): number | null {
+  const chapter = Number(value)
+  return Number.isInteger(chapter) && chapter >= 1 && chapter <= chapters ? chapter : null
+}
+
+export async function generateMetadata({ params, searchParams }: ScripturePageProps): Promise<Metadata> {
+  const book = findBookBySlug((await params).book)
+  if (!book) {
+    return { title: 'Scripture - DOCM Church' }
+  }
+
+  const chapter = parseChapter((await searchParams).chapter, book.chapters)
+  const passage = chapter ? `${book.name} ${chapter}` : book.name
+  return {
+    title: `${passage} - Sermons & Articles - DOCM Church`,
+    description: `Messages and articles from Demonstration of Christ Ministries on ${passage}.`
+  }
+}
+
+export default async function ScriptureBookPage({ params, searchParams }: ScripturePageProps) {
+  const book = findBookBySlug((await params).book)
+  if (!book) {
+    notFound()
+  }
+
+  const chapter = parseChapter((await searchParams).chapter, book.chapters)
+  const { chapters, sermons, blogs } = await loadBookContent(book, chapter)
+  const passage = chapter ? `${book.name} ${chapter}` : book.name
+  const bookPath = `/media/scripture/${bookSlug(book)}`
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <nav className="mb-6">
+            <Link href="/media/sermons/browse" className="text-blue-600 hover:text-blue-500">
+              ← Browse all sermons
+            </Link>
+          </nav>
+          <div className="flex items-center gap-3 text-blue-700 mb-3">
+            <BookOpen className="w-6 h-6" />
+            <span className="text-sm font-semibold uppercase tracking-wide">Scripture</span>
+          </div>
+          <h1 className="text-4xl md:text-5xl font-bold text-gray-900 mb-4">{passage}</h1>
+          <p className="text-lg text-gray-600">
+            {sermons.length} {sermons.length === 1 ? 'message' : 'messages'} and {blogs.length} {blogs.length === 1 ? 'article' : 'articles'}
+          </p>
+
+          {/* Chapters */}
+          {book.chapters > 1 && (
+            <div className="mt-8 flex flex-wrap gap-2">
+              <Link
+                href={bookPath}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                  chapter === null ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                All
+              </Link>
+              {Array.from({ length: book.chapters }, (_, index) => index + 1).map(number => (
+                chapters.includes(number) ? (
+                  <Link
+                    key={number}
+                    href={`${bookPath}?chapter=${number}`}
+                    className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                      chapter === number ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {number}
+                  </Link>
+                ) : (
+                  <span key={number} className="px-3 py-1.5 rounded-lg text-sm text-gray-300">
+                    {number}
+                  </span>
+                )
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-12">
+        {sermons.length === 0 && blogs.length === 0 && (
+          <div className="text-center py-12">
+            <h2 className="text-lg font-medium text-gray-900">Nothing on {passage} yet</h2>
+            <p className="mt-2 text-gray-500">Try another chapter or browse all sermons.</p>
+          </div>
+        )}
+
+        {/* Sermons */}
+        {sermons.length > 0 && (
+          <section>
+            <h2 className="text-2xl font-bold text-gray-900 mb-6">Messages</h2>
+            <div className="space-y-4">
+              {sermons.map(sermon => (
+                <Link
+                  key={sermon.id}
+                  href={`/media/sermons/${sermon.slug}`}
+                  className="block bg-white rounded-2xl shadow-sm hover:shadow-md transition-shadow p-6"
+                >
+                  <div className="text-sm font-medium text-blue-700 mb-1">{sermon.passages.join('; ')}</div>
+                  <h3 className="text-lg font-bold text-gray-900 mb-2">{sermon.title}</h3>
+                  <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+                    <span className="flex items-center gap-1"><User className="w-4 h-4" />{sermon.speaker}</span>
+                    <span className="flex items-center gap-1"><Calendar className="w-4 h-4" />{formatDate(sermon.sermon_date)}</span>
+                    {sermon.series && <span>{sermon.series} Series</span>}
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {/* Blog posts */}
+        {blogs.length > 0 && (
+          <section>
+            <h2 className="text-2xl font-bold text-gray-900 mb-6">Articles</h2>
+            <div className="space-y-4">
+              {blogs.map(blog => (
+                <Link
+                  key={blog.id}
+                  href={`/blog/${blog.slug}`}
+                  className="block bg-white rounded-2xl shadow-sm hover:shadow-md transition-shadow p-6"
+                >
+                  <div className="text-sm font-medium text-blue-700 mb-1">{blog.passages.join('; ')}</div>
+                  <h3 className="text-lg font-bold text-gray-900 mb-2">{blog.title}</h3>
+                  {blog.excerpt && <p className="text-gray-600 line-clamp-2 mb-2">{blog.excerpt}</p>}
+                  <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+                    <span className="flex items-center gap-1"><User className="w-4 h-4" />{blog.author}</span>
+                    {blog.published_at && (
+                      <span className="flex items-center gap-1"><Calendar className="w-4 h-4" />{formatDate(blog.published_at)}</span>
+                    )}
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,28 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { renderWebVtt, sermonCaptions } from '@/lib/captions'
+import { downloadCacheControl, downloadFilename, loadDownloadableSermon } from '@/lib/sermon-downloads'
+
+// The sermon's captions as WebVTT, for the <track> on uploaded videos; SRT
+// captions are converted
+export async function GET(request: NextRequest, { params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params
+
+  try {
+    const sermon = await loadDownloadableSermon(request, slug)
+    const cues = sermon ? sermonCaptions(sermon) : []
+    if (!sermon || cues.length === 0) {
+      return NextResponse.json({ error: 'Captions not found' }, { status: 404 })
+    }
+
+    return new Response(renderWebVtt(cues), {
+      headers: {
+        'Content-Type': 'text/vtt; charset=utf-8',
+        'Content-Disposition': `inline; filename="${downloadFilename(slug, '.vtt')}"`,
+        'Cache-Control': downloadCacheControl(request, sermon)
+      }
+    })
+  } catch (error) {
+    console.error('❌ Sermon captions error:', error)
+    return NextResponse.json({ error: 'Failed to load captions' }, { status: 500 })
+  }
+}
@@ -0,0 +1,116 @@
+'use client'
+
+import { useState } from 'react'
+import { Check, Copy, Scissors, Share2 } from 'lucide-react'
+import { MIN_CLIP_SECONDS, clipHref, clipTitle, parseClip } from '@/lib/sermon-clips'
+import { formatTimestamp } from '@/lib/sermon-notes'
+import { siteOrigin } from '@/lib/site-url'
+
+interface ClipPickerProps {
+  slug: string
+  title: string
+  // tenant_settings.website; links use this page's origin when it is unusable
+  website: string | null
+  // Current playback position in seconds, read when a "now" button is pressed
+  getPosition: () => number
+}
+
+/**
+ * Pick a start and end while watching and share a link that opens the
+ * player on just that range.
+ */
+export function ClipPicker({ slug, title, website, getPosition }: ClipPickerProps) {
+  const [start, setStart] = useState(() => formatTimestamp(getPosition()))
+  const [end, setEnd] = useState('')
+  const [copied, setCopied] = useState(false)
+
+  const clip = parseClip({ t: start, end: end || undefined })
+  const endInvalid = Boolean(end) && clip !== null && clip.end === null
+  const url = clip && typeof window !== 'undefined' ? new URL(clipHref(slug, clip), siteOrigin(website, window.location.origin)).toString() : null
+
+  const handleCopy = async () => {
+    if (!url) return
+    try {
+      await navigator.clipboard.writeText(url)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      console.error('Error copying clip link:', error)
+    }
+  }
+
+  const handleShare = async () => {
+    if (!url || !clip) return
+    try {
+      await navigator.share({ title: clipTitle(title, clip), url })
+    } catch (error) {
+      // Closing the share sheet rejects too
+      if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        console.error('Error sharing clip:', error)
+      }
+    }
+  }
+
+  const timeField = (label: string, value: string, onChange: (value: string) => void, invalid: boolean) => (
+    <div>
+      <label className="block text-xs font-medium text-gray-500 mb-1">{label}</label>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          inputMode="numeric"
+          value={value}
+          onChange={event => onChange(event.target.value)}
+          placeholder="mm:ss"
+          className={`w-24 px-3 py-2 border rounded-lg text-sm font-mono ${invalid ? 'border-red-400' : 'border-gray-300'}`}
+        />
+        <button
+          type="button"
+          onClick={() => onChange(formatTimestamp(getPosition()))}
+          className="px-3 py-2 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          Now
+        </button>
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="mt-6 p-4 border border-gray-200 rounded-lg">
+      <p className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-3">
+        <Scissors className="w-4 h-4" />
+        Share a clip
+      </p>
+      <div className="flex flex-wrap items-end gap-4">
+        {timeField('Start', start, setStart, clip === null)}
+        {timeField('End (optional)', end, setEnd, endInvalid)}
+      </div>
+      {clip === null && <p className="text-sm text-red-600 mt-2">Enter the start as mm:ss.</p>}
+      {endInvalid && (
+        <p className="text-sm text-red-600 mt-2">The end must be at least {MIN_CLIP_SECONDS} seconds after the start.</p>
+      )}
+      {url && (
+        <div className="flex flex-wrap items-center gap-3 mt-4">
+          <code className="flex-1 min-w-0 truncate text-xs bg-gray-50 px-3 py-2 rounded">{url}</code>
+          <button
+            type="button"
+            onClick={handleCopy}
+            className="flex items-center gap-2 bg-black text-white px-4 py-2 rounded-lg text-sm hover:bg-gray-800 transition-colors"
+          >
+            {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+            {copied ? 'Copied' : 'Copy link'}
+          </button>
+          {typeof navigator !== 'undefined' && 'share' in navigator && (
+            <button
+              type="button"
+              onClick={handleShare}
+              className="flex items-center gap-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-lg text-sm hover:bg-gray-50 transition-colors"
+            >
+              <Share2 className="w-4 h-4" />
+              Share
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { downloadCacheControl, downloadFilename, loadDownloadableSermon } from '@/lib/sermon-downloads'
+import { renderSermonNotesPdf } from '@/lib/sermon-notes-pdf'
+
+// Answers beyond this many blanks, or longer than this, are ignored
+const MAX_ANSWERS = 200
+const MAX_ANSWER_LENGTH = 200
+
+interface RouteContext {
+  params: Promise<{ slug: string }>
+}
+
+async function notesResponse(request: NextRequest, slug: string, answers: string[]): Promise<Response> {
+  try {
+    const sermon = await loadDownloadableSermon(request, slug)
+    if (!sermon) {
+      return NextResponse.json({ error: 'Sermon not found' }, { status: 404 })
+    }
+
+    console.log(`📝 Sermon notes PDF for ${slug} (${answers.filter(Boolean).length} answers)`)
+    return new Response(renderSermonNotesPdf(sermon, answers), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${downloadFilename(slug, '-notes.pdf')}"`,
+        // Filled-in notes are personal; blank notes follow the sermon content
+        'Cache-Control': answers.length > 0 ? 'private, no-store' : downloadCacheControl(request, sermon)
+      }
+    })
+  } catch (error) {
+    console.error('❌ Sermon notes PDF error:', error)
+    return NextResponse.json({ error: 'Failed to build sermon notes' }, { status: 500 })
+  }
+}
+
+// Printable notes with the outline blanks left open
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { slug } = await params
+  return notesResponse(request, slug, [])
+}
+
+// Notes with the visitor's outline answers filled in: { answers: string[] }
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { slug } = await params
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const answers = (body as { answers?: unknown } | null)?.answers
+  if (!Array.isArray(answers)) {
+    return NextResponse.json({ error: 'answers must be an array' }, { status: 400 })
+  }
+
+  return notesResponse(
+    request,
+    slug,
+    answers.slice(0, MAX_ANSWERS).map(answer => typeof answer === 'string' ? answer.slice(0, MAX_ANSWER_LENGTH) : '')
+  )
+}
@@ -1,33 +1,84 @@
 import { Metadata } from 'next'
-import { createServerSupabaseClient } from '@/lib/supabase'
-import SermonDetailClient from './sermon-client'
+import { headers } from 'next/headers'
+import { getDefaultSermonSeriesDetail, getSermonSeriesDetail, type SermonSeriesDetail } from '@/lib/content'
+import type { Tables } from '@/lib/database.types'
+import { defaultSermons, defaultSermonSeries, defaultSpeakers, type SpeakerSummary } from '@/lib/default-content'
+import { isPreviewMode } from '@/lib/preview'
+import { seriesRepo, sermonsRepo, settingsRepo, speakersRepo } from '@/lib/repositories'
+import { getPassageRelatedSermons } from '@/lib/scripture-index'
+import { clipHref, clipRangeLabel, clipTitle, parseClip, sermonShareImage } from '@/lib/sermon-clips'
+import { normalizeSiteOrigin } from '@/lib/site-url'
+import { isSupabaseConfigured } from '@/lib/supabase'
+import SermonDetailClient, { type PassageRelatedSermon, type SermonSeriesContext, type SermonSpeaker } from './sermon-client'
 
 interface SermonPageProps {
   params: Promise<{
     slug: string
   }>
+  // Clip links: ?t=<start>&end=<end>
+  searchParams: Promise<{
+    t?: string
+    end?: string
+  }>
+}
+
+async function loadWebsite(): Promise<string | null> {
+  if (!isSupabaseConfigured()) return null
+  const { data: settings } = await settingsRepo.getTenantSettings()
+  return settings?.website ?? null
+}
+
+// Share cards need absolute URLs: the church's configured website (as the clip
+// picker uses), or the origin the page was requested on when it is unusable
+async function shareOrigin(website: string | null): Promise<string | null> {
+  const configured = normalizeSiteOrigin(website)
+  if (configured) return configured
+
+  const requestHeaders = await headers()
+  const host = requestHeaders.get('x-forwarded-host') ?? requestHeaders.get('host')
+  if (!host) return null
+  const protocol = requestHeaders.get('x-forwarded-proto') ?? (host.startsWith('localhost') ? 'http' : 'https')
+  return `${protocol}://${host}`
+}
+
+function absoluteUrl(path: string, origin: string | null): string {
+  return origin ? new URL(path, origin).toString() : path
 }
 
 // Generate metadata for the sermon page
-export async function generateMetadata({ params }: SermonPageProps): Promise<Metadata> {
+export async function generateMetadata({ params, searchParams }: SermonPageProps): Promise<Metadata> {
   const { slug } = await params
+  const clip = parseClip(await searchParams)
   
   try {
-    const supabase = createServerSupabaseClient()
-    const { data: sermon } = await supabase
-      .from('sermons')
-      .select('title, description, speaker, series')
-      .eq('slug', slug)
-      .eq('status', 'published')
-      .single()
+    const preview = await isPreviewMode()
+    const { data: sermon } = await sermonsRepo.findBySlug(slug, { preview })
 
     if (sermon) {
-      const title = `${sermon.title} - DOCM Church`
-      const description = sermon.description || `A sermon by ${sermon.speaker}${sermon.series ? ` from the ${sermon.series} series` : ''}.`
+      const shareTitle = clip ? clipTitle(sermon.title, clip) : sermon.title
+      const title = `${shareTitle} - DOCM Church`
+      const sermonDescription = sermon.description || `A sermon by ${sermon.speaker}${sermon.series ? ` from the ${sermon.series} series` : ''}.`
+      const description = clip
+        ? `Clip (${clipRangeLabel(clip)}) from "${sermon.title}" by ${sermon.speaker}. ${sermonDescription}`
+        : sermonDescription
+      const image = sermonShareImage(sermon)
+      const origin = await shareOrigin(await loadWebsite())
       
       return {
         title,
         description,
+        openGraph: {
+          title: shareTitle,
+          description,
+          type: 'video.other',
+          url: absoluteUrl(clip ? clipHref(sermon.slug, clip) : `/media/sermons/${sermon.slug}`, origin),
+          ...(image && { images: [{ url: absoluteUrl(image, origin), alt: sermon.title }] })
+        },
+        twitter: {
+          card: image ? 'summary_large_image' : 'summary',
+          title: shareTitle,
+          description
+        }
       }
     }
   } catch (error) {
@@ -40,8 +91,94 @@ export async function generateMetadata({ params }: SermonPageProps): Promise<Met
   }
 }
 
-export default async function SermonDetailPage({ params }: SermonPageProps) {
+interface SermonSidebar {
+  passageRelated: PassageRelatedSermon[]
+  series: SermonSeriesContext | null
+  speaker: SermonSpeaker | null
+}
+
+const toSermonSpeaker = ({ name, slug, title, bio, photo_url }: SpeakerSummary): SermonSpeaker => ({
+  name, slug, title, bio, photo_url
+})
+
+function toSeriesContext(detail: SermonSeriesDetail | null): SermonSeriesContext | null {
+  if (!detail) return null
+
+  return {
+    title: detail.series.title,
+    slug: detail.series.slug,
+    episodes: detail.episodes.map(({ id, title, slug, sermon_date }) => ({ id, title, slug, sermon_date }))
+  }
+}
+
+async function loadSeries(sermon: Tables<'sermons'>): Promise<SermonSeriesContext | null> {
+  if (!sermon.series_id) return null
+
+  const { data: series, error } = await seriesRepo.findById(sermon.series_id)
+  if (error) throw error
+  return series ? toSeriesContext(await getSermonSeriesDetail(series.slug)) : null
+}
+
+async function loadSpeaker(sermon: Tables<'sermons'>): Promise<SermonSpeaker | null> {
+  if (!sermon.speaker_id) return null
+
+  const { data: speaker, error } = await speakersRepo.findById(sermon.speaker_id)
+  if (error) throw error
+  return speaker ? toSermonSpeaker(speaker) : null
+}
+
+function defaultSidebar(slug: string): SermonSidebar {
+  const sermon = defaultSermons.find(entry => entry.slug === slug)
+  const seriesSlug = defaultSermonSeries.find(series => series.id === sermon?.series_id)?.slug
+  const speaker = defaultSpeakers.find(entry => entry.id === sermon?.speaker_id)
+
+  return {
+    passageRelated: [],
+    series: seriesSlug ? toSeriesContext(getDefaultSermonSeriesDetail(seriesSlug)) : null,
+    speaker: speaker ? toSermonSpeaker(speaker) : null
+  }
+}
+
+// Published sermons on the same passage, the sermon's series and its speaker, for the sidebar
+async function loadSidebar(slug: string): Promise<SermonSidebar> {
+  if (!isSupabaseConfigured()) return defaultSidebar(slug)
+
+  const empty: SermonSidebar = { passageRelated: [], series: null, speaker: null }
+  try {
+    const { data: sermon } = await sermonsRepo.findBySlug(slug, { preview: await isPreviewMode() })
+    if (!sermon) return empty
+
+    const [passageRelated, series, speaker] = await Promise.all([
+      getPassageRelatedSermons(sermon),
+      loadSeries(sermon),
+      loadSpeaker(sermon)
+    ])
+    return {
+      passageRelated: passageRelated.map(({ id, title, slug, speaker, sermon_date, scripture_reference }) => ({
+        id, title, slug, speaker, sermon_date, scripture_reference
+      })),
+      series,
+      speaker
+    }
+  } catch (error) {
+    console.error('Error loading related sermons:', error)
+    return empty
+  }
+}
+
+export default async function SermonDetailPage({ params, searchParams }: SermonPageProps) {
   const { slug } = await params
-  
-  return <SermonDetailClient slug={slug} />
+  const clip = parseClip(await searchParams)
+  const [{ passageRelated, series, speaker }, website] = await Promise.all([loadSidebar(slug), loadWebsite()])
+
+  return (
+    <SermonDetailClient
+      slug={slug}
+      clip={clip}
+      passageRelated={passageRelated}
+      series={series}
+      speaker={speaker}
+      website={website}
+    />
+  )
 } 
\ No newline at end of file
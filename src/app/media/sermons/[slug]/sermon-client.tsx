@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef, type SyntheticEvent } from 'react'
 import Link from 'next/link'
 import { 
   ArrowLeft, 
@@ -13,8 +13,38 @@ import {
   Share2,
   Download,
   Heart,
-  ExternalLink
+  ExternalLink,
+  Headphones,
+  ListPlus,
+  ListVideo,
+  Scissors
 } from 'lucide-react'
+import { useAudioPlayer } from '@/components/AudioPlayerProvider'
+import { VideoPlayer } from '@/components/ui/video-player'
+import { usePlaybackTracking } from '@/hooks/usePlaybackTracking'
+import { useSermonProgress } from '@/hooks/useSermonProgress'
+import { pauseVimeoEmbed, seekVimeoEmbed, useVimeoEmbedProgress } from '@/hooks/useVimeoEmbedProgress'
+import { useWatchedSermons } from '@/hooks/useWatchedSermons'
+import { seekYouTubeEmbed, useYouTubeEmbedProgress } from '@/hooks/useYouTubeEmbedProgress'
+import { sermonAudioTrack } from '@/lib/audio-player'
+import { activeCueIndex, sermonCaptions } from '@/lib/captions'
+import type { PlaybackMedia } from '@/lib/playback-events'
+import { bookSlug, parseScriptureReference } from '@/lib/scripture'
+import { activeChapterIndex, formatTimestamp, parseChapters } from '@/lib/sermon-notes'
+import { formatPlaybackPosition, progressFraction, resumePosition } from '@/lib/sermon-progress'
+import { clipRangeLabel, type SermonClip } from '@/lib/sermon-clips'
+import { seriesHref } from '@/lib/sermon-series'
+import { speakerHref } from '@/lib/speakers'
+import {
+  isEmbedProvider,
+  sermonVideoSource,
+  videoProviderName,
+  videoThumbnailUrl,
+  type VideoType
+} from '@/lib/video-providers'
+import { ClipPicker } from './clip-picker'
+import { SermonOutline } from './sermon-outline'
+import { SermonTranscript } from './sermon-transcript'
 
 interface Sermon {
   id: string
@@ -26,14 +56,19 @@ interface Sermon {
   scripture_reference?: string
   sermon_date: string
   duration?: number
-  video_type: 'upload' | 'youtube'
+  video_type: VideoType
   video_url?: string
   youtube_url?: string
   youtube_id?: string
   audio_url?: string
   thumbnail_image?: string
   transcript?: string
+  // WebVTT or SRT text
+  captions?: string
   notes?: string
+  // [{ start, title }] JSON, see parseChapters
+  chapters?: unknown
+  outline?: string
   tags: string[]
   status: string
   view_count: number
@@ -42,15 +77,104 @@ interface Sermon {
   updated_at: string
 }
 
+// The speaker's profile, when the sermon is linked to one
+export interface SermonSpeaker {
+  name: string
+  slug: string
+  title: string | null
+  bio: string | null
+  photo_url: string | null
+}
+
+// The series a sermon belongs to, with its episodes in order
+export interface SermonSeriesContext {
+  title: string
+  slug: string
+  episodes: Array<{
+    id: string
+    title: string
+    slug: string
+    sermon_date: string
+  }>
+}
+
+export interface PassageRelatedSermon {
+  id: string
+  title: string
+  slug: string
+  speaker: string
+  sermon_date: string
+  scripture_reference: string | null
+}
+
+type NotesTab = 'outline' | 'notes' | 'transcript'
+
+const NOTES_TAB_LABELS: Record<NotesTab, string> = {
+  outline: 'Outline',
+  notes: 'Sermon Notes',
+  transcript: 'Transcript'
+}
+
 interface SermonDetailClientProps {
   slug: string
+  // Range from a shared clip link (?t=&end=)
+  clip?: SermonClip | null
+  // Other messages on the same passage, loaded by the server page
+  passageRelated?: PassageRelatedSermon[]
+  series?: SermonSeriesContext | null
+  speaker?: SermonSpeaker | null
+  // tenant_settings.website, for share links
+  website?: string | null
+}
+
+// Scripture browse page for the first passage of a reference, e.g. John 3:16 -> /media/scripture/john?chapter=3
+function scripturePageHref(reference: string): string | null {
+  const [passage] = parseScriptureReference(reference)
+  return passage ? `/media/scripture/${bookSlug(passage.book)}?chapter=${passage.startChapter}` : null
 }
 
-export default function SermonDetailClient({ slug }: SermonDetailClientProps) {
+export default function SermonDetailClient({ slug, clip = null, passageRelated = [], series = null, speaker = null, website = null }: SermonDetailClientProps) {
   const [sermon, setSermon] = useState<Sermon | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [isPlaying, setIsPlaying] = useState(false)
+  const { watchedIds, markWatched } = useWatchedSermons()
+  const { track, trackProgress } = usePlaybackTracking()
+  const { progress, saveProgress } = useSermonProgress()
+  // Where the embedded player starts, fixed when play is pressed so later
+  // position updates don't reload the iframe
+  const [embedStart, setEmbedStart] = useState(0)
+  const [embedEnd, setEmbedEnd] = useState<number | null>(null)
+  // A shared clip plays its range until the viewer seeks elsewhere
+  const [clipActive, setClipActive] = useState(Boolean(clip))
+  const [showClipPicker, setShowClipPicker] = useState(false)
+  const positionRef = useRef(0)
+  const embedRef = useRef<HTMLIFrameElement>(null)
+  const videoRef = useRef<HTMLVideoElement>(null)
+  // Chapter start picked before the native video player existed
+  const pendingSeekRef = useRef<number | null>(null)
+  const [activeChapter, setActiveChapter] = useState(-1)
+  const [activeCue, setActiveCue] = useState(-1)
+  const [notesTab, setNotesTab] = useState<NotesTab | null>(null)
+  const chapters = useMemo(() => parseChapters(sermon?.chapters), [sermon])
+  const captionCues = useMemo(() => sermon ? sermonCaptions(sermon) : [], [sermon])
+  // Audio plays in the site-wide player so it carries on after leaving the page
+  const audioPlayer = useAudioPlayer()
+  const audioTrack = useMemo(() => sermon ? sermonAudioTrack(sermon) : null, [sermon])
+  const listeningHere = Boolean(sermon && audioPlayer.current?.sermonId === sermon.id)
+  const videoSource = useMemo(() => sermon ? sermonVideoSource(sermon) : null, [sermon])
+  // YouTube, Vimeo and Facebook play in their embeds; files and HLS streams natively
+  const embedSource = videoSource && isEmbedProvider(videoSource.provider) ? videoSource : null
+  const nativeSource = videoSource && !isEmbedProvider(videoSource.provider) ? videoSource : null
+  // Embeds the page can follow and seek (Facebook's player has no such API)
+  const trackedEmbed = embedSource?.provider === 'youtube' || embedSource?.provider === 'vimeo'
+
+  // Chapter and transcript highlighting follow whichever player is running
+  const followPosition = useCallback((position: number) => {
+    positionRef.current = position
+    setActiveChapter(activeChapterIndex(chapters, position))
+    setActiveCue(activeCueIndex(captionCues, position))
+  }, [chapters, captionCues])
 
   useEffect(() => {
     if (slug) {
@@ -95,24 +219,9 @@ export default function SermonDetailClient({ slug }: SermonDetailClientProps) {
     return `${mins}m`
   }
 
-  const getVideoUrl = (sermon: Sermon): string | undefined => {
-    if (sermon.youtube_url) return sermon.youtube_url
-    if (sermon.youtube_id) return `https://www.youtube.com/watch?v=${sermon.youtube_id}`
-    if (sermon.video_url) return sermon.video_url
-    return undefined
-  }
-
-  const getEmbedUrl = (sermon: Sermon): string | undefined => {
-    if (sermon.youtube_id) {
-      return `https://www.youtube.com/embed/${sermon.youtube_id}?autoplay=${isPlaying ? 1 : 0}`
-    }
-    return undefined
-  }
-
   const getThumbnail = (sermon: Sermon) => {
     if (sermon.thumbnail_image) return sermon.thumbnail_image
-    if (sermon.youtube_id) return `https://img.youtube.com/vi/${sermon.youtube_id}/maxresdefault.jpg`
-    return 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=800&h=600&fit=crop'
+    return videoThumbnailUrl(videoSource) ?? 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=800&h=600&fit=crop'
   }
 
   const handleShare = async () => {
@@ -133,15 +242,122 @@ export default function SermonDetailClient({ slug }: SermonDetailClientProps) {
     }
   }
 
+  const handleEmbedProgress = useCallback((position: number, duration: number | null, stopped: boolean) => {
+    if (!sermon) return
+    // YouTube stops at the clip's end by itself; Vimeo's embed has no end time
+    if (embedSource?.provider === 'vimeo' && clip?.end && clipActive && position >= clip.end) {
+      pauseVimeoEmbed(embedRef.current)
+      setClipActive(false)
+    }
+    if (duration) trackProgress(sermon.id, 'video', position, duration)
+    saveProgress(sermon.id, position, duration, stopped)
+    followPosition(position)
+  }, [sermon, embedSource, clip, clipActive, followPosition, trackProgress, saveProgress])
+
+  useYouTubeEmbedProgress(embedRef, isPlaying && embedSource?.provider === 'youtube', handleEmbedProgress)
+  useVimeoEmbedProgress(embedRef, isPlaying && embedSource?.provider === 'vimeo', handleEmbedProgress)
+
+  useEffect(() => {
+    if (listeningHere) followPosition(audioPlayer.position)
+  }, [listeningHere, audioPlayer.position, followPosition])
+
+  // The native <video> player resumes from and saves the same position
+  const handleMediaLoaded = (event: SyntheticEvent<HTMLMediaElement>) => {
+    const resumeAt = pendingSeekRef.current ?? (clip && clipActive ? clip.start : sermon ? resumePosition(progress[sermon.id]) : null)
+    pendingSeekRef.current = null
+    if (resumeAt !== null && event.currentTarget.currentTime < 1) {
+      event.currentTarget.currentTime = resumeAt
+    }
+  }
+
+  const handleMediaTimeUpdate = (media: PlaybackMedia) => (event: SyntheticEvent<HTMLMediaElement>) => {
+    if (!sermon) return
+    const { currentTime, duration } = event.currentTarget
+    // Stop once at the end of a shared clip; playing again carries on
+    if (clip?.end && clipActive && currentTime >= clip.end) {
+      event.currentTarget.pause()
+      setClipActive(false)
+    }
+    trackProgress(sermon.id, media, currentTime, duration)
+    saveProgress(sermon.id, currentTime, duration)
+    followPosition(currentTime)
+  }
+
+  const handleMediaPause = (event: SyntheticEvent<HTMLMediaElement>) => {
+    if (!sermon) return
+    saveProgress(sermon.id, event.currentTarget.currentTime, event.currentTarget.duration, true)
+  }
+
+  const handleMediaEnded = (media: PlaybackMedia) => (event: SyntheticEvent<HTMLMediaElement>) => {
+    if (!sermon) return
+    track(sermon.id, 'completed', media)
+    saveProgress(sermon.id, event.currentTarget.duration, event.currentTarget.duration, true)
+  }
+
   const handlePlay = () => {
+    if (clip && clipActive) {
+      setEmbedStart(clip.start)
+      setEmbedEnd(clip.end)
+    } else {
+      setEmbedStart(sermon ? resumePosition(progress[sermon.id]) ?? 0 : 0)
+    }
     setIsPlaying(true)
+    if (!sermon) return
+    markWatched(sermon.id)
+    // The native player reports its own start when playback begins
+    if (embedSource) track(sermon.id, 'started', 'video')
+  }
+
+  // Chapters and transcript cues seek whichever player the sermon uses,
+  // starting it if needed
+  const handleSeek = (start: number) => {
+    if (!sermon) return
+    followPosition(start)
+    setClipActive(false)
+
+    if (listeningHere && audioTrack) {
+      audioPlayer.playTrack(audioTrack, start)
+      return
+    }
+
+    if (embedSource && trackedEmbed) {
+      if (isPlaying && embedSource.provider === 'vimeo') {
+        seekVimeoEmbed(embedRef.current, start)
+      } else if (isPlaying) {
+        seekYouTubeEmbed(embedRef.current, start)
+      } else {
+        setEmbedStart(start)
+        setEmbedEnd(null)
+        setIsPlaying(true)
+        markWatched(sermon.id)
+        track(sermon.id, 'started', 'video')
+      }
+      return
+    }
+
+    if (nativeSource) {
+      if (isPlaying && videoRef.current) {
+        videoRef.current.currentTime = start
+        void videoRef.current.play()
+      } else {
+        pendingSeekRef.current = start
+        setIsPlaying(true)
+        markWatched(sermon.id)
+      }
+      return
+    }
+
+    if (audioTrack) {
+      audioPlayer.playTrack(audioTrack, start)
+    }
   }
 
   const handleExternalPlay = () => {
     if (!sermon) return
-    const videoUrl = getVideoUrl(sermon)
-    if (videoUrl) {
-      window.open(videoUrl, '_blank')
+    markWatched(sermon.id)
+    track(sermon.id, 'started', 'video')
+    if (videoSource) {
+      window.open(videoSource.url, '_blank')
     }
   }
 
@@ -175,6 +391,18 @@ export default function SermonDetailClient({ slug }: SermonDetailClientProps) {
     )
   }
 
+  const scriptureHref = sermon.scripture_reference ? scripturePageHref(sermon.scripture_reference) : null
+  const savedProgress = progress[sermon.id]
+  const savedPosition = resumePosition(savedProgress)
+  const savedFraction = savedProgress ? progressFraction(savedProgress) : null
+  // Chapters, transcript seeking and clips need a player on this page
+  const hasPlayer = Boolean(trackedEmbed || nativeSource || audioTrack)
+  const inQueue = audioPlayer.queue.some(entry => entry.sermonId === sermon.id)
+  const notesTabs = (['outline', 'notes', 'transcript'] as NotesTab[]).filter(tab =>
+    tab === 'transcript' && captionCues.length > 0 ? true : sermon[tab]?.trim()
+  )
+  const selectedNotesTab = notesTab && notesTabs.includes(notesTab) ? notesTab : notesTabs[0]
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -197,7 +425,13 @@ export default function SermonDetailClient({ slug }: SermonDetailClientProps) {
               <div className="flex flex-wrap items-center gap-4 text-gray-600 mb-4">
                 <div className="flex items-center gap-2">
                   <User className="w-4 h-4" />
-                  <span className="font-medium">{sermon.speaker}</span>
+                  {speaker ? (
+                    <Link href={speakerHref(speaker.slug)} className="font-medium hover:text-blue-600 hover:underline">
+                      {speaker.name}
+                    </Link>
+                  ) : (
+                    <span className="font-medium">{sermon.speaker}</span>
+                  )}
                 </div>
                 <div className="flex items-center gap-2">
                   <Calendar className="w-4 h-4" />
@@ -215,7 +449,14 @@ export default function SermonDetailClient({ slug }: SermonDetailClientProps) {
                 </div>
               </div>
 
-              {sermon.series && (
+              {series ? (
+                <Link
+                  href={seriesHref(series.slug)}
+                  className="inline-block bg-gray-100 text-gray-700 px-3 py-1 rounded-full text-sm font-medium mb-4 hover:bg-gray-200 transition-colors"
+                >
+                  {series.title} Series
+                </Link>
+              ) : sermon.series && (
                 <div className="inline-block bg-gray-100 text-gray-700 px-3 py-1 rounded-full text-sm font-medium mb-4">
                   {sermon.series} Series
                 </div>
@@ -224,7 +465,13 @@ export default function SermonDetailClient({ slug }: SermonDetailClientProps) {
               {sermon.scripture_reference && (
                 <div className="flex items-center gap-2 text-gray-600 mb-4">
                   <BookOpen className="w-4 h-4" />
-                  <span className="font-medium">{sermon.scripture_reference}</span>
+                  {scriptureHref ? (
+                    <Link href={scriptureHref} className="font-medium hover:text-blue-600 hover:underline">
+                      {sermon.scripture_reference}
+                    </Link>
+                  ) : (
+                    <span className="font-medium">{sermon.scripture_reference}</span>
+                  )}
                 </div>
               )}
             </div>
@@ -246,14 +493,32 @@ export default function SermonDetailClient({ slug }: SermonDetailClientProps) {
           <div className="lg:col-span-2">
             <div className="bg-white rounded-2xl shadow-sm overflow-hidden mb-8">
               <div className="relative aspect-video bg-gray-900">
-                {isPlaying && getEmbedUrl(sermon) ? (
-                  <iframe
-                    src={getEmbedUrl(sermon)}
+                {isPlaying && videoSource ? (
+                  <VideoPlayer
+                    source={videoSource}
                     title={sermon.title}
-                    className="absolute inset-0 w-full h-full"
-                    allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-                    allowFullScreen
-                  />
+                    autoPlay
+                    start={embedStart}
+                    end={embedEnd}
+                    enableApi={trackedEmbed}
+                    iframeRef={embedRef}
+                    videoRef={videoRef}
+                    onLoadedMetadata={handleMediaLoaded}
+                    onPlay={() => track(sermon.id, 'started', 'video')}
+                    onTimeUpdate={handleMediaTimeUpdate('video')}
+                    onPause={handleMediaPause}
+                    onEnded={handleMediaEnded('video')}
+                  >
+                    {captionCues.length > 0 && (
+                      <track
+                        kind="captions"
+                        src={`/media/sermons/${sermon.slug}/captions.vtt`}
+                        srcLang="en"
+                        label="English"
+                        default
+                      />
+                    )}
+                  </VideoPlayer>
                 ) : (
                   <div className="relative w-full h-full">
                     <img
@@ -262,35 +527,88 @@ export default function SermonDetailClient({ slug }: SermonDetailClientProps) {
                       className="absolute inset-0 w-full h-full object-cover"
                     />
                     <div className="absolute inset-0 bg-black/40 flex items-center justify-center">
-                      <button
-                        onClick={handlePlay}
-                        className="w-20 h-20 bg-white/20 backdrop-blur-sm rounded-full flex items-center justify-center hover:bg-white/30 transition-all duration-300 group"
-                      >
-                        <Play className="w-8 h-8 text-white ml-1 group-hover:scale-110 transition-transform" />
-                      </button>
+                      <div className="flex flex-col items-center gap-3">
+                        <button
+                          onClick={handlePlay}
+                          className="w-20 h-20 bg-white/20 backdrop-blur-sm rounded-full flex items-center justify-center hover:bg-white/30 transition-all duration-300 group"
+                        >
+                          <Play className="w-8 h-8 text-white ml-1 group-hover:scale-110 transition-transform" />
+                        </button>
+                        {clip && clipActive ? (
+                          <span className="bg-black/60 text-white text-sm font-medium px-3 py-1 rounded-full">
+                            Play clip {clipRangeLabel(clip)}
+                          </span>
+                        ) : savedPosition !== null && (
+                          <span className="bg-black/60 text-white text-sm font-medium px-3 py-1 rounded-full">
+                            Resume at {formatPlaybackPosition(savedPosition)}
+                          </span>
+                        )}
+                        {savedProgress?.completed && savedPosition === null && !(clip && clipActive) && (
+                          <span className="bg-green-600 text-white text-sm font-medium px-3 py-1 rounded-full">
+                            Watched
+                          </span>
+                        )}
+                      </div>
                     </div>
+                    {savedFraction !== null && savedFraction > 0 && (
+                      <div className="absolute bottom-0 left-0 right-0 h-1.5 bg-white/30">
+                        <div className="h-full bg-red-600" style={{ width: `${Math.round(savedFraction * 100)}%` }} />
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
               
               {/* Video Controls */}
               <div className="p-6">
+                {clip && (
+                  <div className="flex flex-wrap items-center justify-between gap-3 mb-4 px-4 py-3 bg-gray-50 rounded-lg text-sm">
+                    <span className="flex items-center gap-2 text-gray-700">
+                      <Scissors className="w-4 h-4" />
+                      Shared clip: {clipRangeLabel(clip)}
+                    </span>
+                    <Link href={`/media/sermons/${sermon.slug}`} className="font-medium text-blue-600 hover:text-blue-500">
+                      Watch the full sermon →
+                    </Link>
+                  </div>
+                )}
                 <div className="flex flex-wrap gap-3">
-                  {getVideoUrl(sermon) && (
+                  {videoSource && (
                     <button
                       onClick={handleExternalPlay}
                       className="flex items-center gap-2 bg-black text-white px-4 py-2 rounded-lg hover:bg-gray-800 transition-colors"
                     >
                       <ExternalLink className="w-4 h-4" />
-                      Watch on {sermon.video_type === 'youtube' ? 'YouTube' : 'External Site'}
+                      Watch on {videoProviderName(videoSource.provider)}
                     </button>
                   )}
                   
+                  {audioTrack && (
+                    <button
+                      onClick={() => listeningHere ? audioPlayer.toggle() : audioPlayer.playTrack(audioTrack, clip && clipActive ? clip.start : undefined)}
+                      className="flex items-center gap-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors"
+                    >
+                      <Headphones className="w-4 h-4" />
+                      {listeningHere && audioPlayer.isPlaying ? 'Pause Audio' : 'Listen'}
+                    </button>
+                  )}
+
+                  {audioTrack && !inQueue && (
+                    <button
+                      onClick={() => audioPlayer.enqueue(audioTrack)}
+                      className="flex items-center gap-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors"
+                    >
+                      <ListPlus className="w-4 h-4" />
+                      Add to Queue
+                    </button>
+                  )}
+
                   {sermon.audio_url && (
                     <a
                       href={sermon.audio_url}
                       target="_blank"
                       rel="noopener noreferrer"
+                      onClick={() => track(sermon.id, 'download', 'audio')}
                       className="flex items-center gap-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors"
                     >
                       <Download className="w-4 h-4" />
@@ -298,11 +616,51 @@ export default function SermonDetailClient({ slug }: SermonDetailClientProps) {
                     </a>
                   )}
                   
+                  {hasPlayer && (
+                    <button
+                      onClick={() => setShowClipPicker(open => !open)}
+                      className={`flex items-center gap-2 border px-4 py-2 rounded-lg transition-colors ${
+                        showClipPicker ? 'border-black text-gray-900 bg-gray-50' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      <Scissors className="w-4 h-4" />
+                      Clip
+                    </button>
+                  )}
+
                   <button className="flex items-center gap-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors">
                     <Heart className="w-4 h-4" />
                     Save
                   </button>
                 </div>
+
+                {showClipPicker && (
+                  <ClipPicker slug={sermon.slug} title={sermon.title} website={website} getPosition={() => positionRef.current} />
+                )}
+
+                {chapters.length > 0 && hasPlayer && (
+                  <div className="mt-6">
+                    <p className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+                      <ListVideo className="w-4 h-4" />
+                      Chapters
+                    </p>
+                    <ol className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+                      {chapters.map((chapter, index) => (
+                        <li key={chapter.start}>
+                          <button
+                            onClick={() => handleSeek(chapter.start)}
+                            className={`w-full flex items-center gap-4 px-4 py-2 text-left text-sm transition-colors ${
+                              index === activeChapter ? 'bg-gray-100 font-semibold text-gray-900' : 'text-gray-700 hover:bg-gray-50'
+                            }`}
+                          >
+                            <span className="w-14 flex-shrink-0 font-mono text-blue-600">{formatTimestamp(chapter.start)}</span>
+                            <span>{chapter.title}</span>
+                          </button>
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -314,31 +672,50 @@ export default function SermonDetailClient({ slug }: SermonDetailClientProps) {
               </p>
             </div>
 
-            {/* Notes & Transcript */}
-            {(sermon.notes || sermon.transcript) && (
+            {/* Outline, Notes & Transcript */}
+            {selectedNotesTab && (
               <div className="bg-white rounded-2xl shadow-sm p-8">
                 <div className="border-b border-gray-200 mb-6">
                   <nav className="-mb-px flex space-x-8">
-                    {sermon.notes && (
-                      <button className="border-b-2 border-black py-2 px-1 text-sm font-medium text-gray-900">
-                        Sermon Notes
-                      </button>
-                    )}
-                    {sermon.transcript && (
-                      <button className="border-transparent border-b-2 py-2 px-1 text-sm font-medium text-gray-500 hover:text-gray-700">
-                        Transcript
+                    {notesTabs.map(tab => (
+                      <button
+                        key={tab}
+                        onClick={() => setNotesTab(tab)}
+                        className={`border-b-2 py-2 px-1 text-sm font-medium ${
+                          tab === selectedNotesTab
+                            ? 'border-black text-gray-900'
+                            : 'border-transparent text-gray-500 hover:text-gray-700'
+                        }`}
+                      >
+                        {NOTES_TAB_LABELS[tab]}
                       </button>
-                    )}
+                    ))}
                   </nav>
                 </div>
                 
                 <div className="prose max-w-none">
-                  {sermon.notes && (
+                  {selectedNotesTab === 'outline' && sermon.outline ? (
+                    <SermonOutline sermonId={sermon.id} slug={sermon.slug} title={sermon.title} outline={sermon.outline} />
+                  ) : selectedNotesTab === 'transcript' && captionCues.length > 0 ? (
+                    <SermonTranscript cues={captionCues} activeIndex={activeCue} onSeek={handleSeek} />
+                  ) : (
                     <div className="whitespace-pre-wrap text-gray-700">
-                      {sermon.notes}
+                      {selectedNotesTab === 'notes' ? sermon.notes : sermon.transcript}
                     </div>
                   )}
                 </div>
+
+                {selectedNotesTab !== 'outline' && (
+                  <a
+                    href={`/media/sermons/${sermon.slug}/notes.pdf`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-2 mt-6 text-sm font-medium text-blue-600 hover:text-blue-500"
+                  >
+                    <Download className="w-4 h-4" />
+                    Printable notes (PDF)
+                  </a>
+                )}
               </div>
             )}
           </div>
@@ -362,13 +739,78 @@ export default function SermonDetailClient({ slug }: SermonDetailClientProps) {
               </div>
             )}
 
+            {/* Speaker */}
+            {speaker && (
+              <div className="bg-white rounded-2xl shadow-sm p-6">
+                <h3 className="text-lg font-bold text-gray-900 mb-4">About the Speaker</h3>
+                <div className="flex items-center gap-4 mb-4">
+                  {speaker.photo_url ? (
+                    <img src={speaker.photo_url} alt={speaker.name} className="w-14 h-14 rounded-full object-cover" />
+                  ) : (
+                    <div className="w-14 h-14 rounded-full bg-gray-100 flex items-center justify-center">
+                      <User className="w-6 h-6 text-gray-400" />
+                    </div>
+                  )}
+                  <div>
+                    <div className="font-semibold text-gray-900">{speaker.name}</div>
+                    {speaker.title && <div className="text-sm text-gray-500">{speaker.title}</div>}
+                  </div>
+                </div>
+                {speaker.bio && <p className="text-sm text-gray-600 leading-relaxed mb-4 line-clamp-4">{speaker.bio}</p>}
+                <Link href={speakerHref(speaker.slug)} className="text-sm font-medium text-blue-600 hover:text-blue-500">
+                  More from {speaker.name} →
+                </Link>
+              </div>
+            )}
+
+            {/* Other messages on this passage */}
+            {passageRelated.length > 0 && (
+              <div className="bg-white rounded-2xl shadow-sm p-6">
+                <h3 className="text-lg font-bold text-gray-900 mb-4">Other Messages on This Passage</h3>
+                <div className="space-y-4">
+                  {passageRelated.map(related => (
+                    <Link key={related.id} href={`/media/sermons/${related.slug}`} className="block group">
+                      <div className="font-medium text-gray-900 group-hover:text-blue-600 transition-colors">{related.title}</div>
+                      <div className="text-sm text-gray-500">
+                        {related.speaker}
+                        {related.scripture_reference && ` • ${related.scripture_reference}`}
+                      </div>
+                    </Link>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Related Sermons */}
-            <div className="bg-white rounded-2xl shadow-sm p-6">
-              <h3 className="text-lg font-bold text-gray-900 mb-4">More from this Series</h3>
-              <div className="text-gray-500 text-sm">
-                Related sermons will be shown here
+            {series && series.episodes.length > 1 && (
+              <div className="bg-white rounded-2xl shadow-sm p-6">
+                <h3 className="text-lg font-bold text-gray-900 mb-4">More from this Series</h3>
+                <ol className="space-y-3">
+                  {series.episodes.map((episode, index) => (
+                    <li key={episode.id}>
+                      <Link
+                        href={`/media/sermons/${episode.slug}`}
+                        className={`flex items-start gap-3 group ${episode.id === sermon.id ? 'pointer-events-none' : ''}`}
+                      >
+                        <span className={`flex-shrink-0 w-6 h-6 rounded-full text-xs font-semibold flex items-center justify-center ${
+                          episode.id === sermon.id
+                            ? 'bg-black text-white'
+                            : watchedIds.has(episode.id) ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'
+                        }`}>
+                          {index + 1}
+                        </span>
+                        <span className={`text-sm ${episode.id === sermon.id ? 'font-semibold text-gray-900' : 'text-gray-700 group-hover:text-blue-600 transition-colors'}`}>
+                          {episode.title}
+                        </span>
+                      </Link>
+                    </li>
+                  ))}
+                </ol>
+                <Link href={seriesHref(series.slug)} className="inline-block mt-4 text-sm font-medium text-blue-600 hover:text-blue-500">
+                  View the full series →
+                </Link>
               </div>
-            </div>
+            )}
 
             {/* Share */}
             <div className="bg-white rounded-2xl shadow-sm p-6">
@@ -0,0 +1,143 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Download, FileText, Printer, RotateCcw } from 'lucide-react'
+import { useOutlineAnswers } from '@/hooks/useOutlineAnswers'
+import { outlineToText, parseOutline, type OutlineBlock } from '@/lib/sermon-notes'
+
+interface SermonOutlineProps {
+  sermonId: string
+  slug: string
+  title: string
+  outline: string
+}
+
+// Save a generated file through a temporary link
+function saveFile(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
+
+const BLOCK_CLASSES: Record<OutlineBlock['kind'], string> = {
+  heading: 'text-lg font-bold text-gray-900 mt-6 first:mt-0',
+  bullet: 'text-gray-700 pl-6 relative',
+  scripture: 'text-gray-600 italic pl-6 border-l-2 border-gray-200',
+  text: 'text-gray-700'
+}
+
+/**
+ * Fill-in-the-blank sermon outline. Answers are kept on this browser and can
+ * be downloaded as text or as printable notes.
+ */
+export function SermonOutline({ sermonId, slug, title, outline: source }: SermonOutlineProps) {
+  const outline = useMemo(() => parseOutline(source), [source])
+  const { answers, setAnswer, clearAnswers } = useOutlineAnswers(sermonId)
+  const [exporting, setExporting] = useState(false)
+  const [exportError, setExportError] = useState<string | null>(null)
+
+  const filled = answers.filter(answer => answer?.trim()).length
+  const notesUrl = `/media/sermons/${slug}/notes.pdf`
+
+  const handleDownloadText = () => {
+    const text = `${title}\n\n${outlineToText(outline, answers)}\n`
+    saveFile(new Blob([text], { type: 'text/plain;charset=utf-8' }), `${slug}-outline.txt`)
+  }
+
+  const handleDownloadPdf = async () => {
+    setExporting(true)
+    setExportError(null)
+    try {
+      const response = await fetch(notesUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ answers })
+      })
+      if (!response.ok) throw new Error('Failed to build notes')
+      saveFile(await response.blob(), `${slug}-notes.pdf`)
+    } catch (error) {
+      console.error('❌ Sermon notes export failed:', error)
+      setExportError('Could not create the PDF. Please try again.')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  if (outline.blocks.length === 0) return null
+
+  return (
+    <div>
+      <div className="space-y-3">
+        {outline.blocks.map((block, blockIndex) => (
+          <p key={blockIndex} className={BLOCK_CLASSES[block.kind]}>
+            {block.kind === 'bullet' && <span className="absolute left-2">•</span>}
+            {block.segments.map((segment, segmentIndex) =>
+              segment.type === 'text' ? (
+                <span key={segmentIndex}>{segment.text}</span>
+              ) : (
+                <input
+                  key={segmentIndex}
+                  type="text"
+                  value={answers[segment.index] ?? ''}
+                  onChange={event => setAnswer(segment.index, event.target.value)}
+                  aria-label={`Blank ${segment.index + 1}`}
+                  size={Math.max(6, segment.answer.length + 2)}
+                  className="mx-1 px-1 border-0 border-b-2 border-gray-300 bg-transparent font-semibold text-gray-900 focus:outline-none focus:border-black"
+                />
+              )
+            )}
+          </p>
+        ))}
+      </div>
+
+      <div className="mt-8 pt-6 border-t border-gray-200">
+        {outline.blankCount > 0 && (
+          <p className="text-sm text-gray-500 mb-4">
+            {filled} of {outline.blankCount} blanks filled · saved on this device
+          </p>
+        )}
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={handleDownloadPdf}
+            disabled={exporting}
+            className="flex items-center gap-2 bg-black text-white px-4 py-2 rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            {exporting ? 'Preparing PDF...' : 'Download My Notes (PDF)'}
+          </button>
+          <button
+            onClick={handleDownloadText}
+            className="flex items-center gap-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <FileText className="w-4 h-4" />
+            Download as Text
+          </button>
+          <a
+            href={notesUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <Printer className="w-4 h-4" />
+            Blank Printable Notes
+          </a>
+          {filled > 0 && (
+            <button
+              onClick={clearAnswers}
+              className="flex items-center gap-2 text-gray-500 px-4 py-2 rounded-lg hover:text-gray-700 transition-colors"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Clear
+            </button>
+          )}
+        </div>
+        {exportError && <p className="text-sm text-red-600 mt-3">{exportError}</p>}
+      </div>
+    </div>
+  )
+}
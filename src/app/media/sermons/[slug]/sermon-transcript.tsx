@@ -0,0 +1,64 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import type { CaptionCue } from '@/lib/captions'
+import { formatTimestamp } from '@/lib/sermon-notes'
+
+interface SermonTranscriptProps {
+  cues: CaptionCue[]
+  // Cue being spoken, or -1 when nothing is playing yet
+  activeIndex: number
+  onSeek: (start: number) => void
+}
+
+/**
+ * Timed transcript that highlights the cue being spoken and scrolls to keep
+ * it in view. Clicking a cue seeks the player there.
+ */
+export function SermonTranscript({ cues, activeIndex, onSeek }: SermonTranscriptProps) {
+  const listRef = useRef<HTMLOListElement>(null)
+  const [follow, setFollow] = useState(true)
+
+  // Scroll the list itself, not the page, so reading the notes isn't interrupted
+  useEffect(() => {
+    const list = listRef.current
+    if (!follow || !list || activeIndex < 0) return
+
+    const item = list.children[activeIndex] as HTMLElement | undefined
+    if (!item) return
+    const top = item.offsetTop - list.offsetTop
+    if (top < list.scrollTop || top + item.offsetHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTo({ top: Math.max(0, top - list.clientHeight / 3), behavior: 'smooth' })
+    }
+  }, [activeIndex, follow])
+
+  return (
+    <div>
+      <label className="flex items-center gap-2 text-sm text-gray-500 mb-4">
+        <input
+          type="checkbox"
+          checked={follow}
+          onChange={event => setFollow(event.target.checked)}
+          className="rounded border-gray-300"
+        />
+        Follow along with playback
+      </label>
+      <ol ref={listRef} className="max-h-96 overflow-y-auto space-y-1 pr-2 list-none pl-0 m-0">
+        {cues.map((cue, index) => (
+          <li key={`${cue.start}-${index}`} className="m-0 p-0">
+            <button
+              onClick={() => onSeek(cue.start)}
+              aria-current={index === activeIndex ? 'true' : undefined}
+              className={`w-full flex gap-4 text-left px-3 py-2 rounded-lg transition-colors ${
+                index === activeIndex ? 'bg-yellow-100 text-gray-900' : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <span className="w-14 flex-shrink-0 font-mono text-xs text-blue-600 pt-1">{formatTimestamp(cue.start)}</span>
+              <span>{cue.text}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
@@ -5,6 +5,13 @@ import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { VideoModal } from '@/components/ui/video-modal'
 import { SermonsHero } from '@/components/sections/sermons-hero'
+import { useSermonProgress } from '@/hooks/useSermonProgress'
+import { splitSnippet } from '@/lib/search-snippet'
+import { isInProgress, progressFraction } from '@/lib/sermon-progress'
+import { sermonVideoSource, videoThumbnailUrl, type VideoType } from '@/lib/video-providers'
+
+// Wait for typing to pause before searching
+const SEARCH_DEBOUNCE_MS = 300
 
 // Helper functions (reused from latest-sermons)
 function formatDuration(duration?: number): string {
@@ -45,33 +52,15 @@ function getGradient(index: number): string {
   return gradients[index % gradients.length]
 }
 
-function getYouTubeThumbnail(url: string): string {
-  const videoId = url.match(/(?:youtube\.com\/watch\?v=|youtu\.be\/)([^&\n?#]+)/)?.[1]
-  return videoId ? `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg` : ''
-}
-
 function getSermonThumbnail(sermon: any): string {
   if ('thumbnail_image' in sermon && sermon.thumbnail_image) {
     return sermon.thumbnail_image
   }
-  if ('youtube_url' in sermon && sermon.youtube_url) {
-    return getYouTubeThumbnail(sermon.youtube_url)
-  }
-  return ''
+  return videoThumbnailUrl(sermonVideoSource(sermon)) ?? ''
 }
 
 function getVideoUrl(sermon: any): string {
-  if ('video_url' in sermon && sermon.video_url) {
-    return sermon.video_url
-  }
-  if ('youtube_url' in sermon && sermon.youtube_url) {
-    return sermon.youtube_url
-  }
-  return ''
-}
-
-function isYouTubeUrl(url: string): boolean {
-  return url.includes('youtube.com') || url.includes('youtu.be')
+  return sermonVideoSource(sermon)?.url ?? ''
 }
 
 interface Sermon {
@@ -80,11 +69,13 @@ interface Sermon {
   slug: string
   description: string
   speaker: string
+  speaker_id?: string | null
   series?: string
+  series_id?: string | null
   scripture_reference?: string
   sermon_date: string
   duration?: number
-  video_type: 'upload' | 'youtube'
+  video_type: VideoType
   video_url?: string
   youtube_url?: string
   youtube_id?: string
@@ -93,31 +84,67 @@ interface Sermon {
   tags: string[]
   status: string
   view_count: number
+  // Set on search results
+  snippet?: string | null
+}
+
+function SearchSnippet({ snippet }: { snippet: string }) {
+  return (
+    <>
+      {splitSnippet(snippet).map((part, index) => (
+        part.highlighted
+          ? <mark key={index} className="bg-yellow-100 text-gray-900 rounded px-0.5">{part.text}</mark>
+          : <span key={index}>{part.text}</span>
+      ))}
+    </>
+  )
+}
+
+// Series and speaker filter choices from /api/sermons/browse
+interface SeriesOption {
+  id: string
+  slug: string
+  title: string
 }
 
-export default function BrowseSermonsClient() {
+interface SpeakerOption {
+  id: string
+  slug: string
+  name: string
+}
+
+interface BrowseSermonsClientProps {
+  // Series id from ?series=, e.g. when linked from a series
+  initialSeries?: string
+  // Speaker id from ?speaker=
+  initialSpeaker?: string
+}
+
+export default function BrowseSermonsClient({ initialSeries, initialSpeaker }: BrowseSermonsClientProps) {
   const router = useRouter()
   const [sermons, setSermons] = useState<Sermon[]>([])
   const [loading, setLoading] = useState(true)
+  const [searchInput, setSearchInput] = useState('')
   const [searchQuery, setSearchQuery] = useState('')
-  const [selectedSeries, setSelectedSeries] = useState<string>('all')
-  const [selectedSpeaker, setSelectedSpeaker] = useState<string>('all')
+  const [selectedSeries, setSelectedSeries] = useState<string>(initialSeries || 'all')
+  const [selectedSpeaker, setSelectedSpeaker] = useState<string>(initialSpeaker || 'all')
   const [currentPage, setCurrentPage] = useState(1)
   const [totalPages, setTotalPages] = useState(1)
   const [totalSermons, setTotalSermons] = useState(0)
-  const [uniqueSeries, setUniqueSeries] = useState<string[]>([])
-  const [uniqueSpeakers, setUniqueSpeakers] = useState<string[]>([])
+  const [seriesOptions, setSeriesOptions] = useState<SeriesOption[]>([])
+  const [speakerOptions, setSpeakerOptions] = useState<SpeakerOption[]>([])
+  const { progress } = useSermonProgress()
   
   const [videoModal, setVideoModal] = useState<{
     isOpen: boolean
     videoUrl: string
     title: string
-    isYouTube: boolean
+    videoType: string | null
   }>({
     isOpen: false,
     videoUrl: '',
     title: '',
-    isYouTube: false
+    videoType: null
   })
 
   const SERMONS_PER_PAGE = 12
@@ -142,11 +169,8 @@ export default function BrowseSermonsClient() {
         setTotalPages(Math.ceil(data.total / SERMONS_PER_PAGE))
         setTotalSermons(data.total)
         
-        // Extract unique series and speakers for filters
-        const series = new Set(data.allSermons?.map((s: any) => s.series).filter(Boolean))
-        const speakers = new Set(data.allSermons?.map((s: any) => s.speaker).filter(Boolean))
-        setUniqueSeries(Array.from(series) as string[])
-        setUniqueSpeakers(Array.from(speakers) as string[])
+        setSeriesOptions(data.seriesOptions || [])
+        setSpeakerOptions(data.speakerOptions || [])
       }
     } catch (error) {
       console.error('Error fetching sermons:', error)
@@ -159,16 +183,24 @@ export default function BrowseSermonsClient() {
     fetchSermons()
   }, [currentPage, searchQuery, selectedSeries, selectedSpeaker])
 
+  // Search from the first page once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearchQuery(searchInput.trim())
+      setCurrentPage(1)
+    }, SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [searchInput])
+
   // Handle video play
   const handlePlay = (sermon: any) => {
     const videoUrl = getVideoUrl(sermon)
     if (videoUrl) {
-      const isYouTube = isYouTubeUrl(videoUrl)
       setVideoModal({
         isOpen: true,
         videoUrl,
         title: sermon.title,
-        isYouTube
+        videoType: sermon.video_type ?? null
       })
     }
   }
@@ -179,7 +211,7 @@ export default function BrowseSermonsClient() {
       isOpen: false,
       videoUrl: '',
       title: '',
-      isYouTube: false
+      videoType: null
     })
   }
 
@@ -202,11 +234,13 @@ export default function BrowseSermonsClient() {
       return {
         id: sermon.id,
         title: sermon.title,
-        speaker: sermon.speaker,
+        speaker: speakerOptions.find(option => option.id === sermon.speaker_id)?.name || sermon.speaker,
         date: formatDate(sermon.sermon_date),
         duration: formatDuration(sermon.duration),
         description: sermon.description,
-        series: sermon.series || 'General',
+        snippet: sermon.snippet,
+        scripture: sermon.scripture_reference,
+        series: seriesOptions.find(option => option.id === sermon.series_id)?.title || sermon.series || 'General',
         gradient: getGradient(index),
         type: getMediaType(sermon),
         thumbnail: getSermonThumbnail(sermon),
@@ -217,6 +251,7 @@ export default function BrowseSermonsClient() {
   })
 
   const resetFilters = () => {
+    setSearchInput('')
     setSearchQuery('')
     setSelectedSeries('all')
     setSelectedSpeaker('all')
@@ -260,9 +295,9 @@ export default function BrowseSermonsClient() {
                   </svg>
                   <input
                     type="text"
-                    placeholder="Search sermons..."
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
+                    placeholder="Search sermons, transcripts or a passage like John 3..."
+                    value={searchInput}
+                    onChange={(e) => setSearchInput(e.target.value)}
                     className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900 bg-white placeholder-gray-500"
                   />
                 </div>
@@ -276,8 +311,8 @@ export default function BrowseSermonsClient() {
                   className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900 bg-white"
                 >
                   <option value="all">All Series</option>
-                  {uniqueSeries.map(series => (
-                    <option key={series} value={series}>{series}</option>
+                  {seriesOptions.map(series => (
+                    <option key={series.id} value={series.id}>{series.title}</option>
                   ))}
                 </select>
 
@@ -287,8 +322,8 @@ export default function BrowseSermonsClient() {
                   className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900 bg-white"
                 >
                   <option value="all">All Speakers</option>
-                  {uniqueSpeakers.map(speaker => (
-                    <option key={speaker} value={speaker}>{speaker}</option>
+                  {speakerOptions.map(speaker => (
+                    <option key={speaker.id} value={speaker.id}>{speaker.name}</option>
                   ))}
                 </select>
 
@@ -339,7 +374,11 @@ export default function BrowseSermonsClient() {
             <>
               {/* Sermons Grid */}
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-                {transformedSermons.map((sermon, index) => (
+                {transformedSermons.map((sermon, index) => {
+                  const entry = progress[String(sermon.id)]
+                  const fraction = entry && isInProgress(entry) ? progressFraction(entry) : null
+
+                  return (
                   <div key={sermon.id} className="bg-white rounded-xl overflow-hidden shadow-sm hover:shadow-md transition-shadow duration-300 group cursor-pointer">
                     <div 
                       className="relative h-48 overflow-hidden"
@@ -405,6 +444,25 @@ export default function BrowseSermonsClient() {
                           {sermon.type}
                         </div>
                       </div>
+
+                      {/* Completion marker */}
+                      {entry?.completed && (
+                        <div className="absolute bottom-3 left-3">
+                          <div className="bg-green-600 text-white px-2 py-1 rounded text-xs font-medium flex items-center gap-1">
+                            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+                            </svg>
+                            Watched
+                          </div>
+                        </div>
+                      )}
+
+                      {/* Resume progress */}
+                      {fraction !== null && (
+                        <div className="absolute bottom-0 left-0 right-0 h-1.5 bg-white/30">
+                          <div className="h-full bg-red-600" style={{ width: `${Math.round(fraction * 100)}%` }} />
+                        </div>
+                      )}
                     </div>
                     
                     <div className="p-4">
@@ -420,8 +478,12 @@ export default function BrowseSermonsClient() {
                         <span>{sermon.date}</span>
                       </div>
                       
-                      <p className="text-sm text-gray-600 line-clamp-2 mb-3">
-                        {sermon.description}
+                      {sermon.scripture && (
+                        <div className="text-xs font-medium text-blue-700 mb-2">{sermon.scripture}</div>
+                      )}
+
+                      <p className="text-sm text-gray-600 line-clamp-3 mb-3">
+                        {sermon.snippet ? <SearchSnippet snippet={sermon.snippet} /> : sermon.description}
                       </p>
                       
                       <div className="inline-block bg-gray-100 text-gray-700 px-2 py-1 rounded text-xs font-medium">
@@ -429,7 +491,8 @@ export default function BrowseSermonsClient() {
                       </div>
                     </div>
                   </div>
-                ))}
+                  )
+                })}
               </div>
 
               {/* Pagination */}
@@ -500,7 +563,7 @@ export default function BrowseSermonsClient() {
         onClose={closeVideoModal}
         videoUrl={videoModal.videoUrl}
         title={videoModal.title}
-        isYouTube={videoModal.isYouTube}
+        videoType={videoModal.videoType}
       />
     </>
   )
@@ -6,6 +6,14 @@ export const metadata: Metadata = {
   description: 'Browse all sermons from Demonstration of Christ Ministries. Find messages by speaker, series, or topic.',
 }
 
-export default function BrowseSermonsPage() {
-  return <BrowseSermonsClient />
-} 
\ No newline at end of file
+interface BrowseSermonsPageProps {
+  searchParams: Promise<{
+    series?: string
+    speaker?: string
+  }>
+}
+
+export default async function BrowseSermonsPage({ searchParams }: BrowseSermonsPageProps) {
+  const { series, speaker } = await searchParams
+  return <BrowseSermonsClient initialSeries={series} initialSpeaker={speaker} />
+}
@@ -1,14 +1,37 @@
+import type { Metadata } from 'next'
 import { SermonsHero } from '@/components/sections/sermons-hero'
 import { LatestSermons } from '@/components/sections/latest-sermons'
+import { ContinueWatching } from '@/components/sections/continue-watching'
+import { ServerContentProvider } from '@/components/ServerContentProvider'
+import { getLatestSermons, getMostWatchedSermons } from '@/lib/content'
+
+// Lets browsers and podcast apps discover the sermon podcast feed
+export const metadata: Metadata = {
+  alternates: {
+    types: { 'application/rss+xml': '/media/sermons/podcast.xml' }
+  }
+}
+
+// Statically rendered and regenerated at most every CONTENT_REVALIDATE_SECONDS;
+// content changes invalidate the cache tags sooner
+export const revalidate = 300
+
+export default async function SermonsPage() {
+  const [sermons, mostWatchedSermons] = await Promise.all([
+    getLatestSermons(10),
+    getMostWatchedSermons(3)
+  ])
 
-export default function SermonsPage() {
   return (
-    <>
+    <ServerContentProvider content={{ sermons: sermons.content, mostWatchedSermons }}>
       {/* Sermons Hero Section */}
       <SermonsHero />
-      
+
+      {/* Sermons the viewer started on this browser or, for members, elsewhere */}
+      <ContinueWatching className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-16" />
+
       {/* Latest Sermons */}
       <LatestSermons />
-    </>
+    </ServerContentProvider>
   )
-} 
\ No newline at end of file
+}
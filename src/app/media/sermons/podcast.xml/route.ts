@@ -0,0 +1,7 @@
+import { NextRequest } from 'next/server'
+import { podcastFeedResponse } from '@/lib/podcast'
+
+// Podcast RSS feed of every sermon with audio
+export async function GET(request: NextRequest) {
+  return podcastFeedResponse(request)
+}
@@ -0,0 +1,120 @@
+import { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { Calendar, Layers, Rss } from 'lucide-react'
+import { getDefaultSermonSeriesDetail, getSermonSeriesDetail, type SermonSeriesDetail } from '@/lib/content'
+import { seriesDateRange, seriesDurationLabel, seriesHref } from '@/lib/sermon-series'
+import { isSupabaseConfigured } from '@/lib/supabase'
+import { SeriesEpisodes } from './series-episodes'
+
+// Statically rendered and regenerated at most every CONTENT_REVALIDATE_SECONDS;
+// content changes invalidate the cache tags sooner
+export const revalidate = 300
+
+interface SeriesPageProps {
+  params: Promise<{
+    slug: string
+  }>
+}
+
+async function loadSeries(slug: string): Promise<SermonSeriesDetail | null> {
+  if (!isSupabaseConfigured()) return getDefaultSermonSeriesDetail(slug)
+
+  try {
+    return await getSermonSeriesDetail(slug)
+  } catch (error) {
+    console.error('Error loading sermon series:', error)
+    return getDefaultSermonSeriesDetail(slug)
+  }
+}
+
+function formatMonth(date: Date): string {
+  return date.toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+}
+
+export async function generateMetadata({ params }: SeriesPageProps): Promise<Metadata> {
+  const { slug } = await params
+  const detail = await loadSeries(slug)
+  if (!detail) {
+    return { title: 'Sermon Series - DOCM Church' }
+  }
+
+  const { series } = detail
+  const description = series.description || `Every message in the ${series.title} series from Demonstration of Christ Ministries.`
+  return {
+    title: `${series.title} - Sermon Series - DOCM Church`,
+    description,
+    openGraph: {
+      title: series.title,
+      description,
+      ...(series.artwork_url && { images: [series.artwork_url] })
+    },
+    alternates: {
+      types: { 'application/rss+xml': `${seriesHref(series.slug)}/podcast.xml` }
+    }
+  }
+}
+
+export default async function SermonSeriesPage({ params }: SeriesPageProps) {
+  const { slug } = await params
+  const detail = await loadSeries(slug)
+  if (!detail) {
+    notFound()
+  }
+
+  const { series, episodes } = detail
+  const { start, end } = seriesDateRange(series)
+  const duration = seriesDurationLabel(series)
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <nav className="mb-6">
+            <Link href="/media/sermons/browse" className="text-blue-600 hover:text-blue-500">
+              ← Browse all sermons
+            </Link>
+          </nav>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-8 items-center">
+            {series.artwork_url && (
+              <div className="md:col-span-2">
+                <img src={series.artwork_url} alt={series.title} className="w-full aspect-video object-cover rounded-2xl shadow-sm" />
+              </div>
+            )}
+            <div className={series.artwork_url ? 'md:col-span-3' : 'md:col-span-5'}>
+              <div className="flex items-center gap-3 text-blue-700 mb-3">
+                <Layers className="w-6 h-6" />
+                <span className="text-sm font-semibold uppercase tracking-wide">Sermon Series</span>
+              </div>
+              <h1 className="text-4xl md:text-5xl font-bold text-gray-900 mb-4">{series.title}</h1>
+              {series.description && <p className="text-lg text-gray-600 mb-6">{series.description}</p>}
+              <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+                <span>{episodes.length} {episodes.length === 1 ? 'message' : 'messages'}</span>
+                {start && (
+                  <span className="flex items-center gap-1">
+                    <Calendar className="w-4 h-4" />
+                    {end && formatMonth(end) !== formatMonth(start) ? `${formatMonth(start)} – ${formatMonth(end)}` : formatMonth(start)}
+                  </span>
+                )}
+                {duration && <span>{duration}</span>}
+                <a href={`${seriesHref(series.slug)}/podcast.xml`} className="flex items-center gap-1 text-blue-600 hover:text-blue-500">
+                  <Rss className="w-4 h-4" />
+                  Podcast feed
+                </a>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <SeriesEpisodes
+          episodes={episodes.map(({ id, title, slug, speaker, sermon_date, duration, description, thumbnail_image, youtube_id, audio_url }) => ({
+            id, title, slug, speaker, sermon_date, duration, description, thumbnail_image, youtube_id, audio_url, series: series.title
+          }))}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,11 @@
+import { NextRequest } from 'next/server'
+import { podcastFeedResponse } from '@/lib/podcast'
+
+// Podcast RSS feed of one sermon series, e.g. /media/sermons/series/faith-works/podcast.xml
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params
+  return podcastFeedResponse(request, slug)
+}
@@ -0,0 +1,139 @@
+'use client'
+
+import Link from 'next/link'
+import { Calendar, CheckCircle, Clock, Headphones, Play, User } from 'lucide-react'
+import { useAudioPlayer } from '@/components/AudioPlayerProvider'
+import { ContinueWatching } from '@/components/sections/continue-watching'
+import { useSermonProgress } from '@/hooks/useSermonProgress'
+import { useWatchedSermons } from '@/hooks/useWatchedSermons'
+import { sermonAudioTrack } from '@/lib/audio-player'
+import { isInProgress, progressFraction } from '@/lib/sermon-progress'
+import { formatDate } from '@/lib/utils'
+
+export interface SeriesEpisode {
+  id: string
+  title: string
+  slug: string
+  speaker: string
+  sermon_date: string
+  // Minutes
+  duration?: number | null
+  description?: string | null
+  thumbnail_image?: string
+  youtube_id?: string
+  audio_url?: string
+  series?: string
+}
+
+function formatMinutes(minutes?: number | null): string | null {
+  if (!minutes) return null
+  const hours = Math.floor(minutes / 60)
+  const mins = minutes % 60
+  return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`
+}
+
+/**
+ * Episode list with the viewer's progress through the series, remembered in
+ * this browser.
+ */
+export function SeriesEpisodes({ episodes }: { episodes: SeriesEpisode[] }) {
+  const { watchedIds } = useWatchedSermons()
+  const { progress } = useSermonProgress()
+  const { playQueue } = useAudioPlayer()
+  const audioTracks = episodes.flatMap(episode => sermonAudioTrack(episode) ?? [])
+
+  const watchedCount = episodes.filter(episode => watchedIds.has(episode.id)).length
+  const nextIndex = episodes.findIndex(episode => !watchedIds.has(episode.id))
+  const next = nextIndex >= 0 ? episodes[nextIndex] : null
+  const percent = episodes.length > 0 ? Math.round((watchedCount / episodes.length) * 100) : 0
+
+  if (episodes.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-lg font-medium text-gray-900">No messages in this series yet</h2>
+        <p className="mt-2 text-gray-500">Check back soon for the first message.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-8">
+      <ContinueWatching sermons={episodes} title="Pick up where you left off" limit={3} />
+
+      {/* Progress */}
+      <div className="bg-white rounded-2xl shadow-sm p-6 flex flex-col md:flex-row md:items-center gap-6">
+        <div className="flex-1">
+          <div className="flex items-center justify-between text-sm mb-2">
+            <span className="font-medium text-gray-900">Your progress</span>
+            <span className="text-gray-600">{watchedCount} of {episodes.length} watched</span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div className="h-full bg-green-500 rounded-full transition-all" style={{ width: `${percent}%` }} />
+          </div>
+        </div>
+        {audioTracks.length > 0 && (
+          <button
+            onClick={() => {
+              // Start from the next unwatched episode that has audio
+              const start = next ? audioTracks.findIndex(track => track.sermonId === next.id) : -1
+              playQueue(audioTracks, Math.max(start, 0))
+            }}
+            className="inline-flex items-center justify-center gap-2 border border-gray-300 text-gray-700 px-6 py-3 font-semibold hover:bg-gray-50 transition-colors"
+          >
+            <Headphones className="w-4 h-4" />
+            Listen to the series
+          </button>
+        )}
+        {next && (
+          <Link
+            href={`/media/sermons/${next.slug}`}
+            className="inline-flex items-center justify-center gap-2 bg-black text-white px-6 py-3 font-semibold hover:bg-gray-800 transition-colors"
+          >
+            <Play className="w-4 h-4" />
+            {watchedCount === 0 ? 'Start the series' : `Continue with Episode ${nextIndex + 1}`}
+          </Link>
+        )}
+      </div>
+
+      {/* Episodes */}
+      <ol className="space-y-4">
+        {episodes.map((episode, index) => {
+          const watched = watchedIds.has(episode.id)
+          const duration = formatMinutes(episode.duration)
+          const entry = progress[episode.id]
+          const fraction = entry && isInProgress(entry) ? progressFraction(entry) : null
+
+          return (
+            <li key={episode.id}>
+              <Link
+                href={`/media/sermons/${episode.slug}`}
+                className="flex gap-5 bg-white rounded-2xl shadow-sm hover:shadow-md transition-shadow p-6"
+              >
+                <div className={`flex-shrink-0 w-12 h-12 rounded-full flex items-center justify-center font-bold ${
+                  watched ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-700'
+                }`}>
+                  {watched ? <CheckCircle className="w-6 h-6" /> : index + 1}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium text-blue-700 mb-1">Episode {index + 1}</div>
+                  <h3 className="text-lg font-bold text-gray-900 mb-2">{episode.title}</h3>
+                  {episode.description && <p className="text-gray-600 line-clamp-2 mb-2">{episode.description}</p>}
+                  <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+                    <span className="flex items-center gap-1"><User className="w-4 h-4" />{episode.speaker}</span>
+                    <span className="flex items-center gap-1"><Calendar className="w-4 h-4" />{formatDate(episode.sermon_date)}</span>
+                    {duration && <span className="flex items-center gap-1"><Clock className="w-4 h-4" />{duration}</span>}
+                  </div>
+                  {fraction !== null && (
+                    <div className="mt-3 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                      <div className="h-full bg-red-600 rounded-full" style={{ width: `${Math.round(fraction * 100)}%` }} />
+                    </div>
+                  )}
+                </div>
+              </Link>
+            </li>
+          )
+        })}
+      </ol>
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+import { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { BookOpen, Calendar, Mic } from 'lucide-react'
+import { getDefaultSpeakerDetail, getSpeakerDetail, type SpeakerDetail } from '@/lib/content'
+import { normalizeSpeakerName } from '@/lib/speakers'
+import { isSupabaseConfigured } from '@/lib/supabase'
+import { formatDate } from '@/lib/utils'
+
+// Statically rendered and regenerated at most every CONTENT_REVALIDATE_SECONDS;
+// content changes invalidate the cache tags sooner
+export const revalidate = 300
+
+interface SpeakerPageProps {
+  params: Promise<{
+    slug: string
+  }>
+}
+
+async function loadSpeaker(slug: string): Promise<SpeakerDetail | null> {
+  if (!isSupabaseConfigured()) return getDefaultSpeakerDetail(slug)
+
+  try {
+    return await getSpeakerDetail(slug)
+  } catch (error) {
+    console.error('Error loading speaker:', error)
+    return getDefaultSpeakerDetail(slug)
+  }
+}
+
+export async function generateMetadata({ params }: SpeakerPageProps): Promise<Metadata> {
+  const { slug } = await params
+  const detail = await loadSpeaker(slug)
+  if (!detail) {
+    return { title: 'Speaker - DOCM Church' }
+  }
+
+  const { speaker } = detail
+  const description = speaker.bio || `Messages by ${speaker.name} at Demonstration of Christ Ministries.`
+  return {
+    title: `${speaker.name} - Sermons - DOCM Church`,
+    description,
+    openGraph: {
+      title: speaker.name,
+      description,
+      ...(speaker.photo_url && { images: [speaker.photo_url] })
+    }
+  }
+}
+
+export default async function SpeakerPage({ params }: SpeakerPageProps) {
+  const { slug } = await params
+  const detail = await loadSpeaker(slug)
+  if (!detail) {
+    notFound()
+  }
+
+  const { speaker, sermons } = detail
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <nav className="mb-6">
+            <Link href="/media/sermons/browse" className="text-blue-600 hover:text-blue-500">
+              ← Browse all sermons
+            </Link>
+          </nav>
+          <div className="flex flex-col md:flex-row md:items-center gap-8">
+            {speaker.photo_url ? (
+              <img src={speaker.photo_url} alt={speaker.name} className="w-40 h-40 rounded-full object-cover shadow-sm" />
+            ) : (
+              <div className="w-40 h-40 rounded-full bg-gradient-to-br from-blue-800 to-indigo-900 flex items-center justify-center text-white text-5xl font-bold">
+                {normalizeSpeakerName(speaker.name).charAt(0).toUpperCase()}
+              </div>
+            )}
+            <div>
+              <div className="flex items-center gap-3 text-blue-700 mb-3">
+                <Mic className="w-6 h-6" />
+                <span className="text-sm font-semibold uppercase tracking-wide">{speaker.title || 'Speaker'}</span>
+              </div>
+              <h1 className="text-4xl md:text-5xl font-bold text-gray-900 mb-4">{speaker.name}</h1>
+              {speaker.bio && <p className="text-lg text-gray-600 max-w-2xl">{speaker.bio}</p>}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">
+            Messages <span className="text-gray-400 font-normal">({sermons.length})</span>
+          </h2>
+          {sermons.length > 0 && (
+            <Link href={`/media/sermons/browse?speaker=${speaker.id}`} className="text-sm font-medium text-blue-600 hover:text-blue-500">
+              Search these messages →
+            </Link>
+          )}
+        </div>
+
+        {sermons.length === 0 ? (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-medium text-gray-900">No messages yet</h3>
+            <p className="mt-2 text-gray-500">Browse all sermons in the meantime.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {sermons.map(sermon => (
+              <Link
+                key={sermon.id}
+                href={`/media/sermons/${sermon.slug}`}
+                className="block bg-white rounded-2xl shadow-sm hover:shadow-md transition-shadow p-6"
+              >
+                <h3 className="text-lg font-bold text-gray-900 mb-2">{sermon.title}</h3>
+                {sermon.description && <p className="text-gray-600 line-clamp-2 mb-2">{sermon.description}</p>}
+                <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+                  <span className="flex items-center gap-1"><Calendar className="w-4 h-4" />{formatDate(sermon.sermon_date)}</span>
+                  {sermon.scripture_reference && (
+                    <span className="flex items-center gap-1"><BookOpen className="w-4 h-4" />{sermon.scripture_reference}</span>
+                  )}
+                  {sermon.series && <span>{sermon.series} Series</span>}
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
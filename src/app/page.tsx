@@ -6,10 +6,26 @@ import { SermonPreview } from '@/components/sections/sermon-preview'
 import { GetInvolvedGrid } from '@/components/sections/get-involved-grid'
 import { NewsletterSignup } from '@/components/sections/newsletter-signup'
 import { LocationMap } from '@/components/sections/location-map'
+import { ServerContentProvider } from '@/components/ServerContentProvider'
+import { getHomepageContent, getLatestSermons, getUpcomingEvents } from '@/lib/content'
+import { isPreviewMode } from '@/lib/preview'
+
+// Statically rendered and regenerated at most every CONTENT_REVALIDATE_SECONDS;
+// content changes invalidate the cache tags sooner
+export const revalidate = 300
+
+export default async function Home() {
+  const preview = await isPreviewMode()
+  const [homepage, events, sermons] = await Promise.all([
+    getHomepageContent({ preview }),
+    getUpcomingEvents(),
+    getLatestSermons(3)
+  ])
 
-export default function Home() {
   return (
-    <>
+    <ServerContentProvider
+      content={{ homepage: homepage.content, events: events.content, sermons: sermons.content }}
+    >
       {/* Hero Section */}
       <HeroSection />
       
@@ -33,6 +49,6 @@ export default function Home() {
       
       {/* Visit Us Section */}
       <LocationMap />
-    </>
+    </ServerContentProvider>
   )
 }
@@ -0,0 +1,464 @@
+'use client'
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode
+} from 'react'
+import { usePlaybackTracking } from '@/hooks/usePlaybackTracking'
+import { useSermonProgress } from '@/hooks/useSermonProgress'
+import { useWatchedSermons } from '@/hooks/useWatchedSermons'
+import {
+  MAX_QUEUE_LENGTH,
+  SKIP_SECONDS,
+  isAudioTrack,
+  type AudioTrack,
+  type SleepTimerSetting
+} from '@/lib/audio-player'
+import { resumePosition } from '@/lib/sermon-progress'
+
+// Queue, position in it and speed, kept in localStorage so the player comes
+// back (paused) after a reload
+const AUDIO_PLAYER_KEY = 'docm_audio_player'
+
+// "Previous" restarts the current sermon once it has played this long
+const RESTART_THRESHOLD_SECONDS = 5
+
+export interface SleepTimer {
+  setting: SleepTimerSetting
+  // When a minutes timer pauses playback (ms since epoch); null for 'track'
+  endsAt: number | null
+}
+
+interface AudioPlayerState {
+  queue: AudioTrack[]
+  // Index of the current track in the queue, -1 when empty
+  index: number
+  current: AudioTrack | null
+  isPlaying: boolean
+  position: number
+  duration: number | null
+  rate: number
+  sleepTimer: SleepTimer | null
+}
+
+interface AudioPlayerActions {
+  // Replace the queue, e.g. with a whole series, and start playing
+  playQueue: (tracks: AudioTrack[], startIndex?: number) => void
+  // Play one sermon now, optionally from a position; the rest of the queue stays
+  playTrack: (track: AudioTrack, startAt?: number) => void
+  enqueue: (track: AudioTrack) => void
+  removeFromQueue: (index: number) => void
+  skipTo: (index: number) => void
+  next: () => void
+  previous: () => void
+  toggle: () => void
+  seek: (seconds: number) => void
+  skipBy: (seconds: number) => void
+  setRate: (rate: number) => void
+  setSleepTimer: (setting: SleepTimerSetting | null) => void
+  close: () => void
+}
+
+type AudioPlayerContextValue = AudioPlayerState & AudioPlayerActions
+
+const AudioPlayerContext = createContext<AudioPlayerContextValue | null>(null)
+
+interface StoredPlayer {
+  queue: AudioTrack[]
+  index: number
+  rate: number
+}
+
+function readStoredPlayer(): StoredPlayer | null {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(AUDIO_PLAYER_KEY) || 'null')
+    if (!stored || !Array.isArray(stored.queue)) return null
+    const queue = stored.queue.filter(isAudioTrack).slice(0, MAX_QUEUE_LENGTH)
+    const index = Number.isInteger(stored.index) && stored.index >= 0 && stored.index < queue.length ? stored.index : queue.length > 0 ? 0 : -1
+    const rate = typeof stored.rate === 'number' && stored.rate > 0 ? stored.rate : 1
+    return { queue, index, rate }
+  } catch {
+    return null
+  }
+}
+
+function writeStoredPlayer(player: StoredPlayer) {
+  try {
+    if (player.queue.length === 0) window.localStorage.removeItem(AUDIO_PLAYER_KEY)
+    else window.localStorage.setItem(AUDIO_PLAYER_KEY, JSON.stringify(player))
+  } catch {
+    // Storage can be full or disabled; the queue just isn't remembered
+  }
+}
+
+/**
+ * Site-wide sermon audio player. Mounted once in the root layout, so its
+ * <audio> element and queue survive client-side navigation. Positions are
+ * saved with the same sermon progress the video players use.
+ */
+export function AudioPlayerProvider({ children }: { children: ReactNode }) {
+  const audioRef = useRef<HTMLAudioElement>(null)
+  // Where to start the track being loaded, applied once its metadata arrives
+  const pendingStartRef = useRef<number | null>(null)
+  const sleepTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const restoredRef = useRef(false)
+
+  const [queue, setQueue] = useState<AudioTrack[]>([])
+  const [index, setIndex] = useState(-1)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [position, setPosition] = useState(0)
+  const [duration, setDuration] = useState<number | null>(null)
+  const [rate, setRateState] = useState(1)
+  const [sleepTimer, setSleepTimerState] = useState<SleepTimer | null>(null)
+
+  const { progress, saveProgress } = useSermonProgress()
+  const { track, trackProgress } = usePlaybackTracking()
+  const { markWatched } = useWatchedSermons()
+
+  const current = index >= 0 ? queue[index] ?? null : null
+
+  useEffect(() => {
+    const stored = readStoredPlayer()
+    if (stored) {
+      setQueue(stored.queue)
+      setIndex(stored.index)
+      setRateState(stored.rate)
+    }
+    restoredRef.current = true
+  }, [])
+
+  useEffect(() => {
+    if (restoredRef.current) writeStoredPlayer({ queue, index, rate })
+  }, [queue, index, rate])
+
+  const load = useCallback((next: AudioTrack | null, autoplay: boolean, startAt?: number) => {
+    const audio = audioRef.current
+    if (!audio) return
+
+    setPosition(0)
+    setDuration(null)
+    if (!next) {
+      audio.pause()
+      audio.removeAttribute('src')
+      audio.load()
+      return
+    }
+
+    pendingStartRef.current = startAt ?? resumePosition(progress[next.sermonId])
+    audio.src = next.audioUrl
+    if (autoplay) {
+      audio.play().catch(error => {
+        console.log('Audio playback did not start:', error instanceof Error ? error.message : error)
+        setIsPlaying(false)
+      })
+    }
+  }, [progress])
+
+  const skipTo = useCallback((nextIndex: number) => {
+    if (nextIndex < 0 || nextIndex >= queue.length) return
+    setIndex(nextIndex)
+    load(queue[nextIndex], true)
+  }, [queue, load])
+
+  const playQueue = useCallback((tracks: AudioTrack[], startIndex: number = 0) => {
+    const nextQueue = tracks.slice(0, MAX_QUEUE_LENGTH)
+    if (nextQueue.length === 0) return
+    const nextIndex = Math.min(Math.max(startIndex, 0), nextQueue.length - 1)
+    setQueue(nextQueue)
+    setIndex(nextIndex)
+    load(nextQueue[nextIndex], true)
+  }, [load])
+
+  const seek = useCallback((seconds: number) => {
+    const audio = audioRef.current
+    if (!audio) return
+    const end = Number.isFinite(audio.duration) ? audio.duration : Infinity
+    audio.currentTime = Math.min(Math.max(seconds, 0), end)
+    setPosition(audio.currentTime)
+  }, [])
+
+  const toggle = useCallback(() => {
+    const audio = audioRef.current
+    if (!audio || !current) return
+    if (!audio.getAttribute('src')) {
+      // Restored from storage and not loaded yet
+      load(current, true)
+    } else if (audio.paused) {
+      void audio.play().catch(() => setIsPlaying(false))
+    } else {
+      audio.pause()
+    }
+  }, [current, load])
+
+  const playTrack = useCallback((nextTrack: AudioTrack, startAt?: number) => {
+    if (current?.sermonId === nextTrack.sermonId && audioRef.current?.getAttribute('src')) {
+      if (startAt !== undefined) seek(startAt)
+      void audioRef.current.play().catch(() => setIsPlaying(false))
+      return
+    }
+
+    const existing = queue.findIndex(entry => entry.sermonId === nextTrack.sermonId)
+    if (existing >= 0) {
+      setIndex(existing)
+      load(queue[existing], true, startAt)
+      return
+    }
+
+    // Play it next to what was playing, so the rest of the queue carries on after it
+    const insertAt = index + 1
+    setQueue([...queue.slice(0, insertAt), nextTrack, ...queue.slice(insertAt)].slice(0, MAX_QUEUE_LENGTH))
+    setIndex(insertAt)
+    load(nextTrack, true, startAt)
+  }, [current, queue, index, load, seek])
+
+  const enqueue = useCallback((nextTrack: AudioTrack) => {
+    if (queue.some(entry => entry.sermonId === nextTrack.sermonId) || queue.length >= MAX_QUEUE_LENGTH) return
+    setQueue([...queue, nextTrack])
+    if (index < 0) setIndex(0)
+  }, [queue, index])
+
+  const removeFromQueue = useCallback((removeIndex: number) => {
+    if (removeIndex < 0 || removeIndex >= queue.length) return
+    const nextQueue = queue.filter((_, i) => i !== removeIndex)
+    setQueue(nextQueue)
+
+    if (removeIndex < index) {
+      setIndex(index - 1)
+    } else if (removeIndex === index) {
+      // The track after the removed one takes its place
+      const nextIndex = nextQueue.length === 0 ? -1 : Math.min(index, nextQueue.length - 1)
+      setIndex(nextIndex)
+      load(nextIndex >= 0 ? nextQueue[nextIndex] : null, isPlaying)
+    }
+  }, [queue, index, isPlaying, load])
+
+  const next = useCallback(() => skipTo(index + 1), [skipTo, index])
+
+  const previous = useCallback(() => {
+    const audio = audioRef.current
+    if (audio && (audio.currentTime > RESTART_THRESHOLD_SECONDS || index === 0)) seek(0)
+    else skipTo(index - 1)
+  }, [index, seek, skipTo])
+
+  const skipBy = useCallback((seconds: number) => {
+    seek((audioRef.current?.currentTime ?? 0) + seconds)
+  }, [seek])
+
+  const setRate = useCallback((nextRate: number) => {
+    setRateState(nextRate)
+  }, [])
+
+  const clearSleepTimeout = () => {
+    if (sleepTimeoutRef.current) clearTimeout(sleepTimeoutRef.current)
+    sleepTimeoutRef.current = null
+  }
+
+  const setSleepTimer = useCallback((setting: SleepTimerSetting | null) => {
+    clearSleepTimeout()
+    if (setting === null) {
+      setSleepTimerState(null)
+    } else if (setting === 'track') {
+      setSleepTimerState({ setting, endsAt: null })
+    } else {
+      const ms = setting * 60_000
+      setSleepTimerState({ setting, endsAt: Date.now() + ms })
+      sleepTimeoutRef.current = setTimeout(() => {
+        audioRef.current?.pause()
+        setSleepTimerState(null)
+        sleepTimeoutRef.current = null
+      }, ms)
+    }
+  }, [])
+
+  useEffect(() => clearSleepTimeout, [])
+
+  const close = useCallback(() => {
+    setSleepTimer(null)
+    setQueue([])
+    setIndex(-1)
+    load(null, false)
+  }, [load, setSleepTimer])
+
+  // The element resets its speed whenever a new source loads
+  useEffect(() => {
+    const audio = audioRef.current
+    if (!audio) return
+    audio.defaultPlaybackRate = rate
+    audio.playbackRate = rate
+  }, [rate])
+
+  const updatePositionState = () => {
+    const audio = audioRef.current
+    if (!audio || !('mediaSession' in navigator) || !Number.isFinite(audio.duration)) return
+    try {
+      navigator.mediaSession.setPositionState({
+        duration: audio.duration,
+        playbackRate: audio.playbackRate,
+        position: Math.min(audio.currentTime, audio.duration)
+      })
+    } catch {
+      // Older implementations reject some states; the lock screen just shows less
+    }
+  }
+
+  // Lock screen and headset controls
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return
+    navigator.mediaSession.metadata = current
+      ? new MediaMetadata({
+          title: current.title,
+          artist: current.speaker,
+          album: current.series || 'Sermons',
+          artwork: current.artwork ? [{ src: current.artwork }] : []
+        })
+      : null
+  }, [current])
+
+  // Handlers read the latest actions through a ref so they are registered once
+  const actionsRef = useRef({ toggle, next, previous, skipBy, seek })
+  actionsRef.current = { toggle, next, previous, skipBy, seek }
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return
+    const session = navigator.mediaSession
+    const handlers: Array<[MediaSessionAction, MediaSessionActionHandler]> = [
+      ['play', () => void audioRef.current?.play()],
+      ['pause', () => audioRef.current?.pause()],
+      ['nexttrack', () => actionsRef.current.next()],
+      ['previoustrack', () => actionsRef.current.previous()],
+      ['seekbackward', details => actionsRef.current.skipBy(-(details.seekOffset ?? SKIP_SECONDS))],
+      ['seekforward', details => actionsRef.current.skipBy(details.seekOffset ?? SKIP_SECONDS)],
+      ['seekto', details => {
+        if (details.seekTime !== undefined) actionsRef.current.seek(details.seekTime)
+      }]
+    ]
+
+    for (const [action, handler] of handlers) {
+      try {
+        session.setActionHandler(action, handler)
+      } catch {
+        // Not every browser supports every action
+      }
+    }
+    return () => {
+      for (const [action] of handlers) {
+        try {
+          session.setActionHandler(action, null)
+        } catch {
+          // Ignored as above
+        }
+      }
+    }
+  }, [])
+
+  const handleLoadedMetadata = () => {
+    const audio = audioRef.current
+    if (!audio) return
+    if (pendingStartRef.current !== null) {
+      audio.currentTime = pendingStartRef.current
+      pendingStartRef.current = null
+    }
+    audio.playbackRate = rate
+    setDuration(Number.isFinite(audio.duration) ? audio.duration : null)
+    updatePositionState()
+  }
+
+  const handleTimeUpdate = () => {
+    const audio = audioRef.current
+    if (!audio || !current) return
+    setPosition(audio.currentTime)
+    const knownDuration = Number.isFinite(audio.duration) ? audio.duration : null
+    if (knownDuration) trackProgress(current.sermonId, 'audio', audio.currentTime, knownDuration)
+    saveProgress(current.sermonId, audio.currentTime, knownDuration)
+  }
+
+  const handlePlay = () => {
+    setIsPlaying(true)
+    if ('mediaSession' in navigator) navigator.mediaSession.playbackState = 'playing'
+    if (!current) return
+    markWatched(current.sermonId)
+    track(current.sermonId, 'started', 'audio')
+  }
+
+  const handlePause = () => {
+    setIsPlaying(false)
+    if ('mediaSession' in navigator) navigator.mediaSession.playbackState = 'paused'
+    const audio = audioRef.current
+    if (audio && current && audio.getAttribute('src')) {
+      saveProgress(current.sermonId, audio.currentTime, Number.isFinite(audio.duration) ? audio.duration : null, true)
+    }
+  }
+
+  const handleEnded = () => {
+    const audio = audioRef.current
+    if (current && audio) {
+      track(current.sermonId, 'completed', 'audio')
+      saveProgress(current.sermonId, audio.duration, audio.duration, true)
+    }
+
+    if (sleepTimer?.setting === 'track') {
+      setSleepTimer(null)
+    } else if (index + 1 < queue.length) {
+      skipTo(index + 1)
+    }
+  }
+
+  const value = useMemo<AudioPlayerContextValue>(() => ({
+    queue,
+    index,
+    current,
+    isPlaying,
+    position,
+    duration,
+    rate,
+    sleepTimer,
+    playQueue,
+    playTrack,
+    enqueue,
+    removeFromQueue,
+    skipTo,
+    next,
+    previous,
+    toggle,
+    seek,
+    skipBy,
+    setRate,
+    setSleepTimer,
+    close
+  }), [
+    queue, index, current, isPlaying, position, duration, rate, sleepTimer,
+    playQueue, playTrack, enqueue, removeFromQueue, skipTo, next, previous, toggle, seek, skipBy, setRate, setSleepTimer, close
+  ])
+
+  return (
+    <AudioPlayerContext.Provider value={value}>
+      {children}
+      <audio
+        ref={audioRef}
+        preload="metadata"
+        className="hidden"
+        onLoadedMetadata={handleLoadedMetadata}
+        onTimeUpdate={handleTimeUpdate}
+        onPlay={handlePlay}
+        onPause={handlePause}
+        onEnded={handleEnded}
+        onSeeked={updatePositionState}
+        onRateChange={updatePositionState}
+      />
+    </AudioPlayerContext.Provider>
+  )
+}
+
+export function useAudioPlayer(): AudioPlayerContextValue {
+  const context = useContext(AudioPlayerContext)
+  if (!context) {
+    throw new Error('useAudioPlayer must be used inside AudioPlayerProvider')
+  }
+  return context
+}
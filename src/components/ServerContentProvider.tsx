@@ -0,0 +1,48 @@
+'use client'
+
+import { createContext, useContext, useMemo, type ReactNode } from 'react'
+import type { ContentResponse } from '@/lib/content-response'
+import type {
+  AboutContent,
+  EventSummary,
+  EventsPageContent,
+  FooterSettings,
+  GivingPageContent,
+  HomepageContent,
+  NavigationItem,
+  SermonSeriesSummary,
+  SermonSummary
+} from '@/lib/default-content'
+
+// Content loaded by a server component, keyed by the hook that renders it
+export interface ServerContent {
+  homepage?: ContentResponse<{ homepage: HomepageContent }>
+  about?: ContentResponse<{ about: AboutContent }>
+  events?: ContentResponse<{ events: EventSummary[] }>
+  eventsPage?: ContentResponse<{ eventsPage: EventsPageContent }>
+  sermons?: ContentResponse<{ sermons: SermonSummary[] }>
+  mostWatchedSermons?: ContentResponse<{ sermons: SermonSummary[] }>
+  sermonSeries?: ContentResponse<{ series: SermonSeriesSummary[] }>
+  givingPage?: ContentResponse<GivingPageContent>
+  navigation?: ContentResponse<{ navigation: NavigationItem[] }>
+  footer?: ContentResponse<{ footer: FooterSettings }>
+}
+
+const ServerContentContext = createContext<ServerContent>({})
+
+/**
+ * Hands content that a page or layout loaded on the server to the client
+ * hooks below it, so sections render it in the initial HTML instead of
+ * fetching /api/* after hydration. Nested providers extend their parent.
+ */
+export function ServerContentProvider({ content, children }: { content: ServerContent; children: ReactNode }) {
+  const parent = useContext(ServerContentContext)
+  const value = useMemo(() => ({ ...parent, ...content }), [parent, content])
+
+  return <ServerContentContext.Provider value={value}>{children}</ServerContentContext.Provider>
+}
+
+// Server-provided content for a hook, or undefined when it must fetch itself
+export function useServerContent<K extends keyof ServerContent>(key: K): ServerContent[K] {
+  return useContext(ServerContentContext)[key]
+}
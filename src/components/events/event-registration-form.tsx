@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
-import { createServerSupabaseClient } from '@/lib/supabase'
+import { eventCalendarHref } from '@/lib/event-recurrence'
 import { syncFormatters } from '@/lib/timezone-utils'
 
 interface Event {
@@ -13,6 +13,11 @@ interface Event {
   capacity: number | null
   event_date: string
   is_recurring: boolean
+  // The occurrence being registered for, when the event recurs
+  occurrence_start: string | null
+  // Confirmed and waitlisted registrations; null when there's no capacity
+  registered_count: number | null
+  waitlist_count: number | null
   created_at: string
   updated_at: string
   primary_image?: {
@@ -31,16 +36,27 @@ interface Registration {
   specialRequests: string
 }
 
+// What the register API made of the submission
+interface RegistrationResult {
+  id: string
+  status: 'confirmed' | 'waitlisted'
+  // 1 for the next person to get a place; null unless waitlisted
+  waitlistPosition: number | null
+}
+
 interface EventRegistrationFormProps {
   eventId: string
+  // Without one, a recurring event's next occurrence is shown
+  occurrenceStart?: string | null
 }
 
-export function EventRegistrationForm({ eventId }: EventRegistrationFormProps) {
+export function EventRegistrationForm({ eventId, occurrenceStart = null }: EventRegistrationFormProps) {
   const [event, setEvent] = useState<Event | null>(null)
   const [loading, setLoading] = useState(true)
   const [submitting, setSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState(false)
+  const [result, setResult] = useState<RegistrationResult | null>(null)
   const [registration, setRegistration] = useState<Registration>({
     firstName: '',
     lastName: '',
@@ -53,7 +69,8 @@ export function EventRegistrationForm({ eventId }: EventRegistrationFormProps) {
   useEffect(() => {
     async function fetchEvent() {
       try {
-        const response = await fetch(`/api/events/${eventId}`)
+        const query = occurrenceStart ? `?occurrence=${encodeURIComponent(occurrenceStart)}` : ''
+        const response = await fetch(`/api/events/${eventId}${query}`)
         if (!response.ok) {
           throw new Error('Failed to fetch event')
         }
@@ -69,7 +86,7 @@ export function EventRegistrationForm({ eventId }: EventRegistrationFormProps) {
     if (eventId) {
       fetchEvent()
     }
-  }, [eventId])
+  }, [eventId, occurrenceStart])
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target
@@ -92,15 +109,18 @@ export function EventRegistrationForm({ eventId }: EventRegistrationFormProps) {
         },
         body: JSON.stringify({
           eventId,
+          occurrenceStart: event?.occurrence_start ?? undefined,
           ...registration
         }),
       })
 
       if (!response.ok) {
         const errorData = await response.json()
-        throw new Error(errorData.message || 'Registration failed')
+        throw new Error(errorData.error || errorData.message || 'Registration failed')
       }
 
+      const data = await response.json()
+      setResult(data.registration)
       setSuccess(true)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Registration failed')
@@ -156,12 +176,31 @@ export function EventRegistrationForm({ eventId }: EventRegistrationFormProps) {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
             </svg>
           </div>
-          <h1 className="text-3xl font-bold text-gray-900 mb-4">Registration Successful!</h1>
-          <p className="text-lg text-gray-600 mb-8">
-            Thank you for registering for <strong>{event.name}</strong>. 
-            We'll send you a confirmation email shortly.
-          </p>
+          {result?.status === 'waitlisted' ? (
+            <>
+              <h1 className="text-3xl font-bold text-gray-900 mb-4">You&apos;re on the Waitlist</h1>
+              <p className="text-lg text-gray-600 mb-8">
+                <strong>{event.name}</strong> is full, so you&apos;ve been added to the waitlist
+                {result.waitlistPosition && <> at number <strong>{result.waitlistPosition}</strong></>}.
+                If a place opens up, your registration is confirmed automatically.
+              </p>
+            </>
+          ) : (
+            <>
+              <h1 className="text-3xl font-bold text-gray-900 mb-4">Registration Successful!</h1>
+              <p className="text-lg text-gray-600 mb-8">
+                Thank you for registering for <strong>{event.name}</strong>. 
+                We'll send you a confirmation email shortly.
+              </p>
+            </>
+          )}
           <div className="flex flex-col sm:flex-row gap-4 justify-center">
+            <a
+              href={eventCalendarHref(event)}
+              className="border border-gray-300 text-gray-700 px-6 py-3 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Add to Calendar
+            </a>
             <Link 
               href="/events" 
               className="bg-black text-white px-6 py-3 rounded-lg hover:bg-gray-800 transition-colors"
@@ -196,6 +235,9 @@ export function EventRegistrationForm({ eventId }: EventRegistrationFormProps) {
     }
   }
 
+  // Once every place is taken, new registrations join the waitlist
+  const isFull = Boolean(event.capacity) && (event.registered_count ?? 0) >= (event.capacity ?? 0)
+
   return (
     <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
       {/* Header */}
@@ -277,10 +319,26 @@ export function EventRegistrationForm({ eventId }: EventRegistrationFormProps) {
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
                   </svg>
-                  <span className="font-medium">Capacity: {event.capacity}</span>
+                  <span className="font-medium">
+                    Capacity: {event.capacity}
+                    {event.registered_count !== null && (
+                      <span className="text-gray-500 font-normal">
+                        {isFull
+                          ? ` · Full${event.waitlist_count ? `, ${event.waitlist_count} on the waitlist` : ''}`
+                          : ` · ${event.capacity - event.registered_count} ${event.capacity - event.registered_count === 1 ? 'place' : 'places'} left`}
+                      </span>
+                    )}
+                  </span>
                 </div>
               )}
             </div>
+
+            <a
+              href={eventCalendarHref(event)}
+              className="inline-block mt-6 text-blue-600 font-medium hover:text-blue-700 transition-colors duration-300"
+            >
+              Add to calendar (.ics)
+            </a>
           </div>
         </div>
       </div>
@@ -288,6 +346,15 @@ export function EventRegistrationForm({ eventId }: EventRegistrationFormProps) {
       {/* Registration Form */}
       <div className="bg-white rounded-3xl shadow-sm p-8">
         <h3 className="text-2xl font-bold text-gray-900 mb-8">Registration Details</h3>
+
+        {isFull && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6">
+            <p className="text-sm text-amber-800">
+              This event is full. Registering adds you to the waitlist, and you&apos;ll be registered
+              automatically if a place opens up.
+            </p>
+          </div>
+        )}
         
         {error && (
           <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
@@ -399,7 +466,7 @@ export function EventRegistrationForm({ eventId }: EventRegistrationFormProps) {
               </>
             ) : (
               <>
-                Register for Event
+                {isFull ? 'Join the Waitlist' : 'Register for Event'}
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 8l4 4m0 0l-4 4m4-4H3" />
                 </svg>
@@ -0,0 +1,48 @@
+'use client'
+
+import Link from 'next/link'
+import { usePathname } from 'next/navigation'
+import { Radio } from 'lucide-react'
+import { useLiveStream } from '@/hooks/useLiveStream'
+import { BANNER_LEAD_MINUTES, formatCountdown } from '@/lib/live-schedule'
+
+// Strip across the top of the navigation while a service is live, and a
+// countdown shortly before one starts. Hidden on the /live page itself.
+export function LiveBanner() {
+  const pathname = usePathname()
+  const { state, now } = useLiveStream()
+
+  if (pathname === '/live') return null
+
+  if (state.status === 'live' && state.current) {
+    return (
+      <Link
+        href="/live"
+        className="flex items-center justify-center gap-3 bg-red-600 text-white text-sm font-medium px-4 py-2 hover:bg-red-700 transition-colors"
+      >
+        <span className="flex items-center gap-2 font-semibold uppercase tracking-wider">
+          <span className="w-2 h-2 rounded-full bg-white animate-pulse" />
+          We&apos;re live
+        </span>
+        <span className="hidden sm:inline">{state.current.title}</span>
+        <span className="underline">Watch now →</span>
+      </Link>
+    )
+  }
+
+  const next = state.next
+  if (!next || next.start.getTime() - now.getTime() > BANNER_LEAD_MINUTES * 60 * 1000) return null
+
+  return (
+    <Link
+      href="/live"
+      className="flex items-center justify-center gap-3 bg-gray-900 text-white text-sm font-medium px-4 py-2 hover:bg-gray-800 transition-colors"
+    >
+      <Radio className="w-4 h-4" />
+      <span>
+        {next.title} starts in <span className="font-mono">{formatCountdown(next.start, now)}</span>
+      </span>
+      <span className="underline">Join the stream →</span>
+    </Link>
+  )
+}
@@ -0,0 +1,227 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import {
+  ListMusic,
+  Moon,
+  Pause,
+  Play,
+  RotateCcw,
+  RotateCw,
+  SkipBack,
+  SkipForward,
+  X
+} from 'lucide-react'
+import { useAudioPlayer } from '@/components/AudioPlayerProvider'
+import { PLAYBACK_RATES, SKIP_SECONDS, SLEEP_TIMER_MINUTES, formatPlaybackRate } from '@/lib/audio-player'
+import { formatTimestamp } from '@/lib/sermon-notes'
+
+// Minutes left on a sleep timer, counting down once a second
+function useSleepCountdown(endsAt: number | null): string | null {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (endsAt === null) return
+    setNow(Date.now())
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [endsAt])
+
+  return endsAt === null ? null : formatTimestamp(Math.max(0, Math.ceil((endsAt - now) / 1000)))
+}
+
+/**
+ * Audio bar pinned to the bottom of every page while a sermon is queued. It
+ * lives in the root layout, so playback carries on across navigation.
+ */
+export function MiniAudioPlayer() {
+  const {
+    queue,
+    index,
+    current,
+    isPlaying,
+    position,
+    duration,
+    rate,
+    sleepTimer,
+    toggle,
+    next,
+    previous,
+    seek,
+    skipBy,
+    skipTo,
+    removeFromQueue,
+    setRate,
+    setSleepTimer,
+    close
+  } = useAudioPlayer()
+  const [showQueue, setShowQueue] = useState(false)
+  const [showSleepMenu, setShowSleepMenu] = useState(false)
+  const sleepCountdown = useSleepCountdown(sleepTimer?.endsAt ?? null)
+
+  if (!current) return null
+
+  const sleepLabel = sleepTimer?.setting === 'track' ? 'End of sermon' : sleepCountdown
+
+  return (
+    <>
+      {/* Keeps the footer clear of the fixed bar */}
+      <div className="h-28 sm:h-20" aria-hidden="true" />
+
+      <div className="fixed bottom-0 inset-x-0 z-50 bg-white border-t border-gray-200 shadow-[0_-4px_16px_rgba(0,0,0,0.08)]">
+        {showQueue && (
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-4">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-sm font-semibold text-gray-900">Up next</h2>
+              <span className="text-xs text-gray-500">{queue.length} {queue.length === 1 ? 'sermon' : 'sermons'}</span>
+            </div>
+            <ol className="max-h-64 overflow-y-auto divide-y divide-gray-100 border border-gray-100 rounded-lg">
+              {queue.map((track, trackIndex) => (
+                <li key={track.sermonId} className="flex items-center gap-3 px-3 py-2">
+                  <button
+                    onClick={() => skipTo(trackIndex)}
+                    className={`flex-1 min-w-0 text-left text-sm ${trackIndex === index ? 'font-semibold text-gray-900' : 'text-gray-700 hover:text-blue-600'}`}
+                  >
+                    <span className="block truncate">{trackIndex + 1}. {track.title}</span>
+                    <span className="block truncate text-xs text-gray-500">{track.speaker}</span>
+                  </button>
+                  <button
+                    onClick={() => removeFromQueue(trackIndex)}
+                    aria-label={`Remove ${track.title} from the queue`}
+                    className="p-1 text-gray-400 hover:text-gray-700"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3">
+          <div className="flex items-center gap-3">
+            <input
+              type="range"
+              min={0}
+              max={duration ?? 0}
+              step={1}
+              value={Math.min(position, duration ?? 0)}
+              onChange={event => seek(Number(event.target.value))}
+              disabled={!duration}
+              aria-label="Playback position"
+              className="flex-1 h-1 accent-black"
+            />
+            <span className="text-xs font-mono text-gray-500 whitespace-nowrap">
+              {formatTimestamp(position)} / {duration ? formatTimestamp(duration) : '--:--'}
+            </span>
+          </div>
+
+          <div className="mt-2 flex flex-wrap sm:flex-nowrap items-center gap-3">
+            <div className="flex items-center gap-3 min-w-0 flex-1">
+              {current.artwork && (
+                <img src={current.artwork} alt="" className="w-10 h-10 rounded object-cover flex-shrink-0" />
+              )}
+              <div className="min-w-0">
+                <Link href={`/media/sermons/${current.slug}`} className="block truncate text-sm font-semibold text-gray-900 hover:text-blue-600">
+                  {current.title}
+                </Link>
+                <div className="truncate text-xs text-gray-500">{current.speaker}</div>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-1">
+              <button onClick={previous} aria-label="Previous" className="p-2 text-gray-600 hover:text-gray-900">
+                <SkipBack className="w-4 h-4" />
+              </button>
+              <button onClick={() => skipBy(-SKIP_SECONDS)} aria-label={`Back ${SKIP_SECONDS} seconds`} className="p-2 text-gray-600 hover:text-gray-900">
+                <RotateCcw className="w-4 h-4" />
+              </button>
+              <button
+                onClick={toggle}
+                aria-label={isPlaying ? 'Pause' : 'Play'}
+                className="w-10 h-10 rounded-full bg-black text-white flex items-center justify-center hover:bg-gray-800 transition-colors"
+              >
+                {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4 ml-0.5" />}
+              </button>
+              <button onClick={() => skipBy(SKIP_SECONDS)} aria-label={`Forward ${SKIP_SECONDS} seconds`} className="p-2 text-gray-600 hover:text-gray-900">
+                <RotateCw className="w-4 h-4" />
+              </button>
+              <button
+                onClick={next}
+                disabled={index + 1 >= queue.length}
+                aria-label="Next"
+                className="p-2 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+              >
+                <SkipForward className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="flex items-center gap-1 ml-auto">
+              <select
+                value={rate}
+                onChange={event => setRate(Number(event.target.value))}
+                aria-label="Playback speed"
+                className="text-xs border border-gray-300 rounded px-1 py-1 bg-white"
+              >
+                {PLAYBACK_RATES.map(option => (
+                  <option key={option} value={option}>{formatPlaybackRate(option)}</option>
+                ))}
+              </select>
+
+              <div className="relative">
+                <button
+                  onClick={() => setShowSleepMenu(open => !open)}
+                  aria-label="Sleep timer"
+                  className={`flex items-center gap-1 p-2 text-xs ${sleepTimer ? 'text-blue-600' : 'text-gray-600 hover:text-gray-900'}`}
+                >
+                  <Moon className="w-4 h-4" />
+                  {sleepLabel && <span className="font-mono">{sleepLabel}</span>}
+                </button>
+                {showSleepMenu && (
+                  <div className="absolute bottom-full right-0 mb-2 w-40 bg-white border border-gray-200 rounded-lg shadow-lg py-1 text-sm">
+                    {SLEEP_TIMER_MINUTES.map(minutes => (
+                      <button
+                        key={minutes}
+                        onClick={() => { setSleepTimer(minutes); setShowSleepMenu(false) }}
+                        className="block w-full text-left px-3 py-1.5 hover:bg-gray-50"
+                      >
+                        {minutes} minutes
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => { setSleepTimer('track'); setShowSleepMenu(false) }}
+                      className="block w-full text-left px-3 py-1.5 hover:bg-gray-50"
+                    >
+                      End of sermon
+                    </button>
+                    {sleepTimer && (
+                      <button
+                        onClick={() => { setSleepTimer(null); setShowSleepMenu(false) }}
+                        className="block w-full text-left px-3 py-1.5 text-red-600 hover:bg-gray-50"
+                      >
+                        Turn off
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <button
+                onClick={() => setShowQueue(open => !open)}
+                aria-label="Queue"
+                aria-expanded={showQueue}
+                className={`p-2 ${showQueue ? 'text-blue-600' : 'text-gray-600 hover:text-gray-900'}`}
+              >
+                <ListMusic className="w-4 h-4" />
+              </button>
+              <button onClick={close} aria-label="Close player" className="p-2 text-gray-400 hover:text-gray-700">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
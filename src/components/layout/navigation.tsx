@@ -4,6 +4,7 @@ import Link from 'next/link'
 import { useState, useEffect } from 'react'
 import { useNavigation } from '@/hooks/useNavigation'
 import { useTenantSettings } from '@/hooks/useTenantSettings'
+import { LiveBanner } from '@/components/layout/live-banner'
 
 export function Navigation() {
   const { navigation, loading } = useNavigation()
@@ -46,6 +47,7 @@ export function Navigation() {
         ? 'bg-black border-b border-gray-800' 
         : 'bg-black/10 backdrop-blur-md border-b border-white/10'
     }`}>
+      <LiveBanner />
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex justify-between items-center h-20">
           {/* Logo */}
@@ -0,0 +1,36 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { usePathname } from 'next/navigation'
+import { Eye } from 'lucide-react'
+import { PREVIEW_FLAG_COOKIE } from '@/lib/preview-cookies'
+
+// Shown on every page while an editor is in preview mode. The preview cookie
+// travels with every navigation and API call, so links stay in preview until
+// the editor exits.
+export function PreviewBanner() {
+  const pathname = usePathname()
+  const [isPreview, setIsPreview] = useState(false)
+
+  useEffect(() => {
+    setIsPreview(document.cookie.split('; ').some(cookie => cookie.startsWith(`${PREVIEW_FLAG_COOKIE}=`)))
+  }, [pathname])
+
+  if (!isPreview) return null
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-[100] flex items-center gap-4 bg-amber-500 text-gray-900 px-5 py-3 rounded-full shadow-lg">
+      <span className="flex items-center gap-2 text-sm font-semibold uppercase tracking-wider">
+        <Eye className="h-4 w-4" />
+        Preview
+      </span>
+      <span className="hidden sm:inline text-sm">Drafts and unsaved changes are visible</span>
+      <a
+        href={`/api/preview/exit?redirect=${encodeURIComponent(pathname || '/')}`}
+        className="text-sm font-semibold underline hover:text-gray-700"
+      >
+        Exit preview
+      </a>
+    </div>
+  )
+}
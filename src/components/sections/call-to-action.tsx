@@ -0,0 +1,87 @@
+'use client'
+
+import Link from 'next/link'
+import { ChevronRight } from 'lucide-react'
+import { isVideoUrl } from '@/lib/utils'
+
+export interface CallToActionSectionProps {
+  heading?: string
+  text?: string
+  buttonText?: string
+  buttonLink?: string
+  backgroundImage?: string
+}
+
+// Call to Action Section Component
+export function CallToActionSection({ heading, text, buttonText, buttonLink, backgroundImage }: CallToActionSectionProps) {
+  return (
+    <section className="py-24 bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="relative overflow-hidden rounded-3xl">
+          {/* Background Media */}
+          <div className="absolute inset-0">
+            {backgroundImage ? (
+              isVideoUrl(backgroundImage) ? (
+                // Video Background
+                <div className="absolute inset-0">
+                  <video
+                    autoPlay
+                    muted
+                    loop
+                    playsInline
+                    className="h-full w-full object-cover"
+                  >
+                    <source src={backgroundImage} type="video/mp4" />
+                  </video>
+                  <div className="absolute inset-0 bg-black/50"></div>
+                </div>
+              ) : (
+                // Image Background
+                <div className="absolute inset-0">
+                  <img
+                    src={backgroundImage}
+                    alt="CTA background"
+                    className="h-full w-full object-cover"
+                  />
+                  <div className="absolute inset-0 bg-black/50"></div>
+                </div>
+              )
+            ) : (
+              // Fallback gradient background
+              <div className="absolute inset-0 bg-gradient-to-br from-purple-900 via-indigo-900 to-blue-900">
+                <div className="absolute inset-0 bg-black/40"></div>
+              </div>
+            )}
+          </div>
+
+          {/* Content */}
+          <div className="relative z-10 text-center py-16 px-8">
+            <div className="max-w-3xl mx-auto">
+              {heading && (
+                <h2 className="text-4xl md:text-5xl font-bold text-white mb-6">
+                  {heading}
+                </h2>
+              )}
+              
+              {text && (
+                <p className="text-xl text-gray-200 mb-8 max-w-2xl mx-auto">
+                  {text}
+                </p>
+              )}
+              
+              {buttonText && buttonLink && (
+                <Link
+                  href={buttonLink}
+                  className="inline-flex items-center gap-3 bg-white text-gray-900 px-8 py-4 font-semibold hover:bg-gray-100 transition-all duration-300"
+                >
+                  {buttonText}
+                  <ChevronRight className="h-4 w-4" />
+                </Link>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </section>
+  )
+}
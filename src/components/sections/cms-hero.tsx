@@ -0,0 +1,162 @@
+'use client'
+
+import Link from 'next/link'
+import { Play, ChevronRight } from 'lucide-react'
+import { isVideoUrl } from '@/lib/utils'
+
+export interface CmsHeroButton {
+  text?: string
+  link?: string
+  style?: 'primary' | 'outline' | 'link' | 'secondary'
+}
+
+export interface CmsHeroSectionProps {
+  firstLine?: string
+  heading?: string
+  subheading?: string
+  backgroundImage?: string
+  ctaButtons?: CmsHeroButton[]
+}
+
+// Hero Section Component
+export function CmsHeroSection({ firstLine, heading, subheading, backgroundImage, ctaButtons = [] }: CmsHeroSectionProps) {
+
+  return (
+    <section className="relative min-h-screen flex items-center justify-center overflow-hidden">
+      {/* Background Media */}
+      <div className="absolute inset-0">
+        {backgroundImage ? (
+          isVideoUrl(backgroundImage) ? (
+            // Video Background
+            <div className="absolute inset-0">
+              <video
+                autoPlay
+                muted
+                loop
+                playsInline
+                className="h-full w-full object-cover"
+                onError={(e) => {
+                  console.error('Video failed to load:', backgroundImage)
+                  // Fallback to gradient background
+                  const target = e.target as HTMLVideoElement
+                  target.style.display = 'none'
+                  const parent = target.parentElement
+                  if (parent) {
+                    parent.innerHTML = '<div class="absolute inset-0 bg-gradient-to-br from-slate-900 via-blue-900 to-indigo-900"></div>'
+                  }
+                }}
+              >
+                <source src={backgroundImage} type="video/mp4" />
+                Your browser does not support the video tag.
+              </video>
+              {/* Video overlay */}
+              <div className="absolute inset-0 bg-black/40"></div>
+            </div>
+          ) : (
+            // Image Background
+            <div className="absolute inset-0">
+              <img
+                src={backgroundImage}
+                alt="Hero background"
+                className="h-full w-full object-cover"
+                onError={(e) => {
+                  console.error('Image failed to load:', backgroundImage)
+                  // Fallback to gradient background
+                  const target = e.target as HTMLImageElement
+                  target.style.display = 'none'
+                  const parent = target.parentElement
+                  if (parent) {
+                    parent.innerHTML = '<div class="absolute inset-0 bg-gradient-to-br from-slate-900 via-blue-900 to-indigo-900"></div>'
+                  }
+                }}
+              />
+              {/* Image overlay */}
+              <div className="absolute inset-0 bg-black/40"></div>
+            </div>
+          )
+        ) : (
+          // Fallback gradient background
+          <div className="absolute inset-0 bg-gradient-to-br from-slate-900 via-blue-900 to-indigo-900">
+            {/* Video overlay */}
+            <div className="absolute inset-0 bg-black/40"></div>
+            
+            {/* Simulated video background with moving pattern */}
+            <div className="absolute inset-0 opacity-30">
+              <div 
+                className="h-full w-full animate-pulse"
+                style={{
+                  backgroundImage: `
+                    linear-gradient(45deg, transparent 25%, rgba(255,255,255,0.1) 25%, rgba(255,255,255,0.1) 50%, transparent 50%, transparent 75%, rgba(255,255,255,0.1) 75%),
+                    linear-gradient(-45deg, transparent 25%, rgba(255,255,255,0.05) 25%, rgba(255,255,255,0.05) 50%, transparent 50%, transparent 75%, rgba(255,255,255,0.05) 75%)
+                  `,
+                  backgroundSize: '60px 60px',
+                  animation: 'moveBackground 20s linear infinite'
+                }}
+              ></div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Content */}
+      <div className="relative z-10 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-20">
+        <div className="max-w-4xl mx-auto text-center">
+          <div className="text-white">
+            {firstLine && (
+              <p className="text-sm font-medium text-white uppercase tracking-wider mb-4">
+                {firstLine}
+              </p>
+            )}
+            
+            {heading && (
+              <h1 className="text-5xl md:text-6xl lg:text-7xl font-bold leading-[1.1] mb-8">
+                {heading}
+              </h1>
+            )}
+            
+            {subheading && (
+              <p className="text-lg md:text-xl leading-relaxed text-gray-200 mb-12 max-w-3xl mx-auto">
+                {subheading}
+              </p>
+            )}
+            
+            {ctaButtons.length > 0 && (
+              <div className="flex flex-col sm:flex-row gap-4 justify-center">
+                {ctaButtons.map((button, index) => (
+                  <Link
+                    key={index}
+                    href={button.link || '#'}
+                    className={`px-8 py-4 font-semibold transition-all duration-300 text-center flex items-center justify-center gap-3 ${
+                      button.style === 'primary'
+                        ? 'bg-white text-gray-900 hover:bg-gray-100'
+                        : button.style === 'outline'
+                        ? 'border border-white text-white hover:bg-white hover:text-gray-900'
+                        : button.style === 'link'
+                        ? 'text-white hover:text-gray-300 underline'
+                        : 'border border-white text-white hover:bg-white hover:text-gray-900'
+                    }`}
+                  >
+                    {button.text || 'Learn More'}
+                    {button.style === 'link' ? (
+                      <ChevronRight className="h-4 w-4" />
+                    ) : button.text?.toLowerCase().includes('watch') || button.text?.toLowerCase().includes('video') ? (
+                      <Play className="h-4 w-4" />
+                    ) : null}
+                  </Link>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Custom animation keyframes */}
+      <style jsx>{`
+        @keyframes moveBackground {
+          0% { transform: translateX(0) translateY(0); }
+          100% { transform: translateX(60px) translateY(60px); }
+        }
+      `}</style>
+    </section>
+  )
+}
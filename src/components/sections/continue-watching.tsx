@@ -0,0 +1,106 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { Play } from 'lucide-react'
+import { useSermonProgress } from '@/hooks/useSermonProgress'
+import { fetchContent } from '@/lib/content-response'
+import type { SermonSummary } from '@/lib/default-content'
+import { continueWatchingEntries, progressFraction, remainingLabel } from '@/lib/sermon-progress'
+import { sermonVideoSource, videoThumbnailUrl } from '@/lib/video-providers'
+
+type RailSermon = Pick<SermonSummary, 'id' | 'slug' | 'title' | 'speaker'> &
+  Partial<Pick<SermonSummary, 'thumbnail_image' | 'video_type' | 'video_url' | 'youtube_url' | 'youtube_id'>>
+
+interface ContinueWatchingProps {
+  // Limit the rail to these sermons (e.g. a series' episodes) instead of
+  // looking up whatever the viewer has in progress
+  sermons?: RailSermon[]
+  title?: string
+  limit?: number
+  className?: string
+}
+
+function getThumbnail(sermon: RailSermon): string | null {
+  if (sermon.thumbnail_image) return sermon.thumbnail_image
+  return videoThumbnailUrl(sermonVideoSource(sermon), 'small')
+}
+
+/**
+ * Sermons the viewer started but did not finish, most recent first, with how
+ * far they got. Renders nothing until there is something to continue.
+ */
+export function ContinueWatching({ sermons, title = 'Continue watching', limit = 6, className = '' }: ContinueWatchingProps) {
+  const { progress } = useSermonProgress()
+  const [fetched, setFetched] = useState<RailSermon[]>([])
+
+  const entries = useMemo(() => {
+    const scoped = sermons
+      ? Object.fromEntries(Object.entries(progress).filter(([id]) => sermons.some(sermon => sermon.id === id)))
+      : progress
+    return continueWatchingEntries(scoped, limit)
+  }, [progress, sermons, limit])
+
+  const wantedIds = entries.map(entry => entry.sermonId).join(',')
+
+  useEffect(() => {
+    if (sermons || !wantedIds) return
+
+    fetchContent<{ sermons: SermonSummary[] }>(`/api/sermons?ids=${encodeURIComponent(wantedIds)}`, { cache: 'no-store' })
+      .then(data => setFetched(data.sermons))
+      .catch(err => {
+        console.log('Continue watching fetch failed:', err instanceof Error ? err.message : err)
+        setFetched([])
+      })
+  }, [sermons, wantedIds])
+
+  const available = sermons ?? fetched
+  const items = entries.flatMap(entry => {
+    const sermon = available.find(candidate => candidate.id === entry.sermonId)
+    return sermon ? [{ sermon, entry }] : []
+  })
+
+  if (items.length === 0) return null
+
+  return (
+    <section className={className}>
+      <h2 className="text-2xl font-bold text-gray-900 mb-6">{title}</h2>
+      <div className="flex gap-6 overflow-x-auto pb-2 snap-x">
+        {items.map(({ sermon, entry }) => {
+          const thumbnail = getThumbnail(sermon)
+          const fraction = progressFraction(entry)
+          const remaining = remainingLabel(entry)
+
+          return (
+            <Link
+              key={sermon.id}
+              href={`/media/sermons/${sermon.slug}`}
+              className="group flex-shrink-0 w-72 snap-start"
+            >
+              <div className="relative h-40 rounded-xl overflow-hidden bg-gradient-to-br from-gray-700 to-gray-900 mb-3">
+                {thumbnail && (
+                  <img src={thumbnail} alt={sermon.title} className="absolute inset-0 w-full h-full object-cover" />
+                )}
+                <div className="absolute inset-0 bg-black/30 flex items-center justify-center">
+                  <div className="w-12 h-12 bg-white/20 backdrop-blur-sm rounded-full flex items-center justify-center group-hover:bg-white/30 transition-all duration-300">
+                    <Play className="w-5 h-5 text-white ml-0.5" />
+                  </div>
+                </div>
+                {fraction !== null && (
+                  <div className="absolute bottom-0 left-0 right-0 h-1.5 bg-white/30">
+                    <div className="h-full bg-red-600" style={{ width: `${Math.round(fraction * 100)}%` }} />
+                  </div>
+                )}
+              </div>
+              <h3 className="font-semibold text-gray-900 line-clamp-2 group-hover:text-gray-700">{sermon.title}</h3>
+              <p className="text-sm text-gray-600">
+                {sermon.speaker}
+                {remaining && <> • {remaining}</>}
+              </p>
+            </Link>
+          )
+        })}
+      </div>
+    </section>
+  )
+}
@@ -1,101 +1,174 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useMemo, useRef, useState, type KeyboardEvent } from 'react'
+import Link from 'next/link'
+import { useEventRange } from '@/hooks/useEventRange'
+import type { EventSummary } from '@/lib/default-content'
+import {
+  addDays,
+  addMonths,
+  CALENDAR_VIEWS,
+  calendarRange,
+  calendarTitle,
+  daysBetween,
+  formatEventTime,
+  formatLocalDate,
+  startOfWeek,
+  stepCalendar,
+  todayIn,
+  WEEKDAY_SHORT_LABELS,
+  type CalendarView
+} from '@/lib/event-calendar'
+import { eventOccurrenceKey, eventRegistrationHref } from '@/lib/event-recurrence'
+import { EVENT_CATEGORIES, eventCategoryStyle } from './event-categories'
+
+// Event chips shown in a month cell before "+N more"
+const MONTH_CELL_EVENTS = 2
+
+const CALENDAR_FEED_PATH = '/api/events/calendar.ics'
 
 export function EventCalendar() {
-  const [currentMonth, setCurrentMonth] = useState(new Date())
-  
-  const events = [
-    { id: 1, date: '2023-12-15', title: 'Youth Night', time: '7:00 PM', type: 'youth' },
-    { id: 2, date: '2023-12-16', title: 'Community Outreach', time: '10:00 AM', type: 'outreach' },
-    { id: 3, date: '2023-12-17', title: 'Sunday Service', time: '9:00 AM', type: 'worship' },
-    { id: 4, date: '2023-12-24', title: 'Christmas Eve Service', time: '6:00 PM', type: 'special' },
-    { id: 5, date: '2023-12-31', title: 'New Year Prayer', time: '11:00 PM', type: 'prayer' }
-  ]
+  const [view, setView] = useState<CalendarView>('month')
+  // The focused day; the grids centre on it and the side panel lists its events
+  const [date, setDate] = useState(() => todayIn(null))
+  const { from, to } = calendarRange(view, date)
+  const { events, timeZone, loading, error } = useEventRange(from, to)
+  const today = todayIn(timeZone)
 
-  const upcomingEvents = [
-    {
-      id: 1,
-      title: "Sunday Worship Service",
-      date: "December 17, 2023",
-      time: "9:00 AM",
-      location: "Main Sanctuary",
-      description: "Join us for worship, prayer, and fellowship",
-      category: "Worship",
-      gradient: "from-blue-600 to-indigo-700"
-    },
-    {
-      id: 2,
-      title: "Youth Night",
-      date: "December 15, 2023",
-      time: "7:00 PM",
-      location: "Youth Center",
-      description: "Games, music, and fellowship for teens",
-      category: "Youth",
-      gradient: "from-purple-600 to-pink-700"
-    },
-    {
-      id: 3,
-      title: "Christmas Eve Service",
-      date: "December 24, 2023",
-      time: "6:00 PM",
-      location: "Main Sanctuary",
-      description: "Special Christmas celebration service",
-      category: "Special",
-      gradient: "from-red-600 to-rose-700"
-    }
-  ]
+  // Plain https until mounted, then webcal:// so calendar apps subscribe
+  const [feedUrl, setFeedUrl] = useState(CALENDAR_FEED_PATH)
+
+  const dayRefs = useRef(new Map<string, HTMLButtonElement>())
+  const focusFromKeyboard = useRef(false)
 
-  const monthNames = [
-    "January", "February", "March", "April", "May", "June",
-    "July", "August", "September", "October", "November", "December"
-  ]
+  useEffect(() => {
+    setFeedUrl(`webcal://${window.location.host}${CALENDAR_FEED_PATH}`)
+  }, [])
 
-  const getDaysInMonth = (date: Date) => {
-    const year = date.getFullYear()
-    const month = date.getMonth()
-    const firstDay = new Date(year, month, 1)
-    const lastDay = new Date(year, month + 1, 0)
-    const daysInMonth = lastDay.getDate()
-    const startingDayOfWeek = firstDay.getDay()
-    
-    const days = []
-    
-    // Add empty cells for days before the first day of the month
-    for (let i = 0; i < startingDayOfWeek; i++) {
-      days.push(null)
+  // Keyboard moves take focus along to the new day, which may be on a new page
+  useEffect(() => {
+    if (!focusFromKeyboard.current) return
+    focusFromKeyboard.current = false
+    dayRefs.current.get(date)?.focus()
+  }, [date, view])
+
+  const eventsByDate = useMemo(() => {
+    const byDate = new Map<string, EventSummary[]>()
+    for (const event of events) {
+      byDate.set(event.local_date, [...(byDate.get(event.local_date) ?? []), event])
     }
-    
-    // Add days of the month
-    for (let day = 1; day <= daysInMonth; day++) {
-      days.push(day)
+    return byDate
+  }, [events])
+
+  const handleDayKeyDown = (event: KeyboardEvent<HTMLButtonElement>, day: string) => {
+    const moves: Record<string, () => string> = {
+      ArrowLeft: () => addDays(day, -1),
+      ArrowRight: () => addDays(day, 1),
+      ArrowUp: () => addDays(day, -7),
+      ArrowDown: () => addDays(day, 7),
+      Home: () => startOfWeek(day),
+      End: () => addDays(startOfWeek(day), 6),
+      PageUp: () => event.shiftKey ? addMonths(day, -12) : stepCalendar(view, day, -1),
+      PageDown: () => event.shiftKey ? addMonths(day, 12) : stepCalendar(view, day, 1)
     }
-    
-    return days
-  }
+    const move = moves[event.key]
+    if (!move) return
 
-  const hasEvent = (day: number) => {
-    const year = currentMonth.getFullYear()
-    const month = currentMonth.getMonth()
-    const dateString = `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`
-    return events.some(event => event.date === dateString)
+    event.preventDefault()
+    focusFromKeyboard.current = true
+    setDate(move())
   }
 
-  const getEventForDay = (day: number) => {
-    const year = currentMonth.getFullYear()
-    const month = currentMonth.getMonth()
-    const dateString = `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`
-    return events.find(event => event.date === dateString)
-  }
+  const selectedEvents = eventsByDate.get(date) ?? []
+  const showsGrid = view === 'month' || view === 'week'
+  const weeks = showsGrid
+    ? daysBetween(from, to).reduce<string[][]>((rows, day, index) => {
+      if (index % 7 === 0) rows.push([])
+      rows[rows.length - 1].push(day)
+      return rows
+    }, [])
+    : []
 
-  const nextMonth = () => {
-    setCurrentMonth(new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1))
-  }
+  const renderDayCell = (day: string) => {
+    const dayEvents = eventsByDate.get(day) ?? []
+    const isSelected = day === date
+    const outsideMonth = view === 'month' && day.slice(0, 7) !== date.slice(0, 7)
+    const visibleEvents = view === 'month' ? dayEvents.slice(0, MONTH_CELL_EVENTS) : dayEvents
+    const label = `${formatLocalDate(day, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })}, ${
+      dayEvents.length === 0 ? 'no events' : `${dayEvents.length} event${dayEvents.length === 1 ? '' : 's'}`
+    }`
+
+    return (
+      <div key={day} role="gridcell" aria-selected={isSelected}>
+        <button
+          ref={node => {
+            if (node) dayRefs.current.set(day, node)
+            else dayRefs.current.delete(day)
+          }}
+          type="button"
+          tabIndex={isSelected ? 0 : -1}
+          aria-label={label}
+          aria-current={day === today ? 'date' : undefined}
+          onClick={() => setDate(day)}
+          onKeyDown={event => handleDayKeyDown(event, day)}
+          className={`w-full flex flex-col items-stretch text-left rounded-lg p-1.5 text-sm transition-colors duration-200 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-600 ${
+            view === 'month' ? 'aspect-square sm:aspect-auto sm:min-h-24' : 'min-h-48'
+          } ${
+            isSelected ? 'bg-blue-50 ring-1 ring-blue-200' : 'hover:bg-gray-100'
+          } ${outsideMonth ? 'text-gray-400' : 'text-gray-900'}`}
+        >
+          <span className={`inline-flex items-center justify-center w-7 h-7 rounded-full ${
+            day === today ? 'bg-blue-600 text-white font-semibold' : ''
+          }`}>
+            {Number(day.slice(8))}
+          </span>
 
-  const prevMonth = () => {
-    setCurrentMonth(new Date(currentMonth.getFullYear(), currentMonth.getMonth() - 1))
+          {/* Dots on small screens, named chips from sm up */}
+          {dayEvents.length > 0 && (
+            <span className="flex gap-1 mt-1 sm:hidden" aria-hidden="true">
+              {dayEvents.slice(0, 3).map(event => (
+                <span key={eventOccurrenceKey(event)} className={`w-1.5 h-1.5 rounded-full ${eventCategoryStyle(event.type).dot}`}></span>
+              ))}
+            </span>
+          )}
+          <span className="hidden sm:flex flex-col gap-1 mt-1" aria-hidden="true">
+            {visibleEvents.map(event => (
+              <span
+                key={eventOccurrenceKey(event)}
+                className={`block truncate rounded border px-1.5 py-0.5 text-xs ${eventCategoryStyle(event.type).chip}`}
+              >
+                {view === 'week' && <span className="font-medium">{formatEventTime(event.event_date, timeZone)} </span>}
+                {event.name}
+              </span>
+            ))}
+            {dayEvents.length > visibleEvents.length && (
+              <span className="text-xs text-gray-500">+{dayEvents.length - visibleEvents.length} more</span>
+            )}
+          </span>
+        </button>
+      </div>
+    )
   }
 
+  const renderEventRow = (event: EventSummary) => (
+    <li key={eventOccurrenceKey(event)} className="flex items-start gap-3 py-3">
+      <span className={`mt-1.5 w-2.5 h-2.5 rounded-full flex-shrink-0 ${eventCategoryStyle(event.type).dot}`} aria-hidden="true"></span>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm text-gray-500">{formatEventTime(event.event_date, timeZone)}</p>
+        <p className="font-semibold text-gray-900">{event.name}</p>
+        <p className="text-sm text-gray-600">{event.location}</p>
+      </div>
+      <Link
+        href={eventRegistrationHref(event)}
+        className="text-blue-600 font-medium hover:text-blue-700 transition-colors duration-300 text-sm whitespace-nowrap"
+      >
+        Register
+      </Link>
+    </li>
+  )
+
+  const agendaDays = [...eventsByDate.keys()].sort()
+
   return (
     <section className="py-24 bg-gray-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -111,185 +184,182 @@ export function EventCalendar() {
           </p>
         </div>
 
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-12">
-          {/* Calendar */}
-          <div className="lg:col-span-2">
-            <div className="bg-white rounded-3xl shadow-sm p-8">
-              <div className="flex items-center justify-between mb-8">
-                <h3 className="text-2xl font-bold text-gray-900">
-                  {monthNames[currentMonth.getMonth()]} {currentMonth.getFullYear()}
-                </h3>
-                <div className="flex gap-2">
-                  <button 
-                    onClick={prevMonth}
-                    className="p-2 hover:bg-gray-100 rounded-lg transition-colors duration-200"
-                  >
-                    <svg className="w-5 h-5 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
-                    </svg>
-                  </button>
-                  <button 
-                    onClick={nextMonth}
-                    className="p-2 hover:bg-gray-100 rounded-lg transition-colors duration-200"
-                  >
-                    <svg className="w-5 h-5 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-                    </svg>
-                  </button>
-                </div>
-              </div>
-
-              {/* Calendar Grid */}
-              <div className="grid grid-cols-7 gap-2 mb-4">
-                {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((day) => (
-                  <div key={day} className="text-center text-sm font-medium text-gray-500 py-2">
-                    {day}
-                  </div>
-                ))}
+        <div className="bg-white rounded-3xl shadow-sm p-6 md:p-8">
+          {/* Toolbar */}
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+            <div className="flex items-center gap-3">
+              <div className="flex gap-1">
+                <button
+                  type="button"
+                  onClick={() => setDate(stepCalendar(view, date, -1))}
+                  aria-label="Previous"
+                  className="p-2 hover:bg-gray-100 rounded-lg transition-colors duration-200"
+                >
+                  <svg className="w-5 h-5 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                  </svg>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setDate(stepCalendar(view, date, 1))}
+                  aria-label="Next"
+                  className="p-2 hover:bg-gray-100 rounded-lg transition-colors duration-200"
+                >
+                  <svg className="w-5 h-5 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                  </svg>
+                </button>
               </div>
+              <h3 className="text-2xl font-bold text-gray-900" aria-live="polite">
+                {calendarTitle(view, date)}
+              </h3>
+              <button
+                type="button"
+                onClick={() => setDate(today)}
+                className="border border-gray-300 text-gray-700 px-3 py-1.5 text-sm font-medium rounded-lg hover:bg-gray-50 transition-colors duration-200"
+              >
+                Today
+              </button>
+            </div>
 
-              <div className="grid grid-cols-7 gap-2">
-                {getDaysInMonth(currentMonth).map((day, index) => (
-                  <div key={index} className="aspect-square">
-                    {day && (
-                      <div className={`w-full h-full flex items-center justify-center rounded-lg text-sm relative group cursor-pointer transition-all duration-200 ${
-                        hasEvent(day) 
-                          ? 'bg-blue-100 text-blue-800 hover:bg-blue-200' 
-                          : 'hover:bg-gray-100'
-                      }`}>
-                        {day}
-                        {hasEvent(day) && (
-                          <div className="absolute bottom-1 left-1/2 transform -translate-x-1/2 w-1 h-1 bg-blue-600 rounded-full"></div>
-                        )}
-                        
-                        {/* Tooltip */}
-                        {hasEvent(day) && (
-                          <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 bg-gray-900 text-white text-xs rounded-lg py-2 px-3 opacity-0 group-hover:opacity-100 transition-opacity duration-200 whitespace-nowrap z-10">
-                            {getEventForDay(day)?.title}
-                            <div className="absolute top-full left-1/2 transform -translate-x-1/2 border-4 border-transparent border-t-gray-900"></div>
-                          </div>
-                        )}
-                      </div>
-                    )}
-                  </div>
+            <div className="flex items-center gap-3">
+              <a
+                href={feedUrl}
+                className="border border-gray-300 text-gray-700 px-3 py-1.5 text-sm font-medium rounded-lg hover:bg-gray-50 transition-colors duration-200"
+              >
+                Subscribe
+              </a>
+              <div className="inline-flex rounded-lg bg-gray-100 p-1" role="group" aria-label="Calendar view">
+                {CALENDAR_VIEWS.map(option => (
+                  <button
+                    key={option.id}
+                    type="button"
+                    aria-pressed={view === option.id}
+                    onClick={() => setView(option.id)}
+                    className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors duration-200 ${
+                      view === option.id ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
                 ))}
               </div>
             </div>
           </div>
 
-          {/* Upcoming Events */}
-          <div className="space-y-6">
-            <h3 className="text-2xl font-bold text-gray-900 mb-6">This Week</h3>
-            
-            {upcomingEvents.map((event, index) => (
-              <div key={event.id} className="bg-white rounded-2xl overflow-hidden shadow-sm hover:shadow-md transition-all duration-300 group">
-                {/* Event Header with Video Background */}
-                <div className="relative h-32 overflow-hidden">
-                  <div className={`absolute inset-0 bg-gradient-to-br ${event.gradient}`}>
-                    <div className="absolute inset-0 bg-black/20"></div>
-                    
-                    {/* Simulated video pattern */}
-                    <div className="absolute inset-0 opacity-20">
-                      <div 
-                        className="h-full w-full"
-                        style={{
-                          backgroundImage: `
-                            linear-gradient(45deg, transparent 25%, rgba(255,255,255,0.1) 25%, rgba(255,255,255,0.1) 50%, transparent 50%, transparent 75%, rgba(255,255,255,0.1) 75%)
-                          `,
-                          backgroundSize: '20px 20px',
-                          animation: `moveBackground ${15 + index * 2}s linear infinite`
-                        }}
-                      ></div>
-                    </div>
+          {/* Category legend */}
+          <ul className="flex flex-wrap gap-x-4 gap-y-2 mb-6 text-sm text-gray-600">
+            {EVENT_CATEGORIES.map(category => (
+              <li key={category.id} className="inline-flex items-center gap-2">
+                <span className={`w-2.5 h-2.5 rounded-full ${category.dot}`} aria-hidden="true"></span>
+                {category.title}
+              </li>
+            ))}
+          </ul>
+
+          {error && (
+            <p className="mb-6 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg px-4 py-3">
+              Events couldn&apos;t be loaded. Please try again later.
+            </p>
+          )}
+
+          <div className={`transition-opacity duration-200 ${loading ? 'opacity-60' : ''}`} aria-busy={loading}>
+            {showsGrid && (
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                {/* Month and week grids: arrow keys move between days, Page Up/Down between pages */}
+                <div className="lg:col-span-2" role="grid" aria-label={calendarTitle(view, date)}>
+                  <div role="row" className="grid grid-cols-7 gap-1 mb-2">
+                    {WEEKDAY_SHORT_LABELS.map(label => (
+                      <div key={label} role="columnheader" className="text-center text-sm font-medium text-gray-500 py-2">
+                        {label}
+                      </div>
+                    ))}
                   </div>
-                  
-                  {/* Play Button */}
-                  <div className="absolute inset-0 flex items-center justify-center">
-                    <div className="w-12 h-12 bg-white/20 backdrop-blur-sm rounded-full flex items-center justify-center group-hover:bg-white/30 transition-all duration-300">
-                      <svg className="w-5 h-5 text-white ml-0.5" fill="currentColor" viewBox="0 0 24 24">
-                        <path d="M8 5v14l11-7z"/>
-                      </svg>
+                  {weeks.map(week => (
+                    <div key={week[0]} role="row" className="grid grid-cols-7 gap-1 mb-1">
+                      {week.map(renderDayCell)}
                     </div>
-                  </div>
-                  
-                  {/* Category Badge */}
-                  <div className="absolute top-3 right-3">
-                    <span className="bg-white/20 backdrop-blur-sm text-white px-2 py-1 rounded-full text-xs font-medium">
-                      {event.category}
-                    </span>
-                  </div>
+                  ))}
                 </div>
-                
-                {/* Event Details */}
-                <div className="p-6">
-                  <h4 className="text-lg font-bold text-gray-900 mb-2 group-hover:text-gray-700 transition-colors duration-300">
-                    {event.title}
+
+                {/* The focused day's events */}
+                <div>
+                  <h4 className="text-lg font-bold text-gray-900 mb-2">
+                    {formatLocalDate(date, { weekday: 'long', month: 'long', day: 'numeric' })}
                   </h4>
-                  
-                  <div className="space-y-2 mb-4">
-                    <div className="flex items-center gap-2 text-gray-600 text-sm">
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
-                      </svg>
-                      <span>{event.date}</span>
-                    </div>
-                    <div className="flex items-center gap-2 text-gray-600 text-sm">
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-                      </svg>
-                      <span>{event.time}</span>
-                    </div>
-                    <div className="flex items-center gap-2 text-gray-600 text-sm">
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
-                      </svg>
-                      <span>{event.location}</span>
-                    </div>
-                  </div>
-                  
-                  <p className="text-gray-600 text-sm leading-relaxed mb-4">
-                    {event.description}
-                  </p>
-                  
-                  <button className="text-blue-600 font-medium hover:text-blue-700 transition-colors duration-300 text-sm inline-flex items-center gap-1">
-                    Learn More
-                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 8l4 4m0 0l-4 4m4-4H3" />
-                    </svg>
-                  </button>
+                  {selectedEvents.length > 0 ? (
+                    <ul className="divide-y divide-gray-100">
+                      {selectedEvents.map(renderEventRow)}
+                    </ul>
+                  ) : (
+                    <p className="text-gray-600 text-sm">No events on this day.</p>
+                  )}
                 </div>
               </div>
-            ))}
+            )}
 
-            {/* Add to Calendar CTA */}
-            <div className="bg-white rounded-2xl p-6 text-center">
-              <div className="w-12 h-12 bg-blue-100 rounded-xl flex items-center justify-center mx-auto mb-4">
-                <svg className="w-6 h-6 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
-                </svg>
-              </div>
-              <h4 className="text-lg font-bold text-gray-900 mb-2">
-                Stay Connected
-              </h4>
-              <p className="text-gray-600 text-sm mb-4">
-                Add our events to your calendar and never miss a gathering
-              </p>
-              <button className="bg-blue-600 text-white px-4 py-2 font-medium hover:bg-blue-700 transition-colors duration-300 text-sm rounded-lg">
-                Subscribe to Calendar
-              </button>
-            </div>
+            {view === 'agenda' && (
+              agendaDays.length > 0 ? (
+                <div className="space-y-8">
+                  {agendaDays.map(day => (
+                    <div key={day} className="grid grid-cols-1 md:grid-cols-4 gap-2 md:gap-8">
+                      <h4 className={`font-semibold ${day === today ? 'text-blue-600' : 'text-gray-900'}`}>
+                        {formatLocalDate(day, { weekday: 'short', month: 'short', day: 'numeric' })}
+                      </h4>
+                      <ul className="md:col-span-3 divide-y divide-gray-100 -mt-3">
+                        {(eventsByDate.get(day) ?? []).map(renderEventRow)}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-gray-600">No events in these {daysBetween(from, to).length} days.</p>
+              )
+            )}
+
+            {view === 'list' && (
+              events.length > 0 ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {events.map(event => (
+                    <Link
+                      key={eventOccurrenceKey(event)}
+                      href={eventRegistrationHref(event)}
+                      className="group bg-white rounded-2xl overflow-hidden border border-gray-100 hover:shadow-md transition-all duration-300"
+                    >
+                      <div className="relative h-32 overflow-hidden">
+                        {event.primary_image?.url ? (
+                          <img
+                            src={event.primary_image.url}
+                            alt={event.primary_image.alt_text || event.name}
+                            className="absolute inset-0 w-full h-full object-cover"
+                          />
+                        ) : (
+                          <div className={`absolute inset-0 bg-gradient-to-br ${event.gradient}`}></div>
+                        )}
+                        <span className={`absolute top-3 right-3 rounded-full border px-2 py-1 text-xs font-medium ${eventCategoryStyle(event.type).chip}`}>
+                          {event.type.charAt(0).toUpperCase() + event.type.slice(1)}
+                        </span>
+                      </div>
+                      <div className="p-6">
+                        <p className="text-sm text-gray-500 mb-1">
+                          {formatLocalDate(event.local_date, { weekday: 'short', month: 'short', day: 'numeric' })} · {formatEventTime(event.event_date, timeZone)}
+                        </p>
+                        <h4 className="text-lg font-bold text-gray-900 mb-1 group-hover:text-gray-700 transition-colors duration-300">
+                          {event.name}
+                        </h4>
+                        <p className="text-sm text-gray-600 mb-3">{event.location}</p>
+                        <p className="text-gray-600 text-sm leading-relaxed line-clamp-3">{event.description}</p>
+                      </div>
+                    </Link>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-gray-600">No events this month.</p>
+              )
+            )}
           </div>
         </div>
       </div>
-
-      {/* Custom animation keyframes */}
-      <style jsx>{`
-        @keyframes moveBackground {
-          0% { transform: translateX(0) translateY(0); }
-          100% { transform: translateX(20px) translateY(20px); }
-        }
-      `}</style>
     </section>
   )
-} 
\ No newline at end of file
+}
@@ -1,57 +1,109 @@
 'use client'
 
-export function EventCategories() {
-  const categories = [
-    {
-      id: 1,
-      title: "Worship Services",
-      description: "Join us for inspiring worship experiences that lift your spirit and deepen your faith.",
-      icon: "🙏",
-      gradient: "from-blue-800 to-indigo-900",
-      events: ["Sunday Service", "Midweek Prayer", "Special Services"]
-    },
-    {
-      id: 2,
-      title: "Youth & Children",
-      description: "Fun and engaging activities designed to help young people grow in faith and friendship.",
-      icon: "👥",
-      gradient: "from-purple-800 to-pink-900",
-      events: ["Youth Night", "Kids Club", "Summer Camp"]
-    },
-    {
-      id: 3,
-      title: "Community Outreach",
-      description: "Making a difference in our community through service, love, and compassionate action.",
-      icon: "❤️",
-      gradient: "from-green-800 to-emerald-900",
-      events: ["Food Bank", "Community Clean-up", "Volunteer Days"]
-    },
-    {
-      id: 4,
-      title: "Educational",
-      description: "Opportunities to learn, grow, and deepen your understanding of faith and scripture.",
-      icon: "📖",
-      gradient: "from-orange-800 to-amber-900",
-      events: ["Bible Study", "Life Groups", "Seminars"]
-    },
-    {
-      id: 5,
-      title: "Fellowship",
-      description: "Building meaningful relationships and connections within our church family.",
-      icon: "🤝",
-      gradient: "from-teal-800 to-cyan-900",
-      events: ["Coffee Hour", "Potluck Dinners", "Game Nights"]
-    },
-    {
-      id: 6,
-      title: "Special Events",
-      description: "Celebrating life's special moments and seasons throughout the year.",
-      icon: "🎉",
-      gradient: "from-red-800 to-rose-900",
-      events: ["Christmas", "Easter", "Anniversary"]
-    }
-  ]
+export interface EventCategory {
+  id: number
+  title: string
+  description: string
+  icon: string
+  gradient: string
+  events: string[]
+  // Event types (see getEventType in src/lib/content/events.ts) it covers
+  types: string[]
+  // Calendar colour coding: a marker dot and an event chip
+  dot: string
+  chip: string
+}
+
+export const EVENT_CATEGORIES: EventCategory[] = [
+  {
+    id: 1,
+    title: "Worship Services",
+    description: "Join us for inspiring worship experiences that lift your spirit and deepen your faith.",
+    icon: "🙏",
+    gradient: "from-blue-800 to-indigo-900",
+    events: ["Sunday Service", "Midweek Prayer", "Special Services"],
+    types: ["worship"],
+    dot: "bg-blue-600",
+    chip: "bg-blue-50 text-blue-800 border-blue-200"
+  },
+  {
+    id: 2,
+    title: "Youth & Children",
+    description: "Fun and engaging activities designed to help young people grow in faith and friendship.",
+    icon: "👥",
+    gradient: "from-purple-800 to-pink-900",
+    events: ["Youth Night", "Kids Club", "Summer Camp"],
+    types: ["youth"],
+    dot: "bg-purple-600",
+    chip: "bg-purple-50 text-purple-800 border-purple-200"
+  },
+  {
+    id: 3,
+    title: "Community Outreach",
+    description: "Making a difference in our community through service, love, and compassionate action.",
+    icon: "❤️",
+    gradient: "from-green-800 to-emerald-900",
+    events: ["Food Bank", "Community Clean-up", "Volunteer Days"],
+    types: ["outreach"],
+    dot: "bg-green-600",
+    chip: "bg-green-50 text-green-800 border-green-200"
+  },
+  {
+    id: 4,
+    title: "Educational",
+    description: "Opportunities to learn, grow, and deepen your understanding of faith and scripture.",
+    icon: "📖",
+    gradient: "from-orange-800 to-amber-900",
+    events: ["Bible Study", "Life Groups", "Seminars"],
+    types: ["study", "conference"],
+    dot: "bg-orange-600",
+    chip: "bg-orange-50 text-orange-800 border-orange-200"
+  },
+  {
+    id: 5,
+    title: "Fellowship",
+    description: "Building meaningful relationships and connections within our church family.",
+    icon: "🤝",
+    gradient: "from-teal-800 to-cyan-900",
+    events: ["Coffee Hour", "Potluck Dinners", "Game Nights"],
+    types: ["fellowship"],
+    dot: "bg-teal-600",
+    chip: "bg-teal-50 text-teal-800 border-teal-200"
+  },
+  {
+    id: 6,
+    title: "Special Events",
+    description: "Celebrating life's special moments and seasons throughout the year.",
+    icon: "🎉",
+    gradient: "from-red-800 to-rose-900",
+    events: ["Christmas", "Easter", "Anniversary"],
+    types: ["special"],
+    dot: "bg-red-600",
+    chip: "bg-red-50 text-red-800 border-red-200"
+  }
+]
+
+// Events of a type no category covers
+const OTHER_EVENTS_STYLE = {
+  dot: "bg-gray-500",
+  chip: "bg-gray-50 text-gray-800 border-gray-200"
+}
 
+/**
+ * The category an event type belongs to, or null for other events.
+ */
+export function eventCategoryFor(type: string): EventCategory | null {
+  return EVENT_CATEGORIES.find(category => category.types.includes(type)) ?? null
+}
+
+/**
+ * Calendar colours for an event type.
+ */
+export function eventCategoryStyle(type: string): { dot: string; chip: string } {
+  return eventCategoryFor(type) ?? OTHER_EVENTS_STYLE
+}
+
+export function EventCategories() {
   return (
     <section className="py-24 bg-gray-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -68,7 +120,7 @@ export function EventCategories() {
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-          {categories.map((category, index) => (
+          {EVENT_CATEGORIES.map((category, index) => (
             <div key={category.id} className="group cursor-pointer">
               <div className="relative h-80 rounded-3xl overflow-hidden mb-6">
                 {/* Video Background Placeholder */}
@@ -3,6 +3,7 @@
 import Link from 'next/link'
 import { useHomepage } from '@/hooks/useHomepage'
 import { useEvents } from '@/hooks/useEvents'
+import { eventOccurrenceKey, eventRegistrationHref } from '@/lib/event-recurrence'
 import { syncFormatters } from '@/lib/timezone-utils'
 
 export function EventsCarousel() {
@@ -117,7 +118,7 @@ export function EventsCarousel() {
           ) : (
             // Show events[1] through events[4] (skip the first one for featured section)
             gridEvents.map((event, index) => (
-              <div key={event.id} className="group cursor-pointer">
+              <div key={eventOccurrenceKey(event)} className="group cursor-pointer">
                 {/* Event Card */}
                 <div className={`relative rounded-3xl overflow-hidden mb-6 group cursor-pointer ${
                   index % 2 === 0 ? 'h-80' : 'h-64'
@@ -197,7 +198,7 @@ export function EventsCarousel() {
                   
                   {/* CTA Button */}
                   <Link 
-                    href={`/events/${event.id}/register`}
+                    href={eventRegistrationHref(event)}
                     className="text-black font-semibold hover:text-gray-700 transition-colors duration-300 inline-flex items-center gap-2 group"
                   >
                     Register for Event
@@ -293,7 +294,7 @@ export function EventsCarousel() {
                 </div>
                 
                 <Link 
-                  href={`/events/${featuredEvent.id}/register`}
+                  href={eventRegistrationHref(featuredEvent)}
                   className="bg-black text-white px-8 py-4 font-semibold hover:bg-gray-800 transition-all duration-300 inline-block"
                 >
                   Register for Next Event
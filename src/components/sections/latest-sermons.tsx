@@ -2,8 +2,11 @@
 
 import { useSermonsPage } from '@/hooks/useSermonsPage'
 import { useSermons } from '@/hooks/useSermons'
+import { useMostWatchedSermons } from '@/hooks/useMostWatchedSermons'
+import { usePlaybackTracking } from '@/hooks/usePlaybackTracking'
 import { useState } from 'react'
 import { VideoModal } from '@/components/ui/video-modal'
+import { sermonVideoSource, videoThumbnailUrl } from '@/lib/video-providers'
 import Link from 'next/link'
 
 // Helper to format duration from seconds to MM:SS
@@ -48,54 +51,37 @@ function getGradient(index: number): string {
   return gradients[index % gradients.length]
 }
 
-// Helper to get YouTube thumbnail
-function getYouTubeThumbnail(url: string): string {
-  const videoId = url.match(/(?:youtube\.com\/watch\?v=|youtu\.be\/)([^&\n?#]+)/)?.[1]
-  return videoId ? `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg` : ''
-}
-
 // Helper to get sermon thumbnail
 function getSermonThumbnail(sermon: any): string {
   // Database sermon
   if ('thumbnail_image' in sermon && sermon.thumbnail_image) {
     return sermon.thumbnail_image
   }
-  if ('youtube_url' in sermon && sermon.youtube_url) {
-    return getYouTubeThumbnail(sermon.youtube_url)
-  }
-  // Mock data fallback
-  return ''
+  return videoThumbnailUrl(sermonVideoSource(sermon)) ?? ''
 }
 
 // Helper to get video URL for playback
 function getVideoUrl(sermon: any): string {
-  if ('video_url' in sermon && sermon.video_url) {
-    return sermon.video_url
-  }
-  if ('youtube_url' in sermon && sermon.youtube_url) {
-    return sermon.youtube_url
-  }
-  return ''
-}
-
-// Helper to check if URL is YouTube
-function isYouTubeUrl(url: string): boolean {
-  return url.includes('youtube.com') || url.includes('youtu.be')
+  return sermonVideoSource(sermon)?.url ?? ''
 }
 
 export function LatestSermons() {
   const { sermonsPage, loading: cmsLoading, source: cmsSource } = useSermonsPage()
   const { sermons, loading: sermonsLoading, error: sermonsError } = useSermons()
+  const { sermons: mostWatchedSermons } = useMostWatchedSermons(3)
+  const { track, trackProgress } = usePlaybackTracking()
   const [videoModal, setVideoModal] = useState<{
     isOpen: boolean
+    sermonId: string
     videoUrl: string
     title: string
-    isYouTube: boolean
+    videoType: string | null
   }>({
     isOpen: false,
+    sermonId: '',
     videoUrl: '',
     title: '',
-    isYouTube: false
+    videoType: null
   })
 
   if (cmsLoading || sermonsLoading) {
@@ -181,7 +167,8 @@ export function LatestSermons() {
         video_url: sermon.video_url,
         youtube_url: sermon.youtube_url,
         audio_url: sermon.audio_url,
-        playbackUrl: getVideoUrl(sermon)
+        playbackUrl: getVideoUrl(sermon),
+        videoType: sermon.video_type
       }
     } else {
       // Mock data - use as-is
@@ -199,12 +186,13 @@ export function LatestSermons() {
   // Handle video play
   const handlePlay = (sermon: any) => {
     if (sermon.playbackUrl) {
-      const isYouTube = isYouTubeUrl(sermon.playbackUrl)
+      track(String(sermon.id), 'started', 'video')
       setVideoModal({
         isOpen: true,
+        sermonId: String(sermon.id),
         videoUrl: sermon.playbackUrl,
         title: sermon.title,
-        isYouTube
+        videoType: sermon.videoType ?? null
       })
     } else {
       console.log('No video URL available for:', sermon.title)
@@ -215,9 +203,10 @@ export function LatestSermons() {
   const closeVideoModal = () => {
     setVideoModal({
       isOpen: false,
+      sermonId: '',
       videoUrl: '',
       title: '',
-      isYouTube: false
+      videoType: null
     })
   }
 
@@ -470,6 +459,45 @@ export function LatestSermons() {
             ))}
           </div>
 
+          {/* Most Watched This Month */}
+          {mostWatchedSermons.length > 0 && (
+            <div className="mt-20">
+              <div className="flex items-end justify-between mb-8">
+                <div>
+                  <p className="text-sm font-medium text-gray-600 mb-2">Popular right now</p>
+                  <h3 className="text-3xl font-bold text-gray-900">Most Watched This Month</h3>
+                </div>
+                <Link href="/media/sermons/browse" className="text-sm font-medium text-blue-600 hover:text-blue-500">
+                  Browse all →
+                </Link>
+              </div>
+              <ol className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                {mostWatchedSermons.map((sermon, index) => {
+                  const thumbnail = getSermonThumbnail(sermon)
+                  return (
+                    <li key={sermon.id}>
+                      <Link
+                        href={`/media/sermons/${sermon.slug}`}
+                        className="group flex items-center gap-4 rounded-2xl border border-gray-100 p-4 hover:shadow-md transition-shadow"
+                      >
+                        <span className="text-4xl font-bold text-gray-200 w-8 text-center">{index + 1}</span>
+                        {thumbnail ? (
+                          <img src={thumbnail} alt={sermon.title} className="w-24 h-16 rounded-lg object-cover flex-shrink-0" />
+                        ) : (
+                          <div className={`w-24 h-16 rounded-lg bg-gradient-to-br ${getGradient(index)} flex-shrink-0`} />
+                        )}
+                        <div className="min-w-0">
+                          <h4 className="font-semibold text-gray-900 group-hover:text-gray-700 line-clamp-2">{sermon.title}</h4>
+                          <p className="text-sm text-gray-600 truncate">{sermon.speaker} • {formatDate(sermon.sermon_date)}</p>
+                        </div>
+                      </Link>
+                    </li>
+                  )
+                })}
+              </ol>
+            </div>
+          )}
+
           {/* View All Sermons CTA */}
           <div className="text-center mt-16">
             <div className="bg-gray-50 rounded-3xl p-12">
@@ -506,7 +534,9 @@ export function LatestSermons() {
         onClose={closeVideoModal}
         videoUrl={videoModal.videoUrl}
         title={videoModal.title}
-        isYouTube={videoModal.isYouTube}
+        videoType={videoModal.videoType}
+        onTimeUpdate={(currentTime, duration) => trackProgress(videoModal.sermonId, 'video', currentTime, duration)}
+        onEnded={() => track(videoModal.sermonId, 'completed', 'video')}
       />
     </>
   )
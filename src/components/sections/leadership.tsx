@@ -1,13 +1,24 @@
 'use client'
 
+import Link from 'next/link'
 import { useAbout } from '@/hooks/useAbout'
+import { speakerHref } from '@/lib/speakers'
 
 export function Leadership() {
   const { about, loading, error, source } = useAbout()
   const leadershipContent = about?.leadership
 
   // Default leaders for fallback
-  const defaultLeaders = [
+  const defaultLeaders: Array<{
+    name: string
+    position: string
+    bio: string
+    image_url: string
+    social_links: Array<{ platform: string; url: string }>
+    specialties: string[]
+    gradient: string
+    speaker_slug?: string
+  }> = [
     {
       name: "Pastor Michael Johnson",
       position: "Lead Pastor",
@@ -202,17 +213,17 @@ export function Leadership() {
               </div>
             )}
             
-            <a 
-              href="/media/sermons"
+            <Link
+              href={featuredLeader.speaker_slug ? speakerHref(featuredLeader.speaker_slug) : '/media/sermons'}
               className="bg-black text-white px-8 py-4 font-semibold hover:bg-gray-800 transition-all duration-300 inline-flex items-center gap-3"
             >
-              Watch Message
+              {featuredLeader.speaker_slug ? 'Watch Messages' : 'Watch Message'}
               <div className="w-6 h-6 border border-current rounded-full flex items-center justify-center">
                 <svg className="w-3 h-3 ml-0.5" fill="currentColor" viewBox="0 0 24 24">
                   <path d="M8 5v14l11-7z"/>
                 </svg>
               </div>
-            </a>
+            </Link>
           </div>
         </div>
 
@@ -287,6 +298,11 @@ export function Leadership() {
                       ))}
                     </div>
                   )}
+                  {leader.speaker_slug && (
+                    <Link href={speakerHref(leader.speaker_slug)} className="inline-block text-sm font-medium text-blue-600 hover:text-blue-500">
+                      Watch messages →
+                    </Link>
+                  )}
                 </div>
               </div>
             ))}
@@ -2,11 +2,21 @@
 
 import { useState, useRef } from 'react'
 import { useAbout } from '@/hooks/useAbout'
+import { VideoModal } from '@/components/ui/video-modal'
+import { VideoPlayer } from '@/components/ui/video-player'
+import { isEmbedProvider, parseVideoUrl, videoThumbnailUrl, type VideoSource } from '@/lib/video-providers'
+
+// Uploaded story videos keep a still of the same name next to them
+function videoPoster(video: VideoSource): string | undefined {
+  return video.provider === 'file' ? video.url.replace(/\.(mp4|webm|ogg)$/i, '.jpg') : undefined
+}
 
 export function OurStory() {
   const { about, loading, error, source } = useAbout()
   const [currentVideoIndex, setCurrentVideoIndex] = useState(0)
+  const [modalVideo, setModalVideo] = useState<{ url: string; title: string } | null>(null)
   const videoRef = useRef<HTMLVideoElement>(null)
+  const highlightVideoRef = useRef<HTMLVideoElement>(null)
 
   // Get our story content from CMS
   const ourStoryContent = about?.our_story
@@ -17,13 +27,16 @@ export function OurStory() {
     ...(ourStoryContent?.community_impact ? [ourStoryContent.community_impact] : [])
   ].filter(item => item?.video_url)
 
-  // Function to handle video play/pause
-  const handleVideoClick = () => {
-    if (videoRef.current) {
-      if (videoRef.current.paused) {
-        videoRef.current.play()
+  // Function to handle video play/pause; YouTube, Vimeo and Facebook videos open in a modal
+  const handleVideoClick = (video: VideoSource | null, videoElement: HTMLVideoElement | null, title: string) => {
+    if (!video) return
+    if (isEmbedProvider(video.provider)) {
+      setModalVideo({ url: video.url, title })
+    } else if (videoElement) {
+      if (videoElement.paused) {
+        videoElement.play()
       } else {
-        videoRef.current.pause()
+        videoElement.pause()
       }
     }
   }
@@ -66,6 +79,8 @@ export function OurStory() {
   }
 
   const currentVideo = videoContent[currentVideoIndex]
+  const storyVideo = ourStoryContent?.media_type === 'video' ? parseVideoUrl(ourStoryContent.media_url) : null
+  const highlightVideo = parseVideoUrl(currentVideo?.video_url)
 
   return (
     <section className="py-24 bg-white">
@@ -91,21 +106,33 @@ export function OurStory() {
             {/* Main Story Media */}
             {ourStoryContent?.media_url && (
               <div className="relative rounded-3xl overflow-hidden shadow-2xl">
-                {ourStoryContent.media_type === 'video' ? (
+                {storyVideo ? (
                   <div 
                     className="relative h-[350px] group cursor-pointer"
-                    onClick={handleVideoClick}
+                    onClick={() => handleVideoClick(storyVideo, videoRef.current, ourStoryContent.main_header)}
                   >
-                    <video
-                      className="w-full h-full object-cover"
-                      poster={ourStoryContent.media_url.replace(/\.(mp4|webm|ogg)$/i, '.jpg')}
-                      ref={videoRef}
-                      muted
-                      loop
-                      playsInline
-                    >
-                      <source src={ourStoryContent.media_url} type="video/mp4" />
-                    </video>
+                    {isEmbedProvider(storyVideo.provider) ? (
+                      videoThumbnailUrl(storyVideo) ? (
+                        <img
+                          src={videoThumbnailUrl(storyVideo)!}
+                          alt={ourStoryContent.main_header}
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        <div className="w-full h-full bg-gradient-to-br from-gray-800 to-gray-900" />
+                      )
+                    ) : (
+                      <VideoPlayer
+                        source={storyVideo}
+                        title={ourStoryContent.main_header}
+                        className="w-full h-full object-cover"
+                        poster={videoPoster(storyVideo)}
+                        videoRef={videoRef}
+                        muted
+                        loop
+                        controls={false}
+                      />
+                    )}
                     
                     {/* Play Button Overlay */}
                     <div className="absolute inset-0 flex items-center justify-center bg-black/20 group-hover:bg-black/30 transition-all duration-300">
@@ -148,18 +175,26 @@ export function OurStory() {
               <div className="relative rounded-2xl overflow-hidden shadow-xl">
                 <div 
                   className="relative h-[250px] group cursor-pointer"
-                  onClick={handleVideoClick}
+                  onClick={() => handleVideoClick(highlightVideo, highlightVideoRef.current, currentVideo?.title || 'Ministry Video')}
                 >
-                  {currentVideo?.video_url ? (
-                    <video
+                  {highlightVideo && !isEmbedProvider(highlightVideo.provider) ? (
+                    <VideoPlayer
+                      source={highlightVideo}
+                      title={currentVideo?.title || 'Ministry Video'}
                       className="w-full h-full object-cover"
-                      poster={currentVideo.video_url.replace(/\.(mp4|webm|ogg)$/i, '.jpg')}
+                      poster={videoPoster(highlightVideo)}
+                      videoRef={highlightVideoRef}
                       muted
                       loop
-                      playsInline
-                    >
-                      <source src={currentVideo.video_url} type="video/mp4" />
-                    </video>
+                      controls={false}
+                      key={currentVideoIndex}
+                    />
+                  ) : highlightVideo && videoThumbnailUrl(highlightVideo) ? (
+                    <img
+                      src={videoThumbnailUrl(highlightVideo)!}
+                      alt={currentVideo?.title || 'Ministry Video'}
+                      className="w-full h-full object-cover"
+                    />
                   ) : (
                     <div className="w-full h-full bg-gradient-to-br from-gray-800 to-gray-900 flex items-center justify-center">
                       <div className="text-center text-white">
@@ -174,7 +209,7 @@ export function OurStory() {
                   )}
                   
                   {/* Play Button Overlay */}
-                  {currentVideo?.video_url && (
+                  {highlightVideo && (
                     <div className="absolute inset-0 flex items-center justify-center bg-black/20 group-hover:bg-black/30 transition-all duration-300">
                       <div className="w-16 h-16 bg-white/20 backdrop-blur-sm rounded-full flex items-center justify-center">
                         <svg className="w-6 h-6 text-white ml-1" fill="currentColor" viewBox="0 0 24 24">
@@ -219,6 +254,15 @@ export function OurStory() {
           </div>
         </div>
       </div>
+
+      {modalVideo && (
+        <VideoModal
+          isOpen
+          onClose={() => setModalVideo(null)}
+          videoUrl={modalVideo.url}
+          title={modalVideo.title}
+        />
+      )}
     </section>
   )
 } 
\ No newline at end of file
@@ -0,0 +1,361 @@
+import type { ReactNode } from 'react'
+import {
+  arrayOf,
+  boolean,
+  number,
+  object,
+  oneOf,
+  parseProps,
+  required,
+  string,
+  withDefault,
+  type InferShape,
+  type SchemaIssue,
+  type Shape
+} from '@/lib/section-schema'
+import { AboutHero } from './about-hero'
+import { AboutSnapshot } from './about-snapshot'
+import { AboutStats } from './about-stats'
+import { AllPosts } from './all-posts'
+import { BlogCategories } from './blog-categories'
+import { BlogHero } from './blog-hero'
+import { BlogNewsletter } from './blog-newsletter'
+import { CallToActionSection } from './call-to-action'
+import { CmsHeroSection } from './cms-hero'
+import { ContactCTA } from './contact-cta'
+import { ContactForm } from './contact-form'
+import { ContactHero } from './contact-hero'
+import { ContactInfo } from './contact-info'
+import { EventCalendar } from './event-calendar'
+import { EventCategories } from './event-categories'
+import { EventHighlights } from './event-highlights'
+import { EventsCarousel } from './events-carousel'
+import { EventsHero } from './events-hero'
+import { FeaturedGalleries } from './featured-galleries'
+import { FeaturedPosts } from './featured-posts'
+import { GalleryCategories } from './gallery-categories'
+import { GalleryHero } from './gallery-hero'
+import { GetInvolvedGrid } from './get-involved-grid'
+import { GetInvolvedSection } from './get-involved-section'
+import { GivingFAQ } from './giving-faq'
+import { GivingForm } from './giving-form'
+import { GivingHero } from './giving-hero'
+import { GivingImpact } from './giving-impact'
+import { GivingMethods } from './giving-methods'
+import { GivingOptions } from './giving-options'
+import { GivingTestimonials } from './giving-testimonials'
+import { HeroSection } from './hero-section'
+import { JoinEvents } from './join-events'
+import { JoinUs } from './join-us'
+import { LatestPosts } from './latest-posts'
+import { LatestSermons } from './latest-sermons'
+import { Leadership } from './leadership'
+import { LeadershipTeamSection } from './leadership-team-section'
+import { LocationMap } from './location-map'
+import { MediaGallerySection } from './media-gallery-section'
+import { MissionVision } from './mission-vision'
+import { MissionVisionSection } from './mission-vision-section'
+import { NewsletterSignup } from './newsletter-signup'
+import { OfficeHours } from './office-hours'
+import { OurStory } from './our-story'
+import { OurValues } from './our-values'
+import { PhotoGalleries } from './photo-galleries'
+import { PlannedVisitForm } from './planned-visit-form'
+import { SermonPreview } from './sermon-preview'
+import { SermonSeries } from './sermon-series'
+import { SermonTopics } from './sermon-topics'
+import { SermonsArchive } from './sermons-archive'
+import { SermonsHero } from './sermons-hero'
+import { ServiceTimesMap } from './service-times-map'
+import { TeamHighlightsSection } from './team-highlights-section'
+import { Testimonials } from './testimonials'
+import { UpcomingEvents } from './upcoming-events'
+import { VideoGalleries } from './video-galleries'
+
+export interface SectionDefinition<S extends Shape> {
+  type: string
+  label: string
+  // Extra type keys the admin app has used for the same section
+  aliases?: string[]
+  schema: S
+  defaults?: Partial<InferShape<S>>
+  render: (props: InferShape<S>) => ReactNode
+}
+
+export interface ResolvedSection {
+  type: string
+  label: string
+  element: ReactNode | null
+  issues: SchemaIssue[]
+}
+
+interface RegisteredSection {
+  type: string
+  label: string
+  resolve: (props: unknown) => ResolvedSection
+}
+
+const registry = new Map<string, RegisteredSection>()
+
+/**
+ * Normalise a page_sections.type value so "giving-faq", "Giving FAQ" and
+ * "giving_faq" all resolve to the same registration.
+ */
+export function normalizeSectionType(type: string): string {
+  return type.trim().toLowerCase().replace(/[\s-]+/g, '_')
+}
+
+/**
+ * Register a section renderer under its type key (and aliases).
+ */
+export function registerSection<S extends Shape>(definition: SectionDefinition<S>) {
+  const entry: RegisteredSection = {
+    type: definition.type,
+    label: definition.label,
+    resolve(props) {
+      const { data, issues } = parseProps(definition.schema, props, definition.defaults)
+      return {
+        type: definition.type,
+        label: definition.label,
+        element: data ? definition.render(data) : null,
+        issues
+      }
+    }
+  }
+
+  for (const key of [definition.type, ...(definition.aliases || [])]) {
+    registry.set(normalizeSectionType(key), entry)
+  }
+}
+
+/**
+ * Validate raw CMS props for a section type and build its element.
+ * Returns null when the type is not registered.
+ */
+export function resolveSection(type: string, props: unknown): ResolvedSection | null {
+  const entry = registry.get(normalizeSectionType(type))
+  return entry ? entry.resolve(props) : null
+}
+
+export function isRegisteredSection(type: string): boolean {
+  return registry.has(normalizeSectionType(type))
+}
+
+export function getRegisteredSectionTypes(): string[] {
+  return Array.from(new Set(Array.from(registry.values(), entry => entry.type)))
+}
+
+// Sections that read their own content through hooks and take no CMS props
+function registerStatic(type: string, label: string, render: () => ReactNode, aliases?: string[]) {
+  registerSection({ type, label, aliases, schema: {}, render })
+}
+
+// ---------------------------------------------------------------------------
+// Configurable sections
+// ---------------------------------------------------------------------------
+
+const ctaButton = object({
+  text: string(),
+  link: string(),
+  style: oneOf(['primary', 'secondary', 'outline', 'link'])
+})
+
+registerSection({
+  type: 'hero',
+  label: 'Hero',
+  schema: {
+    firstLine: string(),
+    heading: required(string()),
+    subheading: string(),
+    backgroundImage: string(),
+    ctaButtons: arrayOf(ctaButton)
+  },
+  defaults: { ctaButtons: [] },
+  render: props => <CmsHeroSection {...props} />
+})
+
+registerSection({
+  type: 'call_to_action',
+  label: 'Call to Action',
+  aliases: ['cta'],
+  schema: {
+    heading: required(string()),
+    text: string(),
+    buttonText: string(),
+    buttonLink: string(),
+    backgroundImage: string()
+  },
+  render: props => <CallToActionSection {...props} />
+})
+
+const missionVisionItem = object({
+  title: required(string()),
+  description: withDefault(string(), ''),
+  media_url: string(),
+  media_type: withDefault(oneOf(['image', 'video']), 'image'),
+  items: withDefault(arrayOf(string()), [])
+})
+
+registerSection({
+  type: 'mission_vision',
+  label: 'Mission & Vision',
+  schema: {
+    first_line: string(),
+    main_header: string(),
+    subheader: string(),
+    mission: missionVisionItem,
+    vision: missionVisionItem
+  },
+  render: props => <MissionVisionSection {...props} />
+})
+
+const leadershipMember = object({
+  name: required(string()),
+  role: withDefault(string(), ''),
+  bio: withDefault(string(), ''),
+  media_url: string(),
+  media_type: withDefault(oneOf(['image', 'video']), 'image'),
+  areas_of_ministry: withDefault(arrayOf(string()), []),
+  button_text: string(),
+  button_link: string()
+})
+
+registerSection({
+  type: 'leadership_team',
+  label: 'Leadership Team',
+  schema: {
+    first_line: string(),
+    main_header: string(),
+    subheader: string(),
+    head_pastor: leadershipMember,
+    other_pastors: arrayOf(leadershipMember)
+  },
+  render: props => <LeadershipTeamSection {...props} />
+})
+
+registerSection({
+  type: 'media_sections',
+  label: 'Media Gallery',
+  aliases: ['media_gallery'],
+  schema: {
+    title: string(),
+    subtitle: string(),
+    type: oneOf(['photos', 'videos', 'mixed']),
+    collections_to_show: number(),
+    show_category_badges: boolean(),
+    layout: oneOf(['grid', 'masonry', 'carousel'])
+  },
+  render: props => <MediaGallerySection {...props} />
+})
+
+registerSection({
+  type: 'team_highlights',
+  label: 'Team Highlights',
+  schema: {
+    title: string(),
+    subtitle: string(),
+    description: string(),
+    highlights: arrayOf(object({
+      name: required(string()),
+      role: withDefault(string(), ''),
+      achievement: withDefault(string(), ''),
+      description: withDefault(string(), ''),
+      image_url: string(),
+      video_url: string(),
+      media_type: withDefault(oneOf(['image', 'video']), 'image'),
+      highlight_type: withDefault(oneOf(['achievement', 'recognition', 'milestone']), 'achievement')
+    })),
+    layout: oneOf(['grid', 'carousel']),
+    background_color: oneOf(['white', 'gray', 'blue']),
+    show_icons: boolean()
+  },
+  render: props => <TeamHighlightsSection {...props} />
+})
+
+registerSection({
+  type: 'get_involved',
+  label: 'Get Involved',
+  schema: {
+    title: string(),
+    subtitle: string(),
+    description: string(),
+    show_all_link: boolean(),
+    all_link_text: string(),
+    all_link_url: string(),
+    max_items: number(),
+    filter_categories: arrayOf(string()),
+    layout: oneOf(['grid', 'list'])
+  },
+  render: props => <GetInvolvedSection {...props} />
+})
+
+// ---------------------------------------------------------------------------
+// Self-contained sections
+// ---------------------------------------------------------------------------
+
+// Homepage
+registerStatic('homepage_hero', 'Homepage Hero', () => <HeroSection />)
+registerStatic('event_carousel', 'Events Carousel', () => <EventsCarousel />, ['events_carousel'])
+registerStatic('testimonial_slider', 'Testimonials', () => <Testimonials />, ['testimonials'])
+registerStatic('about_snapshot', 'About Snapshot', () => <AboutSnapshot />)
+registerStatic('sermon_carousel', 'Sermon Preview', () => <SermonPreview />, ['sermon_preview'])
+registerStatic('get_involved_grid', 'Get Involved Grid', () => <GetInvolvedGrid />)
+registerStatic('newsletter_signup', 'Newsletter Signup', () => <NewsletterSignup />)
+registerStatic('location_map', 'Location Map', () => <LocationMap />)
+
+// About
+registerStatic('about_hero', 'About Hero', () => <AboutHero />)
+registerStatic('about_stats', 'About Stats', () => <AboutStats />)
+registerStatic('our_story', 'Our Story', () => <OurStory />)
+registerStatic('about_mission_vision', 'About Mission & Vision', () => <MissionVision />)
+registerStatic('leadership', 'Leadership', () => <Leadership />)
+registerStatic('our_values', 'Our Values', () => <OurValues />)
+registerStatic('join_us', 'Join Us', () => <JoinUs />)
+
+// Blog
+registerStatic('blog_hero', 'Blog Hero', () => <BlogHero />)
+registerStatic('blog_categories', 'Blog Categories', () => <BlogCategories />)
+registerStatic('blog_newsletter', 'Blog Newsletter', () => <BlogNewsletter />)
+registerStatic('featured_posts', 'Featured Posts', () => <FeaturedPosts />)
+registerStatic('latest_posts', 'Latest Posts', () => <LatestPosts />)
+registerStatic('all_posts', 'All Posts', () => <AllPosts />)
+
+// Contact
+registerStatic('contact_hero', 'Contact Hero', () => <ContactHero />)
+registerStatic('contact_form', 'Contact Form', () => <ContactForm />)
+registerStatic('contact_info', 'Contact Info', () => <ContactInfo />)
+registerStatic('contact_cta', 'Contact CTA', () => <ContactCTA />)
+registerStatic('office_hours', 'Office Hours', () => <OfficeHours />)
+registerStatic('service_times_map', 'Service Times & Map', () => <ServiceTimesMap />)
+registerStatic('planned_visit_form', 'Plan Your Visit Form', () => <PlannedVisitForm />)
+
+// Events
+registerStatic('events_hero', 'Events Hero', () => <EventsHero />)
+registerStatic('event_calendar', 'Event Calendar', () => <EventCalendar />)
+registerStatic('event_categories', 'Event Categories', () => <EventCategories />)
+registerStatic('event_highlights', 'Event Highlights', () => <EventHighlights />)
+registerStatic('upcoming_events', 'Upcoming Events', () => <UpcomingEvents />)
+registerStatic('join_events', 'Join Events', () => <JoinEvents />)
+
+// Gallery
+registerStatic('gallery_hero', 'Gallery Hero', () => <GalleryHero />)
+registerStatic('gallery_categories', 'Gallery Categories', () => <GalleryCategories />)
+registerStatic('featured_galleries', 'Featured Galleries', () => <FeaturedGalleries />)
+registerStatic('photo_galleries', 'Photo Galleries', () => <PhotoGalleries />)
+registerStatic('video_galleries', 'Video Galleries', () => <VideoGalleries />)
+
+// Giving
+registerStatic('giving_hero', 'Giving Hero', () => <GivingHero />)
+registerStatic('giving_form', 'Giving Form', () => <GivingForm />)
+registerStatic('giving_options', 'Giving Options', () => <GivingOptions />)
+registerStatic('giving_methods', 'Giving Methods', () => <GivingMethods />)
+registerStatic('giving_impact', 'Giving Impact', () => <GivingImpact />)
+registerStatic('giving_testimonials', 'Giving Testimonials', () => <GivingTestimonials />)
+registerStatic('giving_faq', 'Giving FAQ', () => <GivingFAQ />)
+
+// Sermons
+registerStatic('sermons_hero', 'Sermons Hero', () => <SermonsHero />)
+registerStatic('latest_sermons', 'Latest Sermons', () => <LatestSermons />)
+registerStatic('sermon_series', 'Sermon Series', () => <SermonSeries />)
+registerStatic('sermon_topics', 'Sermon Topics', () => <SermonTopics />)
+registerStatic('sermons_archive', 'Sermons Archive', () => <SermonsArchive />)
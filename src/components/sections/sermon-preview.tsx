@@ -3,6 +3,8 @@
 import { useSermons } from '@/hooks/useSermons'
 import { useHomepage } from '@/hooks/useHomepage'
 import { useState, useRef } from 'react'
+import { VideoPlayer } from '@/components/ui/video-player'
+import { isEmbedProvider, sermonVideoSource } from '@/lib/video-providers'
 
 // Helper function to format date
 function formatDate(dateString: string): string {
@@ -13,20 +15,9 @@ function formatDate(dateString: string): string {
   })
 }
 
-// Helper function to get video URL based on type
+// Helper function to get the sermon's video link
 function getVideoUrl(sermon: any): string | null {
-  if (sermon.video_type === 'youtube') {
-    return sermon.youtube_url || `https://www.youtube.com/watch?v=${sermon.youtube_id}`
-  }
-  return sermon.video_url || null
-}
-
-// Helper function to get embed URL for videos
-function getEmbedUrl(sermon: any): string | null {
-  if (sermon.video_type === 'youtube' && sermon.youtube_id) {
-    return `https://www.youtube.com/embed/${sermon.youtube_id}`
-  }
-  return sermon.video_url || null
+  return sermonVideoSource(sermon)?.url ?? null
 }
 
 export function SermonPreview() {
@@ -43,38 +34,27 @@ export function SermonPreview() {
 
   // Function to handle video play
   const handleVideoClick = (sermon: any) => {
-    if (sermon.video_type === 'youtube') {
-      // For YouTube videos, show embedded player
+    const source = sermonVideoSource(sermon)
+    if (!source) return
+
+    if (isEmbedProvider(source.provider)) {
+      // For YouTube, Vimeo and Facebook videos, show embedded player
       setShowVideoPlayer(sermon.id)
       setPlayingVideo(sermon.id)
-    } else if (sermon.video_url) {
-      // For uploaded videos, toggle play/pause
-      if (playingVideo === sermon.id) {
-        setPlayingVideo(null)
-        if (videoRef.current) {
-          videoRef.current.pause()
-        }
-      } else {
-        setPlayingVideo(sermon.id)
-        setShowVideoPlayer(sermon.id)
-        // Video will autoplay when rendered
+    } else if (playingVideo === sermon.id) {
+      // For uploaded videos and streams, toggle play/pause
+      setPlayingVideo(null)
+      if (videoRef.current) {
+        videoRef.current.pause()
       }
     } else {
-      // Fallback: open external link if available
-      const videoUrl = getVideoUrl(sermon)
-      if (videoUrl) {
-        window.open(videoUrl, '_blank')
-      }
+      setPlayingVideo(sermon.id)
+      setShowVideoPlayer(sermon.id)
+      // Video will autoplay when rendered
     }
   }
 
-  // Function to get YouTube embed URL
-  const getYouTubeEmbedUrl = (sermon: any): string | null => {
-    if (sermon.video_type === 'youtube' && sermon.youtube_id) {
-      return `https://www.youtube.com/embed/${sermon.youtube_id}?autoplay=1&rel=0`
-    }
-    return null
-  }
+  const featuredSource = featuredSermon ? sermonVideoSource(featuredSermon) : null
 
   if (loading) {
     return (
@@ -149,29 +129,16 @@ export function SermonPreview() {
               {/* Show video player when playing */}
               {showVideoPlayer === featuredSermon.id ? (
                 <>
-                  {featuredSermon.video_type === 'youtube' && getYouTubeEmbedUrl(featuredSermon) ? (
-                    // YouTube embedded player
-                    <iframe
-                      src={getYouTubeEmbedUrl(featuredSermon)!}
-                      className="absolute inset-0 w-full h-full"
-                      frameBorder="0"
-                      allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-                      allowFullScreen
+                  {featuredSource && (
+                    <VideoPlayer
+                      source={featuredSource}
                       title={featuredSermon.title}
-                    />
-                  ) : featuredSermon.video_url ? (
-                    // Uploaded video player
-                    <video
-                      ref={videoRef}
                       className="absolute inset-0 w-full h-full object-cover"
-                      controls
                       autoPlay
                       poster={featuredSermon.thumbnail_image}
-                    >
-                      <source src={featuredSermon.video_url} type="video/mp4" />
-                      Your browser does not support the video tag.
-                    </video>
-                  ) : null}
+                      videoRef={videoRef}
+                    />
+                  )}
                   
                   {/* Close/minimize button */}
                   <button
@@ -2,11 +2,15 @@
 
 import { useHomepage } from '@/hooks/useHomepage'
 import { useState, useEffect, useRef } from 'react'
+import { VideoModal } from '@/components/ui/video-modal'
+import { VideoPlayer } from '@/components/ui/video-player'
+import { isEmbedProvider, parseVideoUrl, videoThumbnailUrl } from '@/lib/video-providers'
 
 export function Testimonials() {
   const { homepage, loading, error, source } = useHomepage()
   const [currentIndex, setCurrentIndex] = useState(0)
   const videoRef = useRef<HTMLVideoElement>(null)
+  const [showVideoModal, setShowVideoModal] = useState(false)
   
   // Get testimonials content from CMS
   const testimonialsContent = homepage.testimonials
@@ -38,9 +42,12 @@ export function Testimonials() {
     setCurrentIndex(index)
   }
 
-  // Function to handle video play/pause
+  // Function to handle video play/pause; YouTube, Vimeo and Facebook videos open in a modal
   const handleVideoClick = () => {
-    if (videoRef.current) {
+    const video = parseVideoUrl(testimonials[currentIndex]?.video_url)
+    if (video && isEmbedProvider(video.provider)) {
+      setShowVideoModal(true)
+    } else if (videoRef.current) {
       if (videoRef.current.paused) {
         videoRef.current.play()
       } else {
@@ -93,6 +100,8 @@ export function Testimonials() {
   }
 
   const currentTestimonial = testimonials[currentIndex]
+  const currentVideo = parseVideoUrl(currentTestimonial?.video_url)
+  const currentImage = currentTestimonial?.image_url || videoThumbnailUrl(currentVideo)
 
   return (
     <section className="py-24 bg-gray-50">
@@ -135,24 +144,25 @@ export function Testimonials() {
           <div className="lg:col-span-1">
             <div 
               className="relative h-[600px] rounded-3xl overflow-hidden group cursor-pointer transition-all duration-500"
-              onClick={() => currentTestimonial?.video_url && handleVideoClick()}
+              onClick={() => currentVideo && handleVideoClick()}
             >
               {/* Video/Image Background */}
-              {currentTestimonial?.video_url ? (
-                <video 
+              {currentVideo && !isEmbedProvider(currentVideo.provider) ? (
+                <VideoPlayer
+                  source={currentVideo}
+                  title={currentTestimonial?.name || 'Testimonial'}
                   className="absolute inset-0 w-full h-full object-cover transition-opacity duration-500"
                   muted
                   loop
+                  controls={false}
                   preload="metadata"
                   poster={currentTestimonial?.image_url}
-                  ref={videoRef}
+                  videoRef={videoRef}
                   key={currentIndex} // Force re-render when testimonial changes
-                >
-                  <source src={currentTestimonial.video_url} type="video/mp4" />
-                </video>
-              ) : currentTestimonial?.image_url ? (
+                />
+              ) : currentImage ? (
                 <img 
-                  src={currentTestimonial.image_url} 
+                  src={currentImage} 
                   alt={currentTestimonial?.name}
                   className="absolute inset-0 w-full h-full object-cover transition-opacity duration-500"
                   key={currentIndex}
@@ -164,7 +174,7 @@ export function Testimonials() {
               )}
               
               {/* Play Button - only show if has video */}
-              {currentTestimonial?.has_video && currentTestimonial?.video_url && (
+              {currentTestimonial?.has_video && currentVideo && (
                 <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
                   <div className="w-20 h-20 bg-white/20 backdrop-blur-sm rounded-full flex items-center justify-center group-hover:bg-white/30 transition-all duration-300">
                     <svg className="w-8 h-8 text-white ml-1" fill="currentColor" viewBox="0 0 24 24">
@@ -245,6 +255,15 @@ export function Testimonials() {
           </div>
         </div>
       </div>
+
+      {currentVideo && (
+        <VideoModal
+          isOpen={showVideoModal}
+          onClose={() => setShowVideoModal(false)}
+          videoUrl={currentVideo.url}
+          title={currentTestimonial?.name || 'Testimonial'}
+        />
+      )}
     </section>
   )
 } 
\ No newline at end of file
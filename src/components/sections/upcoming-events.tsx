@@ -3,6 +3,7 @@
 import Link from 'next/link'
 import { useEventsPage } from '@/hooks/useEventsPage'
 import { useEvents } from '@/hooks/useEvents'
+import { eventOccurrenceKey, eventRegistrationHref } from '@/lib/event-recurrence'
 import { syncFormatters } from '@/lib/timezone-utils'
 
 export function UpcomingEvents() {
@@ -99,7 +100,7 @@ export function UpcomingEvents() {
               </p>
               
               <Link 
-                href={`/events/${featuredEvent.id}/register`}
+                href={eventRegistrationHref(featuredEvent)}
                 className="bg-black text-white px-8 py-4 font-semibold hover:bg-gray-800 transition-all duration-300 inline-flex items-center gap-3"
               >
                 Register for This Event
@@ -182,7 +183,7 @@ export function UpcomingEvents() {
         {!loading && (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8">
             {regularEvents.map((event, index) => (
-              <Link key={event.id} href={`/events/${event.id}/register`} className="group cursor-pointer block">
+              <Link key={eventOccurrenceKey(event)} href={eventRegistrationHref(event)} className="group cursor-pointer block">
                 <div className="relative h-64 rounded-2xl overflow-hidden mb-6">
                   {/* Event Image Background */}
                   {event.primary_image?.url ? (
@@ -1,16 +1,22 @@
 'use client'
 
 import { useEffect, useRef } from 'react'
+import { VideoPlayer } from '@/components/ui/video-player'
+import { parseVideoUrl } from '@/lib/video-providers'
 
 interface VideoModalProps {
   isOpen: boolean
   onClose: () => void
   videoUrl: string
+  // Stored video type, for links that don't identify their provider
+  videoType?: string | null
   title: string
-  isYouTube?: boolean
+  // Playback progress of videos played natively (files and HLS streams)
+  onTimeUpdate?: (currentTime: number, duration: number) => void
+  onEnded?: () => void
 }
 
-export function VideoModal({ isOpen, onClose, videoUrl, title, isYouTube = false }: VideoModalProps) {
+export function VideoModal({ isOpen, onClose, videoUrl, videoType, title, onTimeUpdate, onEnded }: VideoModalProps) {
   const modalRef = useRef<HTMLDivElement>(null)
 
   // Close modal when clicking outside
@@ -53,13 +59,7 @@ export function VideoModal({ isOpen, onClose, videoUrl, title, isYouTube = false
 
   if (!isOpen) return null
 
-  // Convert YouTube watch URL to embed URL
-  const getYouTubeEmbedUrl = (url: string): string => {
-    const videoId = url.match(/(?:youtube\.com\/watch\?v=|youtu\.be\/)([^&\n?#]+)/)?.[1]
-    return videoId ? `https://www.youtube.com/embed/${videoId}?autoplay=1` : url
-  }
-
-  const embedUrl = isYouTube ? getYouTubeEmbedUrl(videoUrl) : videoUrl
+  const source = parseVideoUrl(videoUrl, videoType)
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center">
@@ -88,24 +88,18 @@ export function VideoModal({ isOpen, onClose, videoUrl, title, isYouTube = false
 
         {/* Video Container */}
         <div className="relative w-full" style={{ paddingBottom: '56.25%' /* 16:9 aspect ratio */ }}>
-          {isYouTube ? (
-            <iframe
-              src={embedUrl}
+          {source ? (
+            <VideoPlayer
+              source={source}
               title={title}
-              className="absolute inset-0 w-full h-full"
-              frameBorder="0"
-              allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-              allowFullScreen
-            />
-          ) : (
-            <video
-              src={videoUrl}
-              title={title}
-              className="absolute inset-0 w-full h-full"
-              controls
               autoPlay
-              playsInline
+              onTimeUpdate={event => onTimeUpdate?.(event.currentTarget.currentTime, event.currentTarget.duration)}
+              onEnded={onEnded}
             />
+          ) : (
+            <div className="absolute inset-0 flex items-center justify-center text-gray-400 text-sm">
+              This video can&apos;t be played here
+            </div>
           )}
         </div>
 
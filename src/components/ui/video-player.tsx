@@ -0,0 +1,119 @@
+'use client'
+
+import { useCallback, useRef, type ReactEventHandler, type ReactNode, type Ref } from 'react'
+import { useHlsSource } from '@/hooks/useHlsSource'
+import { videoEmbedUrl, type VideoSource } from '@/lib/video-providers'
+
+interface VideoPlayerProps {
+  source: VideoSource
+  title: string
+  className?: string
+  autoPlay?: boolean
+  muted?: boolean
+  loop?: boolean
+  // Native players only; embeds always show their own controls
+  controls?: boolean
+  // Seconds
+  start?: number
+  end?: number | null
+  // Let the page follow and control an embed over postMessage
+  enableApi?: boolean
+  poster?: string
+  preload?: 'none' | 'metadata' | 'auto'
+  iframeRef?: Ref<HTMLIFrameElement>
+  videoRef?: Ref<HTMLVideoElement>
+  onLoadedMetadata?: ReactEventHandler<HTMLVideoElement>
+  onTimeUpdate?: ReactEventHandler<HTMLVideoElement>
+  onPlay?: ReactEventHandler<HTMLVideoElement>
+  onPause?: ReactEventHandler<HTMLVideoElement>
+  onEnded?: ReactEventHandler<HTMLVideoElement>
+  // <track> elements for native players
+  children?: ReactNode
+}
+
+function assignRef<T>(ref: Ref<T> | undefined, value: T | null) {
+  if (typeof ref === 'function') ref(value)
+  else if (ref) ref.current = value
+}
+
+/**
+ * Plays a video from any supported provider: YouTube, Vimeo and Facebook in
+ * their iframe players, HLS streams and video files in a native <video>.
+ */
+export function VideoPlayer({
+  source,
+  title,
+  className = 'absolute inset-0 w-full h-full',
+  autoPlay = false,
+  muted = false,
+  loop = false,
+  controls = true,
+  start = 0,
+  end = null,
+  enableApi = false,
+  poster,
+  preload,
+  iframeRef,
+  videoRef,
+  onLoadedMetadata,
+  onTimeUpdate,
+  onPlay,
+  onPause,
+  onEnded,
+  children
+}: VideoPlayerProps) {
+  const nativeRef = useRef<HTMLVideoElement | null>(null)
+  const setVideoRef = useCallback((node: HTMLVideoElement | null) => {
+    nativeRef.current = node
+    assignRef(videoRef, node)
+  }, [videoRef])
+
+  useHlsSource(nativeRef, source.provider === 'hls' ? source.url : null)
+
+  const embedUrl = videoEmbedUrl(source, {
+    autoplay: autoPlay,
+    muted,
+    loop,
+    start,
+    end,
+    enableApi,
+    origin: typeof window !== 'undefined' ? window.location.origin : undefined
+  })
+
+  if (embedUrl) {
+    return (
+      <iframe
+        ref={iframeRef}
+        src={embedUrl}
+        title={title}
+        className={className}
+        allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture; web-share"
+        allowFullScreen
+      />
+    )
+  }
+
+  return (
+    <video
+      ref={setVideoRef}
+      // HLS streams are attached by useHlsSource
+      src={source.provider === 'file' ? source.url : undefined}
+      title={title}
+      className={className}
+      poster={poster}
+      preload={preload}
+      controls={controls}
+      autoPlay={autoPlay}
+      muted={muted}
+      loop={loop}
+      playsInline
+      onLoadedMetadata={onLoadedMetadata}
+      onTimeUpdate={onTimeUpdate}
+      onPlay={onPlay}
+      onPause={onPause}
+      onEnded={onEnded}
+    >
+      {children}
+    </video>
+  )
+}
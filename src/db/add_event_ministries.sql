@@ -0,0 +1,6 @@
+-- Events can belong to a ministry (a row in groups), so the calendar feed at
+-- /api/events/calendar.ics can be filtered to one ministry's events.
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS ministry_group_id uuid REFERENCES groups (id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS events_ministry_group_idx ON events (ministry_group_id, event_date);
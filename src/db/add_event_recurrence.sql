@@ -0,0 +1,45 @@
+-- Recurring events. An event with an rrule repeats from its event_date, which
+-- becomes the first occurrence; the site expands occurrences in the tenant's
+-- time zone (tenant_settings.time_zone), so a 7pm Bible study stays at 7pm
+-- across daylight saving changes.
+--
+-- rrule is an iCalendar (RFC 5545) recurrence rule without the "RRULE:"
+-- prefix, e.g. 'FREQ=WEEKLY;BYDAY=WE' or 'FREQ=MONTHLY;BYDAY=1SU;COUNT=12'.
+-- recurrence_exceptions lists occurrences that don't happen (EXDATE), by
+-- their scheduled start. is_recurring is kept in step for older readers.
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS rrule text;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS recurrence_exceptions timestamptz[] NOT NULL DEFAULT '{}';
+
+UPDATE events SET is_recurring = (rrule IS NOT NULL) WHERE is_recurring IS DISTINCT FROM (rrule IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS events_recurring_idx ON events (event_date) WHERE rrule IS NOT NULL;
+
+-- Changes to a single occurrence, keyed by its scheduled start. Null columns
+-- keep the event's value; event_date moves the occurrence and cancelled
+-- drops it (unlike an exception, a cancelled occurrence is kept on record).
+CREATE TABLE IF NOT EXISTS event_occurrence_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES events (id) ON DELETE CASCADE,
+  occurrence_start timestamptz NOT NULL,
+  event_date timestamptz,
+  name text,
+  description text,
+  location text,
+  capacity integer,
+  cancelled boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (event_id, occurrence_start)
+);
+
+ALTER TABLE event_occurrence_overrides ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Event occurrence overrides are public" ON event_occurrence_overrides;
+CREATE POLICY "Event occurrence overrides are public" ON event_occurrence_overrides
+  FOR SELECT TO anon, authenticated USING (true);
+
+-- Registrations for a recurring event are for one occurrence, by its
+-- scheduled start. One-off events leave it null.
+ALTER TABLE registrations ADD COLUMN IF NOT EXISTS occurrence_start timestamptz;
+
+CREATE INDEX IF NOT EXISTS registrations_occurrence_idx ON registrations (event_id, occurrence_start, status);
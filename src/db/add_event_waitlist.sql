@@ -0,0 +1,213 @@
+-- Event waitlists. Once an event (or, for a recurring event, one occurrence)
+-- has as many 'confirmed' registrations as its capacity, new registrations
+-- are 'waitlisted'. When a confirmed registration is cancelled or deleted,
+-- the longest-waiting registrations are confirmed in its place.
+--
+-- registrations.status is 'confirmed', 'waitlisted' or 'cancelled'.
+-- promoted_at records when a waitlisted registration was confirmed.
+
+ALTER TABLE registrations ADD COLUMN IF NOT EXISTS promoted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS registrations_waitlist_idx
+  ON registrations (event_id, occurrence_start, created_at)
+  WHERE status = 'waitlisted';
+
+-- One live registration per contact and event occurrence, so two requests
+-- racing past the API's check can't both register. Earlier duplicates are
+-- cancelled first, keeping each contact's oldest registration.
+UPDATE registrations r
+SET status = 'cancelled', updated_at = now()
+WHERE r.status <> 'cancelled'
+  AND EXISTS (
+    SELECT 1
+    FROM registrations older
+    WHERE older.event_id = r.event_id
+      AND older.contact_id = r.contact_id
+      AND older.occurrence_start IS NOT DISTINCT FROM r.occurrence_start
+      AND older.status <> 'cancelled'
+      AND (older.created_at, older.id) < (r.created_at, r.id)
+  );
+
+-- NULLS NOT DISTINCT (Postgres 15+) so one-off events, with a null
+-- occurrence_start, are covered too
+CREATE UNIQUE INDEX IF NOT EXISTS registrations_contact_occurrence_key
+  ON registrations (event_id, contact_id, occurrence_start) NULLS NOT DISTINCT
+  WHERE status <> 'cancelled';
+
+-- Registrations and promotions for one event occurrence take this lock first,
+-- so two people can't both take its last place
+CREATE OR REPLACE FUNCTION lock_event_registrations(target_event uuid, target_occurrence timestamptz)
+RETURNS void
+LANGUAGE sql
+SET search_path = public
+AS $$
+  SELECT pg_advisory_xact_lock(hashtextextended(target_event::text || '/' || coalesce(extract(epoch FROM target_occurrence)::text, ''), 0))
+$$;
+
+-- Places left for an event occurrence: null when it has no capacity (as
+-- with the site, a capacity of 0 means no limit), and never below zero. The
+-- occurrence's override capacity, if any, wins.
+CREATE OR REPLACE FUNCTION event_places_left(target_event uuid, target_occurrence timestamptz)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE WHEN capacity IS NOT NULL THEN greatest(capacity - (
+    SELECT count(*)::integer
+    FROM registrations r
+    WHERE r.event_id = target_event
+      AND r.occurrence_start IS NOT DISTINCT FROM target_occurrence
+      AND r.status = 'confirmed'
+  ), 0) END
+  FROM (
+    SELECT nullif(coalesce(o.capacity, e.capacity), 0) AS capacity
+    FROM events e
+    LEFT JOIN event_occurrence_overrides o
+      ON o.event_id = e.id AND o.occurrence_start = target_occurrence
+    WHERE e.id = target_event
+  ) event_capacity
+$$;
+
+-- A waitlisted registration's place in the queue, from 1; null for any other
+CREATE OR REPLACE FUNCTION registration_waitlist_position(target_registration uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT count(*)::integer
+  FROM registrations me
+  JOIN registrations r
+    ON r.event_id = me.event_id
+    AND r.occurrence_start IS NOT DISTINCT FROM me.occurrence_start
+    AND r.status = 'waitlisted'
+    AND (r.created_at, r.id) <= (me.created_at, me.id)
+  WHERE me.id = target_registration AND me.status = 'waitlisted'
+  HAVING count(*) > 0
+$$;
+
+-- Registers a contact for an event occurrence, on the waitlist when it is
+-- full. Returns the new registration's id, status and waitlist position.
+-- Raises unique_violation when the contact already has a live registration
+-- for it.
+CREATE OR REPLACE FUNCTION register_for_event(
+  target_event uuid,
+  target_contact uuid,
+  target_occurrence timestamptz DEFAULT NULL
+)
+RETURNS TABLE (id uuid, status text, waitlist_position integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  places integer;
+  new_id uuid;
+  new_status text;
+BEGIN
+  PERFORM lock_event_registrations(target_event, target_occurrence);
+
+  places := event_places_left(target_event, target_occurrence);
+  new_status := CASE WHEN places IS NULL OR places > 0 THEN 'confirmed' ELSE 'waitlisted' END;
+
+  INSERT INTO registrations (event_id, contact_id, occurrence_start, status)
+  VALUES (target_event, target_contact, target_occurrence, new_status)
+  RETURNING registrations.id INTO new_id;
+
+  RETURN QUERY SELECT new_id, new_status, registration_waitlist_position(new_id);
+END;
+$$;
+
+-- Confirms waitlisted registrations for an event occurrence, longest waiting
+-- first, while it has places left. Returns how many were confirmed. Runs
+-- after a cancellation (below); call it by hand after raising a capacity.
+CREATE OR REPLACE FUNCTION promote_waitlisted_registrations(target_event uuid, target_occurrence timestamptz)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  places integer;
+  promoted integer;
+BEGIN
+  PERFORM lock_event_registrations(target_event, target_occurrence);
+
+  -- No such event (e.g. it is being deleted) means nothing to promote into
+  IF NOT EXISTS (SELECT 1 FROM events WHERE events.id = target_event) THEN
+    RETURN 0;
+  END IF;
+
+  places := event_places_left(target_event, target_occurrence);
+
+  UPDATE registrations
+  SET status = 'confirmed', promoted_at = now(), updated_at = now()
+  WHERE registrations.id IN (
+    SELECT r.id
+    FROM registrations r
+    WHERE r.event_id = target_event
+      AND r.occurrence_start IS NOT DISTINCT FROM target_occurrence
+      AND r.status = 'waitlisted'
+    ORDER BY r.created_at, r.id
+    LIMIT places
+  );
+
+  GET DIAGNOSTICS promoted = ROW_COUNT;
+  RETURN promoted;
+END;
+$$;
+
+-- Cancels a registration, given the email of the contact who made it.
+-- Returns whether a registration was cancelled.
+CREATE OR REPLACE FUNCTION cancel_event_registration(target_registration uuid, contact_email text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE registrations r
+  SET status = 'cancelled', updated_at = now()
+  FROM contacts c
+  WHERE r.id = target_registration
+    AND r.status <> 'cancelled'
+    AND c.id = r.contact_id
+    AND lower(c.email) = lower(contact_email);
+
+  RETURN FOUND;
+END;
+$$;
+
+-- A confirmed registration that is cancelled or deleted, however that
+-- happens, frees its place for the waitlist
+CREATE OR REPLACE FUNCTION promote_waitlist_after_cancellation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' OR NEW.status <> 'confirmed' THEN
+    PERFORM promote_waitlisted_registrations(OLD.event_id, OLD.occurrence_start);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS registrations_promote_waitlist ON registrations;
+CREATE TRIGGER registrations_promote_waitlist
+  AFTER UPDATE OF status OR DELETE ON registrations
+  FOR EACH ROW
+  WHEN (OLD.status = 'confirmed')
+  EXECUTE FUNCTION promote_waitlist_after_cancellation();
+
+-- These run with the owner's rights, so only the service role may call them:
+-- visitors register and cancel through the API, and promotion is left to the
+-- trigger and to admins
+REVOKE EXECUTE ON FUNCTION register_for_event(uuid, uuid, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION cancel_event_registration(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION promote_waitlisted_registrations(uuid, timestamptz) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION register_for_event(uuid, uuid, timestamptz) TO service_role;
+GRANT EXECUTE ON FUNCTION cancel_event_registration(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION promote_waitlisted_registrations(uuid, timestamptz) TO service_role;
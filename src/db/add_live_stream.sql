@@ -0,0 +1,15 @@
+-- Weekly service schedule and livestream link for the /live page and the
+-- "We're live" banner.
+--
+-- service_schedule is a JSON array of services in the tenant's time zone
+-- (tenant_settings.time_zone), e.g.
+--   [{ "day": 0, "start": "10:00", "duration_minutes": 120, "title": "Sunday Service" }]
+-- where day 0 is Sunday. live_stream_url is the stream played while a
+-- service is on: a YouTube, Vimeo or Facebook live link, or an HLS (.m3u8)
+-- stream. Both are optional; without a schedule the site never goes live.
+
+ALTER TABLE tenant_settings ADD COLUMN IF NOT EXISTS service_schedule jsonb NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE tenant_settings ADD COLUMN IF NOT EXISTS live_stream_url text;
+
+ALTER TABLE tenant_settings DROP CONSTRAINT IF EXISTS tenant_settings_service_schedule_is_array;
+ALTER TABLE tenant_settings ADD CONSTRAINT tenant_settings_service_schedule_is_array CHECK (jsonb_typeof(service_schedule) = 'array');
@@ -0,0 +1,16 @@
+-- Podcast channel metadata for the sermon RSS feeds (/media/sermons/podcast.xml).
+-- Every column is optional; the feed falls back to the tenant's name, description,
+-- logo and contact email.
+
+ALTER TABLE tenant_settings ADD COLUMN IF NOT EXISTS podcast_title text;
+ALTER TABLE tenant_settings ADD COLUMN IF NOT EXISTS podcast_description text;
+ALTER TABLE tenant_settings ADD COLUMN IF NOT EXISTS podcast_author text;
+ALTER TABLE tenant_settings ADD COLUMN IF NOT EXISTS podcast_owner_email text;
+ALTER TABLE tenant_settings ADD COLUMN IF NOT EXISTS podcast_image_url text;
+ALTER TABLE tenant_settings ADD COLUMN IF NOT EXISTS podcast_category text DEFAULT 'Religion & Spirituality';
+ALTER TABLE tenant_settings ADD COLUMN IF NOT EXISTS podcast_subcategory text DEFAULT 'Christianity';
+ALTER TABLE tenant_settings ADD COLUMN IF NOT EXISTS podcast_language text DEFAULT 'en-us';
+ALTER TABLE tenant_settings ADD COLUMN IF NOT EXISTS podcast_explicit boolean NOT NULL DEFAULT false;
+
+-- Podcast episodes are published sermons with audio, newest first
+CREATE INDEX IF NOT EXISTS sermons_podcast_idx ON sermons (sermon_date DESC) WHERE status = 'published' AND audio_url IS NOT NULL;
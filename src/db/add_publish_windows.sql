@@ -0,0 +1,18 @@
+-- Scheduled publishing windows for CMS content
+-- A NULL publish_at means "live as soon as published"; a NULL unpublish_at means "never expires".
+
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS publish_at timestamptz;
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS unpublish_at timestamptz;
+
+ALTER TABLE page_sections ADD COLUMN IF NOT EXISTS publish_at timestamptz;
+ALTER TABLE page_sections ADD COLUMN IF NOT EXISTS unpublish_at timestamptz;
+
+ALTER TABLE blogs ADD COLUMN IF NOT EXISTS publish_at timestamptz;
+ALTER TABLE blogs ADD COLUMN IF NOT EXISTS unpublish_at timestamptz;
+
+ALTER TABLE sermons ADD COLUMN IF NOT EXISTS publish_at timestamptz;
+ALTER TABLE sermons ADD COLUMN IF NOT EXISTS unpublish_at timestamptz;
+
+-- Used to find the next scheduled change when computing cache lifetimes
+CREATE INDEX IF NOT EXISTS blogs_publish_window_idx ON blogs (status, publish_at, unpublish_at);
+CREATE INDEX IF NOT EXISTS sermons_publish_window_idx ON sermons (status, publish_at, unpublish_at);
@@ -0,0 +1,87 @@
+-- Structured scripture passages for sermons and blog posts, parsed from their
+-- free-text scripture_reference by src/lib/scripture.ts. The site rewrites a row's
+-- passages when /api/revalidate reports a change; POST /api/scripture/reindex
+-- rebuilds the whole index.
+
+ALTER TABLE blogs ADD COLUMN IF NOT EXISTS scripture_reference text;
+
+CREATE TABLE IF NOT EXISTS scripture_passages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  content_type text NOT NULL CHECK (content_type IN ('sermon', 'blog')),
+  content_id uuid NOT NULL,
+  book text NOT NULL,
+  book_number integer NOT NULL CHECK (book_number BETWEEN 1 AND 66),
+  start_chapter integer NOT NULL,
+  start_verse integer,
+  end_chapter integer NOT NULL,
+  end_verse integer,
+  -- chapter * 1000 + verse (0 / 999 for whole chapters), for overlap queries
+  start_position integer NOT NULL,
+  end_position integer NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS scripture_passages_lookup_idx
+  ON scripture_passages (book_number, start_position, end_position);
+CREATE INDEX IF NOT EXISTS scripture_passages_content_idx
+  ON scripture_passages (content_type, content_id);
+
+-- Passages are public; only the service role writes them
+ALTER TABLE scripture_passages ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Scripture passages are public" ON scripture_passages;
+CREATE POLICY "Scripture passages are public" ON scripture_passages
+  FOR SELECT TO anon, authenticated USING (true);
+
+-- Replace one sermon's or blog post's scripture passages in a single
+-- transaction, so a failed insert can't leave it with no passages and two
+-- deliveries for the same item can't interleave.
+--
+-- passages is a JSON array of rows without content_type and content_id, e.g.
+-- [{"book": "Romans", "book_number": 45, "start_chapter": 8, "start_verse": 28,
+--   "end_chapter": 8, "end_verse": 39, "start_position": 8028, "end_position": 8039}]
+CREATE OR REPLACE FUNCTION replace_scripture_passages(
+  target_type text,
+  target_content uuid,
+  passages jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  inserted integer;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtextextended('scripture_passages/' || target_type || '/' || target_content::text, 0));
+
+  DELETE FROM scripture_passages
+  WHERE content_type = target_type AND content_id = target_content;
+
+  INSERT INTO scripture_passages (
+    content_type, content_id, book, book_number,
+    start_chapter, start_verse, end_chapter, end_verse,
+    start_position, end_position
+  )
+  SELECT
+    target_type, target_content, p.book, p.book_number,
+    p.start_chapter, p.start_verse, p.end_chapter, p.end_verse,
+    p.start_position, p.end_position
+  FROM jsonb_to_recordset(coalesce(passages, '[]'::jsonb)) AS p (
+    book text,
+    book_number integer,
+    start_chapter integer,
+    start_verse integer,
+    end_chapter integer,
+    end_verse integer,
+    start_position integer,
+    end_position integer
+  );
+
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  RETURN inserted;
+END;
+$$;
+
+-- Only the service role writes the index
+REVOKE EXECUTE ON FUNCTION replace_scripture_passages(text, uuid, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION replace_scripture_passages(text, uuid, jsonb) TO service_role;
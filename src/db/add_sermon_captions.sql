@@ -0,0 +1,8 @@
+-- Timed captions for a sermon, as the text of a WebVTT or SRT file.
+--
+-- The sermon page renders them as an interactive transcript that follows
+-- playback, and /media/sermons/<slug>/captions.vtt serves them (converted to
+-- WebVTT) as the <track> for uploaded videos. A transcript pasted into the
+-- plain `transcript` column in either format is treated the same way.
+
+ALTER TABLE sermons ADD COLUMN IF NOT EXISTS captions text;
@@ -0,0 +1,16 @@
+-- Structured sermon notes.
+--
+-- chapters: [{ "start": 754, "title": "The prodigal returns" }, ...] where start
+-- is seconds into the video/audio ("12:34" strings are accepted too).
+--
+-- outline: fill-in-the-blank outline, one line per entry:
+--   # Main point              heading
+--   - Supporting point        bullet
+--   > John 15:5               scripture reference
+--   God's grace is [[enough]] plain line; [[...]] is a blank and its answer
+
+ALTER TABLE sermons ADD COLUMN IF NOT EXISTS chapters jsonb NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE sermons ADD COLUMN IF NOT EXISTS outline text;
+
+ALTER TABLE sermons DROP CONSTRAINT IF EXISTS sermons_chapters_is_array;
+ALTER TABLE sermons ADD CONSTRAINT sermons_chapters_is_array CHECK (jsonb_typeof(chapters) = 'array');
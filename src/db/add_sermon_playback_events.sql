@@ -0,0 +1,127 @@
+-- Anonymous sermon playback events. Each row is one milestone for one browser
+-- session: the session id is a random value the browser keeps for the tab's
+-- lifetime, and no IP address, user agent or account is stored with it.
+
+CREATE TABLE IF NOT EXISTS sermon_playback_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sermon_id uuid NOT NULL REFERENCES sermons (id) ON DELETE CASCADE,
+  session_id text NOT NULL,
+  event text NOT NULL CHECK (event IN ('started', 'progress_25', 'progress_50', 'progress_75', 'completed', 'download')),
+  media text NOT NULL CHECK (media IN ('video', 'audio')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  -- A session counts each milestone once per sermon
+  UNIQUE (sermon_id, session_id, event)
+);
+
+CREATE INDEX IF NOT EXISTS sermon_playback_events_started_idx
+  ON sermon_playback_events (created_at, sermon_id)
+  WHERE event = 'started';
+
+-- Session ids are chosen by the browser, so they cannot stop one client from
+-- counting a sermon over and over. The website also sends a hash of the
+-- client's address, and events are limited per address per sermon per hour.
+-- Only the current hour's counters are kept.
+CREATE TABLE IF NOT EXISTS sermon_playback_throttle (
+  source_hash text NOT NULL,
+  sermon_id uuid NOT NULL REFERENCES sermons (id) ON DELETE CASCADE,
+  event text NOT NULL,
+  window_start timestamptz NOT NULL,
+  hits integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (source_hash, sermon_id, event, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS sermon_playback_throttle_window_idx
+  ON sermon_playback_throttle (window_start);
+
+-- Events and counters are only written and aggregated through the functions below
+ALTER TABLE sermon_playback_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sermon_playback_throttle ENABLE ROW LEVEL SECURITY;
+
+-- Records one event, ignoring repeats from the same session and anything past
+-- 10 of one event per source (address hash) per sermon per hour. A newly
+-- recorded 'started' event adds one to sermons.view_count. Returns whether the
+-- event was new. Only the website calls this, with the service role, since
+-- the source hash has to come from the server.
+DROP FUNCTION IF EXISTS record_sermon_playback(uuid, text, text, text);
+
+CREATE OR REPLACE FUNCTION record_sermon_playback(
+  target_sermon uuid,
+  target_session text,
+  playback_event text,
+  playback_media text,
+  target_source text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_window timestamptz := date_trunc('hour', now());
+  window_hits integer;
+  inserted boolean;
+BEGIN
+  IF length(target_session) NOT BETWEEN 16 AND 64 OR length(target_source) <> 64 THEN
+    RETURN false;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM sermons WHERE id = target_sermon AND status = 'published') THEN
+    RETURN false;
+  END IF;
+
+  DELETE FROM sermon_playback_throttle WHERE window_start < current_window;
+
+  INSERT INTO sermon_playback_throttle AS t (source_hash, sermon_id, event, window_start, hits)
+  VALUES (target_source, target_sermon, playback_event, current_window, 1)
+  ON CONFLICT (source_hash, sermon_id, event, window_start) DO UPDATE SET hits = t.hits + 1
+  RETURNING t.hits INTO window_hits;
+
+  IF window_hits > 10 THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO sermon_playback_events (sermon_id, session_id, event, media)
+  VALUES (target_sermon, target_session, playback_event, playback_media)
+  ON CONFLICT (sermon_id, session_id, event) DO NOTHING;
+
+  inserted := FOUND;
+
+  IF inserted AND playback_event = 'started' THEN
+    UPDATE sermons SET view_count = coalesce(view_count, 0) + 1 WHERE id = target_sermon;
+  END IF;
+
+  RETURN inserted;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION record_sermon_playback(uuid, text, text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_sermon_playback(uuid, text, text, text, text) TO service_role;
+
+-- Published sermons ranked by sessions that started them since a point in
+-- time, at most 24. Only aggregate counts leave the table.
+CREATE OR REPLACE FUNCTION most_watched_sermons(
+  since timestamptz,
+  as_of timestamptz DEFAULT now(),
+  result_limit integer DEFAULT 6
+)
+RETURNS TABLE (sermon_id uuid, views bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.sermon_id, count(*) AS views
+  FROM sermon_playback_events e
+  JOIN sermons s ON s.id = e.sermon_id
+  WHERE e.event = 'started'
+    AND e.created_at >= since
+    AND e.created_at <= as_of
+    AND s.status = 'published'
+    AND (s.publish_at IS NULL OR s.publish_at <= as_of)
+    AND (s.unpublish_at IS NULL OR s.unpublish_at > as_of)
+  GROUP BY e.sermon_id, s.sermon_date
+  ORDER BY views DESC, s.sermon_date DESC
+  LIMIT least(greatest(result_limit, 0), 24)
+$$;
+
+GRANT EXECUTE ON FUNCTION most_watched_sermons(timestamptz, timestamptz, integer) TO anon, authenticated;
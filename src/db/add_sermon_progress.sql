@@ -0,0 +1,20 @@
+-- Playback position per sermon for identified members. Anonymous visitors keep
+-- their progress in the browser; members arrive through a signed member link
+-- from the admin app (see src/lib/member.ts) and their progress follows them
+-- between devices.
+
+CREATE TABLE IF NOT EXISTS sermon_progress (
+  contact_id uuid NOT NULL REFERENCES contacts (id) ON DELETE CASCADE,
+  sermon_id uuid NOT NULL REFERENCES sermons (id) ON DELETE CASCADE,
+  -- Seconds into the video or audio
+  position_seconds numeric NOT NULL DEFAULT 0 CHECK (position_seconds >= 0),
+  duration_seconds numeric CHECK (duration_seconds IS NULL OR duration_seconds > 0),
+  completed boolean NOT NULL DEFAULT false,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (contact_id, sermon_id)
+);
+
+CREATE INDEX IF NOT EXISTS sermon_progress_recent_idx ON sermon_progress (contact_id, updated_at DESC);
+
+-- Only the website's server reads and writes progress, with the service role
+ALTER TABLE sermon_progress ENABLE ROW LEVEL SECURITY;
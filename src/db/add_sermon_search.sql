@@ -0,0 +1,95 @@
+-- Full-text search over sermons, used by /api/sermons/browse.
+-- Titles rank highest, then speaker/series/scripture/tags, then the description,
+-- then notes and transcripts.
+
+-- to_tsvector with an explicit configuration is immutable, but array_to_string is
+-- only stable, so the document is built by an IMMUTABLE wrapper to allow an index.
+CREATE OR REPLACE FUNCTION sermon_search_vector(
+  title text,
+  speaker text,
+  series text,
+  scripture_reference text,
+  tags text[],
+  description text,
+  notes text,
+  transcript text
+)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', concat_ws(' ', speaker, series, scripture_reference, array_to_string(tags, ' '))), 'B') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'C') ||
+    setweight(to_tsvector('english', concat_ws(' ', notes, transcript)), 'D')
+$$;
+
+CREATE INDEX IF NOT EXISTS sermons_search_idx ON sermons USING GIN (
+  sermon_search_vector(title, speaker, series, scripture_reference, tags, description, notes, transcript)
+);
+
+-- One page of published, in-window sermons matching a web-search style query
+-- ("grace -law", "\"born again\""). scripture_ids are sermons whose scripture
+-- reference overlaps the passage searched for; they match even without a text hit
+-- and rank above text-only matches. Snippets mark hits with ⟦ and ⟧.
+CREATE OR REPLACE FUNCTION search_sermons(
+  search_query text,
+  scripture_ids uuid[] DEFAULT '{}',
+  series_filter text DEFAULT NULL,
+  speaker_filter text DEFAULT NULL,
+  as_of timestamptz DEFAULT now(),
+  page_offset integer DEFAULT 0,
+  page_limit integer DEFAULT 12
+)
+RETURNS TABLE (id uuid, rank real, snippet text, total_count bigint)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', coalesce(search_query, '')) AS q
+  ),
+  matches AS (
+    SELECT
+      s.id,
+      s.sermon_date,
+      ts_rank_cd(
+        sermon_search_vector(s.title, s.speaker, s.series, s.scripture_reference, s.tags, s.description, s.notes, s.transcript),
+        query.q
+      ) + CASE WHEN s.id = ANY(scripture_ids) THEN 1 ELSE 0 END AS rank
+    FROM sermons s, query
+    WHERE s.status = 'published'
+      AND (s.publish_at IS NULL OR s.publish_at <= as_of)
+      AND (s.unpublish_at IS NULL OR s.unpublish_at > as_of)
+      AND (series_filter IS NULL OR s.series = series_filter)
+      AND (speaker_filter IS NULL OR s.speaker = speaker_filter)
+      AND (
+        sermon_search_vector(s.title, s.speaker, s.series, s.scripture_reference, s.tags, s.description, s.notes, s.transcript) @@ query.q
+        OR s.id = ANY(scripture_ids)
+      )
+  ),
+  page AS (
+    SELECT m.id, m.rank, m.sermon_date, count(*) OVER () AS total_count
+    FROM matches m
+    ORDER BY m.rank DESC, m.sermon_date DESC
+    OFFSET page_offset
+    LIMIT page_limit
+  )
+  -- Headlines are expensive, so they are only built for the returned page
+  SELECT
+    page.id,
+    page.rank,
+    ts_headline(
+      'english',
+      coalesce(nullif(concat_ws(' ', s.description, s.notes, s.transcript), ''), s.title),
+      query.q,
+      'StartSel=⟦, StopSel=⟧, MaxFragments=2, MaxWords=24, MinWords=8, FragmentDelimiter=" … "'
+    ) AS snippet,
+    page.total_count
+  FROM page
+  JOIN sermons s ON s.id = page.id
+  CROSS JOIN query
+  ORDER BY page.rank DESC, page.sermon_date DESC
+$$;
+
+GRANT EXECUTE ON FUNCTION search_sermons(text, uuid[], text, text, timestamptz, integer, integer) TO anon, authenticated;
@@ -0,0 +1,112 @@
+-- Sermon series as their own records. sermons.series (free text) is kept for the
+-- admin app's existing forms, but the site reads series through series_id.
+
+CREATE TABLE IF NOT EXISTS sermon_series (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text NOT NULL,
+  slug text NOT NULL UNIQUE,
+  description text,
+  artwork_url text,
+  -- NULL dates are derived from the series' sermons
+  start_date date,
+  end_date date,
+  -- Manual ordering of series listings; lower first, then newest first
+  sort_order integer NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'published' CHECK (status IN ('draft', 'published')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE sermons ADD COLUMN IF NOT EXISTS series_id uuid REFERENCES sermon_series (id) ON DELETE SET NULL;
+-- Episode number within the series; NULL falls back to sermon_date order
+ALTER TABLE sermons ADD COLUMN IF NOT EXISTS series_order integer;
+
+CREATE INDEX IF NOT EXISTS sermons_series_idx ON sermons (series_id, series_order, sermon_date);
+
+ALTER TABLE sermon_series ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Published sermon series are public" ON sermon_series;
+CREATE POLICY "Published sermon series are public" ON sermon_series
+  FOR SELECT TO anon, authenticated USING (status = 'published');
+
+-- Backfill: one series per distinct sermons.series value, slugged like generateSlug()
+INSERT INTO sermon_series (title, slug)
+SELECT DISTINCT ON (slug) title, slug
+FROM (
+  SELECT
+    series AS title,
+    trim(both '-' from regexp_replace(regexp_replace(lower(series), '[^a-z0-9\s-]', '', 'g'), '[\s-]+', '-', 'g')) AS slug
+  FROM sermons
+  WHERE series IS NOT NULL AND trim(series) <> ''
+) named
+WHERE slug <> ''
+ON CONFLICT (slug) DO NOTHING;
+
+UPDATE sermons s
+SET series_id = ss.id
+FROM sermon_series ss
+WHERE s.series_id IS NULL
+  AND s.series IS NOT NULL
+  AND ss.slug = trim(both '-' from regexp_replace(regexp_replace(lower(s.series), '[^a-z0-9\s-]', '', 'g'), '[\s-]+', '-', 'g'));
+
+-- Browse filters now pass a series id instead of the series name
+DROP FUNCTION IF EXISTS search_sermons(text, uuid[], text, text, timestamptz, integer, integer);
+
+CREATE OR REPLACE FUNCTION search_sermons(
+  search_query text,
+  scripture_ids uuid[] DEFAULT '{}',
+  series_filter uuid DEFAULT NULL,
+  speaker_filter text DEFAULT NULL,
+  as_of timestamptz DEFAULT now(),
+  page_offset integer DEFAULT 0,
+  page_limit integer DEFAULT 12
+)
+RETURNS TABLE (id uuid, rank real, snippet text, total_count bigint)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', coalesce(search_query, '')) AS q
+  ),
+  matches AS (
+    SELECT
+      s.id,
+      s.sermon_date,
+      ts_rank_cd(
+        sermon_search_vector(s.title, s.speaker, s.series, s.scripture_reference, s.tags, s.description, s.notes, s.transcript),
+        query.q
+      ) + CASE WHEN s.id = ANY(scripture_ids) THEN 1 ELSE 0 END AS rank
+    FROM sermons s, query
+    WHERE s.status = 'published'
+      AND (s.publish_at IS NULL OR s.publish_at <= as_of)
+      AND (s.unpublish_at IS NULL OR s.unpublish_at > as_of)
+      AND (series_filter IS NULL OR s.series_id = series_filter)
+      AND (speaker_filter IS NULL OR s.speaker = speaker_filter)
+      AND (
+        sermon_search_vector(s.title, s.speaker, s.series, s.scripture_reference, s.tags, s.description, s.notes, s.transcript) @@ query.q
+        OR s.id = ANY(scripture_ids)
+      )
+  ),
+  page AS (
+    SELECT m.id, m.rank, m.sermon_date, count(*) OVER () AS total_count
+    FROM matches m
+    ORDER BY m.rank DESC, m.sermon_date DESC
+    OFFSET page_offset
+    LIMIT page_limit
+  )
+  SELECT
+    page.id,
+    page.rank,
+    ts_headline(
+      'english',
+      coalesce(nullif(concat_ws(' ', s.description, s.notes, s.transcript), ''), s.title),
+      query.q,
+      'StartSel=⟦, StopSel=⟧, MaxFragments=2, MaxWords=24, MinWords=8, FragmentDelimiter=" … "'
+    ) AS snippet,
+    page.total_count
+  FROM page
+  JOIN sermons s ON s.id = page.id
+  CROSS JOIN query
+  ORDER BY page.rank DESC, page.sermon_date DESC
+$$;
+
+GRANT EXECUTE ON FUNCTION search_sermons(text, uuid[], uuid, text, timestamptz, integer, integer) TO anon, authenticated;
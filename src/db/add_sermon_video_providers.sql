@@ -0,0 +1,12 @@
+-- Sermon videos from providers other than YouTube.
+--
+-- video_type says where sermons.video_url points: 'upload' for a video file
+-- (MP4, WebM), 'vimeo' and 'facebook' for videos played in those providers'
+-- embeds, and 'hls' for an .m3u8 live or on-demand stream. YouTube videos
+-- keep using youtube_url and youtube_id. Links are recognised from the URL
+-- itself where possible (see src/lib/video-providers.ts); the type decides
+-- for links that don't say, such as storage URLs without a file extension.
+
+ALTER TABLE sermons DROP CONSTRAINT IF EXISTS sermons_video_type_check;
+ALTER TABLE sermons ADD CONSTRAINT sermons_video_type_check
+  CHECK (video_type IN ('upload', 'youtube', 'vimeo', 'facebook', 'hls'));
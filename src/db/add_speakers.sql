@@ -0,0 +1,112 @@
+-- Speakers as their own records. sermons.speaker stays as the display name the
+-- admin app writes; the site links and filters through speaker_id.
+
+CREATE TABLE IF NOT EXISTS speakers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  slug text NOT NULL UNIQUE,
+  -- Role shown with the name, e.g. 'Lead Pastor'
+  title text,
+  bio text,
+  photo_url text,
+  -- Other spellings of the name (e.g. without 'Pastor'), used to match
+  -- leadership team members and legacy sermons.speaker values
+  aliases text[] NOT NULL DEFAULT '{}',
+  sort_order integer NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'published' CHECK (status IN ('draft', 'published')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE sermons ADD COLUMN IF NOT EXISTS speaker_id uuid REFERENCES speakers (id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS sermons_speaker_idx ON sermons (speaker_id, sermon_date DESC);
+
+ALTER TABLE speakers ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Published speakers are public" ON speakers;
+CREATE POLICY "Published speakers are public" ON speakers
+  FOR SELECT TO anon, authenticated USING (status = 'published');
+
+-- Backfill: one speaker per distinct sermons.speaker value. Spelling variants
+-- become separate speakers; merge them by repointing speaker_id and adding the
+-- variant to the remaining speaker's aliases.
+INSERT INTO speakers (name, slug)
+SELECT DISTINCT ON (slug) name, slug
+FROM (
+  SELECT
+    trim(speaker) AS name,
+    trim(both '-' from regexp_replace(regexp_replace(lower(speaker), '[^a-z0-9\s-]', '', 'g'), '[\s-]+', '-', 'g')) AS slug
+  FROM sermons
+  WHERE trim(speaker) <> ''
+) named
+WHERE slug <> ''
+ON CONFLICT (slug) DO NOTHING;
+
+UPDATE sermons s
+SET speaker_id = sp.id
+FROM speakers sp
+WHERE s.speaker_id IS NULL
+  AND sp.slug = trim(both '-' from regexp_replace(regexp_replace(lower(s.speaker), '[^a-z0-9\s-]', '', 'g'), '[\s-]+', '-', 'g'));
+
+-- Browse filters now pass a speaker id instead of the speaker name
+DROP FUNCTION IF EXISTS search_sermons(text, uuid[], uuid, text, timestamptz, integer, integer);
+
+CREATE OR REPLACE FUNCTION search_sermons(
+  search_query text,
+  scripture_ids uuid[] DEFAULT '{}',
+  series_filter uuid DEFAULT NULL,
+  speaker_filter uuid DEFAULT NULL,
+  as_of timestamptz DEFAULT now(),
+  page_offset integer DEFAULT 0,
+  page_limit integer DEFAULT 12
+)
+RETURNS TABLE (id uuid, rank real, snippet text, total_count bigint)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', coalesce(search_query, '')) AS q
+  ),
+  matches AS (
+    SELECT
+      s.id,
+      s.sermon_date,
+      ts_rank_cd(
+        sermon_search_vector(s.title, s.speaker, s.series, s.scripture_reference, s.tags, s.description, s.notes, s.transcript),
+        query.q
+      ) + CASE WHEN s.id = ANY(scripture_ids) THEN 1 ELSE 0 END AS rank
+    FROM sermons s, query
+    WHERE s.status = 'published'
+      AND (s.publish_at IS NULL OR s.publish_at <= as_of)
+      AND (s.unpublish_at IS NULL OR s.unpublish_at > as_of)
+      AND (series_filter IS NULL OR s.series_id = series_filter)
+      AND (speaker_filter IS NULL OR s.speaker_id = speaker_filter)
+      AND (
+        sermon_search_vector(s.title, s.speaker, s.series, s.scripture_reference, s.tags, s.description, s.notes, s.transcript) @@ query.q
+        OR s.id = ANY(scripture_ids)
+      )
+  ),
+  page AS (
+    SELECT m.id, m.rank, m.sermon_date, count(*) OVER () AS total_count
+    FROM matches m
+    ORDER BY m.rank DESC, m.sermon_date DESC
+    OFFSET page_offset
+    LIMIT page_limit
+  )
+  SELECT
+    page.id,
+    page.rank,
+    ts_headline(
+      'english',
+      coalesce(nullif(concat_ws(' ', s.description, s.notes, s.transcript), ''), s.title),
+      query.q,
+      'StartSel=⟦, StopSel=⟧, MaxFragments=2, MaxWords=24, MinWords=8, FragmentDelimiter=" … "'
+    ) AS snippet,
+    page.total_count
+  FROM page
+  JOIN sermons s ON s.id = page.id
+  CROSS JOIN query
+  ORDER BY page.rank DESC, page.sermon_date DESC
+$$;
+
+GRANT EXECUTE ON FUNCTION search_sermons(text, uuid[], uuid, uuid, timestamptz, integer, integer) TO anon, authenticated;
@@ -1,133 +1,68 @@
 import { useState, useEffect } from 'react'
+import { describeFallback, fetchContent, type ContentSource, type FallbackReason } from '@/lib/content-response'
+import { defaultAbout, type AboutContent } from '@/lib/default-content'
+import { useServerContent } from '@/components/ServerContentProvider'
 
-export type AboutContent = {
-  hero: {
-    first_line_text: string
-    heading: string
-    subheading: string
-    background_image: string
-  }
-  our_story: {
-    first_line: string
-    main_header: string
-    paragraph_text: string
-    media_url: string
-    media_type: 'image' | 'video'
-    button_text: string
-    button_link: string
-    button_style: 'primary' | 'secondary'
-    ministry_highlights: Array<{
-      title: string
-      video_url: string
-      description: string
-    }>
-    community_impact: {
-      title: string
-      video_url: string
-      description: string
-    }
-  }
-  mission_vision: {
-    section_title: string
-    section_heading: string
-    section_description: string
-    mission: {
-      title: string
-      content: string
-      items: string[]
-      media_url?: string
-    }
-    vision: {
-      title: string
-      content: string
-      items: string[]
-      media_url?: string
-    }
-    values: Array<{
-      title: string
-      description: string
-      icon: string
-    }>
-  }
-  leadership: {
-    title: string
-    subtitle: string
-    description: string
-    team_members: Array<{
-      name: string
-      position: string
-      bio: string
-      image_url: string
-      social_links: Array<{
-        platform: string
-        url: string
-      }>
-      areas_of_ministry?: string[]
-    }>
-  }
-  join_us: {
-    title: string
-    subtitle: string
-    description: string
-    cta_primary: {
-      text: string
-      href: string
-    }
-    cta_secondary: {
-      text: string
-      href: string
-    }
-  }
-}
+export type { AboutContent }
 
 export function useAbout() {
-  const [about, setAbout] = useState<AboutContent | null>(null)
-  const [loading, setLoading] = useState(true)
+  // Content the page already loaded on the server, if any
+  const serverContent = useServerContent('about')
+  const hasServerContent = serverContent !== undefined
+
+  const [about, setAbout] = useState<AboutContent | null>(serverContent?.about ?? null)
+  const [loading, setLoading] = useState(!hasServerContent)
   const [error, setError] = useState<string | null>(null)
-  const [source, setSource] = useState<'default' | 'database'>('default')
+  const [source, setSource] = useState<ContentSource>(serverContent?.source ?? 'default')
+  const [reason, setReason] = useState<FallbackReason | undefined>(serverContent?.reason)
 
   useEffect(() => {
+    if (hasServerContent) return
+
     const fetchAbout = async () => {
       try {
         setLoading(true)
-        const response = await fetch('/api/about', {
+        const data = await fetchContent<{ about: AboutContent }>('/api/about', {
           method: 'GET',
           headers: {
             'Content-Type': 'application/json',
           },
         })
 
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`)
-        }
-
-        const data = await response.json()
         console.log('📦 About data received:', {
           source: data.source,
+          reason: data.reason,
           message: data.message,
           sectionsAvailable: Object.keys(data.about || {})
         })
 
         setAbout(data.about)
         setSource(data.source)
+        setReason(data.reason)
         setError(null)
       } catch (err) {
         console.error('❌ About fetch error:', err)
-        setError(err instanceof Error ? err.message : 'Failed to fetch about page')
-        // Don't set about to null on error, let it stay as the default
+        const errorMessage = err instanceof Error ? err.message : 'Failed to fetch about page'
+        setError(errorMessage)
+        console.log(describeFallback('about page', 'query_error', errorMessage))
+
+        setAbout(defaultAbout)
+        setSource('default')
+        setReason('query_error')
       } finally {
         setLoading(false)
       }
     }
 
     fetchAbout()
-  }, [])
+  }, [hasServerContent])
 
   return { 
     about, 
     loading, 
     error, 
     source,
+    reason,
     refresh: () => {
       setLoading(true)
       setError(null)
@@ -1,26 +1,10 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import { describeFallback, fetchContent, type ContentSource, type FallbackReason } from '@/lib/content-response'
+import { defaultBlogs, type BlogPost } from '@/lib/default-content'
 
-export interface Blog {
-  id: string
-  title: string
-  slug: string
-  content: string
-  excerpt: string
-  featured_image?: string
-  author: string
-  status: 'draft' | 'published' | 'archived'
-  published_at: string | null
-  tags: string[]
-  seo_meta: {
-    title?: string
-    description?: string
-    keywords?: string[]
-  }
-  created_at: string
-  updated_at: string
-}
+export type Blog = BlogPost
 
 interface Pagination {
   page: number
@@ -44,7 +28,8 @@ interface UseBlogsResult {
   pagination: Pagination
   loading: boolean
   error: string | null
-  source: string
+  source: ContentSource
+  reason?: FallbackReason
   refetch: () => void
   setPage: (page: number) => void
   setSearch: (search: string) => void
@@ -63,7 +48,8 @@ export function useBlogs(params: UseBlogsParams = {}): UseBlogsResult {
   })
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [source, setSource] = useState<string>('default')
+  const [source, setSource] = useState<ContentSource>('default')
+  const [reason, setReason] = useState<FallbackReason | undefined>(undefined)
   
   // Internal state for search params
   const [currentPage, setCurrentPage] = useState(params.page || 1)
@@ -89,17 +75,20 @@ export function useBlogs(params: UseBlogsParams = {}): UseBlogsResult {
         searchParams.append('category', currentCategory.trim())
       }
       
-      const response = await fetch(`/api/blogs?${searchParams.toString()}`)
-      const data = await response.json()
+      const data = await fetchContent<{ blogs: Blog[]; pagination: Pagination }>(`/api/blogs?${searchParams.toString()}`)
       
-      setBlogs(data.blogs || [])
-      setPagination(data.pagination || pagination)
-      setSource(data.source || 'default')
+      setBlogs(data.blogs)
+      setPagination(data.pagination)
+      setSource(data.source)
+      setReason(data.reason)
       
     } catch (err) {
       console.error('Error fetching blogs:', err)
+      console.log(describeFallback('blogs', 'query_error', err instanceof Error ? err.message : undefined))
       setError('Failed to load blog posts')
-      setBlogs([])
+      setBlogs(defaultBlogs)
+      setSource('default')
+      setReason('query_error')
     } finally {
       setLoading(false)
     }
@@ -134,6 +123,7 @@ export function useBlogs(params: UseBlogsParams = {}): UseBlogsResult {
     loading,
     error,
     source,
+    reason,
     refetch,
     setPage,
     setSearch,
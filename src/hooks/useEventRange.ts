@@ -0,0 +1,72 @@
+import { useState, useEffect } from 'react'
+import { describeFallback, fetchContent, type ContentSource, type FallbackReason } from '@/lib/content-response'
+import type { EventRange, EventSummary } from '@/lib/default-content'
+
+interface UseEventRangeResult {
+  events: EventSummary[]
+  // The tenant's time zone, once the first range has loaded
+  timeZone: string | null
+  loading: boolean
+  error: string | null
+  source: ContentSource
+  reason?: FallbackReason
+  message: string
+}
+
+/**
+ * Events on the days from `from` up to (not including) `to`, YYYY-MM-DD in
+ * the tenant's time zone. The previous range stays in place while the next
+ * one loads.
+ */
+export function useEventRange(from: string, to: string): UseEventRangeResult {
+  const [events, setEvents] = useState<EventSummary[]>([])
+  const [timeZone, setTimeZone] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [source, setSource] = useState<ContentSource>('default')
+  const [reason, setReason] = useState<FallbackReason | undefined>()
+  const [message, setMessage] = useState<string>('Loading events')
+
+  useEffect(() => {
+    let cancelled = false
+
+    async function fetchRange() {
+      setLoading(true)
+
+      try {
+        const data = await fetchContent<{ range: EventRange }>(
+          `/api/events?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`
+        )
+        if (cancelled) return
+
+        setEvents(data.range.events)
+        setTimeZone(data.range.timeZone)
+        setSource(data.source)
+        setReason(data.reason)
+        setMessage(data.message)
+        setError(null)
+
+        console.log(`📅 Event Range Source: ${data.source.toUpperCase()} - ${data.message}`)
+      } catch (err) {
+        if (cancelled) return
+        const errorMessage = err instanceof Error ? err.message : 'Failed to load events'
+        setError(errorMessage)
+        console.log('Event range fetch failed:', errorMessage)
+
+        setEvents([])
+        setSource('default')
+        setReason('query_error')
+        setMessage(describeFallback('events range', 'query_error', errorMessage))
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchRange()
+    return () => {
+      cancelled = true
+    }
+  }, [from, to])
+
+  return { events, timeZone, loading, error, source, reason, message }
+}
@@ -1,50 +1,37 @@
 import { useState, useEffect } from 'react'
+import { describeFallback, fetchContent, type ContentSource, type FallbackReason } from '@/lib/content-response'
+import { defaultFooter, type FooterSection, type FooterSettings } from '@/lib/default-content'
+import { useServerContent } from '@/components/ServerContentProvider'
 
-export type FooterSection = {
-  id: string
-  title: string
-  type: 'links' | 'contact' | 'social' | 'newsletter' | 'custom'
-  content: any
-  order: number
-  enabled: boolean
-}
-
-export type FooterSettings = {
-  enabled: boolean
-  layout: string
-  backgroundColor: string
-  textColor: string
-  showChurchLogo: boolean
-  logoUrl?: string
-  showCopyright: boolean
-  copyrightText: string
-  sections: FooterSection[]
-}
+export type { FooterSection, FooterSettings }
 
 export function useFooter() {
-  const [footer, setFooter] = useState<FooterSettings | null>(null)
-  const [loading, setLoading] = useState(true)
+  // Footer the root layout already loaded on the server, if any
+  const serverContent = useServerContent('footer')
+  const hasServerContent = serverContent !== undefined
+
+  const [footer, setFooter] = useState<FooterSettings | null>(serverContent?.footer ?? null)
+  const [loading, setLoading] = useState(!hasServerContent)
   const [error, setError] = useState<string | null>(null)
-  const [source, setSource] = useState<'default' | 'database'>('default')
+  const [source, setSource] = useState<ContentSource>(serverContent?.source ?? 'default')
+  const [reason, setReason] = useState<FallbackReason | undefined>(serverContent?.reason)
 
   useEffect(() => {
+    if (hasServerContent) return
+
     const fetchFooter = async () => {
       try {
         setLoading(true)
-        const response = await fetch('/api/footer', {
+        const data = await fetchContent<{ footer: FooterSettings }>('/api/footer', {
           method: 'GET',
           headers: {
             'Content-Type': 'application/json',
           },
         })
 
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`)
-        }
-
-        const data = await response.json()
         console.log('📦 Footer data received:', {
           source: data.source,
+          reason: data.reason,
           enabled: data.footer.enabled,
           sectionsCount: data.footer.sections?.length || 0,
           message: data.message
@@ -52,28 +39,35 @@ export function useFooter() {
 
         setFooter(data.footer)
         setSource(data.source)
+        setReason(data.reason)
         setError(null)
       } catch (err) {
         console.error('❌ Footer fetch error:', err)
-        setError(err instanceof Error ? err.message : 'Failed to fetch footer')
-        // Don't set footer to null on error, let it stay as the default
+        const errorMessage = err instanceof Error ? err.message : 'Failed to fetch footer'
+        setError(errorMessage)
+        console.log(describeFallback('footer', 'query_error', errorMessage))
+
+        setFooter(defaultFooter)
+        setSource('default')
+        setReason('query_error')
       } finally {
         setLoading(false)
       }
     }
 
     fetchFooter()
-  }, [])
+  }, [hasServerContent])
 
   return { 
     footer, 
     loading, 
     error, 
     source,
+    reason,
     refresh: () => {
       setLoading(true)
       setError(null)
       // Re-trigger the effect by changing a dependency or call fetchFooter directly
     }
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,54 @@
+import { useEffect, type RefObject } from 'react'
+import type Hls from 'hls.js'
+
+// hls.js plays HLS streams through Media Source Extensions in browsers
+// without native support (everything but Safari). It is bundled as a separate
+// chunk and loaded the first time a stream is played.
+let hlsModule: Promise<typeof Hls> | null = null
+
+async function loadHls(): Promise<typeof Hls | null> {
+  hlsModule ??= import('hls.js').then(module => module.default)
+  try {
+    return await hlsModule
+  } catch (error) {
+    console.error('Failed to load hls.js:', error)
+    hlsModule = null
+    return null
+  }
+}
+
+/**
+ * Attach an HLS (.m3u8) stream to a <video> element: natively where the
+ * browser can play HLS, otherwise through hls.js. Pass null for other videos.
+ */
+export function useHlsSource(videoRef: RefObject<HTMLVideoElement | null>, url: string | null) {
+  useEffect(() => {
+    const video = videoRef.current
+    if (!video || !url) return
+
+    if (video.canPlayType('application/vnd.apple.mpegurl')) {
+      video.src = url
+      return
+    }
+
+    let hls: Hls | null = null
+    let cancelled = false
+
+    loadHls().then(HlsPlayer => {
+      if (cancelled) return
+      if (!HlsPlayer?.isSupported()) {
+        console.log('HLS playback is not supported in this browser')
+        video.src = url
+        return
+      }
+      hls = new HlsPlayer()
+      hls.loadSource(url)
+      hls.attachMedia(video)
+    })
+
+    return () => {
+      cancelled = true
+      hls?.destroy()
+    }
+  }, [videoRef, url])
+}
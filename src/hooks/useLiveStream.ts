@@ -0,0 +1,65 @@
+import { useState, useEffect } from 'react'
+import { fetchContent } from '@/lib/content-response'
+import type { LiveStreamContent } from '@/lib/default-content'
+import { liveState, type LiveState, type ServiceSermon } from '@/lib/live-schedule'
+
+// Picks up schedule changes and newly published recordings
+const LIVE_POLL_MS = 60 * 1000
+
+interface UseLiveStreamResult {
+  live: LiveStreamContent | null
+  // Recomputed every second from the schedule, so the page and banner switch
+  // over on time without waiting for the next poll
+  state: LiveState
+  now: Date
+  // The recording of the service that just ended, once published
+  sermon: ServiceSermon | null
+  loading: boolean
+}
+
+const NOTHING_SCHEDULED: LiveState = { status: 'none', current: null, next: null }
+
+/**
+ * The service schedule and stream from /api/live, and whether a service is
+ * live right now in the tenant's time zone.
+ */
+export function useLiveStream(): UseLiveStreamResult {
+  const [live, setLive] = useState<LiveStreamContent | null>(null)
+  const [sermon, setSermon] = useState<ServiceSermon | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [now, setNow] = useState(() => new Date())
+
+  useEffect(() => {
+    let cancelled = false
+
+    async function fetchLive() {
+      try {
+        const data = await fetchContent<{ live: LiveStreamContent; sermon: ServiceSermon | null }>('/api/live')
+        if (cancelled) return
+        setLive(data.live)
+        setSermon(data.sermon)
+      } catch (err) {
+        // Without a schedule nothing is shown as live
+        console.log('Live stream schedule unavailable:', err instanceof Error ? err.message : err)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchLive()
+    const poll = setInterval(fetchLive, LIVE_POLL_MS)
+    return () => {
+      cancelled = true
+      clearInterval(poll)
+    }
+  }, [])
+
+  useEffect(() => {
+    const tick = setInterval(() => setNow(new Date()), 1000)
+    return () => clearInterval(tick)
+  }, [])
+
+  const state = live ? liveState(live.schedule, live.timeZone, now) : NOTHING_SCHEDULED
+
+  return { live, state, now, sermon: state.status === 'ended' ? sermon : null, loading }
+}
@@ -0,0 +1,68 @@
+import { useState, useEffect } from 'react'
+import { describeFallback, fetchContent, type ContentSource, type FallbackReason } from '@/lib/content-response'
+import { defaultSermons, type SermonSummary } from '@/lib/default-content'
+import { useServerContent } from '@/components/ServerContentProvider'
+
+interface UseMostWatchedSermonsResult {
+  sermons: SermonSummary[]
+  loading: boolean
+  error: string | null
+  source: ContentSource
+  reason?: FallbackReason
+  message: string
+}
+
+function defaultMostWatched(limit: number): SermonSummary[] {
+  return [...defaultSermons].sort((a, b) => b.view_count - a.view_count).slice(0, limit)
+}
+
+/**
+ * Sermons started by the most sessions this month (see
+ * src/lib/playback-events.ts for the window).
+ */
+export function useMostWatchedSermons(limit: number = 3): UseMostWatchedSermonsResult {
+  // Sermons the page already loaded on the server, if any
+  const serverContent = useServerContent('mostWatchedSermons')
+  const hasServerContent = serverContent !== undefined
+
+  const [sermons, setSermons] = useState<SermonSummary[]>(serverContent?.sermons.slice(0, limit) ?? [])
+  const [loading, setLoading] = useState(!hasServerContent)
+  const [error, setError] = useState<string | null>(null)
+  const [source, setSource] = useState<ContentSource>(serverContent?.source ?? 'default')
+  const [reason, setReason] = useState<FallbackReason | undefined>(serverContent?.reason)
+  const [message, setMessage] = useState<string>(serverContent?.message ?? 'Using default sermons')
+
+  useEffect(() => {
+    if (hasServerContent) return
+
+    async function fetchMostWatched() {
+      try {
+        setLoading(true)
+        const data = await fetchContent<{ sermons: SermonSummary[] }>(`/api/sermons?sort=most-watched&limit=${limit}`)
+
+        setSermons(data.sermons)
+        setSource(data.source)
+        setReason(data.reason)
+        setMessage(data.message)
+        setError(null)
+
+        console.log(`🎯 Most Watched Sermons Source: ${data.source.toUpperCase()} - ${data.message}`)
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to load most watched sermons'
+        setError(errorMessage)
+        console.log('Most watched sermons fetch failed, using default sermons:', errorMessage)
+
+        setSermons(defaultMostWatched(limit))
+        setSource('default')
+        setReason('query_error')
+        setMessage(describeFallback('most watched sermons', 'query_error', errorMessage))
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchMostWatched()
+  }, [limit, hasServerContent])
+
+  return { sermons, loading, error, source, reason, message }
+}
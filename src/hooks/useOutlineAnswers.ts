@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback } from 'react'
+
+// Fill-in-the-blank answers per sermon id, kept in localStorage
+const OUTLINE_ANSWERS_KEY = 'docm_outline_answers'
+
+function readAllAnswers(): Record<string, string[]> {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(OUTLINE_ANSWERS_KEY) || '{}')
+    return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {}
+  } catch {
+    return {}
+  }
+}
+
+function readAnswers(sermonId: string): string[] {
+  const answers = readAllAnswers()[sermonId]
+  return Array.isArray(answers) ? answers.map(answer => typeof answer === 'string' ? answer : '') : []
+}
+
+interface UseOutlineAnswersResult {
+  answers: string[]
+  setAnswer: (index: number, value: string) => void
+  clearAnswers: () => void
+}
+
+/**
+ * The visitor's answers to a sermon outline's blanks, indexed like the
+ * outline's blanks. Empty until mounted so server and client render the same
+ * markup.
+ */
+export function useOutlineAnswers(sermonId: string): UseOutlineAnswersResult {
+  const [answers, setAnswers] = useState<string[]>([])
+
+  useEffect(() => {
+    setAnswers(readAnswers(sermonId))
+
+    // Stay in step with other tabs
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === OUTLINE_ANSWERS_KEY) setAnswers(readAnswers(sermonId))
+    }
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }, [sermonId])
+
+  const store = useCallback((next: string[]) => {
+    const all = readAllAnswers()
+    if (next.some(Boolean)) all[sermonId] = next
+    else delete all[sermonId]
+
+    try {
+      window.localStorage.setItem(OUTLINE_ANSWERS_KEY, JSON.stringify(all))
+    } catch {
+      // Storage can be full or disabled; answers last until the page closes
+    }
+    setAnswers(next)
+  }, [sermonId])
+
+  const setAnswer = useCallback((index: number, value: string) => {
+    const next = [...answers]
+    while (next.length < index) next.push('')
+    next[index] = value
+    store(next)
+  }, [answers, store])
+
+  const clearAnswers = useCallback(() => store([]), [store])
+
+  return { answers, setAnswer, clearAnswers }
+}
@@ -0,0 +1,31 @@
+import { useCallback, useRef } from 'react'
+import { reachedMilestones, sendPlaybackEvent, type PlaybackEvent, type PlaybackMedia } from '@/lib/playback-events'
+
+interface UsePlaybackTrackingResult {
+  // Report one event; repeats for the same sermon and event are dropped
+  track: (sermonId: string, event: PlaybackEvent, media: PlaybackMedia) => void
+  // Report the progress milestones reached at a playback position
+  trackProgress: (sermonId: string, media: PlaybackMedia, currentTime: number, duration: number) => void
+}
+
+/**
+ * Anonymous playback events for sermon players. Each event is sent at most
+ * once per mounted player; the server also ignores repeats per session.
+ */
+export function usePlaybackTracking(): UsePlaybackTrackingResult {
+  const sent = useRef(new Set<string>())
+
+  const track = useCallback((sermonId: string, event: PlaybackEvent, media: PlaybackMedia) => {
+    const key = `${sermonId}:${event}`
+    if (sent.current.has(key)) return
+
+    sent.current.add(key)
+    sendPlaybackEvent(sermonId, event, media)
+  }, [])
+
+  const trackProgress = useCallback((sermonId: string, media: PlaybackMedia, currentTime: number, duration: number) => {
+    reachedMilestones(currentTime, duration).forEach(event => track(sermonId, event, media))
+  }, [track])
+
+  return { track, trackProgress }
+}
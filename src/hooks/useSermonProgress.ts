@@ -0,0 +1,168 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { hasMemberFlag } from '@/lib/member-cookies'
+import {
+  SERMON_PROGRESS_ENDPOINT,
+  isSermonProgressEntry,
+  mergeProgress,
+  progressEntry,
+  trimProgress,
+  type SermonProgressMap
+} from '@/lib/sermon-progress'
+
+// Playback positions this browser has saved, kept in localStorage
+const SERMON_PROGRESS_KEY = 'docm_sermon_progress'
+
+// Players report their position several times a second; storage and the
+// server only need it every few seconds (and on pause, end or leaving)
+const LOCAL_SAVE_INTERVAL_MS = 5_000
+const SERVER_SYNC_INTERVAL_MS = 15_000
+
+function readProgress(): SermonProgressMap {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(SERMON_PROGRESS_KEY) || '{}')
+    if (!stored || typeof stored !== 'object') return {}
+    return Object.fromEntries(
+      Object.values(stored).filter(isSermonProgressEntry).map(entry => [entry.sermonId, entry])
+    )
+  } catch {
+    return {}
+  }
+}
+
+// Merges with what is stored, since several players on a page (the sermon
+// page and the site-wide audio player) each keep their own copy
+function writeProgress(progress: SermonProgressMap): SermonProgressMap {
+  const merged = trimProgress(mergeProgress(readProgress(), progress))
+  try {
+    window.localStorage.setItem(SERMON_PROGRESS_KEY, JSON.stringify(merged))
+  } catch {
+    // Storage can be full or disabled; progress just isn't remembered
+  }
+  return merged
+}
+
+interface UseSermonProgressResult {
+  progress: SermonProgressMap
+  // Record a playback position; pass flush on pause, end or unmount
+  saveProgress: (sermonId: string, position: number, duration: number | null, flush?: boolean) => void
+}
+
+/**
+ * Where the viewer stopped in each sermon. Anonymous visitors' progress stays
+ * in this browser; members' progress is also synced to the server and merged
+ * with what they saved on other devices. Empty until mounted so server and
+ * client render the same markup.
+ */
+export function useSermonProgress(): UseSermonProgressResult {
+  const [progress, setProgress] = useState<SermonProgressMap>({})
+  const progressRef = useRef<SermonProgressMap>({})
+  // Entries saved locally but not yet sent to the server
+  const pendingRef = useRef<SermonProgressMap>({})
+  const isMemberRef = useRef(false)
+  const lastLocalSaveRef = useRef(0)
+  const lastSyncRef = useRef(0)
+
+  const syncPending = useCallback(() => {
+    const entries = Object.values(pendingRef.current)
+    if (!isMemberRef.current || entries.length === 0) return
+
+    pendingRef.current = {}
+    lastSyncRef.current = Date.now()
+
+    fetch(SERMON_PROGRESS_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ entries }),
+      keepalive: true
+    })
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`)
+      })
+      .catch(error => {
+        console.log('Sermon progress sync failed, will retry:', error instanceof Error ? error.message : error)
+        // Retry with the next save, unless a newer position replaced it
+        pendingRef.current = mergeProgress(Object.fromEntries(entries.map(entry => [entry.sermonId, entry])), pendingRef.current)
+      })
+  }, [])
+
+  const commit = useCallback((next: SermonProgressMap) => {
+    lastLocalSaveRef.current = Date.now()
+    progressRef.current = writeProgress(next)
+    setProgress(progressRef.current)
+  }, [])
+
+  useEffect(() => {
+    commit(readProgress())
+    isMemberRef.current = hasMemberFlag()
+
+    // Stay in step with other tabs
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === SERMON_PROGRESS_KEY) {
+        progressRef.current = mergeProgress(progressRef.current, readProgress())
+        setProgress(progressRef.current)
+      }
+    }
+
+    // Save the latest position when the page is hidden or closed
+    const handleHidden = () => {
+      if (document.visibilityState !== 'hidden') return
+      writeProgress(progressRef.current)
+      syncPending()
+    }
+
+    window.addEventListener('storage', handleStorage)
+    document.addEventListener('visibilitychange', handleHidden)
+
+    if (isMemberRef.current) {
+      fetch(SERMON_PROGRESS_ENDPOINT, { cache: 'no-store' })
+        .then(async response => {
+          if (!response.ok) throw new Error(`HTTP ${response.status}`)
+          const data: { progress: unknown[] } = await response.json()
+          const server: SermonProgressMap = Object.fromEntries(
+            data.progress.filter(isSermonProgressEntry).map(entry => [entry.sermonId, entry])
+          )
+
+          // Send what this device has that the server doesn't, then show both
+          const local = progressRef.current
+          for (const entry of Object.values(local)) {
+            const saved = server[entry.sermonId]
+            if (!saved || entry.updatedAt > saved.updatedAt || (entry.completed && !saved.completed)) {
+              pendingRef.current[entry.sermonId] = entry
+            }
+          }
+          commit(mergeProgress(local, server))
+          syncPending()
+
+          console.log(`🎯 Sermon Progress Source: MEMBER - ${Object.keys(server).length} saved positions`)
+        })
+        .catch(error => {
+          console.log('Member sermon progress unavailable, using this browser only:', error instanceof Error ? error.message : error)
+        })
+    }
+
+    return () => {
+      window.removeEventListener('storage', handleStorage)
+      document.removeEventListener('visibilitychange', handleHidden)
+    }
+  }, [commit, syncPending])
+
+  const saveProgress = useCallback((sermonId: string, position: number, duration: number | null, flush: boolean = false) => {
+    const previous = progressRef.current[sermonId]
+    const entry = progressEntry(sermonId, position, duration, previous)
+    const next = { ...progressRef.current, [sermonId]: entry }
+    progressRef.current = next
+    pendingRef.current[sermonId] = entry
+
+    const now = Date.now()
+    const justCompleted = entry.completed && !previous?.completed
+    if (flush || justCompleted || now - lastLocalSaveRef.current >= LOCAL_SAVE_INTERVAL_MS) {
+      commit(next)
+    }
+    if (flush || justCompleted || now - lastSyncRef.current >= SERVER_SYNC_INTERVAL_MS) {
+      syncPending()
+    }
+  }, [commit, syncPending])
+
+  return { progress, saveProgress }
+}
+
@@ -0,0 +1,60 @@
+import { useState, useEffect } from 'react'
+import { describeFallback, fetchContent, type ContentSource, type FallbackReason } from '@/lib/content-response'
+import { defaultSermonSeries, type SermonSeriesSummary } from '@/lib/default-content'
+import { useServerContent } from '@/components/ServerContentProvider'
+
+interface UseSermonSeriesResult {
+  series: SermonSeriesSummary[]
+  loading: boolean
+  error: string | null
+  source: ContentSource
+  reason?: FallbackReason
+  message: string
+}
+
+export function useSermonSeries(): UseSermonSeriesResult {
+  // Series the page already loaded on the server, if any
+  const serverContent = useServerContent('sermonSeries')
+  const hasServerContent = serverContent !== undefined
+
+  const [series, setSeries] = useState<SermonSeriesSummary[]>(serverContent?.series ?? [])
+  const [loading, setLoading] = useState(!hasServerContent)
+  const [error, setError] = useState<string | null>(null)
+  const [source, setSource] = useState<ContentSource>(serverContent?.source ?? 'default')
+  const [reason, setReason] = useState<FallbackReason | undefined>(serverContent?.reason)
+  const [message, setMessage] = useState<string>(serverContent?.message ?? 'Using default sermon series')
+
+  useEffect(() => {
+    if (hasServerContent) return
+
+    async function fetchSeries() {
+      try {
+        setLoading(true)
+        const data = await fetchContent<{ series: SermonSeriesSummary[] }>('/api/sermon-series')
+
+        setSeries(data.series)
+        setSource(data.source)
+        setReason(data.reason)
+        setMessage(data.message)
+        setError(null)
+
+        console.log(`🎯 Sermon Series Source: ${data.source.toUpperCase()} - ${data.message}`)
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to load sermon series'
+        setError(errorMessage)
+        console.log('Sermon series fetch failed, using default series:', errorMessage)
+
+        setSeries(defaultSermonSeries)
+        setSource('default')
+        setReason('query_error')
+        setMessage(describeFallback('sermon series', 'query_error', errorMessage))
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchSeries()
+  }, [hasServerContent])
+
+  return { series, loading, error, source, reason, message }
+}
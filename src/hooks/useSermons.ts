@@ -1,80 +1,64 @@
 import { useState, useEffect } from 'react'
-
-interface Sermon {
-  id: string
-  title: string
-  slug: string
-  description: string
-  speaker: string
-  series?: string
-  scripture_reference?: string
-  sermon_date: string
-  duration?: number
-  video_type: 'upload' | 'youtube'
-  video_url?: string
-  youtube_url?: string
-  youtube_id?: string
-  audio_url?: string
-  thumbnail_image?: string
-  tags: string[]
-  status: string
-  view_count: number
-}
+import { describeFallback, fetchContent, type ContentSource, type FallbackReason } from '@/lib/content-response'
+import { defaultSermons, type SermonSummary } from '@/lib/default-content'
+import { useServerContent } from '@/components/ServerContentProvider'
 
 interface UseSermonsResult {
-  sermons: Sermon[]
+  sermons: SermonSummary[]
   loading: boolean
   error: string | null
-  source: 'database' | 'default'
-  featuredSermon: Sermon | null
-  recentSermons: Sermon[]
+  source: ContentSource
+  reason?: FallbackReason
+  message: string
+  featuredSermon: SermonSummary | null
+  recentSermons: SermonSummary[]
 }
 
 export function useSermons(limit: number = 10): UseSermonsResult {
-  const [sermons, setSermons] = useState<Sermon[]>([])
-  const [loading, setLoading] = useState(true)
+  // Sermons the page already loaded on the server, if any
+  const serverContent = useServerContent('sermons')
+  const hasServerContent = serverContent !== undefined
+
+  const [sermons, setSermons] = useState<SermonSummary[]>(serverContent?.sermons.slice(0, limit) ?? [])
+  const [loading, setLoading] = useState(!hasServerContent)
   const [error, setError] = useState<string | null>(null)
-  const [source, setSource] = useState<'database' | 'default'>('default')
+  const [source, setSource] = useState<ContentSource>(serverContent?.source ?? 'default')
+  const [reason, setReason] = useState<FallbackReason | undefined>(serverContent?.reason)
+  const [message, setMessage] = useState<string>(serverContent?.message ?? 'Using default sermons')
 
   useEffect(() => {
+    if (hasServerContent) return
+
     async function fetchSermons() {
       try {
         setLoading(true)
-        const response = await fetch(`/api/sermons?limit=${limit}`, {
+        const data = await fetchContent<{ sermons: SermonSummary[] }>(`/api/sermons?limit=${limit}`, {
           cache: 'no-store'
         })
         
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`)
-        }
-        
-        const data = await response.json()
+        setSermons(data.sermons)
+        setSource(data.source)
+        setReason(data.reason)
+        setMessage(data.message)
+        setError(null)
         
-        if (data.sermons) {
-          setSermons(data.sermons)
-          setSource(data.source || 'default')
-          setError(null)
-          
-          console.log(`🎯 Sermons Source: ${data.source?.toUpperCase()} - ${data.message}`)
-        } else {
-          console.log('No sermons found, using empty array')
-          setSermons([])
-          setSource('default')
-        }
+        console.log(`🎯 Sermons Source: ${data.source.toUpperCase()} - ${data.message}`)
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'Failed to load sermons'
         setError(errorMessage)
-        console.log('Sermons fetch failed:', errorMessage)
+        console.log('Sermons fetch failed, using default sermons:', errorMessage)
         
-        setSermons([])
+        setSermons(defaultSermons.slice(0, limit))
         setSource('default')
+        setReason('query_error')
+        setMessage(describeFallback('sermons', 'query_error', errorMessage))
       } finally {
         setLoading(false)
       }
     }
 
     fetchSermons()
-  }, [limit])
+  }, [limit, hasServerContent])
 
   // Get featured sermon (first one) and recent sermons (rest)
   const featuredSermon = sermons.length > 0 ? sermons[0] : null
@@ -85,7 +69,9 @@ export function useSermons(limit: number = 10): UseSermonsResult {
     loading, 
     error, 
     source, 
+    reason,
+    message,
     featuredSermon,
     recentSermons
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,87 @@
+import { useEffect, type RefObject } from 'react'
+
+const VIMEO_PLAYER_ORIGIN = 'https://player.vimeo.com'
+
+interface VimeoPlayerMessage {
+  event?: string
+  data?: {
+    seconds?: number
+    duration?: number
+  }
+}
+
+function postToVimeo(iframe: HTMLIFrameElement | null, method: string, value?: unknown) {
+  iframe?.contentWindow?.postMessage(JSON.stringify(value === undefined ? { method } : { method, value }), VIMEO_PLAYER_ORIGIN)
+}
+
+/**
+ * Follow the playback position of a Vimeo embed loaded with api=1, without
+ * loading the Player SDK: the embed posts its events to the page once asked
+ * to. onProgress gets the position in seconds, the duration when known, and
+ * whether playback just paused or ended.
+ */
+export function useVimeoEmbedProgress(
+  iframeRef: RefObject<HTMLIFrameElement | null>,
+  active: boolean,
+  onProgress: (position: number, duration: number | null, stopped: boolean) => void
+) {
+  useEffect(() => {
+    const iframe = iframeRef.current
+    if (!active || !iframe) return
+
+    let position = 0
+    let duration: number | null = null
+
+    const listen = () => {
+      for (const event of ['timeupdate', 'pause', 'ended']) {
+        postToVimeo(iframe, 'addEventListener', event)
+      }
+    }
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframe.contentWindow || event.origin !== VIMEO_PLAYER_ORIGIN) return
+
+      let message: VimeoPlayerMessage
+      try {
+        message = typeof event.data === 'string' ? JSON.parse(event.data) : event.data
+      } catch {
+        return
+      }
+      if (!message?.event) return
+      // The player announces itself once loaded; listeners registered earlier are lost
+      if (message.event === 'ready') {
+        listen()
+        return
+      }
+
+      if (typeof message.data?.duration === 'number' && message.data.duration > 0) {
+        duration = message.data.duration
+      }
+      if (typeof message.data?.seconds === 'number') {
+        position = message.data.seconds
+      }
+      if (message.event === 'timeupdate' || message.event === 'pause' || message.event === 'ended') {
+        onProgress(position, duration, message.event !== 'timeupdate')
+      }
+    }
+
+    window.addEventListener('message', handleMessage)
+    listen()
+
+    return () => {
+      window.removeEventListener('message', handleMessage)
+    }
+  }, [iframeRef, active, onProgress])
+}
+
+/**
+ * Jump a Vimeo embed loaded with api=1 to a position and play.
+ */
+export function seekVimeoEmbed(iframe: HTMLIFrameElement | null, seconds: number) {
+  postToVimeo(iframe, 'setCurrentTime', seconds)
+  postToVimeo(iframe, 'play')
+}
+
+export function pauseVimeoEmbed(iframe: HTMLIFrameElement | null) {
+  postToVimeo(iframe, 'pause')
+}
@@ -0,0 +1,52 @@
+import { useState, useEffect, useCallback } from 'react'
+
+// Ids of sermons this browser has started, kept in localStorage
+const WATCHED_SERMONS_KEY = 'docm_watched_sermons'
+
+function readWatched(): string[] {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(WATCHED_SERMONS_KEY) || '[]')
+    return Array.isArray(stored) ? stored.filter((id): id is string => typeof id === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+interface UseWatchedSermonsResult {
+  watchedIds: Set<string>
+  markWatched: (sermonId: string) => void
+}
+
+/**
+ * Sermons the viewer has played, for series progress. Empty until mounted so
+ * server and client render the same markup.
+ */
+export function useWatchedSermons(): UseWatchedSermonsResult {
+  const [watched, setWatched] = useState<string[]>([])
+
+  useEffect(() => {
+    setWatched(readWatched())
+
+    // Stay in step with other tabs
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === WATCHED_SERMONS_KEY) setWatched(readWatched())
+    }
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }, [])
+
+  const markWatched = useCallback((sermonId: string) => {
+    const current = readWatched()
+    if (current.includes(sermonId)) return
+
+    const next = [...current, sermonId]
+    try {
+      window.localStorage.setItem(WATCHED_SERMONS_KEY, JSON.stringify(next))
+    } catch {
+      // Storage can be full or disabled; progress just isn't remembered
+    }
+    setWatched(next)
+  }, [])
+
+  return { watchedIds: new Set(watched), markWatched }
+}
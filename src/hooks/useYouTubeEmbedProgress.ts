@@ -0,0 +1,76 @@
+import { useEffect, type RefObject } from 'react'
+
+// YouTube player states reported by the embed (see the IFrame Player API)
+const YOUTUBE_ENDED = 0
+const YOUTUBE_PAUSED = 2
+
+interface YouTubeInfoMessage {
+  event?: string
+  info?: {
+    currentTime?: number
+    duration?: number
+    playerState?: number
+  }
+}
+
+/**
+ * Follow the playback position of a YouTube embed loaded with enablejsapi=1,
+ * without loading the IFrame API script: the embed posts its state to the
+ * page once asked to. onProgress gets the position in seconds, the duration
+ * when known, and whether playback just paused or ended.
+ */
+export function useYouTubeEmbedProgress(
+  iframeRef: RefObject<HTMLIFrameElement | null>,
+  active: boolean,
+  onProgress: (position: number, duration: number | null, stopped: boolean) => void
+) {
+  useEffect(() => {
+    const iframe = iframeRef.current
+    if (!active || !iframe) return
+
+    let duration: number | null = null
+
+    const listen = () => {
+      iframe.contentWindow?.postMessage(JSON.stringify({ event: 'listening', id: 1, channel: 'widget' }), '*')
+    }
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframe.contentWindow || typeof event.data !== 'string') return
+
+      let message: YouTubeInfoMessage
+      try {
+        message = JSON.parse(event.data)
+      } catch {
+        return
+      }
+      if (message.event !== 'infoDelivery' || !message.info) return
+
+      const { currentTime, playerState } = message.info
+      if (typeof message.info.duration === 'number' && message.info.duration > 0) {
+        duration = message.info.duration
+      }
+      if (typeof currentTime === 'number') {
+        onProgress(currentTime, duration, playerState === YOUTUBE_PAUSED || playerState === YOUTUBE_ENDED)
+      }
+    }
+
+    window.addEventListener('message', handleMessage)
+    iframe.addEventListener('load', listen)
+    listen()
+
+    return () => {
+      window.removeEventListener('message', handleMessage)
+      iframe.removeEventListener('load', listen)
+    }
+  }, [iframeRef, active, onProgress])
+}
+
+/**
+ * Jump a YouTube embed loaded with enablejsapi=1 to a position and play.
+ */
+export function seekYouTubeEmbed(iframe: HTMLIFrameElement | null, seconds: number) {
+  const player = iframe?.contentWindow
+  if (!player) return
+  player.postMessage(JSON.stringify({ event: 'command', func: 'seekTo', args: [seconds, true] }), '*')
+  player.postMessage(JSON.stringify({ event: 'command', func: 'playVideo', args: [] }), '*')
+}
@@ -0,0 +1,63 @@
+import { sermonShareImage } from '@/lib/sermon-clips'
+
+// Client-safe pieces of the site-wide sermon audio player: what a queued
+// track carries and the choices the player offers.
+
+export interface AudioTrack {
+  sermonId: string
+  title: string
+  slug: string
+  speaker: string
+  audioUrl: string
+  series?: string | null
+  artwork?: string | null
+}
+
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 1.75, 2] as const
+
+// Sleep timer choices in minutes; 'track' pauses when the current sermon ends
+export type SleepTimerSetting = number | 'track'
+export const SLEEP_TIMER_MINUTES = [15, 30, 45, 60] as const
+
+// Seconds the lock-screen and player skip buttons jump
+export const SKIP_SECONDS = 15
+
+// Upper bound on what a persisted queue holds
+export const MAX_QUEUE_LENGTH = 100
+
+/**
+ * A queue entry for a sermon, or null when it has no audio.
+ */
+export function sermonAudioTrack(sermon: {
+  id: string
+  title: string
+  slug: string
+  speaker: string
+  audio_url?: string | null
+  series?: string | null
+  thumbnail_image?: string | null
+  youtube_id?: string | null
+}): AudioTrack | null {
+  if (!sermon.audio_url) return null
+
+  return {
+    sermonId: sermon.id,
+    title: sermon.title,
+    slug: sermon.slug,
+    speaker: sermon.speaker,
+    audioUrl: sermon.audio_url,
+    series: sermon.series ?? null,
+    artwork: sermonShareImage(sermon)
+  }
+}
+
+export function isAudioTrack(value: unknown): value is AudioTrack {
+  if (!value || typeof value !== 'object') return false
+  const track = value as Record<string, unknown>
+  return ['sermonId', 'title', 'slug', 'speaker', 'audioUrl'].every(key => typeof track[key] === 'string')
+}
+
+// "1x", "1.25x"
+export function formatPlaybackRate(rate: number): string {
+  return `${rate}x`
+}
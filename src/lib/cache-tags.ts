@@ -0,0 +1,29 @@
+// Tags attached to cached content reads (unstable_cache) so that a content
+// change can invalidate exactly the pages that render it with revalidateTag.
+
+// Upper bound on how long cached content is served without a revalidation,
+// matching the CDN max-age used by publishWindowCacheControl. Reads with a
+// scheduled publish_at/unpublish_at change expire at it instead (see
+// cachedScheduledContent in src/lib/content/cache.ts).
+export const CONTENT_REVALIDATE_SECONDS = 300
+
+export const CACHE_TAGS = {
+  // Every CMS page (pages and page_sections rows)
+  pages: 'pages',
+  // A single CMS page by slug, e.g. page:home
+  page: (slug: string) => `page:${slug}`,
+  events: 'events',
+  sermons: 'sermons',
+  // sermon_series rows; series pages also depend on the sermons tag
+  series: 'series',
+  // speakers rows, shown on speaker pages, sermon pages and the leadership section
+  speakers: 'speakers',
+  blogs: 'blogs',
+  // The scripture_passages index, rebuilt after sermons and blogs change
+  scripture: 'scripture',
+  ministries: 'ministries',
+  giving: 'giving',
+  navigation: 'navigation',
+  footer: 'footer',
+  settings: 'settings'
+} as const
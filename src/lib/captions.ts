@@ -0,0 +1,119 @@
+// Client-safe parsing of WebVTT and SRT caption files, used for the sermon
+// page's interactive transcript and the <track> served to native video.
+
+export interface CaptionCue {
+  // Seconds into the video or audio
+  start: number
+  end: number
+  text: string
+}
+
+// "01:02:03.456", "02:03.456" or SRT's "01:02:03,456"
+const CUE_TIMING = /^((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/
+
+function parseCueTime(value: string): number {
+  const [clock, fraction] = value.split(/[.,]/)
+  const seconds = clock.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0)
+  return seconds + parseInt(fraction.padEnd(3, '0'), 10) / 1000
+}
+
+// Cue text without WebVTT voice/style tags (<v Pastor>, <i>) or SRT font tags
+function plainCueText(lines: string[]): string {
+  return lines
+    .join(' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Cues from a WebVTT or SRT file, in start order. Header, NOTE, STYLE and
+ * REGION blocks and cues without text are skipped. Empty for anything that
+ * is not a caption file.
+ */
+export function parseCaptions(text: string | null | undefined): CaptionCue[] {
+  if (!text) return []
+
+  const cues: CaptionCue[] = []
+  const blocks = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n[ \t]*\n/)
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter(line => line.trim())
+    // The timing line follows an optional cue identifier (always present in SRT)
+    const timingIndex = lines.findIndex(line => CUE_TIMING.test(line.trim()))
+    if (timingIndex < 0 || timingIndex > 1) continue
+
+    const timing = lines[timingIndex].trim().match(CUE_TIMING)
+    const cueText = plainCueText(lines.slice(timingIndex + 1))
+    if (!timing || !cueText) continue
+
+    const start = parseCueTime(timing[1])
+    const end = parseCueTime(timing[2])
+    if (end > start) cues.push({ start, end, text: cueText })
+  }
+
+  return cues.sort((a, b) => a.start - b.start)
+}
+
+// Whether free text (e.g. the transcript field) is actually a caption file
+export function isCaptionText(text: string | null | undefined): boolean {
+  return parseCaptions(text).length > 0
+}
+
+/**
+ * A sermon's timed captions: the captions column, or a transcript that was
+ * pasted in as WebVTT or SRT.
+ */
+export function sermonCaptions(sermon: { captions?: string | null; transcript?: string | null }): CaptionCue[] {
+  const cues = parseCaptions(sermon.captions)
+  return cues.length > 0 ? cues : parseCaptions(sermon.transcript)
+}
+
+function formatCueTime(seconds: number): string {
+  const millis = Math.round(seconds * 1000)
+  const hours = Math.floor(millis / 3600000).toString().padStart(2, '0')
+  const minutes = Math.floor((millis % 3600000) / 60000).toString().padStart(2, '0')
+  const secs = Math.floor((millis % 60000) / 1000).toString().padStart(2, '0')
+  return `${hours}:${minutes}:${secs}.${(millis % 1000).toString().padStart(3, '0')}`
+}
+
+// Cue text is stored plain; WebVTT needs &, < and > escaped
+function escapeCueText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+/**
+ * Cues as a WebVTT file, whatever format they were stored in, for <track>.
+ */
+export function renderWebVtt(cues: CaptionCue[]): string {
+  const body = cues
+    .map(cue => `${formatCueTime(cue.start)} --> ${formatCueTime(cue.end)}\n${escapeCueText(cue.text)}`)
+    .join('\n\n')
+  return `WEBVTT\n\n${body}\n`
+}
+
+/**
+ * Index of the cue being spoken at a position. Between cues the previous one
+ * stays current so the transcript doesn't flicker; -1 before the first cue.
+ */
+export function activeCueIndex(cues: CaptionCue[], position: number): number {
+  let low = 0
+  let high = cues.length - 1
+  let active = -1
+
+  while (low <= high) {
+    const middle = (low + high) >> 1
+    if (cues[middle].start <= position) {
+      active = middle
+      low = middle + 1
+    } else {
+      high = middle - 1
+    }
+  }
+
+  return active
+}
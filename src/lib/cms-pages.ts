@@ -0,0 +1,163 @@
+import { CACHE_TAGS } from '@/lib/cache-tags'
+import { cachedScheduledContent, fromIsoString, toIsoString } from '@/lib/content/cache'
+import { filterByPublishWindow, nextWindowBoundary, type PublishWindow } from '@/lib/publish-window'
+import { pagesRepo } from '@/lib/repositories'
+import { isSupabaseConfigured } from '@/lib/supabase'
+
+export interface SeoMeta {
+  title?: string
+  description?: string
+  keywords?: string[]
+}
+
+export interface CmsPage extends PublishWindow {
+  id: string
+  slug: string
+  title: string
+  description?: string | null
+  seo_meta?: SeoMeta | null
+  published_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface CmsPageSection extends PublishWindow {
+  id: string
+  page_id: string
+  type: string
+  order: number
+  props: Record<string, unknown> | null
+  // Unsaved edits from the admin app, only rendered in preview mode
+  draft_props?: Record<string, unknown> | null
+}
+
+export interface CmsPageContent {
+  page: CmsPage
+  sections: CmsPageSection[]
+  // Next publish/unpublish time of the page or any of its sections
+  nextChangeAt: Date | null
+}
+
+interface VisibilityOptions {
+  preview?: boolean
+  now?: Date
+}
+
+/**
+ * Normalise a slug from a URL (or catch-all segments) to the form stored in
+ * pages.slug: lowercase, no leading/trailing slashes.
+ */
+export function normalizePageSlug(slug: string | string[]): string {
+  const joined = Array.isArray(slug) ? slug.join('/') : slug
+  return decodeURIComponent(joined).trim().toLowerCase().replace(/^\/+|\/+$/g, '')
+}
+
+/**
+ * In preview mode, swap each section's saved props for its unsaved draft props.
+ */
+export function applySectionDrafts<T extends { props?: unknown; draft_props?: unknown }>(sections: T[], preview: boolean): T[] {
+  if (!preview) return sections
+  return sections.map(section => (
+    section.draft_props ? { ...section, props: section.draft_props } : section
+  ))
+}
+
+/**
+ * Pick the first page row that is live now. Preview mode ignores publish
+ * windows so editors can see scheduled pages early.
+ */
+export function selectVisiblePage<T extends PublishWindow>(
+  candidates: T[],
+  { preview = false, now = new Date() }: VisibilityOptions = {}
+): T | null {
+  const visible = preview ? candidates : filterByPublishWindow(candidates, now)
+  return visible[0] || null
+}
+
+/**
+ * Drop sections outside their publish window (unless previewing) and apply
+ * unsaved draft props in preview mode.
+ */
+export function selectVisibleSections<T extends PublishWindow & { props?: unknown; draft_props?: unknown }>(
+  sections: T[],
+  { preview = false, now = new Date() }: VisibilityOptions = {}
+): T[] {
+  const visible = preview ? sections : filterByPublishWindow(sections, now)
+  return applySectionDrafts(visible, preview)
+}
+
+async function loadCmsPage(
+  normalizedSlug: string,
+  { preview, now }: Required<VisibilityOptions>
+): Promise<CmsPageContent | null> {
+  const { data: candidates, error: pageError } = await pagesRepo.findCandidates(normalizedSlug, { preview })
+
+  if (pageError) {
+    throw new Error(`Failed to load page "${normalizedSlug}": ${pageError.message}`)
+  }
+
+  const pages = (candidates || []) as CmsPage[]
+  const page = selectVisiblePage(pages, { preview, now })
+  if (!page) return null
+
+  const { data: sections, error: sectionsError } = await pagesRepo.listSections(page.id, { preview })
+
+  if (sectionsError) {
+    throw new Error(`Failed to load sections for page "${normalizedSlug}": ${sectionsError.message}`)
+  }
+
+  const savedSections = (sections || []) as CmsPageSection[]
+
+  return {
+    page,
+    sections: selectVisibleSections(savedSections, { preview, now }),
+    nextChangeAt: nextWindowBoundary([...pages, ...savedSections], now)
+  }
+}
+
+/**
+ * Published page content, cached under the pages and page:<slug> tags until
+ * its next publish window boundary at the latest. The cache stores JSON, so
+ * nextChangeAt travels as an ISO string.
+ */
+async function loadPublishedCmsPage(normalizedSlug: string): Promise<CmsPageContent | null> {
+  const cached = await cachedScheduledContent(
+    async () => {
+      const content = await loadCmsPage(normalizedSlug, { preview: false, now: new Date() })
+      return content && { ...content, nextChangeAt: toIsoString(content.nextChangeAt) }
+    },
+    ['cms-page', normalizedSlug],
+    [CACHE_TAGS.pages, CACHE_TAGS.page(normalizedSlug)]
+  )()
+
+  if (!cached) return null
+  return { ...cached, nextChangeAt: fromIsoString(cached.nextChangeAt) }
+}
+
+/**
+ * Load a CMS page and its ordered sections. Outside preview mode only
+ * published pages and sections inside their publish window are returned
+ * (from the cache unless an explicit `now` is given); in preview mode drafts
+ * and scheduled content are included.
+ * Returns null when the page does not exist (or is not visible), and when
+ * Supabase is not configured, since seed content has no CMS pages.
+ */
+export async function getCmsPage(
+  slug: string | string[],
+  { preview = false, now }: VisibilityOptions = {}
+): Promise<CmsPageContent | null> {
+  let normalizedSlug: string
+  try {
+    normalizedSlug = normalizePageSlug(slug)
+  } catch {
+    // A malformed escape like "%E0" can't name a page
+    return null
+  }
+  if (!normalizedSlug || !isSupabaseConfigured()) return null
+
+  if (!preview && !now) {
+    return loadPublishedCmsPage(normalizedSlug)
+  }
+
+  return loadCmsPage(normalizedSlug, { preview, now: now || new Date() })
+}
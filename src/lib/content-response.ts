@@ -0,0 +1,69 @@
+// Envelope returned by the content API routes (homepage, navigation, events,
+// sermons, blogs, footer, about). The payload keys sit at the top level next
+// to the source metadata, e.g. { homepage, source, reason, message }.
+
+export type ContentSource = 'database' | 'default'
+
+/**
+ * Why default content was served instead of database content:
+ * - not_configured: Supabase environment variables are missing
+ * - query_error: the query failed (client-side: the request itself failed)
+ * - empty: the query succeeded but there was nothing to show
+ */
+export type FallbackReason = 'not_configured' | 'query_error' | 'empty'
+
+export interface ContentMeta {
+  source: ContentSource
+  // Only set when source is 'default'
+  reason?: FallbackReason
+  message: string
+  preview?: boolean
+}
+
+export type ContentResponse<T extends object> = T & ContentMeta
+
+const FALLBACK_DESCRIPTIONS: Record<FallbackReason, string> = {
+  not_configured: 'Supabase not configured',
+  query_error: 'Database error',
+  empty: 'No content found'
+}
+
+export function isFallbackReason(value: unknown): value is FallbackReason {
+  return typeof value === 'string' && value in FALLBACK_DESCRIPTIONS
+}
+
+/**
+ * Human-readable message for a fallback, e.g.
+ * "Using default navigation - Database error: relation does not exist".
+ */
+export function describeFallback(label: string, reason: FallbackReason, detail?: string): string {
+  const description = FALLBACK_DESCRIPTIONS[reason]
+  return `Using default ${label} - ${detail ? `${description}: ${detail}` : description}`
+}
+
+export function defaultContentResponse<T extends object>(
+  payload: T,
+  label: string,
+  reason: FallbackReason,
+  detail?: string
+): ContentResponse<T> {
+  return { ...payload, source: 'default', reason, message: describeFallback(label, reason, detail) }
+}
+
+/**
+ * Client-side fetch of a content route. Rejects on HTTP errors so hooks can
+ * fall back to their seed content with reason 'query_error'.
+ */
+export async function fetchContent<T extends object>(url: string, init?: RequestInit): Promise<ContentResponse<T>> {
+  const response = await fetch(url, init)
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  const data: ContentResponse<T> = await response.json()
+  return {
+    ...data,
+    reason: data.source === 'default' && isFallbackReason(data.reason) ? data.reason : undefined
+  }
+}
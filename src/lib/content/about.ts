@@ -0,0 +1,242 @@
+import { selectVisiblePage, selectVisibleSections } from '@/lib/cms-pages'
+import { CACHE_TAGS } from '@/lib/cache-tags'
+import type { Tables } from '@/lib/database.types'
+import { defaultAbout, defaultSpeakers, type AboutContent, type SpeakerSummary } from '@/lib/default-content'
+import { pageHeroShape, readSectionProps } from '@/lib/page-section-props'
+import { nextWindowBoundary } from '@/lib/publish-window'
+import { pagesRepo, type SectionProps } from '@/lib/repositories'
+import { arrayOf, object, oneOf, required, string, withDefault } from '@/lib/section-schema'
+import { findSpeakerByName } from '@/lib/speakers'
+import { withFallback } from '@/lib/with-fallback'
+import { cachedScheduledContent, fromIsoString, toIsoString, type LoadedContent } from './cache'
+import { getSpeakers } from './speakers'
+
+type AboutSection = Pick<Tables<'page_sections'>, 'type'> & { props: SectionProps | null }
+
+// Section props as stored, narrowed before use
+const highlightField = object({
+  title: required(string()),
+  video_url: withDefault(string(), ''),
+  description: required(string())
+})
+
+const ourStoryShape = {
+  first_line: string(),
+  main_header: string(),
+  paragraph_text: string(),
+  media_url: string(),
+  media_type: oneOf(['image', 'video']),
+  button_text: string(),
+  button_link: string(),
+  button_style: oneOf(['primary', 'secondary']),
+  ministry_highlights: arrayOf(highlightField),
+  community_impact: highlightField
+}
+
+const purposeField = object({
+  title: string(),
+  description: string(),
+  items: arrayOf(string()),
+  media_url: string()
+})
+
+const missionVisionShape = {
+  first_line: string(),
+  main_header: string(),
+  subheader: string(),
+  mission: purposeField,
+  vision: purposeField,
+  values: arrayOf(object({
+    title: required(string()),
+    description: required(string()),
+    icon: withDefault(string(), '')
+  }))
+}
+
+const pastorField = object({
+  name: required(string()),
+  role: withDefault(string(), ''),
+  bio: withDefault(string(), ''),
+  media_url: string(),
+  areas_of_ministry: arrayOf(string())
+})
+
+const leadershipTeamShape = {
+  first_line: string(),
+  main_header: string(),
+  subheader: string(),
+  head_pastor: pastorField,
+  other_pastors: arrayOf(pastorField)
+}
+
+// Point leadership team members who preach at their speaker pages
+function linkSpeakers(about: AboutContent, speakers: SpeakerSummary[]): AboutContent {
+  return {
+    ...about,
+    leadership: {
+      ...about.leadership,
+      team_members: about.leadership.team_members.map(member => {
+        const speaker = findSpeakerByName(speakers, member.name)
+        return speaker ? { ...member, speaker_slug: speaker.slug } : member
+      })
+    }
+  }
+}
+
+// Speakers for linkSpeakers; the about page still renders without the links
+async function loadSpeakersForLinks(): Promise<SpeakerSummary[]> {
+  try {
+    return await getSpeakers()
+  } catch (error) {
+    console.error('Error loading speakers for leadership links:', error)
+    return []
+  }
+}
+
+// Read the about page from the CMS. Resolves to null when the page is missing
+// or has no visible sections; throws on query errors.
+async function fetchAbout(preview: boolean): Promise<{ about: AboutContent; nextChangeAt: string | null } | null> {
+  const now = new Date()
+
+  console.log('🔍 Attempting to fetch about page from database...')
+
+  // Look for a page with slug 'about'
+  const { data: candidatePages, error: pageError } = await pagesRepo.findCandidates('about', { preview })
+
+  if (pageError) throw pageError
+
+  // Honour publish_at/unpublish_at scheduling windows
+  const aboutPage = selectVisiblePage(candidatePages || [], { preview, now })
+  if (!aboutPage) return null
+
+  // Fetch sections for the about page
+  const { data: savedSections, error: sectionsError } = await pagesRepo.listSections(aboutPage.id, { preview })
+
+  if (sectionsError) throw sectionsError
+
+  const sections = selectVisibleSections(savedSections || [], { preview, now })
+  const nextChangeAt = nextWindowBoundary([...(candidatePages || []), ...(savedSections || [])], now)
+
+  console.log('📊 About page database query result:', {
+    page: aboutPage,
+    sections: sections,
+    sectionsLength: sections.length
+  })
+
+  if (sections.length === 0) return null
+
+  // Transform sections to about content
+  const about = linkSpeakers(buildAboutContent(sections), await loadSpeakersForLinks())
+  return { about, nextChangeAt: toIsoString(nextChangeAt) }
+}
+
+const fetchPublishedAbout = cachedScheduledContent(
+  () => fetchAbout(false),
+  ['about'],
+  [CACHE_TAGS.pages, CACHE_TAGS.page('about'), CACHE_TAGS.speakers]
+)
+
+export async function getAboutContent(
+  { preview = false }: { preview?: boolean } = {}
+): Promise<LoadedContent<{ about: AboutContent }>> {
+  let nextChangeAt: Date | null = null
+
+  const content = await withFallback({
+    label: 'about page',
+    fallback: () => ({ about: linkSpeakers(defaultAbout, defaultSpeakers) }),
+    load: async () => {
+      const record = preview ? await fetchAbout(true) : await fetchPublishedAbout()
+      if (!record) return null
+
+      nextChangeAt = fromIsoString(record.nextChangeAt)
+      return { about: record.about }
+    }
+  })
+
+  return { content, nextChangeAt }
+}
+
+function buildAboutContent(sections: AboutSection[]): AboutContent {
+  const content = { ...defaultAbout }
+
+  sections.forEach(section => {
+    switch (section.type) {
+      case 'hero': {
+        const props = readSectionProps(section.type, pageHeroShape, section.props)
+        content.hero = {
+          first_line_text: props.first_line_text || defaultAbout.hero.first_line_text,
+          heading: props.heading || defaultAbout.hero.heading,
+          subheading: props.subheading || defaultAbout.hero.subheading,
+          background_image: props.backgroundImage || defaultAbout.hero.background_image
+        }
+        break
+      }
+
+      case 'our_story': {
+        const props = readSectionProps(section.type, ourStoryShape, section.props)
+        content.our_story = {
+          first_line: props.first_line || defaultAbout.our_story.first_line,
+          main_header: props.main_header || defaultAbout.our_story.main_header,
+          paragraph_text: props.paragraph_text || defaultAbout.our_story.paragraph_text,
+          media_url: props.media_url || defaultAbout.our_story.media_url,
+          media_type: props.media_type || defaultAbout.our_story.media_type,
+          button_text: props.button_text || defaultAbout.our_story.button_text,
+          button_link: props.button_link || defaultAbout.our_story.button_link,
+          button_style: props.button_style || defaultAbout.our_story.button_style,
+          ministry_highlights: props.ministry_highlights || defaultAbout.our_story.ministry_highlights,
+          community_impact: props.community_impact || defaultAbout.our_story.community_impact
+        }
+        break
+      }
+
+      case 'mission_vision': {
+        const props = readSectionProps(section.type, missionVisionShape, section.props)
+        content.mission_vision = {
+          section_title: props.first_line || "Our Purpose",
+          section_heading: props.main_header || "Mission & Vision", 
+          section_description: props.subheader || "Our mission guides everything we do, and our vision inspires where we're going",
+          mission: {
+            title: props.mission?.title || defaultAbout.mission_vision.mission.title,
+            content: props.mission?.description || defaultAbout.mission_vision.mission.content,
+            items: props.mission?.items || [],
+            media_url: props.mission?.media_url || ""
+          },
+          vision: {
+            title: props.vision?.title || defaultAbout.mission_vision.vision.title,
+            content: props.vision?.description || defaultAbout.mission_vision.vision.content,
+            items: props.vision?.items || [],
+            media_url: props.vision?.media_url || ""
+          },
+          values: props.values || defaultAbout.mission_vision.values
+        }
+        break
+      }
+
+      case 'leadership_team': {
+        // Transform CMS leadership structure to component structure
+        const props = readSectionProps(section.type, leadershipTeamShape, section.props)
+        const pastors = [...(props.head_pastor ? [props.head_pastor] : []), ...(props.other_pastors || [])]
+        // Head pastor first, then the other pastors
+        const teamMembers = pastors.map(pastor => ({
+          name: pastor.name,
+          position: pastor.role,
+          bio: pastor.bio,
+          image_url: pastor.media_url || "",
+          social_links: [],
+          // Handle areas_of_ministry from CMS
+          areas_of_ministry: pastor.areas_of_ministry || []
+        }))
+        
+        content.leadership = {
+          title: props.main_header || defaultAbout.leadership.title,
+          subtitle: props.first_line || defaultAbout.leadership.subtitle,
+          description: props.subheader || defaultAbout.leadership.description,
+          team_members: teamMembers.length > 0 ? teamMembers : defaultAbout.leadership.team_members
+        }
+        break
+      }
+    }
+  })
+
+  return content
+}
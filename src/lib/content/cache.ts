@@ -0,0 +1,74 @@
+import { unstable_cache } from 'next/cache'
+import { CONTENT_REVALIDATE_SECONDS } from '@/lib/cache-tags'
+import type { ContentResponse } from '@/lib/content-response'
+
+/**
+ * Cache a published-content read across requests. Loaders throw on query
+ * errors, so failures are never cached; only real content (or a null "nothing
+ * here") is. Preview reads must call the uncached function instead.
+ */
+export function cachedContent<Args extends unknown[], Result>(
+  load: (...args: Args) => Promise<Result>,
+  keyParts: string[],
+  tags: string[]
+): (...args: Args) => Promise<Result> {
+  return unstable_cache(load, keyParts, { tags, revalidate: CONTENT_REVALIDATE_SECONDS })
+}
+
+/**
+ * Have the page being rendered regenerate by `boundary`. Next.js revalidates a
+ * statically rendered page as often as the shortest-lived unstable_cache read
+ * it made, so this makes an empty read that expires at the boundary.
+ * Boundaries further off than CONTENT_REVALIDATE_SECONDS change nothing.
+ */
+export async function revalidateBy(boundary: Date | null, now: Date = new Date()): Promise<void> {
+  if (!boundary) return
+
+  const seconds = Math.ceil((boundary.getTime() - now.getTime()) / 1000)
+  if (seconds >= CONTENT_REVALIDATE_SECONDS) return
+
+  await unstable_cache(async () => null, ['revalidate-by', boundary.toISOString()], { revalidate: Math.max(1, seconds) })()
+}
+
+/**
+ * cachedContent for reads that change by themselves at a publish window
+ * boundary, returned as their nextChangeAt. A cached result whose boundary
+ * has passed is read again uncached, and the page rendering the result
+ * regenerates by its boundary (see revalidateBy).
+ */
+export function cachedScheduledContent<Args extends unknown[], Result extends { nextChangeAt: string | null } | null>(
+  load: (...args: Args) => Promise<Result>,
+  keyParts: string[],
+  tags: string[]
+): (...args: Args) => Promise<Result> {
+  const cached = cachedContent(load, keyParts, tags)
+
+  return async (...args: Args) => {
+    const now = new Date()
+    let result = await cached(...args)
+
+    const cachedChangeAt = fromIsoString(result?.nextChangeAt ?? null)
+    if (cachedChangeAt && cachedChangeAt <= now) {
+      result = await load(...args)
+    }
+
+    await revalidateBy(fromIsoString(result?.nextChangeAt ?? null), now)
+    return result
+  }
+}
+
+// Cached results are JSON-serialised, so dates travel as ISO strings
+export function toIsoString(date: Date | null): string | null {
+  return date ? date.toISOString() : null
+}
+
+export function fromIsoString(value: string | null): Date | null {
+  return value ? new Date(value) : null
+}
+
+// A content response plus the next scheduled publish-window change, which
+// routes turn into Cache-Control headers
+export interface LoadedContent<T extends object> {
+  content: ContentResponse<T>
+  nextChangeAt: Date | null
+}
@@ -0,0 +1,340 @@
+import { CACHE_TAGS } from '@/lib/cache-tags'
+import {
+  defaultEvents,
+  defaultEventsPage,
+  type EventRange,
+  type EventSummary,
+  type EventsPageContent
+} from '@/lib/default-content'
+import type { Tables } from '@/lib/database.types'
+import { expandEventOccurrences, localDateString } from '@/lib/event-recurrence'
+import { pageHeroShape, readSectionProps } from '@/lib/page-section-props'
+import { eventsRepo, pagesRepo, type SectionProps } from '@/lib/repositories'
+import { boolean, number, string } from '@/lib/section-schema'
+import { getConfiguredTimezone, zonedDateTimeToDate } from '@/lib/timezone-utils'
+import { withFallback } from '@/lib/with-fallback'
+import { cachedContent, type LoadedContent } from './cache'
+
+// How many upcoming occurrences the carousels and lists get
+const UPCOMING_EVENTS_LIMIT = 10
+// Recurring events are expanded this far ahead
+const RECURRENCE_HORIZON_DAYS = 90
+// Longest range the calendar may ask for at once
+export const MAX_EVENT_RANGE_DAYS = 366
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type EventRow = Tables<'events'>
+type EventsPageSection = Pick<Tables<'page_sections'>, 'type'> & { props: SectionProps | null }
+
+// Section props as stored, narrowed before use
+const upcomingEventsShape = {
+  first_line: string(),
+  subtitle: string(),
+  main_header: string(),
+  title: string(),
+  subheader: string(),
+  description: string(),
+  showFilters: boolean(),
+  eventsPerPage: number()
+}
+
+// Occurrences of one-off and recurring events, soonest first, with their
+// primary image, in the shape the carousels, lists and calendar render.
+// One-off events are taken as given; recurring ones are expanded from `from`
+// to `to` in the tenant's time zone. Throws on query errors.
+async function summarizeOccurrences(
+  events: EventRow[],
+  recurringEvents: EventRow[],
+  { from, to, limit }: { from: Date; to: Date; limit?: number },
+  timeZone: string
+): Promise<EventSummary[]> {
+  const recurringIds = recurringEvents.map(event => event.id)
+  const { data: overrides, error: overridesError } = recurringIds.length > 0
+    ? await eventsRepo.listOccurrenceOverrides(recurringIds)
+    : { data: [], error: null }
+
+  if (overridesError) throw overridesError
+
+  const occurrences = [
+    ...events.map(event => ({
+      event,
+      occurrence: { occurrence_start: null, event_date: event.event_date, override: null }
+    })),
+    ...recurringEvents.flatMap(event =>
+      expandEventOccurrences(
+        event,
+        (overrides || []).filter(override => override.event_id === event.id),
+        timeZone,
+        { from, to }
+      ).map(occurrence => ({ event, occurrence }))
+    )
+  ]
+    .sort((a, b) => new Date(a.occurrence.event_date).getTime() - new Date(b.occurrence.event_date).getTime())
+    .slice(0, limit)
+
+  if (occurrences.length === 0) return []
+
+  // Fetch images for these events
+  const eventIds = [...new Set(occurrences.map(({ event }) => event.id))]
+  const { data: images } = await eventsRepo.listImages(eventIds)
+
+  // Create image map; images come in sort order, so the first is the primary
+  const imageMap = new Map<string, Tables<'event_images'>>()
+  for (const image of images || []) {
+    if (!imageMap.has(image.event_id)) imageMap.set(image.event_id, image)
+  }
+
+  // Transform occurrences to frontend format; overrides replace the event's own details
+  return occurrences.map(({ event, occurrence: { occurrence_start, event_date, override } }) => ({
+    id: event.id,
+    occurrence_start,
+    name: override?.name || event.name,
+    event_date,
+    local_date: localDateString(new Date(event_date), timeZone),
+    location: override?.location || event.location || 'Location TBD',
+    description: override?.description || event.description || 'Join us for this special event.',
+    capacity: override?.capacity ?? event.capacity,
+    primary_image: imageMap.get(event.id) || null,
+    // Add some variety in gradients and types
+    gradient: getEventGradient(event.name, event.id),
+    type: getEventType(event.name, event.description)
+  }))
+}
+
+// Upcoming events for the carousels and lists. Recurring events are expanded
+// into their occurrences over the next few months. Resolves to null when
+// nothing is scheduled.
+async function fetchUpcomingEvents(): Promise<{ events: EventSummary[] } | null> {
+  console.log('🔍 Attempting to fetch events from database...')
+
+  const now = new Date()
+  const horizon = new Date(now.getTime() + RECURRENCE_HORIZON_DAYS * DAY_MS)
+
+  // One-off events from now on, and recurring events that have started by the horizon
+  const [
+    { data: events, error: eventsError },
+    { data: recurringEvents, error: recurringError }
+  ] = await Promise.all([
+    eventsRepo.listUpcoming({ from: now, limit: UPCOMING_EVENTS_LIMIT }),
+    eventsRepo.listRecurring({ before: horizon })
+  ])
+
+  console.log('📊 Database query result:', {
+    events: events,
+    error: eventsError || recurringError,
+    eventsLength: events ? events.length : 0,
+    recurringLength: recurringEvents ? recurringEvents.length : 0
+  })
+
+  if (eventsError) throw eventsError
+  if (recurringError) throw recurringError
+  if ((!events || events.length === 0) && (!recurringEvents || recurringEvents.length === 0)) return null
+
+  const summaries = await summarizeOccurrences(
+    events || [],
+    recurringEvents || [],
+    { from: now, to: horizon, limit: UPCOMING_EVENTS_LIMIT },
+    await getConfiguredTimezone()
+  )
+
+  return summaries.length > 0 ? { events: summaries } : null
+}
+
+const fetchCachedUpcomingEvents = cachedContent(fetchUpcomingEvents, ['upcoming-events'], [CACHE_TAGS.events])
+
+export async function getUpcomingEvents(): Promise<LoadedContent<{ events: EventSummary[] }>> {
+  const content = await withFallback({
+    label: 'events',
+    fallback: () => ({ events: defaultEvents }),
+    load: fetchCachedUpcomingEvents,
+    describe: ({ events }) => `Loaded ${events.length} upcoming events from database`
+  })
+
+  return { content, nextChangeAt: null }
+}
+
+// Midnight at the start of a local date in the tenant's time zone
+function startOfLocalDate(date: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number)
+  return zonedDateTimeToDate({ year, month, day, hour: 0, minute: 0 }, timeZone)
+}
+
+// Every occurrence on the local dates from `from` up to (not including) `to`,
+// with day boundaries in the tenant's time zone. Resolves to null when there
+// are none.
+async function fetchEventsInRange(from: string, to: string): Promise<{ range: EventRange } | null> {
+  const timeZone = await getConfiguredTimezone()
+  const start = startOfLocalDate(from, timeZone)
+  const end = startOfLocalDate(to, timeZone)
+
+  console.log('🔍 Attempting to fetch events between', from, 'and', to)
+
+  const [
+    { data: events, error: eventsError },
+    { data: recurringEvents, error: recurringError }
+  ] = await Promise.all([
+    eventsRepo.listBetween({ from: start, to: end }),
+    eventsRepo.listRecurring({ before: end })
+  ])
+
+  if (eventsError) throw eventsError
+  if (recurringError) throw recurringError
+
+  const summaries = await summarizeOccurrences(events || [], recurringEvents || [], { from: start, to: end }, timeZone)
+  return summaries.length > 0 ? { range: { events: summaries, timeZone, from, to } } : null
+}
+
+const fetchCachedEventsInRange = cachedContent(fetchEventsInRange, ['events-range'], [CACHE_TAGS.events])
+
+/**
+ * Events on the local dates from `from` up to (not including) `to`, both
+ * YYYY-MM-DD in the tenant's time zone, for the event calendar.
+ */
+export async function getEventsInRange(from: string, to: string): Promise<LoadedContent<{ range: EventRange }>> {
+  const content = await withFallback({
+    label: 'events range',
+    fallback: async () => ({
+      range: {
+        events: defaultEvents.filter(event => event.local_date >= from && event.local_date < to),
+        timeZone: await getConfiguredTimezone(),
+        from,
+        to
+      }
+    }),
+    load: () => fetchCachedEventsInRange(from, to),
+    describe: ({ range }) => `Loaded ${range.events.length} events from ${from} to ${to} from database`
+  })
+
+  return { content, nextChangeAt: null }
+}
+
+// Read the events page from the CMS. Resolves to null when the page or its
+// sections are missing; throws on query errors.
+async function fetchEventsPage(): Promise<{ eventsPage: EventsPageContent } | null> {
+  console.log('🔍 Attempting to fetch events page from database...')
+
+  const { data: pageData, error: pageError } = await pagesRepo.getBySlug('events', { publishedOnly: false })
+
+  // .single() reports a missing page as PGRST116
+  if (pageError?.code === 'PGRST116') return null
+  if (pageError) throw pageError
+  if (!pageData) return null
+
+  const { data: sectionsData, error: sectionsError } = await pagesRepo.listSections(pageData.id)
+
+  console.log('📊 Events page database query result:', {
+    page: pageData,
+    sectionsLength: sectionsData ? sectionsData.length : 0
+  })
+
+  if (sectionsError) throw sectionsError
+  if (!sectionsData || sectionsData.length === 0) return null
+
+  // Transform CMS data to frontend format
+  return { eventsPage: buildEventsPageContent(sectionsData) }
+}
+
+const fetchCachedEventsPage = cachedContent(
+  fetchEventsPage,
+  ['events-page'],
+  [CACHE_TAGS.pages, CACHE_TAGS.page('events')]
+)
+
+export async function getEventsPageContent(): Promise<LoadedContent<{ eventsPage: EventsPageContent }>> {
+  const content = await withFallback({
+    label: 'events page content',
+    fallback: () => ({ eventsPage: defaultEventsPage }),
+    load: fetchCachedEventsPage,
+    describe: () => 'Loaded events page from database'
+  })
+
+  return { content, nextChangeAt: null }
+}
+
+function buildEventsPageContent(sections: EventsPageSection[]): EventsPageContent {
+  console.log('🔍 Raw sections for events page:', sections.map(s => ({ type: s.type, props: s.props })))
+  
+  const content: EventsPageContent = {
+    hero: { ...defaultEventsPage.hero },
+    upcoming_events: { ...defaultEventsPage.upcoming_events }
+  }
+
+  sections.forEach((section, index) => {
+    console.log(`📝 Processing section ${index} (${section.type}):`, section.props)
+    
+    try {
+      switch (section.type) {
+        case 'hero':
+          if (section.props) {
+            // Map CMS hero fields to frontend structure
+            const props = readSectionProps(section.type, pageHeroShape, section.props)
+            content.hero = {
+              first_line_text: props.first_line_text || content.hero.first_line_text,
+              heading: props.heading || content.hero.heading,
+              subheading: props.subheading || content.hero.subheading,
+              background_image: props.backgroundImage || content.hero.background_image,
+              cta_primary: props.ctaButtons?.[0]?.text || content.hero.cta_primary,
+              cta_secondary: props.ctaButtons?.[1]?.text || content.hero.cta_secondary,
+              cta_primary_link: props.ctaButtons?.[0]?.link || "#upcoming-events",
+              cta_secondary_link: props.ctaButtons?.[1]?.link || "/contact"
+            }
+          }
+          break
+          
+        case 'upcoming_events':
+        case 'event_list':
+          if (section.props) {
+            const props = readSectionProps(section.type, upcomingEventsShape, section.props)
+            content.upcoming_events = {
+              section_title: props.first_line || props.subtitle || content.upcoming_events.section_title,
+              section_heading: props.main_header || props.title || content.upcoming_events.section_heading,
+              section_description: props.subheader || props.description || content.upcoming_events.section_description,
+              show_filters: props.showFilters ?? true,
+              events_per_page: props.eventsPerPage || 10
+            }
+          }
+          break
+          
+        default:
+          console.log(`ℹ️ Unhandled section type: ${section.type}`)
+      }
+    } catch (error) {
+      console.error(`❌ Error processing section ${section.type}:`, error)
+    }
+  })
+
+  console.log('✅ Final events page content:', content)
+  return content
+}
+
+// Helper function to assign gradients based on event characteristics
+function getEventGradient(name: string, id: string): string {
+  const gradients = [
+    "from-blue-800 to-indigo-900",
+    "from-purple-800 to-pink-900", 
+    "from-green-800 to-teal-900",
+    "from-orange-800 to-red-900",
+    "from-teal-800 to-cyan-900",
+    "from-rose-800 to-pink-900"
+  ]
+  
+  // Use a simple hash of the id to ensure consistent colors
+  const hash = id.split('').reduce((a, b) => a + b.charCodeAt(0), 0)
+  return gradients[hash % gradients.length]
+}
+
+// Helper function to categorize events; also used to filter calendar feeds
+export function getEventType(name: string, description: string | null): string {
+  const content = (name + ' ' + (description || '')).toLowerCase()
+  
+  if (content.includes('worship') || content.includes('service') || content.includes('sunday')) return 'worship'
+  if (content.includes('youth') || content.includes('teen') || content.includes('young')) return 'youth'
+  if (content.includes('study') || content.includes('bible') || content.includes('prayer')) return 'study'
+  if (content.includes('outreach') || content.includes('community') || content.includes('serve')) return 'outreach'
+  if (content.includes('conference') || content.includes('seminar') || content.includes('retreat')) return 'conference'
+  if (content.includes('fellowship') || content.includes('potluck') || content.includes('coffee') || content.includes('game night')) return 'fellowship'
+  if (content.includes('christmas') || content.includes('easter') || content.includes('anniversary') || content.includes('celebration')) return 'special'
+  
+  return 'event' // default
+} 
\ No newline at end of file
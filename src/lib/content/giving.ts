@@ -0,0 +1,77 @@
+import { CACHE_TAGS } from '@/lib/cache-tags'
+import { defaultGivingPage, type GivingPageContent } from '@/lib/default-content'
+import { givingRepo, pagesRepo } from '@/lib/repositories'
+import { withFallback } from '@/lib/with-fallback'
+import { cachedContent, type LoadedContent } from './cache'
+
+// Read the giving page and fund designations. Resolves to null when the page
+// is missing; throws on query errors.
+async function fetchGivingPage(): Promise<GivingPageContent | null> {
+  console.log('🔍 Attempting to fetch giving page from database...')
+
+  const { data: pageData, error: pageError } = await pagesRepo.getBySlug('giving')
+
+  // .single() reports a missing page as PGRST116
+  if (pageError?.code === 'PGRST116') return null
+  if (pageError) throw pageError
+  if (!pageData) return null
+
+  const { data: sectionsData, error: sectionsError } = await pagesRepo.listSections(pageData.id)
+
+  if (sectionsError) throw sectionsError
+
+  // Fund designations come from payment categories when there are any
+  const { data: fundData, error: fundError } = await givingRepo.listFundDesignations()
+
+  let fundDesignations = defaultGivingPage.fund_designations
+  if (!fundError && fundData && fundData.length > 0) {
+    fundDesignations = fundData.map(fund => ({
+      id: fund.id,
+      name: fund.name,
+      description: fund.description || `Support our ${fund.name.toLowerCase()}`
+    }))
+  }
+
+  console.log('Giving page sections found:', sectionsData?.length || 0)
+  console.log('Fund designations found:', fundDesignations.length)
+
+  const structuredContent: GivingPageContent = {
+    ...defaultGivingPage,
+    fund_designations: fundDesignations
+  }
+
+  // Override with database content if available
+  sectionsData?.forEach(section => {
+    if (!section.props) return
+
+    switch (section.type) {
+      case 'hero':
+        structuredContent.hero = { ...structuredContent.hero, ...section.props }
+        break
+      case 'giving_methods':
+        structuredContent.giving_methods = { ...structuredContent.giving_methods, ...section.props }
+        break
+      case 'impact':
+        structuredContent.impact = { ...structuredContent.impact, ...section.props }
+        break
+    }
+  })
+
+  return structuredContent
+}
+
+const fetchCachedGivingPage = cachedContent(
+  fetchGivingPage,
+  ['giving-page'],
+  [CACHE_TAGS.pages, CACHE_TAGS.page('giving'), CACHE_TAGS.giving]
+)
+
+export async function getGivingPageContent(): Promise<LoadedContent<GivingPageContent>> {
+  const content = await withFallback({
+    label: 'giving page',
+    fallback: () => defaultGivingPage,
+    load: fetchCachedGivingPage
+  })
+
+  return { content, nextChangeAt: null }
+}
@@ -0,0 +1,422 @@
+import { selectVisiblePage, selectVisibleSections } from '@/lib/cms-pages'
+import { CACHE_TAGS } from '@/lib/cache-tags'
+import type { Tables } from '@/lib/database.types'
+import { defaultHomepage, type GetInvolvedTemplate, type HomepageContent } from '@/lib/default-content'
+import { ctaButtonsField, readSectionProps } from '@/lib/page-section-props'
+import { nextWindowBoundary } from '@/lib/publish-window'
+import { ministriesRepo, pagesRepo, type SectionProps } from '@/lib/repositories'
+import { arrayOf, boolean, number, object, required, string } from '@/lib/section-schema'
+import { withFallback } from '@/lib/with-fallback'
+import { cachedScheduledContent, fromIsoString, toIsoString, type LoadedContent } from './cache'
+
+type HomepageSection = Omit<Tables<'page_sections'>, 'props' | 'draft_props'> & { props: SectionProps | null }
+
+// Section props as stored, narrowed before use
+const heroShape = {
+  firstLine: string(),
+  heading: string(),
+  subheading: string(),
+  description: string(),
+  ctaButtons: ctaButtonsField,
+  backgroundImage: string(),
+  backgroundVideo: string()
+}
+
+const eventCarouselShape = {
+  title: string(),
+  subtitle: string(),
+  description: string(),
+  show_events: boolean(),
+  maxEvents: number(),
+  events_limit: number()
+}
+
+const testimonialSliderShape = {
+  title: string(),
+  subtitle: string(),
+  testimonials: arrayOf(object({
+    name: string(),
+    role: string(),
+    text: string(),
+    quote: string(),
+    has_video: boolean(),
+    video_url: string(),
+    video: string(),
+    image_url: string(),
+    image: string()
+  }))
+}
+
+const ourStoryShape = {
+  first_line: string(),
+  main_header: string(),
+  paragraph_text: string(),
+  media_url: string(),
+  media_type: string(),
+  button_text: string(),
+  button_link: string(),
+  button_style: string(),
+  stats: arrayOf(object({
+    number: required(string()),
+    label: required(string()),
+    icon: string()
+  })),
+  ministry_highlights: arrayOf(object({
+    title: required(string()),
+    video_url: string(),
+    description: required(string())
+  })),
+  community_impact: object({
+    title: required(string()),
+    video_url: string(),
+    description: required(string())
+  })
+}
+
+const sermonCarouselShape = {
+  title: string(),
+  subtitle: string(),
+  featured_sermon: object({
+    title: required(string()),
+    speaker: required(string()),
+    date: required(string()),
+    description: required(string())
+  })
+}
+
+const getInvolvedShape = {
+  title: string(),
+  subtitle: string(),
+  description: string(),
+  show_all_link: boolean(),
+  all_link_text: string(),
+  all_link_url: string(),
+  max_items: number(),
+  filter_categories: arrayOf(string()),
+  layout: string()
+}
+
+interface HomepageRecord {
+  homepage: HomepageContent
+  sectionCount: number
+  nextChangeAt: string | null
+}
+
+// Read the homepage and its sections from the CMS. Resolves to null when there
+// is no visible homepage or it has no sections; throws on query errors.
+async function fetchHomepage(preview: boolean): Promise<HomepageRecord | null> {
+  const now = new Date()
+
+  console.log('🔍 Attempting to fetch homepage from database...')
+
+  // Look for a page with slug 'home' or 'homepage'
+  const { data: candidatePages, error: pageError } = await pagesRepo.findCandidates(['home', 'homepage', 'index'], { preview })
+
+  if (pageError) throw pageError
+
+  // Honour publish_at/unpublish_at scheduling windows
+  const homePage = selectVisiblePage(candidatePages || [], { preview, now })
+  if (!homePage) return null
+
+  // Fetch sections for the homepage
+  const { data: savedSections, error: sectionsError } = await pagesRepo.listSections(homePage.id, { preview })
+
+  if (sectionsError) throw sectionsError
+
+  const sections = selectVisibleSections(savedSections || [], { preview, now })
+  const nextChangeAt = nextWindowBoundary([...(candidatePages || []), ...(savedSections || [])], now)
+
+  console.log('📊 Database query result:', {
+    page: homePage,
+    sections: sections,
+    sectionsLength: sections.length
+  })
+
+  // Add detailed section logging
+  sections.forEach((section, index) => {
+    console.log(`  Section ${index + 1}:`, {
+      type: section.type,
+      order: section.order,
+      props_keys: section.props ? Object.keys(section.props) : 'no props',
+      props: section.props
+    })
+  })
+
+  if (sections.length === 0) return null
+
+  // Transform sections to homepage content - SAME pattern as navigation tree
+  // First, check if we need to fetch get_involved data
+  let getInvolvedTemplates: GetInvolvedTemplate[] = []
+  const hasGetInvolvedSection = sections.some(section => section.type === 'get_involved')
+
+  if (hasGetInvolvedSection) {
+    try {
+      const { data: templates, error: getInvolvedError } = await ministriesRepo.listTemplates({ limit: 6 })
+  
+      if (!getInvolvedError && templates && templates.length > 0) {
+        // Get all groups to match by name when ministry_group_id is null
+        const { data: allGroups } = await ministriesRepo.listActiveGroups()
+      
+        console.log('🔍 Available groups for matching:', allGroups?.map(g => ({name: g.name, hasImage: !!g.image_url})))
+      
+        // Use group image as fallback when template doesn't have featured_image
+        const templatesWithImages = templates.map(template => {
+          let groupImage: string | null = null
+        
+          // If template is linked to a group, use that group's image
+          if (template.ministry_group?.image_url) {
+            groupImage = template.ministry_group.image_url
+          } 
+          // Otherwise, try to match by name with available groups
+          else if (allGroups) {
+            const matchingGroup = allGroups.find(group => 
+              group.name.toLowerCase() === template.title.toLowerCase() ||
+              group.name.toLowerCase().includes(template.title.toLowerCase()) ||
+              template.title.toLowerCase().includes(group.name.toLowerCase())
+            )
+            if (matchingGroup) {
+              console.log(`🎯 Matched template "${template.title}" with group "${matchingGroup.name}" (image: ${!!matchingGroup.image_url})`)
+              groupImage = matchingGroup.image_url
+            } else {
+              console.log(`❌ No group match found for template "${template.title}"`)
+            }
+          }
+        
+          return {
+            ...template,
+            featured_image: template.featured_image || groupImage || null
+          }
+        })
+        getInvolvedTemplates = templatesWithImages
+        console.log(`🎯 Get Involved: Loaded ${templates.length} templates from get_involved_templates with group image fallbacks`)
+      } else {
+        // Fallback to groups table if no get_involved_templates found
+        console.log('🔄 Get Involved: No get_involved_templates found, trying groups table...')
+      
+        const { data: groups, error: groupsError } = await ministriesRepo.listActiveGroups({ limit: 6 })
+      
+        if (!groupsError && groups && groups.length > 0) {
+          // Transform groups to match get_involved_templates structure
+          getInvolvedTemplates = groups.map((group, index) => ({
+            id: group.id,
+            title: group.name,
+            excerpt: group.description || `Join our ${group.name} and make a difference in our community.`,
+            description: group.description || `Connect with our ${group.name} ministry.`,
+            featured_image: group.image_url || null, // Use the group's image
+            icon_emoji: getGroupIcon(group.name, group.type),
+            gradient_colors: getGroupGradient(index),
+            category: group.type === 'ministry' ? 'ministry' : 'community',
+            time_commitment: '2-3 hours per week',
+            contact_person: 'Ministry Leader',
+            custom_cta_text: 'Learn More',
+            priority_order: index + 1
+          }))
+          console.log(`🎯 Get Involved: Loaded ${groups.length} templates from groups table with images`)
+        } else {
+          console.log('🔄 Get Involved: No groups found either, using default templates')
+        }
+      }
+    } catch (error) {
+      console.log('🔄 Get Involved: Using default templates (error)', error)
+    }
+  }
+
+  return {
+    homepage: buildHomepageContent(sections, getInvolvedTemplates),
+    sectionCount: sections.length,
+    nextChangeAt: toIsoString(nextChangeAt)
+  }
+}
+
+const fetchPublishedHomepage = cachedScheduledContent(
+  () => fetchHomepage(false),
+  ['homepage'],
+  [CACHE_TAGS.pages, CACHE_TAGS.page('home'), CACHE_TAGS.ministries]
+)
+
+/**
+ * Homepage content for the home page and /api/homepage. Published reads are
+ * cached under the pages/page:home/ministries tags; previews are never cached.
+ */
+export async function getHomepageContent(
+  { preview = false }: { preview?: boolean } = {}
+): Promise<LoadedContent<{ homepage: HomepageContent }>> {
+  let nextChangeAt: Date | null = null
+  let sectionCount = 0
+
+  const content = await withFallback({
+    label: 'homepage',
+    fallback: () => ({ homepage: defaultHomepage }),
+    load: async () => {
+      const record = preview ? await fetchHomepage(true) : await fetchPublishedHomepage()
+      if (!record) return null
+
+      nextChangeAt = fromIsoString(record.nextChangeAt)
+      sectionCount = record.sectionCount
+      return { homepage: record.homepage }
+    },
+    describe: () => `Loaded homepage with ${sectionCount} sections from CMS`
+  })
+
+  return { content, nextChangeAt }
+}
+
+function buildHomepageContent(sections: HomepageSection[], getInvolvedTemplates: GetInvolvedTemplate[]): HomepageContent {
+  // Sections without a homepage field are passed through under their type
+  const content: Partial<HomepageContent> & Record<string, unknown> = {}
+  
+  sections.forEach(section => {
+    // Map section types to content structure
+    switch (section.type) {
+      case 'hero': {
+        // Map admin property names to homepage structure
+        const props = readSectionProps(section.type, heroShape, section.props)
+        const ctaButtons = props.ctaButtons || []
+        const backgroundMedia = props.backgroundImage
+        
+        // Detect if background media is video or image
+        const isVideo = backgroundMedia && (
+          backgroundMedia.includes('.mp4') || 
+          backgroundMedia.includes('.webm') || 
+          backgroundMedia.includes('.mov') || 
+          backgroundMedia.includes('.avi')
+        )
+        
+        content.hero = {
+          first_line: props.firstLine || defaultHomepage.hero.first_line,
+          title: props.heading || defaultHomepage.hero.title,
+          subtitle: props.subheading || defaultHomepage.hero.subtitle,
+          description: props.description || defaultHomepage.hero.description,
+          cta_primary: ctaButtons[0] ? {
+            text: ctaButtons[0].text,
+            href: ctaButtons[0].link
+          } : defaultHomepage.hero.cta_primary,
+          cta_secondary: ctaButtons[1] ? {
+            text: ctaButtons[1].text,
+            href: ctaButtons[1].link
+          } : defaultHomepage.hero.cta_secondary,
+          background_video: isVideo ? backgroundMedia : props.backgroundVideo,
+          background_image: !isVideo ? backgroundMedia : props.backgroundImage
+        }
+        break
+      }
+        
+      case 'event_carousel': {
+        const props = readSectionProps(section.type, eventCarouselShape, section.props)
+        content.events_carousel = {
+          title: props.title || defaultHomepage.events_carousel.title,
+          subtitle: props.subtitle || defaultHomepage.events_carousel.subtitle,
+          description: props.description || defaultHomepage.events_carousel.description,
+          show_events: props.show_events !== false,
+          events_limit: props.maxEvents || props.events_limit || 4
+        }
+        break
+      }
+        
+      case 'testimonial_slider': {
+        // Map admin testimonials to frontend structure
+        const props = readSectionProps(section.type, testimonialSliderShape, section.props)
+        const adminTestimonials = props.testimonials || []
+        const mappedTestimonials = adminTestimonials.map(testimonial => ({
+          name: testimonial.name || "Community Member",
+          role: testimonial.role || "Church Family",
+          quote: testimonial.text || testimonial.quote || "Being part of this community has been a blessing.",
+          has_video: Boolean(testimonial.video_url || testimonial.video || testimonial.has_video),
+          video_url: testimonial.video_url || testimonial.video,
+          image_url: testimonial.image_url || testimonial.image
+        }))
+        
+        content.testimonials = {
+          title: props.title || defaultHomepage.testimonials.title,
+          subtitle: props.subtitle || defaultHomepage.testimonials.subtitle,
+          featured_testimonials: mappedTestimonials.length > 0 ? mappedTestimonials : defaultHomepage.testimonials.featured_testimonials
+        }
+        break
+      }
+        
+      case 'our_story': {
+        const props = readSectionProps(section.type, ourStoryShape, section.props)
+        content.our_story = {
+          first_line: props.first_line || defaultHomepage.our_story.first_line,
+          main_header: props.main_header || defaultHomepage.our_story.main_header,
+          paragraph_text: props.paragraph_text || defaultHomepage.our_story.paragraph_text,
+          media_url: props.media_url || defaultHomepage.our_story.media_url,
+          media_type: props.media_type || defaultHomepage.our_story.media_type,
+          button_text: props.button_text || defaultHomepage.our_story.button_text,
+          button_link: props.button_link || defaultHomepage.our_story.button_link,
+          button_style: props.button_style || defaultHomepage.our_story.button_style,
+          // Map stats from CMS
+          stats: props.stats || defaultHomepage.our_story.stats,
+          // Map ministry highlights from CMS
+          ministry_highlights: props.ministry_highlights || defaultHomepage.our_story.ministry_highlights,
+          // Map community impact from CMS
+          community_impact: props.community_impact || defaultHomepage.our_story.community_impact
+        }
+        break
+      }
+        
+      case 'sermon_carousel': {
+        const props = readSectionProps(section.type, sermonCarouselShape, section.props)
+        content.sermon_preview = {
+          title: props.title || defaultHomepage.sermon_preview.title,
+          subtitle: props.subtitle || defaultHomepage.sermon_preview.subtitle,
+          featured_sermon: props.featured_sermon || defaultHomepage.sermon_preview.featured_sermon
+        }
+        break
+      }
+        
+      case 'get_involved': {
+        const props = readSectionProps(section.type, getInvolvedShape, section.props)
+        content.get_involved = {
+          title: props.title || 'Get Involved',
+          subtitle: props.subtitle || 'Join Our Community',
+          description: props.description || 'Discover meaningful ways to connect, serve, and grow in your faith journey with us.',
+          show_all_link: props.show_all_link !== false,
+          all_link_text: props.all_link_text || 'View All Opportunities',
+          all_link_url: props.all_link_url || '/get-involved',
+          max_items: props.max_items || 6,
+          filter_categories: props.filter_categories || [],
+          layout: props.layout || 'grid',
+          // Add the fetched templates
+          templates: getInvolvedTemplates
+        }
+        break
+      }
+        
+      // Add more section types as needed
+      default:
+        content[section.type] = section.props || {}
+    }
+  })
+  
+  // Merge with defaults for any missing sections
+  return {
+    ...defaultHomepage,
+    ...content
+  }
+}
+
+// Helper functions for group transformation
+function getGroupIcon(name: string, type: string | null): string {
+  const nameLower = name.toLowerCase()
+  if (nameLower.includes('prayer')) return '🙏'
+  if (nameLower.includes('worship')) return '🎵'
+  if (nameLower.includes('youth')) return '🏀'
+  if (nameLower.includes('children')) return '👶'
+  if (nameLower.includes('outreach') || nameLower.includes('community')) return '🤝'
+  if (nameLower.includes('marriage') || nameLower.includes('counselling')) return '💒'
+  if (type === 'ministry') return '✨'
+  return '🤝'
+}
+
+function getGroupGradient(index: number): { from: string; to: string } {
+  const gradients = [
+    { from: 'blue-800', to: 'indigo-900' },
+    { from: 'purple-800', to: 'pink-900' },
+    { from: 'green-800', to: 'teal-900' },
+    { from: 'orange-800', to: 'red-900' },
+    { from: 'indigo-800', to: 'purple-900' },
+    { from: 'teal-800', to: 'blue-900' }
+  ]
+  return gradients[index % gradients.length]
+} 
\ No newline at end of file
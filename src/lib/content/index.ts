@@ -0,0 +1,18 @@
+// Server-side content loaders shared by the pages (React Server Components)
+// and the /api routes that client widgets still call. Each returns a
+// ContentResponse built with withFallback.
+export { getAboutContent } from './about'
+export { getEventsInRange, getEventsPageContent, getUpcomingEvents, MAX_EVENT_RANGE_DAYS } from './events'
+export { getGivingPageContent } from './giving'
+export { getHomepageContent } from './homepage'
+export { getLiveStream, getServiceSermon } from './live'
+export { getLatestSermons, getMostWatchedSermons, getSermonsByIds } from './sermons'
+export {
+  getDefaultSermonSeriesDetail,
+  getSermonSeriesDetail,
+  getSermonSeriesList,
+  type SermonSeriesDetail
+} from './series'
+export { getFooter, getNavigation } from './site'
+export { getDefaultSpeakerDetail, getSpeakerDetail, getSpeakers, type SpeakerDetail } from './speakers'
+export type { LoadedContent } from './cache'
@@ -0,0 +1,68 @@
+import { CACHE_TAGS } from '@/lib/cache-tags'
+import type { ContentResponse } from '@/lib/content-response'
+import { defaultLiveStream, type LiveStreamContent } from '@/lib/default-content'
+import { parseServiceSchedule, type ServiceSermon } from '@/lib/live-schedule'
+import { sermonsRepo, settingsRepo } from '@/lib/repositories'
+import { isSupabaseConfigured } from '@/lib/supabase'
+import { getConfiguredTimezone } from '@/lib/timezone-utils'
+import { withFallback } from '@/lib/with-fallback'
+import { cachedContent } from './cache'
+
+// Service schedule and stream link from tenant settings. Resolves to null
+// when no services are scheduled; throws on query errors.
+async function fetchLiveStream(): Promise<{ live: LiveStreamContent } | null> {
+  const { data: settings, error } = await settingsRepo.getTenantSettings()
+  if (error) throw error
+
+  const schedule = parseServiceSchedule(settings?.service_schedule)
+  if (!settings || schedule.length === 0) return null
+
+  return {
+    live: {
+      timeZone: await getConfiguredTimezone(),
+      schedule,
+      streamUrl: settings.live_stream_url
+    }
+  }
+}
+
+const fetchCachedLiveStream = cachedContent(fetchLiveStream, ['live-stream'], [CACHE_TAGS.settings])
+
+export async function getLiveStream(): Promise<ContentResponse<{ live: LiveStreamContent }>> {
+  return withFallback({
+    label: 'live stream',
+    // The demo schedule is only for sites without a database; a church that
+    // hasn't set up its schedule must never appear to be live
+    fallback: reason => ({
+      live: reason === 'not_configured' ? defaultLiveStream : { ...defaultLiveStream, schedule: [], streamUrl: null }
+    }),
+    load: fetchCachedLiveStream,
+    describe: ({ live }) => `Loaded ${live.schedule.length} scheduled services from database`
+  })
+}
+
+// Latest published sermon dated the day of a service. Throws on query errors.
+async function fetchServiceSermon(date: string): Promise<ServiceSermon | null> {
+  const { data: sermons, error } = await sermonsRepo.listPublishedOnDate(date)
+  if (error) throw error
+
+  const sermon = sermons?.[0]
+  return sermon ? { slug: sermon.slug, title: sermon.title } : null
+}
+
+const fetchCachedServiceSermon = cachedContent(fetchServiceSermon, ['service-sermon'], [CACHE_TAGS.sermons])
+
+/**
+ * The sermon recorded at the service on `date` (YYYY-MM-DD in the tenant's
+ * time zone), or null until it is published.
+ */
+export async function getServiceSermon(date: string): Promise<ServiceSermon | null> {
+  if (!isSupabaseConfigured()) return null
+
+  try {
+    return await fetchCachedServiceSermon(date)
+  } catch (error) {
+    console.error('❌ Error loading service recording:', error)
+    return null
+  }
+}
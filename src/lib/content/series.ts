@@ -0,0 +1,124 @@
+import { CACHE_TAGS } from '@/lib/cache-tags'
+import type { Tables } from '@/lib/database.types'
+import {
+  defaultSermons,
+  defaultSermonSeries,
+  type SermonSeriesSummary,
+  type SermonSummary
+} from '@/lib/default-content'
+import { seriesRepo, sermonsRepo } from '@/lib/repositories'
+import { withFallback } from '@/lib/with-fallback'
+import { cachedContent } from './cache'
+
+export interface SermonSeriesDetail {
+  series: SermonSeriesSummary
+  // Published episodes in series order
+  episodes: SermonSummary[]
+}
+
+interface EpisodeDate {
+  series_id: string | null
+  sermon_date: string
+}
+
+function toSummary(row: Tables<'sermon_series'>, dates: string[]): SermonSeriesSummary {
+  const sorted = [...dates].sort()
+  return {
+    id: row.id,
+    title: row.title,
+    slug: row.slug,
+    description: row.description,
+    artwork_url: row.artwork_url,
+    start_date: row.start_date,
+    end_date: row.end_date,
+    sort_order: row.sort_order,
+    sermon_count: sorted.length,
+    first_sermon_date: sorted[0] ?? null,
+    last_sermon_date: sorted[sorted.length - 1] ?? null
+  }
+}
+
+function groupDates(rows: EpisodeDate[]): Map<string, string[]> {
+  const bySeries = new Map<string, string[]>()
+  for (const { series_id, sermon_date } of rows) {
+    if (!series_id) continue
+    bySeries.set(series_id, [...(bySeries.get(series_id) ?? []), sermon_date])
+  }
+  return bySeries
+}
+
+// Published series with their episode counts and dates. Resolves to null when
+// there are none; throws on query errors.
+async function fetchSermonSeriesList(): Promise<{ series: SermonSeriesSummary[] } | null> {
+  console.log('🔍 Attempting to fetch sermon series from database...')
+
+  const [{ data: series, error }, { data: dates, error: datesError }] = await Promise.all([
+    seriesRepo.listPublished(),
+    sermonsRepo.listSeriesEpisodeDates()
+  ])
+
+  console.log('📊 Database query result:', { error, seriesLength: series ? series.length : 0 })
+
+  if (error) throw error
+  if (datesError) throw datesError
+  if (!series || series.length === 0) return null
+
+  const datesBySeries = groupDates(dates || [])
+  return { series: series.map(row => toSummary(row, datesBySeries.get(row.id) ?? [])) }
+}
+
+const fetchCachedSermonSeriesList = cachedContent(
+  fetchSermonSeriesList,
+  ['sermon-series'],
+  [CACHE_TAGS.series, CACHE_TAGS.sermons]
+)
+
+export async function getSermonSeriesList() {
+  return withFallback({
+    label: 'sermon series',
+    fallback: () => ({ series: defaultSermonSeries }),
+    load: fetchCachedSermonSeriesList,
+    describe: ({ series }) => `Loaded ${series.length} sermon series from database`
+  })
+}
+
+// One published series and its episodes. Resolves to null when the series
+// does not exist; throws on query errors.
+async function fetchSermonSeriesDetail(slug: string): Promise<SermonSeriesDetail | null> {
+  const { data: series, error } = await seriesRepo.findBySlug(slug)
+  if (error) throw error
+  if (!series) return null
+
+  const { data: episodes, error: episodesError } = await sermonsRepo.listBySeries(series.id)
+  if (episodesError) throw episodesError
+
+  return {
+    series: toSummary(series, (episodes || []).map(episode => episode.sermon_date)),
+    episodes: (episodes || []) as SermonSummary[]
+  }
+}
+
+const fetchCachedSermonSeriesDetail = cachedContent(
+  fetchSermonSeriesDetail,
+  ['sermon-series-detail'],
+  [CACHE_TAGS.series, CACHE_TAGS.sermons]
+)
+
+export async function getSermonSeriesDetail(slug: string): Promise<SermonSeriesDetail | null> {
+  return fetchCachedSermonSeriesDetail(slug)
+}
+
+/**
+ * Seed series and its default sermons, for when Supabase is not configured.
+ */
+export function getDefaultSermonSeriesDetail(slug: string): SermonSeriesDetail | null {
+  const series = defaultSermonSeries.find(entry => entry.slug === slug)
+  if (!series) return null
+
+  return {
+    series,
+    episodes: defaultSermons
+      .filter(sermon => sermon.series_id === series.id)
+      .sort((a, b) => a.sermon_date.localeCompare(b.sermon_date))
+  }
+}
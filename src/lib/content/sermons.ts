@@ -0,0 +1,121 @@
+import { CACHE_TAGS } from '@/lib/cache-tags'
+import type { ContentResponse } from '@/lib/content-response'
+import { defaultSermons, type SermonSummary } from '@/lib/default-content'
+import { isTrackableSermonId, MOST_WATCHED_WINDOW_DAYS } from '@/lib/playback-events'
+import { playbackRepo, sermonsRepo } from '@/lib/repositories'
+import { withFallback } from '@/lib/with-fallback'
+import { cachedContent, cachedScheduledContent, fromIsoString, toIsoString, type LoadedContent } from './cache'
+
+// Latest published sermons inside their publish window. Resolves to null when
+// there are none; throws on query errors.
+async function fetchLatestSermons(limit: number): Promise<{ sermons: SermonSummary[]; nextChangeAt: string | null } | null> {
+  console.log('🔍 Attempting to fetch sermons from database...')
+
+  const now = new Date()
+  const { data: sermons, error } = await sermonsRepo.listPublished({ limit, now })
+
+  console.log('📊 Database query result:', {
+    error: error,
+    sermonsLength: sermons ? sermons.length : 0
+  })
+
+  if (error) throw error
+  if (!sermons || sermons.length === 0) return null
+
+  const nextChangeAt = await sermonsRepo.nextScheduledChange(now)
+  return { sermons: sermons as SermonSummary[], nextChangeAt: toIsoString(nextChangeAt) }
+}
+
+const fetchCachedLatestSermons = cachedScheduledContent(fetchLatestSermons, ['latest-sermons'], [CACHE_TAGS.sermons])
+
+export async function getLatestSermons(limit: number): Promise<LoadedContent<{ sermons: SermonSummary[] }>> {
+  let nextChangeAt: Date | null = null
+
+  const content = await withFallback({
+    label: 'sermons',
+    fallback: () => ({ sermons: defaultSermons.slice(0, limit) }),
+    load: async () => {
+      const record = await fetchCachedLatestSermons(limit)
+      if (!record) return null
+
+      nextChangeAt = fromIsoString(record.nextChangeAt)
+      return { sermons: record.sermons }
+    },
+    describe: ({ sermons }) => `Loaded ${sermons.length} sermons from database`
+  })
+
+  return { content, nextChangeAt }
+}
+
+// Published sermons started by the most sessions over the last
+// MOST_WATCHED_WINDOW_DAYS, falling back to all-time view_count while no
+// recent playback has been recorded. Resolves to null when there are no
+// sermons; throws on query errors.
+async function fetchMostWatchedSermons(limit: number): Promise<SermonSummary[] | null> {
+  const now = new Date()
+  const since = new Date(now.getTime() - MOST_WATCHED_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+
+  const { data: ranked, error } = await playbackRepo.mostWatched(since, limit, now)
+  if (error) throw error
+
+  if (ranked && ranked.length > 0) {
+    const { data: sermons, error: sermonsError } = await sermonsRepo.listPublishedByIds(ranked.map(row => row.sermon_id), now)
+    if (sermonsError) throw sermonsError
+
+    const byId = new Map((sermons || []).map(sermon => [sermon.id, sermon as SermonSummary]))
+    const ordered = ranked.flatMap(row => byId.get(row.sermon_id) ?? [])
+    if (ordered.length > 0) return ordered
+  }
+
+  const { data: mostViewed, error: mostViewedError } = await sermonsRepo.listMostViewed(limit, now)
+  if (mostViewedError) throw mostViewedError
+  if (!mostViewed || mostViewed.length === 0) return null
+
+  return mostViewed as SermonSummary[]
+}
+
+const fetchCachedMostWatchedSermons = cachedContent(fetchMostWatchedSermons, ['most-watched-sermons'], [CACHE_TAGS.sermons])
+
+export async function getMostWatchedSermons(limit: number): Promise<ContentResponse<{ sermons: SermonSummary[] }>> {
+  return withFallback({
+    label: 'most watched sermons',
+    fallback: () => ({
+      sermons: [...defaultSermons].sort((a, b) => b.view_count - a.view_count).slice(0, limit)
+    }),
+    load: async () => {
+      const sermons = await fetchCachedMostWatchedSermons(limit)
+      return sermons ? { sermons } : null
+    },
+    describe: ({ sermons }) => `Loaded ${sermons.length} most watched sermons from database`
+  })
+}
+
+// Published sermons by id, in the order given. Not cached: each visitor asks
+// for their own set. Default sermon ids are skipped, since they cannot be in
+// the database. Resolves to null when none of them exist; throws on query
+// errors.
+async function fetchSermonsByIds(ids: string[]): Promise<SermonSummary[] | null> {
+  const trackable = ids.filter(isTrackableSermonId)
+  if (trackable.length === 0) return null
+
+  const { data: sermons, error } = await sermonsRepo.listPublishedByIds(trackable)
+  if (error) throw error
+
+  const byId = new Map((sermons || []).map(sermon => [sermon.id, sermon as SermonSummary]))
+  const ordered = ids.flatMap(id => byId.get(id) ?? [])
+  return ordered.length > 0 ? ordered : null
+}
+
+export async function getSermonsByIds(ids: string[]): Promise<ContentResponse<{ sermons: SermonSummary[] }>> {
+  return withFallback({
+    label: 'sermons by id',
+    fallback: () => ({
+      sermons: ids.flatMap(id => defaultSermons.find(sermon => sermon.id === id) ?? [])
+    }),
+    load: async () => {
+      const sermons = await fetchSermonsByIds(ids)
+      return sermons ? { sermons } : null
+    },
+    describe: ({ sermons }) => `Loaded ${sermons.length} sermons by id from database`
+  })
+}
@@ -0,0 +1,121 @@
+import { CACHE_TAGS } from '@/lib/cache-tags'
+import type { Tables } from '@/lib/database.types'
+import { defaultFooter, defaultNavigation, type FooterSettings, type NavigationItem } from '@/lib/default-content'
+import { settingsRepo } from '@/lib/repositories'
+import { withFallback } from '@/lib/with-fallback'
+import { cachedContent, type LoadedContent } from './cache'
+
+// Site chrome rendered by the root layout on every page: navigation and footer.
+
+async function fetchNavigation(): Promise<{ navigation: NavigationItem[] } | null> {
+  console.log('🔍 Attempting to fetch navigation from database...')
+  const { data: navItems, error } = await settingsRepo.listNavigation()
+
+  console.log('📊 Database query result:', {
+    error: error,
+    dataLength: navItems ? navItems.length : 0
+  })
+
+  if (error) throw error
+  if (!navItems || navItems.length === 0) return null
+
+  // Build navigation tree (parent-child relationships)
+  return { navigation: buildNavigationTree(navItems) }
+}
+
+const fetchCachedNavigation = cachedContent(fetchNavigation, ['navigation'], [CACHE_TAGS.navigation])
+
+export async function getNavigation(): Promise<LoadedContent<{ navigation: NavigationItem[] }>> {
+  const content = await withFallback({
+    label: 'navigation',
+    fallback: () => ({ navigation: defaultNavigation }),
+    load: fetchCachedNavigation
+  })
+
+  return { content, nextChangeAt: null }
+}
+
+// Default footer, with the tenant logo when the database is reachable
+async function getDefaultFooter(databaseAvailable = false): Promise<FooterSettings> {
+  let logoUrl: string | undefined
+
+  if (databaseAvailable) {
+    try {
+      const { data: tenantSettings } = await settingsRepo.getTenantSettings()
+      
+      if (tenantSettings) {
+        logoUrl = tenantSettings.logo_web_url || tenantSettings.logo_white_url || tenantSettings.logo_url || undefined
+      }
+    } catch (error) {
+      console.log('Could not fetch tenant logo for footer fallback:', error)
+    }
+  }
+
+  return { ...defaultFooter, logoUrl }
+}
+
+async function fetchFooter(): Promise<{ footer: FooterSettings } | null> {
+  console.log('🔍 Attempting to fetch footer settings from database...')
+  const { data: footerSettings, error: footerError } = await settingsRepo.getFooterSettings()
+
+  if (footerError) throw footerError
+  if (!footerSettings) return null
+
+  // Convert database format to component format (snake_case to camelCase)
+  return {
+    footer: {
+      enabled: footerSettings.enabled,
+      layout: footerSettings.layout || defaultFooter.layout,
+      backgroundColor: footerSettings.background_color || defaultFooter.backgroundColor,
+      textColor: footerSettings.text_color || defaultFooter.textColor,
+      showChurchLogo: footerSettings.show_church_logo,
+      logoUrl: footerSettings.logo_url || undefined,
+      showCopyright: footerSettings.show_copyright,
+      copyrightText: footerSettings.copyright_text || defaultFooter.copyrightText,
+      // Saved by the admin footer editor in this shape
+      sections: (footerSettings.sections || []) as unknown as FooterSettings['sections']
+    }
+  }
+}
+
+const fetchCachedFooter = cachedContent(fetchFooter, ['footer'], [CACHE_TAGS.footer, CACHE_TAGS.settings])
+
+export async function getFooter(): Promise<LoadedContent<{ footer: FooterSettings }>> {
+  const content = await withFallback({
+    label: 'footer',
+    fallback: async reason => ({ footer: await getDefaultFooter(reason !== 'not_configured') }),
+    load: fetchCachedFooter
+  })
+
+  return { content, nextChangeAt: null }
+}
+
+type NavigationTreeItem = NavigationItem & { children: NavigationItem[] }
+
+function buildNavigationTree(items: Tables<'navigation'>[]): NavigationItem[] {
+  const itemMap = new Map<string, NavigationTreeItem>()
+  const rootItems: NavigationTreeItem[] = []
+
+  // Initialize all items with children array
+  items.forEach(item => {
+    itemMap.set(item.id, { ...item, parent_id: item.parent_id ?? undefined, children: [] })
+  })
+
+  // Build tree structure
+  items.forEach(item => {
+    const itemWithChildren = itemMap.get(item.id)!
+    if (item.parent_id && itemMap.has(item.parent_id)) {
+      itemMap.get(item.parent_id)!.children.push(itemWithChildren)
+    } else {
+      rootItems.push(itemWithChildren)
+    }
+  })
+
+  // Sort by order
+  rootItems.sort((a, b) => a.order - b.order)
+  rootItems.forEach(item => {
+    item.children.sort((a, b) => a.order - b.order)
+  })
+
+  return rootItems
+}
@@ -0,0 +1,61 @@
+import { CACHE_TAGS } from '@/lib/cache-tags'
+import type { Tables } from '@/lib/database.types'
+import { defaultSermons, defaultSpeakers, type SermonSummary, type SpeakerSummary } from '@/lib/default-content'
+import { sermonsRepo, speakersRepo } from '@/lib/repositories'
+import { cachedContent } from './cache'
+
+export interface SpeakerDetail {
+  speaker: SpeakerSummary
+  // Published messages, newest first
+  sermons: SermonSummary[]
+}
+
+export function toSpeakerSummary({ id, name, slug, title, bio, photo_url, aliases }: Tables<'speakers'>): SpeakerSummary {
+  return { id, name, slug, title, bio, photo_url, aliases }
+}
+
+// Published speakers. Throws on query errors.
+async function fetchSpeakers(): Promise<SpeakerSummary[]> {
+  const { data: speakers, error } = await speakersRepo.listPublished()
+  if (error) throw error
+  return (speakers || []).map(toSpeakerSummary)
+}
+
+const fetchCachedSpeakers = cachedContent(fetchSpeakers, ['speakers'], [CACHE_TAGS.speakers])
+
+export async function getSpeakers(): Promise<SpeakerSummary[]> {
+  return fetchCachedSpeakers()
+}
+
+// One published speaker and their message archive. Resolves to null when the
+// speaker does not exist; throws on query errors.
+async function fetchSpeakerDetail(slug: string): Promise<SpeakerDetail | null> {
+  const { data: speaker, error } = await speakersRepo.findBySlug(slug)
+  if (error) throw error
+  if (!speaker) return null
+
+  const { data: sermons, error: sermonsError } = await sermonsRepo.listBySpeaker(speaker.id)
+  if (sermonsError) throw sermonsError
+
+  return { speaker: toSpeakerSummary(speaker), sermons: (sermons || []) as SermonSummary[] }
+}
+
+const fetchCachedSpeakerDetail = cachedContent(
+  fetchSpeakerDetail,
+  ['speaker-detail'],
+  [CACHE_TAGS.speakers, CACHE_TAGS.sermons]
+)
+
+export async function getSpeakerDetail(slug: string): Promise<SpeakerDetail | null> {
+  return fetchCachedSpeakerDetail(slug)
+}
+
+/**
+ * Seed speaker and their default sermons, for when Supabase is not configured.
+ */
+export function getDefaultSpeakerDetail(slug: string): SpeakerDetail | null {
+  const speaker = defaultSpeakers.find(entry => entry.slug === slug)
+  if (!speaker) return null
+
+  return { speaker, sermons: defaultSermons.filter(sermon => sermon.speaker_id === speaker.id) }
+}
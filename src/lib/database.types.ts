@@ -0,0 +1,1555 @@
+// Typed schema for the church's Supabase project, in the format produced by
+// `supabase gen types typescript`. Regenerate after schema changes; every
+// migration in src/db must be reflected here.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      blogs: {
+        Row: {
+          id: string
+          title: string
+          slug: string
+          content: string
+          excerpt: string | null
+          featured_image: string | null
+          author: string
+          status: string
+          published_at: string | null
+          publish_at: string | null
+          unpublish_at: string | null
+          tags: string[]
+          scripture_reference: string | null
+          seo_meta: Json | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          title: string
+          slug: string
+          content: string
+          excerpt?: string | null
+          featured_image?: string | null
+          author: string
+          status?: string
+          published_at?: string | null
+          publish_at?: string | null
+          unpublish_at?: string | null
+          tags?: string[]
+          scripture_reference?: string | null
+          seo_meta?: Json | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          title?: string
+          slug?: string
+          content?: string
+          excerpt?: string | null
+          featured_image?: string | null
+          author?: string
+          status?: string
+          published_at?: string | null
+          publish_at?: string | null
+          unpublish_at?: string | null
+          tags?: string[]
+          scripture_reference?: string | null
+          seo_meta?: Json | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      contact_submissions: {
+        Row: {
+          id: string
+          name: string
+          email: string
+          phone: string | null
+          subject: string
+          category: string | null
+          message: string
+          newsletter_opt_in: boolean
+          is_prayer_request: boolean
+          submitted_at: string
+          status: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          email: string
+          phone?: string | null
+          subject: string
+          category?: string | null
+          message: string
+          newsletter_opt_in?: boolean
+          is_prayer_request?: boolean
+          submitted_at?: string
+          status?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          email?: string
+          phone?: string | null
+          subject?: string
+          category?: string | null
+          message?: string
+          newsletter_opt_in?: boolean
+          is_prayer_request?: boolean
+          submitted_at?: string
+          status?: string
+        }
+        Relationships: []
+      }
+      contacts: {
+        Row: {
+          id: string
+          tenant_id: string | null
+          first_name: string | null
+          last_name: string | null
+          email: string | null
+          phone: string | null
+          profile_image: string | null
+          lifecycle: string
+          source: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          tenant_id?: string | null
+          first_name?: string | null
+          last_name?: string | null
+          email?: string | null
+          phone?: string | null
+          profile_image?: string | null
+          lifecycle?: string
+          source?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          tenant_id?: string | null
+          first_name?: string | null
+          last_name?: string | null
+          email?: string | null
+          phone?: string | null
+          profile_image?: string | null
+          lifecycle?: string
+          source?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      event_images: {
+        Row: {
+          id: string
+          event_id: string
+          url: string
+          alt_text: string | null
+          sort_order: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          event_id: string
+          url: string
+          alt_text?: string | null
+          sort_order?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          event_id?: string
+          url?: string
+          alt_text?: string | null
+          sort_order?: number
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_images_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_occurrence_overrides: {
+        Row: {
+          id: string
+          event_id: string
+          occurrence_start: string
+          event_date: string | null
+          name: string | null
+          description: string | null
+          location: string | null
+          capacity: number | null
+          cancelled: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          event_id: string
+          occurrence_start: string
+          event_date?: string | null
+          name?: string | null
+          description?: string | null
+          location?: string | null
+          capacity?: number | null
+          cancelled?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          event_id?: string
+          occurrence_start?: string
+          event_date?: string | null
+          name?: string | null
+          description?: string | null
+          location?: string | null
+          capacity?: number | null
+          cancelled?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_occurrence_overrides_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      events: {
+        Row: {
+          id: string
+          name: string
+          description: string | null
+          location: string | null
+          capacity: number | null
+          event_date: string
+          is_recurring: boolean
+          rrule: string | null
+          recurrence_exceptions: string[]
+          ministry_group_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          description?: string | null
+          location?: string | null
+          capacity?: number | null
+          event_date: string
+          is_recurring?: boolean
+          rrule?: string | null
+          recurrence_exceptions?: string[]
+          ministry_group_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          description?: string | null
+          location?: string | null
+          capacity?: number | null
+          event_date?: string
+          is_recurring?: boolean
+          rrule?: string | null
+          recurrence_exceptions?: string[]
+          ministry_group_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "events_ministry_group_id_fkey"
+            columns: ["ministry_group_id"]
+            isOneToOne: false
+            referencedRelation: "groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      footer_settings: {
+        Row: {
+          id: string
+          enabled: boolean
+          layout: string | null
+          background_color: string | null
+          text_color: string | null
+          show_church_logo: boolean
+          logo_url: string | null
+          show_copyright: boolean
+          copyright_text: string | null
+          sections: Json | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          enabled?: boolean
+          layout?: string | null
+          background_color?: string | null
+          text_color?: string | null
+          show_church_logo?: boolean
+          logo_url?: string | null
+          show_copyright?: boolean
+          copyright_text?: string | null
+          sections?: Json | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          enabled?: boolean
+          layout?: string | null
+          background_color?: string | null
+          text_color?: string | null
+          show_church_logo?: boolean
+          logo_url?: string | null
+          show_copyright?: boolean
+          copyright_text?: string | null
+          sections?: Json | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      get_involved_templates: {
+        Row: {
+          id: string
+          title: string
+          excerpt: string | null
+          description: string | null
+          featured_image: string | null
+          icon_emoji: string | null
+          gradient_colors: Json | null
+          category: string | null
+          requirements: Json | null
+          benefits: Json | null
+          time_commitment: string | null
+          contact_person: string | null
+          contact_email: string | null
+          contact_phone: string | null
+          custom_cta_text: string | null
+          custom_cta_url: string | null
+          priority_order: number | null
+          ministry_group_id: string | null
+          status: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          title: string
+          excerpt?: string | null
+          description?: string | null
+          featured_image?: string | null
+          icon_emoji?: string | null
+          gradient_colors?: Json | null
+          category?: string | null
+          requirements?: Json | null
+          benefits?: Json | null
+          time_commitment?: string | null
+          contact_person?: string | null
+          contact_email?: string | null
+          contact_phone?: string | null
+          custom_cta_text?: string | null
+          custom_cta_url?: string | null
+          priority_order?: number | null
+          ministry_group_id?: string | null
+          status?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          title?: string
+          excerpt?: string | null
+          description?: string | null
+          featured_image?: string | null
+          icon_emoji?: string | null
+          gradient_colors?: Json | null
+          category?: string | null
+          requirements?: Json | null
+          benefits?: Json | null
+          time_commitment?: string | null
+          contact_person?: string | null
+          contact_email?: string | null
+          contact_phone?: string | null
+          custom_cta_text?: string | null
+          custom_cta_url?: string | null
+          priority_order?: number | null
+          ministry_group_id?: string | null
+          status?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "get_involved_templates_ministry_group_id_fkey"
+            columns: ["ministry_group_id"]
+            isOneToOne: false
+            referencedRelation: "groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      groups: {
+        Row: {
+          id: string
+          name: string
+          description: string | null
+          type: string | null
+          status: string
+          image_url: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          description?: string | null
+          type?: string | null
+          status?: string
+          image_url?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          description?: string | null
+          type?: string | null
+          status?: string
+          image_url?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      media_library: {
+        Row: {
+          id: string
+          url: string
+          type: string
+          alt_text: string | null
+          collection_name: string | null
+          collection_category: string | null
+          collection_date: string | null
+          description: string | null
+          uploaded_at: string
+        }
+        Insert: {
+          id?: string
+          url: string
+          type: string
+          alt_text?: string | null
+          collection_name?: string | null
+          collection_category?: string | null
+          collection_date?: string | null
+          description?: string | null
+          uploaded_at?: string
+        }
+        Update: {
+          id?: string
+          url?: string
+          type?: string
+          alt_text?: string | null
+          collection_name?: string | null
+          collection_category?: string | null
+          collection_date?: string | null
+          description?: string | null
+          uploaded_at?: string
+        }
+        Relationships: []
+      }
+      navigation: {
+        Row: {
+          id: string
+          label: string
+          href: string
+          order: number
+          is_active: boolean
+          parent_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          label: string
+          href: string
+          order?: number
+          is_active?: boolean
+          parent_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          label?: string
+          href?: string
+          order?: number
+          is_active?: boolean
+          parent_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "navigation_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "navigation"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      newsletter_subscribers: {
+        Row: {
+          id: string
+          email: string
+          first_name: string | null
+          last_name: string | null
+          status: string
+          subscription_source: string | null
+          subscribed_at: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          email: string
+          first_name?: string | null
+          last_name?: string | null
+          status?: string
+          subscription_source?: string | null
+          subscribed_at?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          email?: string
+          first_name?: string | null
+          last_name?: string | null
+          status?: string
+          subscription_source?: string | null
+          subscribed_at?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      page_sections: {
+        Row: {
+          id: string
+          page_id: string
+          type: string
+          order: number
+          props: Json | null
+          draft_props: Json | null
+          publish_at: string | null
+          unpublish_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          page_id: string
+          type: string
+          order?: number
+          props?: Json | null
+          draft_props?: Json | null
+          publish_at?: string | null
+          unpublish_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          page_id?: string
+          type?: string
+          order?: number
+          props?: Json | null
+          draft_props?: Json | null
+          publish_at?: string | null
+          unpublish_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "page_sections_page_id_fkey"
+            columns: ["page_id"]
+            isOneToOne: false
+            referencedRelation: "pages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pages: {
+        Row: {
+          id: string
+          slug: string
+          title: string
+          description: string | null
+          seo_meta: Json | null
+          published_at: string | null
+          publish_at: string | null
+          unpublish_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          slug: string
+          title: string
+          description?: string | null
+          seo_meta?: Json | null
+          published_at?: string | null
+          publish_at?: string | null
+          unpublish_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          slug?: string
+          title?: string
+          description?: string | null
+          seo_meta?: Json | null
+          published_at?: string | null
+          publish_at?: string | null
+          unpublish_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      payment_categories: {
+        Row: {
+          id: string
+          name: string
+          description: string | null
+          is_active: boolean
+          order: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          description?: string | null
+          is_active?: boolean
+          order?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          description?: string | null
+          is_active?: boolean
+          order?: number
+          created_at?: string
+        }
+        Relationships: []
+      }
+      planned_visits: {
+        Row: {
+          id: string
+          contact_id: string
+          event_name: string
+          event_date: string
+          event_time: string | null
+          interest_level: string | null
+          how_heard_about_us: string | null
+          coming_with_others: boolean
+          companions_count: number
+          companions_details: string | null
+          special_needs: string | null
+          contact_preference: string | null
+          notes: string | null
+          status: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          contact_id: string
+          event_name: string
+          event_date: string
+          event_time?: string | null
+          interest_level?: string | null
+          how_heard_about_us?: string | null
+          coming_with_others?: boolean
+          companions_count?: number
+          companions_details?: string | null
+          special_needs?: string | null
+          contact_preference?: string | null
+          notes?: string | null
+          status?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          contact_id?: string
+          event_name?: string
+          event_date?: string
+          event_time?: string | null
+          interest_level?: string | null
+          how_heard_about_us?: string | null
+          coming_with_others?: boolean
+          companions_count?: number
+          companions_details?: string | null
+          special_needs?: string | null
+          contact_preference?: string | null
+          notes?: string | null
+          status?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "planned_visits_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      prayer_requests: {
+        Row: {
+          id: string
+          contact_id: string | null
+          title: string
+          description: string
+          status: string
+          submitted_at: string
+          urgency: string
+          is_confidential: boolean
+          source: string | null
+          source_submission_id: string | null
+        }
+        Insert: {
+          id?: string
+          contact_id?: string | null
+          title: string
+          description: string
+          status?: string
+          submitted_at?: string
+          urgency?: string
+          is_confidential?: boolean
+          source?: string | null
+          source_submission_id?: string | null
+        }
+        Update: {
+          id?: string
+          contact_id?: string | null
+          title?: string
+          description?: string
+          status?: string
+          submitted_at?: string
+          urgency?: string
+          is_confidential?: boolean
+          source?: string | null
+          source_submission_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prayer_requests_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_donations: {
+        Row: {
+          id: string
+          contact_id: string | null
+          stripe_subscription_id: string
+          amount: number
+          currency: string
+          interval_type: string
+          interval_count: number
+          fund_designation: string | null
+          status: string
+          started_at: string | null
+          next_payment_date: string | null
+          cancelled_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          contact_id?: string | null
+          stripe_subscription_id: string
+          amount: number
+          currency?: string
+          interval_type: string
+          interval_count?: number
+          fund_designation?: string | null
+          status: string
+          started_at?: string | null
+          next_payment_date?: string | null
+          cancelled_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          contact_id?: string | null
+          stripe_subscription_id?: string
+          amount?: number
+          currency?: string
+          interval_type?: string
+          interval_count?: number
+          fund_designation?: string | null
+          status?: string
+          started_at?: string | null
+          next_payment_date?: string | null
+          cancelled_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_donations_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      registrations: {
+        Row: {
+          id: string
+          event_id: string
+          contact_id: string
+          status: string
+          occurrence_start: string | null
+          promoted_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          event_id: string
+          contact_id: string
+          status?: string
+          occurrence_start?: string | null
+          promoted_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          event_id?: string
+          contact_id?: string
+          status?: string
+          occurrence_start?: string | null
+          promoted_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "registrations_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "registrations_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scripture_passages: {
+        Row: {
+          id: string
+          content_type: string
+          content_id: string
+          book: string
+          book_number: number
+          start_chapter: number
+          start_verse: number | null
+          end_chapter: number
+          end_verse: number | null
+          start_position: number
+          end_position: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          content_type: string
+          content_id: string
+          book: string
+          book_number: number
+          start_chapter: number
+          start_verse?: number | null
+          end_chapter: number
+          end_verse?: number | null
+          start_position: number
+          end_position: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          content_type?: string
+          content_id?: string
+          book?: string
+          book_number?: number
+          start_chapter?: number
+          start_verse?: number | null
+          end_chapter?: number
+          end_verse?: number | null
+          start_position?: number
+          end_position?: number
+          created_at?: string
+        }
+        Relationships: []
+      }
+      sermon_playback_events: {
+        Row: {
+          id: string
+          sermon_id: string
+          session_id: string
+          event: string
+          media: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          sermon_id: string
+          session_id: string
+          event: string
+          media: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          sermon_id?: string
+          session_id?: string
+          event?: string
+          media?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sermon_playback_events_sermon_id_fkey"
+            columns: ["sermon_id"]
+            isOneToOne: false
+            referencedRelation: "sermons"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      sermon_playback_throttle: {
+        Row: {
+          source_hash: string
+          sermon_id: string
+          event: string
+          window_start: string
+          hits: number
+        }
+        Insert: {
+          source_hash: string
+          sermon_id: string
+          event: string
+          window_start: string
+          hits?: number
+        }
+        Update: {
+          source_hash?: string
+          sermon_id?: string
+          event?: string
+          window_start?: string
+          hits?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sermon_playback_throttle_sermon_id_fkey"
+            columns: ["sermon_id"]
+            isOneToOne: false
+            referencedRelation: "sermons"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      sermon_progress: {
+        Row: {
+          contact_id: string
+          sermon_id: string
+          position_seconds: number
+          duration_seconds: number | null
+          completed: boolean
+          updated_at: string
+        }
+        Insert: {
+          contact_id: string
+          sermon_id: string
+          position_seconds?: number
+          duration_seconds?: number | null
+          completed?: boolean
+          updated_at?: string
+        }
+        Update: {
+          contact_id?: string
+          sermon_id?: string
+          position_seconds?: number
+          duration_seconds?: number | null
+          completed?: boolean
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sermon_progress_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sermon_progress_sermon_id_fkey"
+            columns: ["sermon_id"]
+            isOneToOne: false
+            referencedRelation: "sermons"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      sermon_series: {
+        Row: {
+          id: string
+          title: string
+          slug: string
+          description: string | null
+          artwork_url: string | null
+          start_date: string | null
+          end_date: string | null
+          sort_order: number
+          status: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          title: string
+          slug: string
+          description?: string | null
+          artwork_url?: string | null
+          start_date?: string | null
+          end_date?: string | null
+          sort_order?: number
+          status?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          title?: string
+          slug?: string
+          description?: string | null
+          artwork_url?: string | null
+          start_date?: string | null
+          end_date?: string | null
+          sort_order?: number
+          status?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      sermons: {
+        Row: {
+          id: string
+          title: string
+          slug: string
+          description: string | null
+          speaker: string
+          speaker_id: string | null
+          series: string | null
+          series_id: string | null
+          series_order: number | null
+          scripture_reference: string | null
+          sermon_date: string
+          duration: number | null
+          video_type: string
+          video_url: string | null
+          youtube_url: string | null
+          youtube_id: string | null
+          audio_url: string | null
+          thumbnail_image: string | null
+          transcript: string | null
+          captions: string | null
+          notes: string | null
+          chapters: Json
+          outline: string | null
+          tags: string[]
+          status: string
+          view_count: number
+          seo_meta: Json | null
+          publish_at: string | null
+          unpublish_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          title: string
+          slug: string
+          description?: string | null
+          speaker: string
+          speaker_id?: string | null
+          series?: string | null
+          series_id?: string | null
+          series_order?: number | null
+          scripture_reference?: string | null
+          sermon_date: string
+          duration?: number | null
+          video_type?: string
+          video_url?: string | null
+          youtube_url?: string | null
+          youtube_id?: string | null
+          audio_url?: string | null
+          thumbnail_image?: string | null
+          transcript?: string | null
+          captions?: string | null
+          notes?: string | null
+          chapters?: Json
+          outline?: string | null
+          tags?: string[]
+          status?: string
+          view_count?: number
+          seo_meta?: Json | null
+          publish_at?: string | null
+          unpublish_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          title?: string
+          slug?: string
+          description?: string | null
+          speaker?: string
+          speaker_id?: string | null
+          series?: string | null
+          series_id?: string | null
+          series_order?: number | null
+          scripture_reference?: string | null
+          sermon_date?: string
+          duration?: number | null
+          video_type?: string
+          video_url?: string | null
+          youtube_url?: string | null
+          youtube_id?: string | null
+          audio_url?: string | null
+          thumbnail_image?: string | null
+          transcript?: string | null
+          captions?: string | null
+          notes?: string | null
+          chapters?: Json
+          outline?: string | null
+          tags?: string[]
+          status?: string
+          view_count?: number
+          seo_meta?: Json | null
+          publish_at?: string | null
+          unpublish_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sermons_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "sermon_series"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sermons_speaker_id_fkey"
+            columns: ["speaker_id"]
+            isOneToOne: false
+            referencedRelation: "speakers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      speakers: {
+        Row: {
+          id: string
+          name: string
+          slug: string
+          title: string | null
+          bio: string | null
+          photo_url: string | null
+          aliases: string[]
+          sort_order: number
+          status: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          slug: string
+          title?: string | null
+          bio?: string | null
+          photo_url?: string | null
+          aliases?: string[]
+          sort_order?: number
+          status?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          slug?: string
+          title?: string | null
+          bio?: string | null
+          photo_url?: string | null
+          aliases?: string[]
+          sort_order?: number
+          status?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      tenant_settings: {
+        Row: {
+          id: string
+          name: string
+          description: string | null
+          address: string | null
+          contact_email: string | null
+          contact_phone: string | null
+          website: string | null
+          time_zone: string
+          logo_url: string | null
+          logo_web_url: string | null
+          logo_white_url: string | null
+          logo_black_url: string | null
+          logo_mobile_url: string | null
+          logo_admin_url: string | null
+          primary_color: string | null
+          secondary_color: string | null
+          podcast_title: string | null
+          podcast_description: string | null
+          podcast_author: string | null
+          podcast_owner_email: string | null
+          podcast_image_url: string | null
+          podcast_category: string | null
+          podcast_subcategory: string | null
+          podcast_language: string | null
+          podcast_explicit: boolean
+          service_schedule: Json
+          live_stream_url: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          description?: string | null
+          address?: string | null
+          contact_email?: string | null
+          contact_phone?: string | null
+          website?: string | null
+          time_zone?: string
+          logo_url?: string | null
+          logo_web_url?: string | null
+          logo_white_url?: string | null
+          logo_black_url?: string | null
+          logo_mobile_url?: string | null
+          logo_admin_url?: string | null
+          primary_color?: string | null
+          secondary_color?: string | null
+          podcast_title?: string | null
+          podcast_description?: string | null
+          podcast_author?: string | null
+          podcast_owner_email?: string | null
+          podcast_image_url?: string | null
+          podcast_category?: string | null
+          podcast_subcategory?: string | null
+          podcast_language?: string | null
+          podcast_explicit?: boolean
+          service_schedule?: Json
+          live_stream_url?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          description?: string | null
+          address?: string | null
+          contact_email?: string | null
+          contact_phone?: string | null
+          website?: string | null
+          time_zone?: string
+          logo_url?: string | null
+          logo_web_url?: string | null
+          logo_white_url?: string | null
+          logo_black_url?: string | null
+          logo_mobile_url?: string | null
+          logo_admin_url?: string | null
+          primary_color?: string | null
+          secondary_color?: string | null
+          podcast_title?: string | null
+          podcast_description?: string | null
+          podcast_author?: string | null
+          podcast_owner_email?: string | null
+          podcast_image_url?: string | null
+          podcast_category?: string | null
+          podcast_subcategory?: string | null
+          podcast_language?: string | null
+          podcast_explicit?: boolean
+          service_schedule?: Json
+          live_stream_url?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      transactions: {
+        Row: {
+          id: string
+          contact_id: string | null
+          amount: number
+          currency: string
+          category: string | null
+          payment_method: string | null
+          payment_status: string
+          transacted_at: string | null
+          notes: string | null
+          stripe_payment_intent_id: string | null
+          stripe_customer_id: string | null
+          stripe_charge_id: string | null
+          stripe_invoice_id: string | null
+          stripe_subscription_id: string | null
+          is_anonymous: boolean
+          is_recurring: boolean
+          fund_designation: string | null
+          metadata: Json | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          contact_id?: string | null
+          amount: number
+          currency?: string
+          category?: string | null
+          payment_method?: string | null
+          payment_status?: string
+          transacted_at?: string | null
+          notes?: string | null
+          stripe_payment_intent_id?: string | null
+          stripe_customer_id?: string | null
+          stripe_charge_id?: string | null
+          stripe_invoice_id?: string | null
+          stripe_subscription_id?: string | null
+          is_anonymous?: boolean
+          is_recurring?: boolean
+          fund_designation?: string | null
+          metadata?: Json | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          contact_id?: string | null
+          amount?: number
+          currency?: string
+          category?: string | null
+          payment_method?: string | null
+          payment_status?: string
+          transacted_at?: string | null
+          notes?: string | null
+          stripe_payment_intent_id?: string | null
+          stripe_customer_id?: string | null
+          stripe_charge_id?: string | null
+          stripe_invoice_id?: string | null
+          stripe_subscription_id?: string | null
+          is_anonymous?: boolean
+          is_recurring?: boolean
+          fund_designation?: string | null
+          metadata?: Json | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transactions_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      website_messages: {
+        Row: {
+          id: string
+          name: string
+          email: string
+          phone: string | null
+          subject: string
+          category: string | null
+          message: string
+          source: string | null
+          newsletter_opt_in: boolean
+          submitted_at: string
+          status: string
+          is_prayer_request: boolean
+        }
+        Insert: {
+          id?: string
+          name: string
+          email: string
+          phone?: string | null
+          subject: string
+          category?: string | null
+          message: string
+          source?: string | null
+          newsletter_opt_in?: boolean
+          submitted_at?: string
+          status?: string
+          is_prayer_request?: boolean
+        }
+        Update: {
+          id?: string
+          name?: string
+          email?: string
+          phone?: string | null
+          subject?: string
+          category?: string | null
+          message?: string
+          source?: string | null
+          newsletter_opt_in?: boolean
+          submitted_at?: string
+          status?: string
+          is_prayer_request?: boolean
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      cancel_event_registration: {
+        Args: {
+          target_registration: string
+          contact_email: string
+        }
+        Returns: boolean
+      }
+      most_watched_sermons: {
+        Args: {
+          since: string
+          as_of?: string
+          result_limit?: number
+        }
+        Returns: {
+          sermon_id: string
+          views: number
+        }[]
+      }
+      record_sermon_playback: {
+        Args: {
+          target_sermon: string
+          target_session: string
+          playback_event: string
+          playback_media: string
+          target_source: string
+        }
+        Returns: boolean
+      }
+      register_for_event: {
+        Args: {
+          target_event: string
+          target_contact: string
+          target_occurrence?: string | null
+        }
+        Returns: {
+          id: string
+          status: string
+          waitlist_position: number | null
+        }[]
+      }
+      replace_scripture_passages: {
+        Args: {
+          target_type: string
+          target_content: string
+          passages: Json
+        }
+        Returns: number
+      }
+      search_sermons: {
+        Args: {
+          search_query: string
+          scripture_ids?: string[]
+          series_filter?: string | null
+          speaker_filter?: string | null
+          as_of?: string
+          page_offset?: number
+          page_limit?: number
+        }
+        Returns: {
+          id: string
+          rank: number
+          snippet: string | null
+          total_count: number
+        }[]
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database['public']
+
+export type Tables<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Row']
+export type TablesInsert<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Insert']
+export type TablesUpdate<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Update']
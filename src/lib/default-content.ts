@@ -0,0 +1,1150 @@
+// Seed content served when the CMS has nothing to show (see withFallback).
+// Shared by the API routes and the client hooks, which render it as their
+// initial state, so it must stay free of server-only imports.
+
+import type { Json, Tables } from '@/lib/database.types'
+import type { ServiceTime } from '@/lib/live-schedule'
+import type { VideoType } from '@/lib/video-providers'
+
+export interface NavigationItem {
+  id: string
+  label: string
+  href: string
+  order: number
+  is_active: boolean
+  parent_id?: string
+  children?: NavigationItem[]
+}
+
+// A published get_involved_templates row, or a ministry group standing in
+// for one when there are none
+export type GetInvolvedTemplate = Pick<
+  Tables<'get_involved_templates'>,
+  'id' | 'title' | 'excerpt' | 'description' | 'featured_image' | 'icon_emoji' | 'category' |
+  'time_commitment' | 'contact_person' | 'custom_cta_text' | 'priority_order'
+> & {
+  gradient_colors: Json | null
+}
+
+export interface HomepageContent {
+  hero: {
+    first_line?: string
+    title: string
+    subtitle: string
+    description: string
+    cta_primary: { text: string; href: string }
+    cta_secondary: { text: string; href: string }
+    background_video?: string
+    background_image?: string
+  }
+  events_carousel: {
+    title: string
+    subtitle: string
+    description: string
+    show_events: boolean
+    events_limit: number
+  }
+  testimonials: {
+    title: string
+    subtitle: string
+    featured_testimonials: Array<{
+      name: string
+      role: string
+      quote: string
+      has_video: boolean
+      video_url?: string
+      image_url?: string
+    }>
+  }
+  our_story: {
+    first_line: string
+    main_header: string
+    paragraph_text: string
+    media_url?: string
+    media_type: string
+    button_text?: string
+    button_link?: string
+    button_style?: string
+    stats: Array<{
+      number: string
+      label: string
+      icon?: string
+    }>
+    ministry_highlights: Array<{
+      title: string
+      video_url?: string
+      description: string
+    }>
+    community_impact: {
+      title: string
+      video_url?: string
+      description: string
+    }
+  }
+  sermon_preview: {
+    title: string
+    subtitle: string
+    featured_sermon: {
+      title: string
+      speaker: string
+      date: string
+      description: string
+    }
+  }
+  // Only when the homepage has a get_involved section
+  get_involved?: {
+    title: string
+    subtitle: string
+    description: string
+    show_all_link: boolean
+    all_link_text: string
+    all_link_url: string
+    max_items: number
+    filter_categories: string[]
+    layout: string
+    templates: GetInvolvedTemplate[]
+  }
+}
+
+export type AboutContent = {
+  hero: {
+    first_line_text: string
+    heading: string
+    subheading: string
+    background_image: string
+  }
+  our_story: {
+    first_line: string
+    main_header: string
+    paragraph_text: string
+    media_url: string
+    media_type: 'image' | 'video'
+    button_text: string
+    button_link: string
+    button_style: 'primary' | 'secondary'
+    ministry_highlights: Array<{
+      title: string
+      video_url: string
+      description: string
+    }>
+    community_impact: {
+      title: string
+      video_url: string
+      description: string
+    }
+  }
+  mission_vision: {
+    section_title: string
+    section_heading: string
+    section_description: string
+    mission: {
+      title: string
+      content: string
+      items: string[]
+      media_url?: string
+    }
+    vision: {
+      title: string
+      content: string
+      items: string[]
+      media_url?: string
+    }
+    values: Array<{
+      title: string
+      description: string
+      icon: string
+    }>
+  }
+  leadership: {
+    title: string
+    subtitle: string
+    description: string
+    team_members: Array<{
+      name: string
+      position: string
+      bio: string
+      image_url: string
+      social_links: Array<{
+        platform: string
+        url: string
+      }>
+      areas_of_ministry?: string[]
+      // Speaker page of this team member, when they preach
+      speaker_slug?: string
+    }>
+  }
+  join_us: {
+    title: string
+    subtitle: string
+    description: string
+    cta_primary: {
+      text: string
+      href: string
+    }
+    cta_secondary: {
+      text: string
+      href: string
+    }
+  }
+}
+
+export interface FooterLink {
+  id: string
+  label: string
+  url: string
+  external?: boolean
+  enabled: boolean
+}
+
+export interface FooterSocialLink {
+  platform: string
+  url: string
+  enabled: boolean
+}
+
+// What a footer section shows; which fields are used depends on its type
+export interface FooterSectionContent {
+  description?: string
+  showSocial?: boolean
+  socialLinks?: FooterSocialLink[]
+  links?: FooterLink[]
+  address?: string
+  phone?: string
+  email?: string
+  serviceTimes?: string[]
+  iosUrl?: string
+  androidUrl?: string
+}
+
+export type FooterSection = {
+  id: string
+  title: string
+  type: 'links' | 'contact' | 'social' | 'newsletter' | 'custom' | 'app_download'
+  content: FooterSectionContent
+  order: number
+  enabled: boolean
+}
+
+export type FooterSettings = {
+  enabled: boolean
+  layout: string
+  backgroundColor: string
+  textColor: string
+  showChurchLogo: boolean
+  logoUrl?: string
+  showCopyright: boolean
+  copyrightText: string
+  sections: FooterSection[]
+}
+
+export interface EventSummary {
+  id: string
+  // A recurring event appears once per occurrence, each identified by its
+  // scheduled start; null for one-off events
+  occurrence_start: string | null
+  name: string
+  // When this occurrence starts
+  event_date: string
+  // Local calendar date in the tenant's time zone, YYYY-MM-DD
+  local_date: string
+  location: string
+  description: string
+  capacity: number | null
+  primary_image: {
+    url: string
+    alt_text: string | null
+  } | null
+  gradient: string
+  type: string
+}
+
+// Events on a span of days, for the event calendar
+export interface EventRange {
+  events: EventSummary[]
+  // The tenant's time zone, which the range's days are in
+  timeZone: string
+  // First day of the range and the day after it ends, YYYY-MM-DD
+  from: string
+  to: string
+}
+
+export interface EventsPageHero {
+  first_line_text: string
+  heading: string
+  subheading: string
+  background_image: string | null
+  cta_primary: string
+  cta_secondary: string
+  cta_primary_link?: string
+  cta_secondary_link?: string
+}
+
+export interface EventsPageUpcomingEvents {
+  section_title: string
+  section_heading: string
+  section_description: string
+  show_filters?: boolean
+  events_per_page?: number
+}
+
+export interface EventsPageContent {
+  hero: EventsPageHero
+  upcoming_events: EventsPageUpcomingEvents
+}
+
+export interface FundDesignation {
+  id: string
+  name: string
+  description: string
+}
+
+export interface GivingPageContent {
+  hero: {
+    first_line_text: string
+    heading: string
+    subheading: string
+    background_image?: string | null
+    cta_primary: string
+    cta_secondary: string
+  }
+  giving_methods: {
+    section_title: string
+    section_heading: string
+    section_description: string
+    methods: Array<{
+      id: string
+      title: string
+      description: string
+      icon: string
+      features: string[]
+    }>
+  }
+  fund_designations: FundDesignation[]
+  impact: {
+    section_title: string
+    section_heading: string
+    section_description: string
+    stats: Array<{
+      label: string
+      value: string
+      description: string
+    }>
+  }
+}
+
+export interface SermonSummary {
+  id: string
+  title: string
+  slug: string
+  description: string
+  speaker: string
+  speaker_id?: string | null
+  series?: string
+  series_id?: string | null
+  series_order?: number | null
+  scripture_reference?: string
+  sermon_date: string
+  duration?: number
+  video_type: VideoType
+  video_url?: string
+  youtube_url?: string
+  youtube_id?: string
+  audio_url?: string
+  thumbnail_image?: string
+  tags: string[]
+  status: string
+  view_count: number
+}
+
+export interface SermonSeriesSummary {
+  id: string
+  title: string
+  slug: string
+  description: string | null
+  artwork_url: string | null
+  // Explicit dates; when unset the episode dates are used instead
+  start_date: string | null
+  end_date: string | null
+  sort_order: number
+  // Published episodes, with the dates of the first and the latest
+  sermon_count: number
+  first_sermon_date: string | null
+  last_sermon_date: string | null
+}
+
+export interface SpeakerSummary {
+  id: string
+  name: string
+  slug: string
+  title: string | null
+  bio: string | null
+  photo_url: string | null
+  // Other spellings of the name
+  aliases: string[]
+}
+
+export interface BlogPost {
+  id: string
+  title: string
+  slug: string
+  content: string
+  excerpt: string
+  featured_image?: string
+  author: string
+  status: 'draft' | 'published' | 'archived'
+  published_at: string | null
+  tags: string[]
+  seo_meta: {
+    title?: string
+    description?: string
+    keywords?: string[]
+  }
+  created_at: string
+  updated_at: string
+}
+
+export const defaultNavigation: NavigationItem[] = [
+  { id: '1', label: 'Home', href: '/', order: 0, is_active: true },
+  { id: '2', label: 'About', href: '/about', order: 1, is_active: true },
+  { id: '3', label: 'Events', href: '/events', order: 2, is_active: true },
+  { 
+    id: '4', 
+    label: 'Media', 
+    href: '#', 
+    order: 3, 
+    is_active: true,
+    children: [
+      { id: '4a', label: 'Sermons', href: '/media/sermons', order: 0, is_active: true, parent_id: '4' },
+      { id: '4b', label: 'Gallery', href: '/media/gallery', order: 1, is_active: true, parent_id: '4' },
+      { id: '4c', label: 'Blog', href: '/media/blog', order: 2, is_active: true, parent_id: '4' },
+      { id: '4d', label: 'Watch Live', href: '/live', order: 3, is_active: true, parent_id: '4' }
+    ]
+  },
+  { id: '5', label: 'Contact', href: '/contact', order: 4, is_active: true }
+]
+
+export const defaultHomepage: HomepageContent = {
+  hero: {
+    first_line: "We are passionate about the LORD JESUS and demonstrating HIM to the world!",
+    title: "Demonstrating CHRIST to the World!",
+    subtitle: "Every Sunday, An Impact.",
+    description: "As a Christ-centered community, we craft meaningful experiences that engage, inspire, and leave a lasting impression on every heart we touch.",
+    cta_primary: { text: "Get in touch", href: "/contact" },
+    cta_secondary: { text: "Watch our story", href: "/media" }
+  },
+  events_carousel: {
+    title: "Upcoming events & gatherings.",
+    subtitle: "Join Us",
+    description: "Connect, grow, and make lasting relationships through our community events, worship services, and fellowship opportunities.",
+    show_events: true,
+    events_limit: 4
+  },
+  testimonials: {
+    title: "Members about our community.",
+    subtitle: "Testimonials",
+    featured_testimonials: [
+      {
+        name: "Sarah Johnson",
+        role: "Church Member",
+        quote: "Joining DOCM Church was a life-changing decision for our family. The community here brought our faith to life in a way that truly connected with our hearts and transformed our daily walk with Christ.",
+        has_video: true,
+        video_url: "https://sample-videos.com/zip/10/mp4/480/SampleVideo_360x240_1mb.mp4",
+        image_url: "https://images.unsplash.com/photo-1594736797933-d0401ba8d8ed?q=80&w=1000&auto=format&fit=crop"
+      },
+      {
+        name: "Pastor Michael",
+        role: "Lead Pastor",
+        quote: "Witnessing God's transformative power through our community outreach programs has been incredible. Lives are being changed, families restored, and hope renewed every single day.",
+        has_video: true,
+        video_url: "https://sample-videos.com/zip/10/mp4/480/SampleVideo_720x480_1mb.mp4",
+        image_url: "https://images.unsplash.com/photo-1560472354-b33ff0c44a43?q=80&w=1000&auto=format&fit=crop"
+      }
+    ]
+  },
+  our_story: {
+    first_line: "Our Story",
+    main_header: "Building communities that transform lives.",
+    paragraph_text: "For over two decades, DOCM Church has been a beacon of hope and faith in our community. We are a family-oriented church that believes in the transformative power of God's love.\n\nOur mission is to make disciples of Jesus Christ by loving God, loving others, and serving our community with excellence, integrity, and unwavering compassion.",
+    media_url: "",
+    media_type: "video",
+    button_text: "Learn More",
+    button_link: "/about",
+    button_style: "primary",
+    stats: [
+      { number: "500+", label: "Active Members", icon: "👥" },
+      { number: "15", label: "Ministries", icon: "🤝" },
+      { number: "20+", label: "Years Serving", icon: "⭐" }
+    ],
+    ministry_highlights: [
+      {
+        title: "Ministry Highlights",
+        video_url: "",
+        description: "Discover the impact of our ministry programs"
+      }
+    ],
+    community_impact: {
+      title: "Community Impact",
+      video_url: "",
+      description: "See how we're making a difference in our neighborhood"
+    }
+  },
+  sermon_preview: {
+    title: "Latest Message",
+    subtitle: "Recent Teaching",
+    featured_sermon: {
+      title: "Finding Your Purpose in God's Plan",
+      speaker: "Pastor Michael Johnson",
+      date: "January 21, 2024",
+      description: "Discover how God has a unique plan and purpose for your life, and learn practical steps to align your goals with His will."
+    }
+  }
+}
+
+export const defaultAbout: AboutContent = {
+  hero: {
+    first_line_text: "About",
+    heading: "Building community that loves Jesus!",
+    subheading: "About DOCM Church",
+    background_image: ""
+  },
+  our_story: {
+    first_line: "Our Story",
+    main_header: "Building communities that transform lives.",
+    paragraph_text: "For over two decades, DOCM Church has been a beacon of hope and faith in our community. We are a family-oriented church that believes in the transformative power of God's love.\n\nOur mission is to make disciples of Jesus Christ by loving God, loving others, and serving our community with excellence, integrity, and unwavering compassion.",
+    media_url: "",
+    media_type: "video",
+    button_text: "Learn More",
+    button_link: "/contact",
+    button_style: "primary",
+    ministry_highlights: [
+      {
+        title: "Ministry Highlights",
+        video_url: "",
+        description: "Discover the impact of our ministry programs"
+      }
+    ],
+    community_impact: {
+      title: "Community Impact",
+      video_url: "",
+      description: "See how we're making a difference in our neighborhood"
+    }
+  },
+  mission_vision: {
+    section_title: "Our Purpose",
+    section_heading: "Mission & Vision", 
+    section_description: "Our mission guides everything we do, and our vision inspires where we're going",
+    mission: {
+      title: "Our Mission",
+      content: "To make disciples of Jesus Christ by loving God, loving others, and serving our community with excellence, integrity, and unwavering compassion.",
+      items: [],
+      media_url: ""
+    },
+    vision: {
+      title: "Our Vision", 
+      content: "To be a thriving community of believers who actively live out their faith, making a positive impact in Aurora, Colorado and beyond.",
+      items: [],
+      media_url: ""
+    },
+    values: [
+      {
+        title: "Faith",
+        description: "Grounded in biblical truth and lived out daily",
+        icon: "✝️"
+      },
+      {
+        title: "Community",
+        description: "Building authentic relationships and belonging",
+        icon: "🤝"
+      },
+      {
+        title: "Service",
+        description: "Serving our community with love and compassion",
+        icon: "❤️"
+      },
+      {
+        title: "Growth",
+        description: "Continually growing in spiritual maturity",
+        icon: "🌱"
+      }
+    ]
+  },
+  leadership: {
+    title: "Leadership Team",
+    subtitle: "Meet Our Team",
+    description: "God has blessed us with passionate leaders who are committed to serving our church family and community.",
+    team_members: [
+      {
+        name: "Pastor Michael Johnson",
+        position: "Lead Pastor",
+        bio: "Pastor Michael has been leading DOCM Church with vision and passion for over 15 years.",
+        image_url: "",
+        social_links: []
+      },
+      {
+        name: "Pastor Sarah Johnson", 
+        position: "Associate Pastor",
+        bio: "Pastor Sarah oversees our community outreach and women's ministry programs.",
+        image_url: "",
+        social_links: []
+      }
+    ]
+  },
+  join_us: {
+    title: "Join Our Community",
+    subtitle: "Take Your Next Step",
+    description: "Whether you're new to faith or looking for a church home, we'd love to welcome you into our family.",
+    cta_primary: { text: "Plan Your Visit", href: "/contact" },
+    cta_secondary: { text: "Watch Online", href: "/sermons" }
+  }
+}
+
+// The footer route fills in logoUrl from tenant settings when it can
+export const defaultFooter: FooterSettings = {
+  enabled: true,
+  layout: 'columns',
+  backgroundColor: '#1f2937',
+  textColor: '#ffffff',
+  showChurchLogo: true,
+  showCopyright: true,
+  copyrightText: '© 2024 DOCM Church. All rights reserved.',
+  sections: [
+    {
+      id: 'church-info',
+      title: 'DOCM Church',
+      type: 'custom',
+      content: {
+        description: 'Building a community of faith that transforms lives through God\'s love, worship, and service to others.',
+        showSocial: true,
+        socialLinks: [
+          { platform: 'facebook', url: '#', enabled: true },
+          { platform: 'instagram', url: '#', enabled: true },
+          { platform: 'youtube', url: '#', enabled: true }
+        ]
+      },
+      order: 1,
+      enabled: true
+    },
+    {
+      id: 'quick-links',
+      title: 'Quick Links',
+      type: 'links',
+      content: {
+        links: [
+          { id: '1', label: 'About Us', url: '/about', external: false, enabled: true },
+          { id: '2', label: 'Ministries', url: '/ministries', external: false, enabled: true },
+          { id: '3', label: 'Events', url: '/events', external: false, enabled: true },
+          { id: '4', label: 'Sermons', url: '/sermons', external: false, enabled: true },
+          { id: '5', label: 'Contact', url: '/contact', external: false, enabled: true },
+          { id: '6', label: 'Give', url: '/give', external: false, enabled: true }
+        ]
+      },
+      order: 2,
+      enabled: true
+    },
+    {
+      id: 'ministries',
+      title: 'Ministries',
+      type: 'links',
+      content: {
+        links: [
+          { id: '1', label: 'Children\'s Ministry', url: '/ministries/children', external: false, enabled: true },
+          { id: '2', label: 'Youth Ministry', url: '/ministries/youth', external: false, enabled: true },
+          { id: '3', label: 'Worship Team', url: '/ministries/worship', external: false, enabled: true },
+          { id: '4', label: 'Community Outreach', url: '/ministries/outreach', external: false, enabled: true }
+        ]
+      },
+      order: 3,
+      enabled: true
+    },
+    {
+      id: 'contact',
+      title: 'Contact & Service Times',
+      type: 'contact',
+      content: {
+        address: '123 Church Street\nCity, State 12345',
+        phone: '(555) 123-4567',
+        email: 'info@docmchurch.com',
+        serviceTimes: [
+          'Sunday: 9:00 AM & 11:00 AM',
+          'Wednesday: 7:00 PM',
+          'Friday Youth: 7:00 PM'
+        ]
+      },
+      order: 4,
+      enabled: true
+    },
+    {
+      id: 'app-download',
+      title: 'Download Our App',
+      type: 'app_download',
+      content: {
+        iosUrl: '#',
+        androidUrl: '#',
+        description: 'Stay connected with our church community. Get sermon notes, event updates, and more.'
+      },
+      order: 5,
+      enabled: true
+    }
+  ]
+}
+
+export const defaultEvents: EventSummary[] = [
+  {
+    id: 'default-1',
+    occurrence_start: null,
+    name: "Sunday Worship Experience",
+    event_date: "2024-01-28T09:00:00",
+    local_date: "2024-01-28",
+    location: "Main Sanctuary",
+    description: "Join us for an inspiring worship experience with contemporary music and biblical teaching.",
+    capacity: 200,
+    primary_image: null,
+    gradient: "from-blue-800 to-indigo-900",
+    type: "worship"
+  },
+  {
+    id: 'default-2',
+    occurrence_start: null,
+    name: "Midweek Connection",
+    event_date: "2024-01-31T19:00:00",
+    local_date: "2024-01-31",
+    location: "Fellowship Hall",
+    description: "Dive deeper into God's word through interactive Bible study and fellowship.",
+    capacity: 50,
+    primary_image: null,
+    gradient: "from-purple-800 to-pink-900",
+    type: "study"
+  },
+  {
+    id: 'default-3',
+    occurrence_start: null,
+    name: "Youth Ignite Night",
+    event_date: "2024-02-02T19:00:00",
+    local_date: "2024-02-02",
+    location: "Youth Center",
+    description: "High-energy youth service with games, worship, and relevant messages for teens.",
+    capacity: 100,
+    primary_image: null,
+    gradient: "from-green-800 to-teal-900",
+    type: "youth"
+  },
+  {
+    id: 'default-4',
+    occurrence_start: null,
+    name: "Community Outreach",
+    event_date: "2024-02-05T10:00:00",
+    local_date: "2024-02-05",
+    location: "Community Center",
+    description: "Join us as we serve our community with love and compassion through various outreach programs.",
+    capacity: 150,
+    primary_image: null,
+    gradient: "from-orange-800 to-red-900",
+    type: "outreach"
+  }
+]
+
+export const defaultEventsPage: EventsPageContent = {
+  hero: {
+    first_line_text: "Events",
+    heading: "Connecting hearts through fellowship.",
+    subheading: "Join us for meaningful gatherings, celebrations, and opportunities to grow in faith together. From worship services to community outreach, discover events that inspire and unite our church family.",
+    background_image: null,
+    cta_primary: "View Events",
+    cta_secondary: "Get Involved",
+    cta_primary_link: "#upcoming-events",
+    cta_secondary_link: "/contact"
+  },
+  upcoming_events: {
+    section_title: "What's Coming Up",
+    section_heading: "Upcoming Events",
+    section_description: "Don't miss these opportunities to connect, grow, and serve together as a church family",
+    show_filters: true,
+    events_per_page: 10
+  }
+}
+
+export const defaultGivingPage: GivingPageContent = {
+  hero: {
+    first_line_text: "Give",
+    heading: "Your generosity changes lives.",
+    subheading: "Through your faithful giving, we're able to serve our community, support missions, and further God's kingdom. Every gift, large or small, makes a meaningful difference.",
+    background_image: null,
+    cta_primary: "Make a Donation",
+    cta_secondary: "Learn More"
+  },
+  giving_methods: {
+    section_title: "Ways to Give",
+    section_heading: "Multiple Giving Options",
+    section_description: "Choose the giving method that works best for you. All donations are secure and tax-deductible.",
+    methods: [
+      {
+        id: 'online',
+        title: 'Online Giving',
+        description: 'Secure, convenient giving through our website',
+        icon: 'credit-card',
+        features: ['One-time or recurring', 'Instant receipts', 'Multiple payment methods']
+      },
+      {
+        id: 'text',
+        title: 'Text to Give',
+        description: 'Quick giving via text message',
+        icon: 'phone',
+        features: ['Text amount to donate', 'Set up recurring gifts', 'Secure and simple']
+      },
+      {
+        id: 'check',
+        title: 'Check or Cash',
+        description: 'Traditional giving methods welcomed',
+        icon: 'banknote',
+        features: ['Drop in offering', 'Mail to church', 'In-person giving']
+      }
+    ]
+  },
+  fund_designations: [
+    { id: 'general', name: 'General Fund', description: 'Supports overall church operations and ministries' },
+    { id: 'building', name: 'Building Fund', description: 'Facility improvements and expansion projects' },
+    { id: 'missions', name: 'Missions', description: 'Supporting missionaries and outreach efforts' },
+    { id: 'youth', name: 'Youth Ministry', description: 'Programs and activities for young people' },
+    { id: 'children', name: 'Children\'s Ministry', description: 'Kids programs and Sunday school' },
+    { id: 'outreach', name: 'Community Outreach', description: 'Local community service and support' }
+  ],
+  impact: {
+    section_title: "Your Impact",
+    section_heading: "See How Your Gifts Make a Difference",
+    section_description: "Your faithful giving enables us to transform lives and serve our community in countless ways.",
+    stats: [
+      { label: "Families Served", value: "500+", description: "Through our food pantry and assistance programs" },
+      { label: "Youth Impacted", value: "150+", description: "Participating in youth programs and activities" },
+      { label: "Missionaries Supported", value: "12", description: "Local and international mission work" },
+      { label: "Community Events", value: "25+", description: "Annual outreach and service events" }
+    ]
+  }
+}
+
+export const defaultSermons: SermonSummary[] = [
+  {
+    id: 'default-1',
+    title: 'Finding Your Purpose in God\'s Plan',
+    slug: 'finding-purpose-gods-plan',
+    description: 'Discover how God has a unique plan and purpose for your life, and learn practical steps to align your goals with His will.',
+    speaker: 'Pastor Michael Johnson',
+    speaker_id: 'default-speaker-1',
+    series: 'Life Purpose',
+    series_id: 'default-series-1',
+    scripture_reference: 'Jeremiah 29:11',
+    sermon_date: '2024-01-21',
+    duration: 45,
+    video_type: 'youtube',
+    youtube_url: 'https://youtube.com/watch?v=dQw4w9WgXcQ',
+    youtube_id: 'dQw4w9WgXcQ',
+    thumbnail_image: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=800&h=600&fit=crop',
+    tags: ['purpose', 'calling', 'faith'],
+    status: 'published',
+    view_count: 245
+  },
+  {
+    id: 'default-2',
+    title: 'Walking in Faith',
+    slug: 'walking-in-faith',
+    description: 'Building unshakeable faith in uncertain times through trust in God\'s promises.',
+    speaker: 'Pastor Sarah Johnson',
+    speaker_id: 'default-speaker-2',
+    series: 'Faith Foundations',
+    series_id: 'default-series-2',
+    scripture_reference: 'Hebrews 11:1',
+    sermon_date: '2024-01-14',
+    duration: 38,
+    video_type: 'youtube',
+    youtube_url: 'https://youtube.com/watch?v=dQw4w9WgXcQ',
+    youtube_id: 'dQw4w9WgXcQ',
+    thumbnail_image: 'https://images.unsplash.com/photo-1544027993-37dbfe43562a?w=800&h=600&fit=crop',
+    tags: ['faith', 'trust', 'hope'],
+    status: 'published',
+    view_count: 189
+  },
+  {
+    id: 'default-3',
+    title: 'Love in Action',
+    slug: 'love-in-action',
+    description: 'Demonstrating Christ\'s love through practical service and compassion.',
+    speaker: 'Pastor David Chen',
+    speaker_id: 'default-speaker-4',
+    series: 'Living Love',
+    series_id: 'default-series-3',
+    scripture_reference: '1 John 3:18',
+    sermon_date: '2024-01-07',
+    duration: 42,
+    video_type: 'youtube',
+    youtube_url: 'https://youtube.com/watch?v=dQw4w9WgXcQ',
+    youtube_id: 'dQw4w9WgXcQ',
+    thumbnail_image: 'https://images.unsplash.com/photo-1469571486292-0ba58a3f068b?w=800&h=600&fit=crop',
+    tags: ['love', 'service', 'compassion'],
+    status: 'published',
+    view_count: 156
+  },
+  {
+    id: 'default-4',
+    title: 'The Power of Prayer',
+    slug: 'power-of-prayer',
+    description: 'Learn how to develop a powerful prayer life that transforms both you and your circumstances.',
+    speaker: 'Pastor Sarah Williams',
+    speaker_id: 'default-speaker-3',
+    series: 'Prayer Life',
+    series_id: 'default-series-4',
+    scripture_reference: 'Matthew 6:9-13',
+    sermon_date: '2023-12-31',
+    duration: 35,
+    video_type: 'youtube',
+    youtube_url: 'https://youtube.com/watch?v=dQw4w9WgXcQ',
+    youtube_id: 'dQw4w9WgXcQ',
+    thumbnail_image: 'https://images.unsplash.com/photo-1438032005730-c779502df39b?w=800&h=600&fit=crop',
+    tags: ['prayer', 'spiritual discipline', 'communion'],
+    status: 'published',
+    view_count: 203
+  },
+  {
+    id: 'default-5',
+    title: 'God\'s Grace in Trials',
+    slug: 'gods-grace-trials',
+    description: 'Finding hope and strength in God\'s sufficient grace during life\'s most difficult moments.',
+    speaker: 'Pastor Michael Johnson',
+    speaker_id: 'default-speaker-1',
+    series: 'Grace & Truth',
+    series_id: 'default-series-5',
+    scripture_reference: '2 Corinthians 12:9',
+    sermon_date: '2023-12-24',
+    duration: 40,
+    video_type: 'youtube',
+    youtube_url: 'https://youtube.com/watch?v=dQw4w9WgXcQ',
+    youtube_id: 'dQw4w9WgXcQ',
+    thumbnail_image: 'https://images.unsplash.com/photo-1500479694472-551d1fb19407?w=800&h=600&fit=crop',
+    tags: ['grace', 'trials', 'perseverance'],
+    status: 'published',
+    view_count: 134
+  },
+  {
+    id: 'default-6',
+    title: 'Building Community',
+    slug: 'building-community',
+    description: 'Creating authentic relationships and fostering genuine fellowship within the church family.',
+    speaker: 'Pastor David Chen',
+    speaker_id: 'default-speaker-4',
+    series: 'Community Life',
+    series_id: 'default-series-6',
+    scripture_reference: 'Acts 2:42-47',
+    sermon_date: '2023-12-17',
+    duration: 33,
+    video_type: 'youtube',
+    youtube_url: 'https://youtube.com/watch?v=dQw4w9WgXcQ',
+    youtube_id: 'dQw4w9WgXcQ',
+    thumbnail_image: 'https://images.unsplash.com/photo-1517486808906-6ca8b3f04846?w=800&h=600&fit=crop',
+    tags: ['community', 'fellowship', 'relationships'],
+    status: 'published',
+    view_count: 167
+  }
+]
+
+export const defaultSermonSeries: SermonSeriesSummary[] = [
+  {
+    id: 'default-series-1',
+    title: 'Life Purpose',
+    slug: 'life-purpose',
+    description: 'Discovering the unique plan God has for each of us and learning to walk in it with confidence.',
+    artwork_url: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=1200&h=800&fit=crop',
+    start_date: null,
+    end_date: null,
+    sort_order: 0,
+    sermon_count: 1,
+    first_sermon_date: '2024-01-21',
+    last_sermon_date: '2024-01-21'
+  },
+  {
+    id: 'default-series-2',
+    title: 'Faith Foundations',
+    slug: 'faith-foundations',
+    description: 'Building strong foundations in Christian doctrine and an unshakeable trust in God\'s promises.',
+    artwork_url: 'https://images.unsplash.com/photo-1544027993-37dbfe43562a?w=1200&h=800&fit=crop',
+    start_date: null,
+    end_date: null,
+    sort_order: 0,
+    sermon_count: 1,
+    first_sermon_date: '2024-01-14',
+    last_sermon_date: '2024-01-14'
+  },
+  {
+    id: 'default-series-3',
+    title: 'Living Love',
+    slug: 'living-love',
+    description: 'Learning to love unconditionally as Christ loved us, transforming hearts and communities.',
+    artwork_url: 'https://images.unsplash.com/photo-1469571486292-0ba58a3f068b?w=1200&h=800&fit=crop',
+    start_date: null,
+    end_date: null,
+    sort_order: 0,
+    sermon_count: 1,
+    first_sermon_date: '2024-01-07',
+    last_sermon_date: '2024-01-07'
+  },
+  {
+    id: 'default-series-4',
+    title: 'Prayer Life',
+    slug: 'prayer-life',
+    description: 'Developing a deeper, more meaningful prayer life that connects you with God\'s heart.',
+    artwork_url: 'https://images.unsplash.com/photo-1438032005730-c779502df39b?w=1200&h=800&fit=crop',
+    start_date: null,
+    end_date: null,
+    sort_order: 0,
+    sermon_count: 1,
+    first_sermon_date: '2023-12-31',
+    last_sermon_date: '2023-12-31'
+  },
+  {
+    id: 'default-series-5',
+    title: 'Grace & Truth',
+    slug: 'grace-truth',
+    description: 'Exploring the perfect balance of God\'s grace and truth in our lives and relationships.',
+    artwork_url: 'https://images.unsplash.com/photo-1500479694472-551d1fb19407?w=1200&h=800&fit=crop',
+    start_date: null,
+    end_date: null,
+    sort_order: 0,
+    sermon_count: 1,
+    first_sermon_date: '2023-12-24',
+    last_sermon_date: '2023-12-24'
+  },
+  {
+    id: 'default-series-6',
+    title: 'Community Life',
+    slug: 'community-life',
+    description: 'Creating authentic relationships and fostering genuine fellowship within the church family.',
+    artwork_url: 'https://images.unsplash.com/photo-1517486808906-6ca8b3f04846?w=1200&h=800&fit=crop',
+    start_date: null,
+    end_date: null,
+    sort_order: 0,
+    sermon_count: 1,
+    first_sermon_date: '2023-12-17',
+    last_sermon_date: '2023-12-17'
+  }
+]
+
+export const defaultSpeakers: SpeakerSummary[] = [
+  {
+    id: 'default-speaker-1',
+    name: 'Pastor Michael Johnson',
+    slug: 'michael-johnson',
+    title: 'Lead Pastor',
+    bio: 'Pastor Michael has been leading DOCM Church with vision and passion for over 15 years, with a heart for teaching and community building.',
+    photo_url: null,
+    aliases: []
+  },
+  {
+    id: 'default-speaker-2',
+    name: 'Pastor Sarah Johnson',
+    slug: 'sarah-johnson',
+    title: 'Associate Pastor',
+    bio: 'Pastor Sarah oversees our community outreach and women\'s ministry programs.',
+    photo_url: null,
+    aliases: []
+  },
+  {
+    id: 'default-speaker-3',
+    name: 'Pastor Sarah Williams',
+    slug: 'sarah-williams',
+    title: 'Worship Director',
+    bio: 'Sarah leads our worship ministry with a heart for creating meaningful encounters with God through music and praise.',
+    photo_url: null,
+    aliases: []
+  },
+  {
+    id: 'default-speaker-4',
+    name: 'Pastor David Chen',
+    slug: 'david-chen',
+    title: 'Youth Pastor',
+    bio: 'David is passionate about helping young people discover their identity in Christ and grow in their faith journey.',
+    photo_url: null,
+    aliases: []
+  }
+]
+
+export const defaultBlogs: BlogPost[] = [
+  {
+    id: '1',
+    title: 'Walking with Purpose',
+    slug: 'walking-with-purpose',
+    content: 'Discovering God\'s unique calling for your life and stepping boldly into His purpose. In this journey of faith, we often find ourselves asking...',
+    excerpt: 'Discovering God\'s unique calling for your life and stepping boldly into His purpose.',
+    featured_image: '',
+    author: 'Sarah Williams',
+    status: 'published',
+    published_at: '2023-12-15T00:00:00Z',
+    tags: ['Purpose', 'Faith'],
+    seo_meta: {},
+    created_at: '2023-12-15T00:00:00Z',
+    updated_at: '2023-12-15T00:00:00Z'
+  },
+  {
+    id: '2',
+    title: 'Grace in Everyday Moments',
+    slug: 'grace-in-everyday-moments',
+    content: 'How to recognize and embrace God\'s grace in the ordinary moments of daily life...',
+    excerpt: 'How to recognize and embrace God\'s grace in the ordinary moments of daily life.',
+    featured_image: '',
+    author: 'Michael Johnson',
+    status: 'published',
+    published_at: '2023-12-14T00:00:00Z',
+    tags: ['Grace', 'Daily Life'],
+    seo_meta: {},
+    created_at: '2023-12-14T00:00:00Z',
+    updated_at: '2023-12-14T00:00:00Z'
+  }
+]
+
+// Full sermon record served by /api/sermons/[slug] when Supabase is not configured
+export const defaultSermonDetail = {
+  id: 'default-1',
+  title: 'Finding Your Purpose in God\'s Plan',
+  slug: 'finding-purpose-gods-plan',
+  description: 'Discover how God has a unique plan and purpose for your life, and learn practical steps to align your goals with His will. In this powerful message, we explore the depths of God\'s calling on your life and how to walk confidently in His perfect timing.',
+  speaker: 'Pastor Michael Johnson',
+  series: 'Life Purpose',
+  scripture_reference: 'Jeremiah 29:11',
+  sermon_date: '2024-01-21',
+  duration: 45,
+  video_type: 'youtube',
+  video_url: '',
+  youtube_url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+  youtube_id: 'dQw4w9WgXcQ',
+  audio_url: '',
+  thumbnail_image: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=800&h=600&fit=crop',
+  transcript: '',
+  captions: 'WEBVTT\n\n00:00:00.000 --> 00:00:06.000\nGood morning, church. Let\'s open in prayer.\n\n00:00:06.000 --> 00:00:14.000\nFather, thank You for this day and for every person here.\n\n00:05:12.000 --> 00:05:20.000\nTurn with me to Jeremiah chapter 29, verse 11.\n\n00:05:20.000 --> 00:05:30.000\n"For I know the plans I have for you," declares the Lord.\n\n00:19:00.000 --> 00:19:10.000\nHis timing is not our timing, and that is good news.\n\n00:35:00.000 --> 00:35:10.000\nSo this week, take one step: pray before you plan.',
+  chapters: [
+    { start: 0, title: 'Welcome and opening prayer' },
+    { start: 312, title: 'Jeremiah 29:11 in context' },
+    { start: 1140, title: 'Trusting His timing' },
+    { start: 2100, title: 'Next steps' }
+  ],
+  outline: "# God's plan is [[personal]]\n> Jeremiah 29:11\n- He knows the plans He has for [[you]]\n# His timing is [[perfect]]\n- Waiting is not wasted when we [[pray]]\n> Ecclesiastes 3:1\n# We discover His will together\n- Scripture, prayer and [[community]] keep us on course",
+  notes: 'Key Points:\n\n1. God has a unique plan for each person\n2. Trusting in His timing is essential\n3. Prayer and scripture study reveal His will\n4. Community helps us stay accountable\n\nReflection Questions:\n- How can I better align my goals with God\'s will?\n- What steps can I take to trust His timing more fully?',
+  tags: ['purpose', 'calling', 'faith', 'planning', 'trust'],
+  status: 'published',
+  view_count: 245,
+  seo_meta: {},
+  created_at: '2024-01-21T10:00:00Z',
+  updated_at: '2024-01-21T10:00:00Z'
+}
+
+export interface LiveStreamContent {
+  // IANA time zone the schedule is in (tenant_settings.time_zone)
+  timeZone: string
+  // tenant_settings.service_schedule, see parseServiceSchedule
+  schedule: ServiceTime[]
+  streamUrl: string | null
+}
+
+export const defaultLiveStream: LiveStreamContent = {
+  timeZone: 'America/New_York',
+  schedule: [
+    { day: 0, start: '10:00', duration_minutes: 120, title: 'Sunday Service' },
+    { day: 3, start: '19:00', duration_minutes: 90, title: 'Midweek Bible Study' }
+  ],
+  streamUrl: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ'
+}
@@ -0,0 +1,143 @@
+import { localDateString } from '@/lib/event-recurrence'
+
+// Client-safe date handling for the event calendar. Days are local calendar
+// dates in the tenant's time zone, as YYYY-MM-DD strings; the server turns
+// them into instants, so the calendar never depends on the viewer's clock
+// settings. Weeks start on Sunday.
+
+export type CalendarView = 'month' | 'week' | 'agenda' | 'list'
+
+export const CALENDAR_VIEWS: { id: CalendarView; label: string }[] = [
+  { id: 'month', label: 'Month' },
+  { id: 'week', label: 'Week' },
+  { id: 'agenda', label: 'Agenda' },
+  { id: 'list', label: 'List' }
+]
+
+// How many days the agenda view covers
+export const AGENDA_DAYS = 30
+
+export const WEEKDAY_SHORT_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+// Calendar arithmetic on UTC midnights, which never meet a daylight saving change
+function toUtcDay(date: string): Date {
+  return new Date(`${date}T00:00:00Z`)
+}
+
+function fromUtcDay(day: Date): string {
+  return day.toISOString().slice(0, 10)
+}
+
+export function addDays(date: string, days: number): string {
+  const day = toUtcDay(date)
+  day.setUTCDate(day.getUTCDate() + days)
+  return fromUtcDay(day)
+}
+
+/**
+ * The same day `months` later, or the month's last day when it is shorter.
+ */
+export function addMonths(date: string, months: number): string {
+  const day = toUtcDay(date)
+  const target = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + months, 1))
+  const length = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate()
+  target.setUTCDate(Math.min(day.getUTCDate(), length))
+  return fromUtcDay(target)
+}
+
+export function startOfWeek(date: string): string {
+  return addDays(date, -toUtcDay(date).getUTCDay())
+}
+
+export function startOfMonth(date: string): string {
+  return `${date.slice(0, 7)}-01`
+}
+
+// 0 = Sunday
+export function weekdayOf(date: string): number {
+  return toUtcDay(date).getUTCDay()
+}
+
+/**
+ * Every day from `from` up to (not including) `to`.
+ */
+export function daysBetween(from: string, to: string): string[] {
+  const days: string[] = []
+  for (let day = from; day < to; day = addDays(day, 1)) days.push(day)
+  return days
+}
+
+/**
+ * The days a view shows around `date`: whole weeks covering its month, its
+ * week, the agenda's days from it, or its month for the list.
+ */
+export function calendarRange(view: CalendarView, date: string): { from: string; to: string } {
+  switch (view) {
+    case 'month': {
+      const nextMonth = addMonths(startOfMonth(date), 1)
+      return { from: startOfWeek(startOfMonth(date)), to: addDays(startOfWeek(addDays(nextMonth, -1)), 7) }
+    }
+    case 'week':
+      return { from: startOfWeek(date), to: addDays(startOfWeek(date), 7) }
+    case 'agenda':
+      return { from: date, to: addDays(date, AGENDA_DAYS) }
+    case 'list':
+      return { from: startOfMonth(date), to: addMonths(startOfMonth(date), 1) }
+  }
+}
+
+/**
+ * The date the previous or next page of a view is centred on.
+ */
+export function stepCalendar(view: CalendarView, date: string, direction: 1 | -1): string {
+  switch (view) {
+    case 'week':
+      return addDays(date, 7 * direction)
+    case 'agenda':
+      return addDays(date, AGENDA_DAYS * direction)
+    default:
+      return addMonths(date, direction)
+  }
+}
+
+/**
+ * Today in the tenant's time zone, or in the viewer's until it is known.
+ */
+export function todayIn(timeZone: string | null): string {
+  if (timeZone) return localDateString(new Date(), timeZone)
+
+  const now = new Date()
+  return fromUtcDay(new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())))
+}
+
+/**
+ * Format a local date, e.g. "Wednesday, October 21".
+ */
+export function formatLocalDate(date: string, options: Intl.DateTimeFormatOptions): string {
+  return new Intl.DateTimeFormat('en-US', { ...options, timeZone: 'UTC' }).format(toUtcDay(date))
+}
+
+/**
+ * An event's start time, e.g. "7:00 PM", in the tenant's time zone once known.
+ */
+export function formatEventTime(eventDate: string, timeZone: string | null): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone: timeZone ?? undefined,
+    hour: 'numeric',
+    minute: '2-digit'
+  }).format(new Date(eventDate))
+}
+
+/**
+ * The heading for a view: "October 2026", "Oct 18 – 24, 2026" or the
+ * agenda's span of days.
+ */
+export function calendarTitle(view: CalendarView, date: string): string {
+  if (view === 'month' || view === 'list') return formatLocalDate(date, { month: 'long', year: 'numeric' })
+
+  const { from, to } = calendarRange(view, date)
+  const last = addDays(to, -1)
+  const start = formatLocalDate(from, { month: 'short', day: 'numeric' })
+  const end = formatLocalDate(last, from.slice(0, 7) === last.slice(0, 7) ? { day: 'numeric' } : { month: 'short', day: 'numeric' })
+  return `${start} – ${end}, ${last.slice(0, 4)}`
+}
@@ -0,0 +1,399 @@
+import type { Tables } from '@/lib/database.types'
+import { getZonedDateTime, zonedDateTimeToDate } from '@/lib/timezone-utils'
+
+// iCalendar (RFC 5545) recurrence rules for events. A recurring event's
+// event_date is its first occurrence; later ones keep the same local time of
+// day in the tenant's time zone, whatever daylight saving does in between.
+//
+// Supported: FREQ=DAILY|WEEKLY|MONTHLY|YEARLY with INTERVAL, COUNT, UNTIL,
+// BYDAY (with ordinals such as 1SU or -1FR), BYMONTHDAY, BYMONTH, BYSETPOS
+// and WKST. BYDAY ordinals count within the month, also for YEARLY rules.
+// Rules using anything else are treated as invalid and the event as one-off.
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+
+export interface RecurrenceWeekday {
+  // 0 = Sunday … 6 = Saturday
+  weekday: number
+  // 1 = first, -1 = last; null for every such weekday
+  ordinal: number | null
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency
+  interval: number
+  count: number | null
+  until: Date | null
+  // Date-only and floating UNTIL values are local to the tenant's time zone;
+  // until then holds the wall-clock time in its UTC fields
+  untilIsLocal: boolean
+  byDay: RecurrenceWeekday[]
+  byMonthDay: number[]
+  // 1-12
+  byMonth: number[]
+  bySetPos: number[]
+  weekStart: number
+}
+
+export type EventOccurrenceOverride = Pick<
+  Tables<'event_occurrence_overrides'>,
+  'occurrence_start' | 'event_date' | 'name' | 'description' | 'location' | 'capacity' | 'cancelled'
+>
+
+export type RecurringEventFields = Pick<Tables<'events'>, 'event_date' | 'rrule'> & {
+  recurrence_exceptions?: string[] | null
+}
+
+export interface EventOccurrence {
+  // Scheduled start of the occurrence, which registrations refer to; null
+  // for one-off events
+  occurrence_start: string | null
+  // When it actually starts, after any override
+  event_date: string
+  override: EventOccurrenceOverride | null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+export const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']
+const SUPPORTED_PARTS = new Set(['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'BYSETPOS', 'WKST'])
+// Stops runaway expansion of rules that rarely or never match
+const MAX_PERIODS = 5000
+// How far an override may move an occurrence and still be found
+const MOVED_OCCURRENCE_SLACK_DAYS = 31
+
+const BYDAY_ENTRY = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/
+const UNTIL_VALUE = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/
+
+function parseNumberList(value: string, min: number, max: number): number[] | null {
+  const numbers = value.split(',').map(Number)
+  const valid = numbers.every(number => Number.isInteger(number) && number !== 0 && Math.abs(number) >= min && Math.abs(number) <= max)
+  return valid ? numbers : null
+}
+
+/**
+ * Parse an RRULE such as "FREQ=WEEKLY;BYDAY=TU,TH". An "RRULE:" prefix is
+ * allowed. Returns null for missing, malformed or unsupported rules.
+ */
+export function parseRRule(value: string | null | undefined): RecurrenceRule | null {
+  if (!value?.trim()) return null
+
+  const parts = new Map<string, string>()
+  for (const part of value.trim().replace(/^RRULE:/i, '').split(';')) {
+    if (!part) continue
+    const [key, partValue] = part.split('=')
+    if (!partValue || !SUPPORTED_PARTS.has(key.toUpperCase())) return null
+    parts.set(key.toUpperCase(), partValue.toUpperCase())
+  }
+
+  const freq = parts.get('FREQ') as RecurrenceFrequency | undefined
+  if (!freq || !FREQUENCIES.includes(freq)) return null
+
+  const interval = parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : 1
+  const count = parts.has('COUNT') ? Number(parts.get('COUNT')) : null
+  if (!Number.isInteger(interval) || interval < 1) return null
+  if (count !== null && (!Number.isInteger(count) || count < 1)) return null
+  // RFC 5545 allows one or the other
+  if (count !== null && parts.has('UNTIL')) return null
+
+  let until: Date | null = null
+  let untilIsLocal = false
+  if (parts.has('UNTIL')) {
+    const match = UNTIL_VALUE.exec(parts.get('UNTIL')!)
+    if (!match) return null
+    // A date-only UNTIL includes the whole day
+    const [, year, month, day, hour = '23', minute = '59', second = '59', utc] = match
+    until = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)))
+    untilIsLocal = !utc
+  }
+
+  const byDay: RecurrenceWeekday[] = []
+  for (const entry of parts.get('BYDAY')?.split(',') ?? []) {
+    const match = BYDAY_ENTRY.exec(entry)
+    const ordinal = match?.[1] ? Number(match[1]) : null
+    if (!match || ordinal === 0 || (ordinal !== null && Math.abs(ordinal) > 5)) return null
+    byDay.push({ weekday: RRULE_WEEKDAYS.indexOf(match[2]), ordinal })
+  }
+
+  const byMonthDay = parts.has('BYMONTHDAY') ? parseNumberList(parts.get('BYMONTHDAY')!, 1, 31) : []
+  const byMonth = parts.has('BYMONTH') ? parseNumberList(parts.get('BYMONTH')!, 1, 12) : []
+  const bySetPos = parts.has('BYSETPOS') ? parseNumberList(parts.get('BYSETPOS')!, 1, 366) : []
+  if (!byMonthDay || !byMonth || byMonth.some(month => month < 0) || !bySetPos) return null
+
+  const weekStart = parts.has('WKST') ? RRULE_WEEKDAYS.indexOf(parts.get('WKST')!) : 1
+  if (weekStart < 0) return null
+
+  return { freq, interval, count, until, untilIsLocal, byDay, byMonthDay, byMonth, bySetPos, weekStart }
+}
+
+// Local calendar dates are handled as UTC midnights so the arithmetic never
+// meets a daylight saving change
+function calendarDay(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+function addDays(day: Date, days: number): Date {
+  return new Date(day.getTime() + days * DAY_MS)
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+// Candidate days of one month for MONTHLY and YEARLY rules
+function monthCandidates(rule: RecurrenceRule, year: number, month: number, firstDay: Date): Date[] {
+  const length = daysInMonth(year, month)
+  const days: number[] = []
+
+  if (rule.byMonthDay.length > 0) {
+    for (const monthDay of rule.byMonthDay) {
+      const day = monthDay > 0 ? monthDay : length + monthDay + 1
+      if (day >= 1 && day <= length) days.push(day)
+    }
+  } else if (rule.byDay.length > 0) {
+    for (const { weekday, ordinal } of rule.byDay) {
+      const firstWeekday = (weekday - calendarDay(year, month, 1).getUTCDay() + 7) % 7 + 1
+      const matches: number[] = []
+      for (let day = firstWeekday; day <= length; day += 7) matches.push(day)
+
+      if (ordinal === null) days.push(...matches)
+      else {
+        const day = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal]
+        if (day !== undefined) days.push(day)
+      }
+    }
+  } else if (firstDay.getUTCDate() <= length) {
+    days.push(firstDay.getUTCDate())
+  }
+
+  return days
+    .map(day => calendarDay(year, month, day))
+    // BYDAY narrows BYMONTHDAY when both are given
+    .filter(day => rule.byMonthDay.length === 0 || rule.byDay.length === 0 || rule.byDay.some(entry => entry.weekday === day.getUTCDay()))
+}
+
+// The days in the nth period after the first occurrence's, in order
+function periodCandidates(rule: RecurrenceRule, firstDay: Date, period: number): Date[] {
+  let days: Date[] = []
+  const step = period * rule.interval
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = addDays(firstDay, step)
+      const matchesDay = rule.byDay.length === 0 || rule.byDay.some(entry => entry.weekday === day.getUTCDay())
+      const matchesMonthDay = rule.byMonthDay.length === 0 || rule.byMonthDay.some(monthDay =>
+        day.getUTCDate() === (monthDay > 0 ? monthDay : daysInMonth(day.getUTCFullYear(), day.getUTCMonth() + 1) + monthDay + 1))
+      if (matchesDay && matchesMonthDay) days = [day]
+      break
+    }
+    case 'WEEKLY': {
+      const weekStart = addDays(firstDay, -((firstDay.getUTCDay() - rule.weekStart + 7) % 7) + step * 7)
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map(entry => entry.weekday) : [firstDay.getUTCDay()]
+      for (let offset = 0; offset < 7; offset++) {
+        const day = addDays(weekStart, offset)
+        if (weekdays.includes(day.getUTCDay())) days.push(day)
+      }
+      break
+    }
+    case 'MONTHLY': {
+      const monthIndex = firstDay.getUTCMonth() + step
+      const year = firstDay.getUTCFullYear() + Math.floor(monthIndex / 12)
+      days = monthCandidates(rule, year, (monthIndex % 12) + 1, firstDay)
+      break
+    }
+    case 'YEARLY': {
+      const year = firstDay.getUTCFullYear() + step
+      const months = rule.byMonth.length > 0 ? [...rule.byMonth].sort((a, b) => a - b) : [firstDay.getUTCMonth() + 1]
+      days = months.flatMap(month => monthCandidates(rule, year, month, firstDay))
+      break
+    }
+  }
+
+  days = days
+    .filter(day => rule.byMonth.length === 0 || rule.byMonth.includes(day.getUTCMonth() + 1))
+    .sort((a, b) => a.getTime() - b.getTime())
+    .filter((day, index, sorted) => index === 0 || sorted[index - 1].getTime() !== day.getTime())
+
+  if (rule.bySetPos.length === 0) return days
+  return rule.bySetPos
+    .map(position => days[position > 0 ? position - 1 : days.length + position])
+    .filter((day): day is Date => day !== undefined)
+    .sort((a, b) => a.getTime() - b.getTime())
+}
+
+/**
+ * The instant a rule's UNTIL stands for, reading local values in the
+ * tenant's time zone.
+ */
+export function ruleUntil(rule: RecurrenceRule, timeZone: string): Date | null {
+  if (!rule.until || !rule.untilIsLocal) return rule.until
+
+  return zonedDateTimeToDate({
+    year: rule.until.getUTCFullYear(),
+    month: rule.until.getUTCMonth() + 1,
+    day: rule.until.getUTCDate(),
+    hour: rule.until.getUTCHours(),
+    minute: rule.until.getUTCMinutes()
+  }, timeZone)
+}
+
+// Whole periods between the first occurrence's day and `day`
+function periodsUntil(rule: RecurrenceRule, firstDay: Date, day: Date): number {
+  switch (rule.freq) {
+    case 'DAILY':
+      return Math.floor((day.getTime() - firstDay.getTime()) / DAY_MS)
+    case 'WEEKLY':
+      return Math.floor((day.getTime() - firstDay.getTime()) / (7 * DAY_MS))
+    case 'MONTHLY':
+      return (day.getUTCFullYear() - firstDay.getUTCFullYear()) * 12 + day.getUTCMonth() - firstDay.getUTCMonth()
+    case 'YEARLY':
+      return day.getUTCFullYear() - firstDay.getUTCFullYear()
+  }
+}
+
+/**
+ * Scheduled starts of a recurring event from `from` (inclusive) to `to`
+ * (exclusive), leaving out its exceptions. Without a valid rrule, the
+ * event_date is the only start.
+ */
+export function recurrenceStarts(
+  event: RecurringEventFields,
+  timeZone: string,
+  { from, to }: { from: Date; to: Date }
+): Date[] {
+  const first = new Date(event.event_date)
+  const rule = parseRRule(event.rrule)
+  if (!rule) return first >= from && first < to ? [first] : []
+
+  const excluded = new Set((event.recurrence_exceptions ?? []).map(exception => new Date(exception).getTime()))
+  const local = getZonedDateTime(first, timeZone)
+  const firstDay = calendarDay(local.year, local.month, local.day)
+  const startOf = (day: Date) => zonedDateTimeToDate({
+    year: day.getUTCFullYear(),
+    month: day.getUTCMonth() + 1,
+    day: day.getUTCDate(),
+    hour: local.hour,
+    minute: local.minute
+  }, timeZone)
+
+  const until = ruleUntil(rule, timeZone)
+
+  // COUNT includes occurrences before the window, so those rules are walked
+  // from the start; others skip ahead to just before it
+  let period = 0
+  if (rule.count === null && from > first) {
+    const fromLocal = getZonedDateTime(from, timeZone)
+    const skipped = periodsUntil(rule, firstDay, calendarDay(fromLocal.year, fromLocal.month, fromLocal.day))
+    period = Math.max(0, Math.floor(skipped / rule.interval) - 1)
+  }
+
+  const starts: Date[] = []
+  let produced = 0
+
+  for (let checked = 0; checked < MAX_PERIODS; checked++, period++) {
+    for (const day of periodCandidates(rule, firstDay, period)) {
+      const start = startOf(day)
+      if (start < first) continue
+      if ((until && start > until) || start >= to) return starts
+      // Exceptions still use up a COUNT
+      if (rule.count !== null && ++produced > rule.count) return starts
+      if (start >= from && !excluded.has(start.getTime())) starts.push(start)
+    }
+  }
+
+  return starts
+}
+
+/**
+ * Occurrences of an event that start from `from` (inclusive) to `to`
+ * (exclusive), with overrides applied and cancelled ones left out. A one-off
+ * event has at most one, with a null occurrence_start.
+ */
+export function expandEventOccurrences(
+  event: RecurringEventFields,
+  overrides: EventOccurrenceOverride[],
+  timeZone: string,
+  { from, to }: { from: Date; to: Date }
+): EventOccurrence[] {
+  if (!parseRRule(event.rrule)) {
+    const start = new Date(event.event_date)
+    return start >= from && start < to ? [{ occurrence_start: null, event_date: event.event_date, override: null }] : []
+  }
+
+  const overridesByStart = new Map(overrides.map(override => [new Date(override.occurrence_start).getTime(), override]))
+  // Overrides can move an occurrence into the window from just outside it
+  const slack = MOVED_OCCURRENCE_SLACK_DAYS * DAY_MS
+  const starts = recurrenceStarts(event, timeZone, {
+    from: new Date(from.getTime() - slack),
+    to: new Date(to.getTime() + slack)
+  })
+
+  return starts
+    .flatMap((start): EventOccurrence[] => {
+      const override = overridesByStart.get(start.getTime()) ?? null
+      if (override?.cancelled) return []
+
+      const eventDate = override?.event_date ? new Date(override.event_date) : start
+      if (eventDate < from || eventDate >= to) return []
+
+      return [{ occurrence_start: start.toISOString(), event_date: eventDate.toISOString(), override }]
+    })
+    .sort((a, b) => a.event_date.localeCompare(b.event_date))
+}
+
+/**
+ * The occurrence of a recurring event scheduled to start at
+ * `occurrenceStart`, or null when there is none or it was cancelled.
+ */
+export function findEventOccurrence(
+  event: RecurringEventFields,
+  overrides: EventOccurrenceOverride[],
+  timeZone: string,
+  occurrenceStart: string
+): EventOccurrence | null {
+  const start = new Date(occurrenceStart)
+  if (Number.isNaN(start.getTime()) || !parseRRule(event.rrule)) return null
+
+  const [scheduled] = recurrenceStarts(event, timeZone, { from: start, to: new Date(start.getTime() + 1) })
+  if (!scheduled) return null
+
+  const override = overrides.find(entry => new Date(entry.occurrence_start).getTime() === scheduled.getTime()) ?? null
+  if (override?.cancelled) return null
+
+  return {
+    occurrence_start: scheduled.toISOString(),
+    event_date: override?.event_date ? new Date(override.event_date).toISOString() : scheduled.toISOString(),
+    override
+  }
+}
+
+/**
+ * Where to register for an event, or for one occurrence of a recurring one.
+ */
+export function eventRegistrationHref(event: { id: string; occurrence_start: string | null }): string {
+  const occurrence = event.occurrence_start ? `?occurrence=${encodeURIComponent(event.occurrence_start)}` : ''
+  return `/events/${event.id}/register${occurrence}`
+}
+
+/**
+ * An .ics file for an event, or for one occurrence of a recurring one.
+ */
+export function eventCalendarHref(event: { id: string; occurrence_start: string | null }): string {
+  const occurrence = event.occurrence_start ? `?occurrence=${encodeURIComponent(event.occurrence_start)}` : ''
+  return `/api/events/${event.id}/calendar.ics${occurrence}`
+}
+
+/**
+ * A key unique to each occurrence, for lists that repeat a recurring event.
+ */
+export function eventOccurrenceKey(event: { id: string; occurrence_start: string | null }): string {
+  return event.occurrence_start ? `${event.id}:${event.occurrence_start}` : event.id
+}
+
+/**
+ * The local calendar date of an instant, YYYY-MM-DD.
+ */
+export function localDateString(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedDateTime(date, timeZone)
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
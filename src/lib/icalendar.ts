@@ -0,0 +1,562 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { CACHE_TAGS } from '@/lib/cache-tags'
+import { cachedContent } from '@/lib/content/cache'
+import { getEventType } from '@/lib/content/events'
+import type { Tables } from '@/lib/database.types'
+import {
+  eventRegistrationHref,
+  findEventOccurrence,
+  parseRRule,
+  ruleUntil,
+  RRULE_WEEKDAYS,
+  type EventOccurrence,
+  type RecurrenceRule
+} from '@/lib/event-recurrence'
+import { eventsRepo, ministriesRepo, settingsRepo } from '@/lib/repositories'
+import { siteOrigin } from '@/lib/site-url'
+import { isSupabaseConfigured } from '@/lib/supabase'
+import { getConfiguredTimezone, getZonedDateTime } from '@/lib/timezone-utils'
+import { generateSlug } from '@/lib/utils'
+
+// Events have no end time of their own; calendars show them this long
+const EVENT_DURATION = 'PT1H'
+// Past one-off events stay in feeds this long, so they don't vanish from
+// subscribers' calendars the moment they end
+const FEED_HISTORY_DAYS = 90
+// How often subscribed calendars are asked to refresh
+const FEED_REFRESH_INTERVAL = 'PT1H'
+const CALENDAR_CACHE_SECONDS = 300
+// Time zone changes are sampled this many years ahead of today to find the
+// zone's current yearly rules
+const TIMEZONE_YEARS_AHEAD = 2
+const PRODUCT_ID = '-//Church Website//Events//EN'
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+type Event = Tables<'events'>
+type OccurrenceOverride = Tables<'event_occurrence_overrides'>
+type TenantSettings = Tables<'tenant_settings'>
+
+export interface CalendarFeedData {
+  tenant: TenantSettings | null
+  // Set when the feed is filtered to one ministry
+  ministryName: string | null
+  events: Event[]
+  overrides: OccurrenceOverride[]
+  timeZone: string
+}
+
+interface CalendarContext {
+  timeZone: string
+  // Public site origin, e.g. https://example.org
+  siteUrl: string
+  // DTSTAMP shared by every event in the file
+  stamp: string
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// Lines longer than 75 octets continue on the next line after a space,
+// without splitting a multi-byte character
+function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ''
+  let length = 0
+
+  for (const character of line) {
+    const size = encoder.encode(character).length
+    if (length + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current)
+      current = ''
+      length = 0
+    }
+    current += character
+    length += size
+  }
+
+  return [...parts, current].join('\r\n ')
+}
+
+function textProperty(name: string, value: string | null | undefined): string[] {
+  return value ? [`${name}:${escapeText(value)}`] : []
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0')
+}
+
+// e.g. 20261021T230000Z
+function utcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+// Wall-clock time in the time zone, for TZID properties, e.g. 20261021T190000
+function localDateTime(date: Date, timeZone: string): string {
+  const { year, month, day, hour, minute } = getZonedDateTime(date, timeZone)
+  return `${year}${pad(month)}${pad(day)}T${pad(hour)}${pad(minute)}00`
+}
+
+function offsetMinutes(instant: number, timeZone: string): number {
+  const zoned = getZonedDateTime(new Date(instant), timeZone)
+  return Math.round((Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute) - instant) / MINUTE_MS)
+}
+
+// e.g. -0500
+function formatOffset(minutes: number): string {
+  const absolute = Math.abs(minutes)
+  return `${minutes < 0 ? '-' : '+'}${pad(Math.floor(absolute / 60))}${pad(absolute % 60)}`
+}
+
+function timeZoneAbbreviation(instant: number, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(new Date(instant))
+  return parts.find(part => part.type === 'timeZoneName')?.value ?? timeZone
+}
+
+interface OffsetTransition {
+  at: number
+  from: number
+  to: number
+}
+
+// A yearly offset change, as in "the last Sunday in March at 01:00"
+interface YearlyTransitionRule {
+  month: number // 1-12
+  weekday: number // 0 = Sunday
+  // 1-4 for the nth weekday of the month, -1 for the last
+  week: number
+  time: string // local, e.g. 010000
+  from: number
+  to: number
+}
+
+/**
+ * Offset changes in a time zone from the start of `fromYear` to the end of
+ * `toYear`, found by sampling weekly and narrowing down to the minute.
+ */
+function offsetTransitions(timeZone: string, fromYear: number, toYear: number): OffsetTransition[] {
+  const transitions: OffsetTransition[] = []
+  const end = Date.UTC(toYear + 1, 0, 1)
+  let previousAt = Date.UTC(fromYear, 0, 1)
+  let previous = offsetMinutes(previousAt, timeZone)
+
+  while (previousAt < end) {
+    const at = Math.min(previousAt + 7 * DAY_MS, end)
+    const offset = offsetMinutes(at, timeZone)
+
+    if (offset !== previous) {
+      let low = previousAt
+      let high = at
+      while (high - low > MINUTE_MS) {
+        const middle = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS
+        if (offsetMinutes(middle, timeZone) === previous) low = middle
+        else high = middle
+      }
+      transitions.push({ at: high, from: previous, to: offset })
+    }
+
+    previous = offset
+    previousAt = at
+  }
+
+  return transitions
+}
+
+// The local time just before a change, read from the UTC fields
+function transitionOnset({ at, from }: OffsetTransition): Date {
+  return new Date(at + from * MINUTE_MS)
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+// Day of the month a rule falls on in a year
+function ruleDay({ month, weekday, week }: YearlyTransitionRule, year: number): number {
+  if (week > 0) {
+    const firstWeekday = new Date(Date.UTC(year, month - 1, 1)).getUTCDay()
+    return 1 + (weekday - firstWeekday + 7) % 7 + (week - 1) * 7
+  }
+  const lastDay = daysInMonth(year, month)
+  const lastWeekday = new Date(Date.UTC(year, month - 1, lastDay)).getUTCDay()
+  return lastDay - (lastWeekday - weekday + 7) % 7
+}
+
+// The rules a change could be following: "last" near the end of the month,
+// "nth" in its first four weeks
+function candidateRules(transition: OffsetTransition): YearlyTransitionRule[] {
+  const onset = transitionOnset(transition)
+  const day = onset.getUTCDate()
+  const base = {
+    month: onset.getUTCMonth() + 1,
+    weekday: onset.getUTCDay(),
+    time: utcDateTime(onset).slice(9, 15),
+    from: transition.from,
+    to: transition.to
+  }
+
+  return [
+    ...(day > daysInMonth(onset.getUTCFullYear(), base.month) - 7 ? [{ ...base, week: -1 }] : []),
+    ...(day <= 28 ? [{ ...base, week: Math.ceil(day / 7) }] : [])
+  ]
+}
+
+function followsRule(transition: OffsetTransition, rule: YearlyTransitionRule): boolean {
+  const onset = transitionOnset(transition)
+  return transition.from === rule.from &&
+    transition.to === rule.to &&
+    onset.getUTCMonth() + 1 === rule.month &&
+    onset.getUTCDate() === ruleDay(rule, onset.getUTCFullYear()) &&
+    utcDateTime(onset).slice(9, 15) === rule.time
+}
+
+/**
+ * The zone's current yearly rules, read off the changes in `toYear`, and the
+ * first year from which every year up to `toYear` follows them. No rules when
+ * `toYear` has no changes (the last offset then simply stays in force).
+ */
+function yearlyTransitionRules(
+  transitions: OffsetTransition[],
+  fromYear: number,
+  toYear: number
+): { rules: YearlyTransitionRule[]; since: number } {
+  const byYear = new Map<number, OffsetTransition[]>()
+  for (const transition of transitions) {
+    const year = transitionOnset(transition).getUTCFullYear()
+    byYear.set(year, [...(byYear.get(year) ?? []), transition])
+  }
+
+  const followsRules = (year: number, rules: YearlyTransitionRule[]) => {
+    const changes = byYear.get(year) ?? []
+    return changes.length === rules.length && changes.every((change, index) => followsRule(change, rules[index]))
+  }
+  const firstFollowingYear = (rules: YearlyTransitionRule[]) => {
+    let year = toYear
+    while (year > fromYear && followsRules(year - 1, rules)) year--
+    return year
+  }
+
+  const latest = byYear.get(toYear) ?? []
+  if (latest.length === 0) return { rules: [], since: toYear + 1 }
+
+  // Where both readings fit the latest year, keep the ones that held longest
+  const combinations = latest.reduce<YearlyTransitionRule[][]>(
+    (partial, transition) => partial.flatMap(rules => candidateRules(transition).map(rule => [...rules, rule])),
+    [[]]
+  )
+  const rules = combinations.reduce((best, rules) => firstFollowingYear(rules) < firstFollowingYear(best) ? rules : best)
+
+  return { rules, since: firstFollowingYear(rules) }
+}
+
+/**
+ * VTIMEZONE for the tenant's time zone, so calendars don't need their own
+ * zone data. Changes from `fromYear` are spelled out until the zone settles
+ * into its current yearly rules, which then repeat with an RRULE, so
+ * open-ended recurring events keep the right offsets.
+ */
+function renderTimeZone(timeZone: string, fromYear: number, toYear: number): string[] {
+  const start = Date.UTC(fromYear, 0, 1)
+  const initial = offsetMinutes(start, timeZone)
+  const transitions = offsetTransitions(timeZone, fromYear, toYear)
+  const standardOffset = Math.min(initial, ...transitions.map(transition => transition.to))
+  const { rules, since } = yearlyTransitionRules(transitions, fromYear, toYear)
+
+  const observance = (onset: string, from: number, to: number, at: number, rrule?: string) => {
+    const kind = to > standardOffset ? 'DAYLIGHT' : 'STANDARD'
+    return [
+      `BEGIN:${kind}`,
+      `DTSTART:${onset}`,
+      `TZOFFSETFROM:${formatOffset(from)}`,
+      `TZOFFSETTO:${formatOffset(to)}`,
+      ...(rrule ? [`RRULE:${rrule}`] : []),
+      `TZNAME:${escapeText(timeZoneAbbreviation(at, timeZone))}`,
+      `END:${kind}`
+    ]
+  }
+  // Each onset is the local time just before the change
+  const onsetOf = (transition: OffsetTransition) => utcDateTime(transitionOnset(transition)).slice(0, 15)
+  const firstRuled = transitions.filter(transition => transitionOnset(transition).getUTCFullYear() === since)
+
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    `X-LIC-LOCATION:${timeZone}`,
+    ...observance(`${fromYear}0101T000000`, initial, initial, start),
+    ...transitions
+      .filter(transition => transitionOnset(transition).getUTCFullYear() < since)
+      .flatMap(transition => observance(onsetOf(transition), transition.from, transition.to, transition.at)),
+    ...rules.flatMap((rule, index) => {
+      const first = firstRuled[index]
+      const byDay = `${rule.week}${RRULE_WEEKDAYS[rule.weekday]}`
+      return observance(onsetOf(first), rule.from, rule.to, first.at, `FREQ=YEARLY;BYMONTH=${rule.month};BYDAY=${byDay}`)
+    }),
+    'END:VTIMEZONE'
+  ]
+}
+
+// The stored rule, with a local UNTIL turned into UTC as RFC 5545 requires
+// alongside a DTSTART with a TZID
+function icsRRule(value: string, rule: RecurrenceRule, timeZone: string): string {
+  const until = ruleUntil(rule, timeZone)
+  return value
+    .trim()
+    .replace(/^RRULE:/i, '')
+    .toUpperCase()
+    .split(';')
+    .filter(Boolean)
+    .map(part => part.startsWith('UNTIL=') && until ? `UNTIL=${utcDateTime(until)}` : part)
+    .join(';')
+}
+
+function renderEventDetails(
+  event: Event,
+  override: OccurrenceOverride | EventOccurrence['override'],
+  start: Date,
+  registrationPath: string,
+  { timeZone, siteUrl }: CalendarContext
+): string[] {
+  return [
+    `DTSTART;TZID=${timeZone}:${localDateTime(start, timeZone)}`,
+    `DURATION:${EVENT_DURATION}`,
+    ...textProperty('SUMMARY', override?.name || event.name),
+    ...textProperty('DESCRIPTION', override?.description || event.description),
+    ...textProperty('LOCATION', override?.location || event.location),
+    ...textProperty('CATEGORIES', getEventType(event.name, event.description)),
+    `URL:${new URL(registrationPath, siteUrl).toString()}`
+  ]
+}
+
+/**
+ * An event as VEVENTs: a recurring one keeps its RRULE, with its exceptions
+ * and cancelled occurrences as EXDATEs and each changed occurrence as its
+ * own VEVENT with a RECURRENCE-ID.
+ */
+function renderEvent(event: Event, overrides: OccurrenceOverride[], context: CalendarContext): string[] {
+  const { timeZone, siteUrl, stamp } = context
+  const uid = `${event.id}@${new URL(siteUrl).host}`
+  const rule = parseRRule(event.rrule)
+  const header = [`UID:${uid}`, `DTSTAMP:${stamp}`, `LAST-MODIFIED:${utcDateTime(new Date(event.updated_at))}`]
+
+  const lines = [
+    'BEGIN:VEVENT',
+    ...header,
+    ...renderEventDetails(event, null, new Date(event.event_date), eventRegistrationHref({ id: event.id, occurrence_start: null }), context)
+  ]
+  if (!rule || !event.rrule) return [...lines, 'END:VEVENT']
+
+  const excluded = [
+    ...event.recurrence_exceptions,
+    ...overrides.filter(override => override.cancelled).map(override => override.occurrence_start)
+  ]
+  lines.push(`RRULE:${icsRRule(event.rrule, rule, timeZone)}`)
+  if (excluded.length > 0) {
+    lines.push(`EXDATE;TZID=${timeZone}:${excluded.map(date => localDateTime(new Date(date), timeZone)).join(',')}`)
+  }
+  lines.push('END:VEVENT')
+
+  for (const override of overrides.filter(entry => !entry.cancelled)) {
+    const occurrenceStart = new Date(override.occurrence_start)
+    lines.push(
+      'BEGIN:VEVENT',
+      ...header,
+      `RECURRENCE-ID;TZID=${timeZone}:${localDateTime(occurrenceStart, timeZone)}`,
+      ...renderEventDetails(
+        event,
+        override,
+        new Date(override.event_date ?? override.occurrence_start),
+        eventRegistrationHref({ id: event.id, occurrence_start: occurrenceStart.toISOString() }),
+        context
+      ),
+      'END:VEVENT'
+    )
+  }
+
+  return lines
+}
+
+function renderCalendar(name: string, body: string[], years: number[], timeZone: string, feed: boolean): string {
+  const currentYear = new Date().getFullYear()
+  const fromYear = Math.min(currentYear, ...years)
+  const toYear = Math.max(currentYear + TIMEZONE_YEARS_AHEAD, ...years)
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+    ...(feed ? [`REFRESH-INTERVAL;VALUE=DURATION:${FEED_REFRESH_INTERVAL}`, `X-PUBLISHED-TTL:${FEED_REFRESH_INTERVAL}`] : []),
+    ...renderTimeZone(timeZone, fromYear, toYear),
+    ...body,
+    'END:VCALENDAR'
+  ]
+
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+/**
+ * Render a subscribable calendar of every event in a feed, recurring ones
+ * with their rules.
+ */
+export function renderCalendarFeed({ tenant, ministryName, events, overrides, timeZone }: CalendarFeedData, siteUrl: string): string {
+  const churchName = tenant?.name || 'Church'
+  const context = { timeZone, siteUrl, stamp: utcDateTime(new Date()) }
+  const body = events.flatMap(event =>
+    renderEvent(event, overrides.filter(override => override.event_id === event.id), context)
+  )
+  const years = events.map(event => Number(localDateTime(new Date(event.event_date), timeZone).slice(0, 4)))
+
+  return renderCalendar(ministryName ? `${churchName}: ${ministryName}` : `${churchName} Events`, body, years, timeZone, true)
+}
+
+// Events for a feed, optionally narrowed to event types (see getEventType)
+// and one ministry, given by its id or slug. Resolves to null when that
+// ministry does not exist; throws on query errors.
+async function fetchCalendarFeed(categories: string[], ministry: string | null): Promise<CalendarFeedData | null> {
+  let ministryGroup: { id: string; name: string } | null = null
+
+  if (ministry) {
+    const { data: groups, error: groupsError } = await ministriesRepo.listActiveGroups()
+    if (groupsError) throw groupsError
+
+    ministryGroup = groups?.find(group => group.id === ministry || generateSlug(group.name) === ministry) ?? null
+    if (!ministryGroup) return null
+  }
+
+  const since = new Date(Date.now() - FEED_HISTORY_DAYS * DAY_MS)
+  const [{ data: tenant, error: tenantError }, { data: events, error: eventsError }] = await Promise.all([
+    settingsRepo.getTenantSettings(),
+    eventsRepo.listForFeed({ since, ministryGroupId: ministryGroup?.id })
+  ])
+
+  if (tenantError) throw tenantError
+  if (eventsError) throw eventsError
+
+  const matching = (events || []).filter(event =>
+    categories.length === 0 || categories.includes(getEventType(event.name, event.description))
+  )
+  const recurringIds = matching.filter(event => event.rrule).map(event => event.id)
+  const { data: overrides, error: overridesError } = recurringIds.length > 0
+    ? await eventsRepo.listOccurrenceOverrides(recurringIds)
+    : { data: [], error: null }
+
+  if (overridesError) throw overridesError
+
+  return {
+    tenant,
+    ministryName: ministryGroup?.name ?? null,
+    events: matching,
+    overrides: overrides || [],
+    timeZone: await getConfiguredTimezone()
+  }
+}
+
+const fetchCachedCalendarFeed = cachedContent(
+  fetchCalendarFeed,
+  ['calendar-feed'],
+  [CACHE_TAGS.events, CACHE_TAGS.settings]
+)
+
+function calendarHeaders(filename: string | null): HeadersInit {
+  return {
+    'Content-Type': 'text/calendar; charset=utf-8',
+    'Cache-Control': `public, s-maxage=${CALENDAR_CACHE_SECONDS}, stale-while-revalidate=${CALENDAR_CACHE_SECONDS}`,
+    ...(filename && { 'Content-Disposition': `attachment; filename="${filename}"` })
+  }
+}
+
+/**
+ * GET handler body for the subscribable feed. ?category= takes a comma
+ * separated list of event types and ?ministry= a ministry's slug or id.
+ */
+export async function calendarFeedResponse(request: NextRequest): Promise<Response> {
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json({ error: 'Calendar feed is not available' }, { status: 503 })
+  }
+
+  const categories = (request.nextUrl.searchParams.get('category') || '')
+    .split(',')
+    .map(category => category.trim().toLowerCase())
+    .filter(Boolean)
+    .sort()
+  const ministry = request.nextUrl.searchParams.get('ministry')?.trim() || null
+
+  try {
+    const feed = await fetchCachedCalendarFeed(categories, ministry)
+    if (!feed) {
+      return NextResponse.json({ error: 'Ministry not found' }, { status: 404 })
+    }
+
+    const siteUrl = siteOrigin(feed.tenant?.website, request.nextUrl.origin)
+    console.log(`📅 Calendar feed${feed.ministryName ? ` for ${feed.ministryName}` : ''}: ${feed.events.length} events`)
+    return new Response(renderCalendarFeed(feed, siteUrl), { headers: calendarHeaders(null) })
+  } catch (error) {
+    console.error('❌ Calendar feed error:', error)
+    return NextResponse.json({ error: 'Failed to build calendar feed' }, { status: 500 })
+  }
+}
+
+/**
+ * GET handler body for one event's .ics download. With ?occurrence= it holds
+ * just that occurrence of a recurring event; otherwise the whole event.
+ */
+export async function eventCalendarResponse(request: NextRequest, eventId: string): Promise<Response> {
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json({ error: 'Calendar download is not available' }, { status: 503 })
+  }
+
+  try {
+    const { data: event, error: eventError } = await eventsRepo.findById(eventId)
+    if (eventError || !event) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 })
+    }
+
+    const [{ data: tenant }, { data: overrides }, timeZone] = await Promise.all([
+      settingsRepo.getTenantSettings(),
+      event.rrule ? eventsRepo.listOccurrenceOverrides(eventId) : Promise.resolve({ data: [] as OccurrenceOverride[] }),
+      getConfiguredTimezone()
+    ])
+
+    const siteUrl = siteOrigin(tenant?.website, request.nextUrl.origin)
+    const context = { timeZone, siteUrl, stamp: utcDateTime(new Date()) }
+    const requested = request.nextUrl.searchParams.get('occurrence')
+    let body: string[]
+    let start = new Date(event.event_date)
+
+    if (requested) {
+      const occurrence = findEventOccurrence(event, overrides || [], timeZone, requested)
+      if (!occurrence?.occurrence_start) {
+        return NextResponse.json({ error: 'Event occurrence not found' }, { status: 404 })
+      }
+
+      // A standalone copy of the occurrence, apart from the series in any feed
+      start = new Date(occurrence.event_date)
+      body = [
+        'BEGIN:VEVENT',
+        `UID:${event.id}-${utcDateTime(new Date(occurrence.occurrence_start))}@${new URL(siteUrl).host}`,
+        `DTSTAMP:${context.stamp}`,
+        ...renderEventDetails(event, occurrence.override, start, eventRegistrationHref({ id: event.id, occurrence_start: occurrence.occurrence_start }), context),
+        'END:VEVENT'
+      ]
+    } else {
+      body = renderEvent(event, overrides || [], context)
+    }
+
+    const filename = `${generateSlug(event.name) || 'event'}.ics`
+    const year = Number(localDateTime(start, timeZone).slice(0, 4))
+    return new Response(renderCalendar(event.name, body, [year], timeZone, false), { headers: calendarHeaders(filename) })
+  } catch (error) {
+    console.error('❌ Event calendar error:', error)
+    return NextResponse.json({ error: 'Failed to build calendar file' }, { status: 500 })
+  }
+}
@@ -0,0 +1,180 @@
+import { getZonedDateTime, zonedDateTimeToDate } from '@/lib/timezone-utils'
+
+// Client-safe service schedule handling for the /live page and banner. The
+// schedule repeats weekly in the tenant's time zone; every instant is worked
+// out there, so services stay at the same local time across daylight saving
+// changes whatever the viewer's own time zone.
+
+export interface ServiceTime {
+  // 0 = Sunday … 6 = Saturday
+  day: number
+  // 24-hour local start time, "HH:MM"
+  start: string
+  duration_minutes: number
+  title: string
+}
+
+export interface ServiceOccurrence {
+  title: string
+  start: Date
+  end: Date
+  // Local calendar date, YYYY-MM-DD, as stored in sermons.sermon_date
+  date: string
+}
+
+// The recording of a livestreamed service, once it is published
+export interface ServiceSermon {
+  slug: string
+  title: string
+}
+
+/**
+ * - upcoming: counting down to the next service
+ * - live: a service is on (or about to start) and the stream is shown
+ * - ended: a service finished recently; its recording is linked
+ * - none: nothing is scheduled
+ */
+export type LiveStatus = 'upcoming' | 'live' | 'ended' | 'none'
+
+export interface LiveState {
+  status: LiveStatus
+  // The service on now (live) or the one that just finished (ended)
+  current: ServiceOccurrence | null
+  next: ServiceOccurrence | null
+}
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+const DEFAULT_SERVICE_MINUTES = 120
+const MAX_SERVICE_MINUTES = 24 * 60
+// The stream opens a little early so viewers can settle in
+export const LIVE_EARLY_MINUTES = 5
+// How long after a service the page points at its recording
+export const AFTER_SERVICE_HOURS = 12
+// The banner starts counting down this close to a service
+export const BANNER_LEAD_MINUTES = 30
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+const START_TIME = /^([01]?\d|2[0-3]):([0-5]\d)$/
+
+/**
+ * Services from tenant_settings.service_schedule, sorted through the week.
+ * Entries without a valid day or start time are dropped.
+ */
+export function parseServiceSchedule(value: unknown): ServiceTime[] {
+  if (!Array.isArray(value)) return []
+
+  return value
+    .flatMap((entry): ServiceTime[] => {
+      if (!entry || typeof entry !== 'object') return []
+      const { day, start, duration_minutes: duration, title } = entry as Record<string, unknown>
+
+      const dayIndex = typeof day === 'number' ? day : WEEKDAY_LABELS.findIndex(label => label.toLowerCase() === String(day).toLowerCase())
+      const time = typeof start === 'string' ? START_TIME.exec(start.trim()) : null
+      if (!Number.isInteger(dayIndex) || dayIndex < 0 || dayIndex > 6 || !time) return []
+
+      return [{
+        day: dayIndex,
+        start: `${time[1].padStart(2, '0')}:${time[2]}`,
+        duration_minutes: typeof duration === 'number' && duration > 0
+          ? Math.min(Math.round(duration), MAX_SERVICE_MINUTES)
+          : DEFAULT_SERVICE_MINUTES,
+        title: typeof title === 'string' && title.trim() ? title.trim() : 'Service'
+      }]
+    })
+    .sort((a, b) => a.day - b.day || a.start.localeCompare(b.start))
+}
+
+/**
+ * Every service from the day before `now` to a week after it, in order.
+ */
+export function serviceOccurrences(schedule: ServiceTime[], timeZone: string, now: Date): ServiceOccurrence[] {
+  if (schedule.length === 0) return []
+
+  const today = getZonedDateTime(now, timeZone)
+  const occurrences: ServiceOccurrence[] = []
+
+  for (let offset = -1; offset <= 7; offset++) {
+    // Calendar arithmetic on the local date; the time zone only matters for the start instant
+    const calendarDay = new Date(Date.UTC(today.year, today.month - 1, today.day + offset))
+    const date = calendarDay.toISOString().slice(0, 10)
+
+    for (const service of schedule) {
+      if (service.day !== calendarDay.getUTCDay()) continue
+
+      const [hour, minute] = service.start.split(':').map(Number)
+      const start = zonedDateTimeToDate({
+        year: calendarDay.getUTCFullYear(),
+        month: calendarDay.getUTCMonth() + 1,
+        day: calendarDay.getUTCDate(),
+        hour,
+        minute
+      }, timeZone)
+
+      occurrences.push({
+        title: service.title,
+        start,
+        end: new Date(start.getTime() + service.duration_minutes * MINUTE_MS),
+        date
+      })
+    }
+  }
+
+  return occurrences.sort((a, b) => a.start.getTime() - b.start.getTime())
+}
+
+/**
+ * Whether a service is live at `now`, which one is next and which one just
+ * finished.
+ */
+export function liveState(schedule: ServiceTime[], timeZone: string, now: Date): LiveState {
+  const occurrences = serviceOccurrences(schedule, timeZone, now)
+  const time = now.getTime()
+  const opensAt = (service: ServiceOccurrence) => service.start.getTime() - LIVE_EARLY_MINUTES * MINUTE_MS
+
+  const live = occurrences.find(service => opensAt(service) <= time && time < service.end.getTime())
+  const next = occurrences.find(service => service !== live && opensAt(service) > time) ?? null
+  if (live) return { status: 'live', current: live, next }
+
+  const previous = occurrences.filter(service => service.end.getTime() <= time).pop()
+  if (previous && time - previous.end.getTime() < AFTER_SERVICE_HOURS * 60 * MINUTE_MS) {
+    return { status: 'ended', current: previous, next }
+  }
+
+  return { status: next ? 'upcoming' : 'none', current: null, next }
+}
+
+/**
+ * Time left until `target`: "2d 04:12:09", "1:05:00" or "12:34".
+ */
+export function formatCountdown(target: Date, now: Date): string {
+  const totalSeconds = Math.max(0, Math.ceil((target.getTime() - now.getTime()) / 1000))
+  const days = Math.floor(totalSeconds / (DAY_MS / 1000))
+  const hours = Math.floor(totalSeconds / 3600) % 24
+  const minutes = Math.floor(totalSeconds / 60) % 60
+  const seconds = totalSeconds % 60
+  const pad = (value: number) => String(value).padStart(2, '0')
+
+  if (days > 0) return `${days}d ${pad(hours)}:${pad(minutes)}:${pad(seconds)}`
+  if (hours > 0) return `${hours}:${pad(minutes)}:${pad(seconds)}`
+  return `${minutes}:${pad(seconds)}`
+}
+
+/**
+ * A service's local start time, e.g. "Sunday, March 3 at 10:00 AM EST".
+ */
+export function formatServiceTime(service: ServiceOccurrence, timeZone: string): string {
+  const date = new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'long', month: 'long', day: 'numeric' }).format(service.start)
+  const time = new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', minute: '2-digit', timeZoneName: 'short' }).format(service.start)
+  return `${date} at ${time}`
+}
+
+/**
+ * A weekly service as "Sundays at 10:00 AM", in the tenant's time zone.
+ */
+export function formatWeeklyService(service: ServiceTime): string {
+  const [hour, minute] = service.start.split(':').map(Number)
+  const period = hour < 12 ? 'AM' : 'PM'
+  return `${WEEKDAY_LABELS[service.day]}s at ${hour % 12 || 12}:${String(minute).padStart(2, '0')} ${period}`
+}
@@ -0,0 +1,16 @@
+// Cookie names shared by the member API routes and client-side hooks.
+// Kept separate from member.ts so client components don't pull in node:crypto.
+
+// httpOnly cookie carrying the signed member token
+export const MEMBER_COOKIE = 'docm_member'
+// Readable flag so client hooks know to sync with the server
+export const MEMBER_FLAG_COOKIE = 'docm_member_active'
+
+/**
+ * Whether the browser carries a member session. Only the flag is readable;
+ * the server verifies the token itself.
+ */
+export function hasMemberFlag(): boolean {
+  if (typeof document === 'undefined') return false
+  return document.cookie.split('; ').some(cookie => cookie.startsWith(`${MEMBER_FLAG_COOKIE}=`))
+}
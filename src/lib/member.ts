@@ -0,0 +1,58 @@
+import type { NextRequest } from 'next/server'
+import { MEMBER_COOKIE, MEMBER_FLAG_COOKIE } from '@/lib/member-cookies'
+import { createSignedToken, verifySignedToken, type SignedTokenPayload } from '@/lib/signed-token'
+
+export { MEMBER_COOKIE, MEMBER_FLAG_COOKIE }
+
+// Members are contacts the admin app has sent a signed member link. There are
+// no website accounts; the link identifies the contact on this browser.
+
+const DEFAULT_TTL_SECONDS = 60 * 60 * 24 * 90 // 90 days
+const TOKEN_TYPE = 'member'
+
+interface MemberPayload extends SignedTokenPayload {
+  sub: string // contacts.id
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+function getMemberSecret(): string | null {
+  return process.env.MEMBER_SECRET || null
+}
+
+/**
+ * Create a signed member token for a contact. The admin app mints the same
+ * format with the shared MEMBER_SECRET and typ "member" (see signed-token.ts).
+ */
+export function createMemberToken(contactId: string, ttlSeconds: number = DEFAULT_TTL_SECONDS): string {
+  const secret = getMemberSecret()
+  if (!secret) {
+    throw new Error('MEMBER_SECRET not configured')
+  }
+
+  return createSignedToken({ sub: contactId }, secret, ttlSeconds, TOKEN_TYPE)
+}
+
+/**
+ * Verify a member token and return its payload, or null when the token is
+ * missing, tampered with, expired, not a member token, or members are not
+ * configured.
+ */
+export function verifyMemberToken(token: string | null | undefined): MemberPayload | null {
+  const secret = getMemberSecret()
+  if (!secret) return null
+
+  const payload = verifySignedToken<MemberPayload>(token, secret, TOKEN_TYPE)
+  if (!payload || typeof payload.sub !== 'string' || !UUID_PATTERN.test(payload.sub)) {
+    return null
+  }
+  return payload
+}
+
+/**
+ * The contact id of the member making an API request, from the member cookie,
+ * or null for anonymous visitors.
+ */
+export function getRequestMemberId(request: NextRequest): string | null {
+  return verifyMemberToken(request.cookies.get(MEMBER_COOKIE)?.value)?.sub ?? null
+}
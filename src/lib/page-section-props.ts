@@ -0,0 +1,49 @@
+import {
+  arrayOf,
+  object,
+  oneOf,
+  parseProps,
+  required,
+  string,
+  withDefault,
+  type InferShape,
+  type Shape
+} from '@/lib/section-schema'
+
+// Props shared by the sections that the fixed-layout page APIs (blog, contact,
+// sermons, gallery) build from page_sections. The renderable section types
+// have their own schemas in section-registry.
+
+export const backgroundMediaField = object({
+  url: required(string()),
+  type: withDefault(oneOf(['image', 'video']), 'image'),
+  alt_text: string()
+})
+
+export const ctaButtonsField = arrayOf(object({
+  text: required(string()),
+  link: required(string()),
+  style: withDefault(oneOf(['primary', 'secondary']), 'primary')
+}))
+
+export const pageHeroShape = {
+  first_line_text: string(),
+  heading: string(),
+  subheading: string(),
+  backgroundImage: string(),
+  backgroundMedia: backgroundMediaField,
+  ctaButtons: ctaButtonsField
+}
+
+/**
+ * Narrow a section's raw props to a shape. Values of the wrong type are
+ * dropped, so callers fall back to their defaults for them. Shapes used here
+ * have no required top-level fields, so a result is always returned.
+ */
+export function readSectionProps<S extends Shape>(type: string, shape: S, props: unknown): Partial<InferShape<S>> {
+  const { data, issues } = parseProps(shape, props)
+  if (issues.length > 0) {
+    console.warn(`⚠️ Section "${type}" has invalid props:`, issues.map(issue => `${issue.path || 'props'}: ${issue.message}`))
+  }
+  return data ?? {}
+}
@@ -0,0 +1,249 @@
+// Minimal PDF writer for simple text documents (sermon notes): US Letter
+// pages, the standard Helvetica fonts, word wrapping and page numbers. Text is
+// WinAnsi-encoded, so characters outside Latin-1 and common punctuation print
+// as "?".
+
+export type PdfFont = 'regular' | 'bold' | 'italic'
+
+export interface PdfRun {
+  text: string
+  font?: PdfFont
+}
+
+export interface PdfBlock {
+  runs: PdfRun[]
+  // Points
+  size?: number
+  // Extra space above the block, in points
+  spaceBefore?: number
+  // Left indent in points, e.g. for bullets
+  indent?: number
+  // Grey text, for captions and dates
+  muted?: boolean
+  // Short text drawn in the indent before the first line ("•", "1.")
+  marker?: string
+}
+
+export interface PdfDocumentOptions {
+  title: string
+  // Printed at the foot of every page with the page number
+  footer?: string
+}
+
+const PAGE_WIDTH = 612
+const PAGE_HEIGHT = 792
+const MARGIN = 54
+const FOOTER_SIZE = 8
+const DEFAULT_SIZE = 11
+const LINE_HEIGHT = 1.35
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+  regular: { name: 'F1', baseFont: 'Helvetica' },
+  bold: { name: 'F2', baseFont: 'Helvetica-Bold' },
+  italic: { name: 'F3', baseFont: 'Helvetica-Oblique' }
+}
+
+// Glyph widths (1/1000 em) for characters 32-126, from the Adobe font metrics.
+// Helvetica-Oblique uses the Helvetica widths.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+]
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+]
+const FALLBACK_WIDTH = 556
+
+// Typographic characters WinAnsiEncoding has outside Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, '‰': 0x89,
+  '‹': 0x8b, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96,
+  '—': 0x97, '™': 0x99, '›': 0x9b
+}
+
+function encodeChar(char: string): number {
+  const code = char.codePointAt(0) ?? 63
+  if (code >= 32 && code <= 126) return code
+  if (WIN_ANSI_EXTRAS[char]) return WIN_ANSI_EXTRAS[char]
+  if (code >= 160 && code <= 255) return code
+  return 63 // "?"
+}
+
+function charWidth(code: number, font: PdfFont): number {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS
+  return code >= 32 && code <= 126 ? widths[code - 32] : FALLBACK_WIDTH
+}
+
+export function textWidth(text: string, font: PdfFont, size: number): number {
+  let units = 0
+  for (const char of text) units += charWidth(encodeChar(char), font)
+  return (units * size) / 1000
+}
+
+// PDF string literal, with WinAnsi bytes outside ASCII written as octal escapes
+function pdfString(text: string): string {
+  let out = '('
+  for (const char of text) {
+    const code = encodeChar(char)
+    if (char === '(' || char === ')' || char === '\\') out += `\\${char}`
+    else if (code < 32 || code > 126) out += `\\${code.toString(8).padStart(3, '0')}`
+    else out += char
+  }
+  return `${out})`
+}
+
+interface PlacedWord {
+  text: string
+  font: PdfFont
+  x: number
+}
+
+interface PlacedLine {
+  y: number
+  size: number
+  muted: boolean
+  words: PlacedWord[]
+}
+
+interface Page {
+  lines: PlacedLine[]
+}
+
+/**
+ * Lay out blocks top to bottom, wrapping words to the page width and starting
+ * new pages as needed.
+ */
+function layout(blocks: PdfBlock[]): Page[] {
+  const pages: Page[] = [{ lines: [] }]
+  const bottom = MARGIN + FOOTER_SIZE * 3
+  let y = PAGE_HEIGHT - MARGIN
+
+  const newLine = (size: number): number => {
+    const lineHeight = size * LINE_HEIGHT
+    if (y - lineHeight < bottom) {
+      pages.push({ lines: [] })
+      y = PAGE_HEIGHT - MARGIN
+    }
+    y -= lineHeight
+    return y
+  }
+
+  for (const block of blocks) {
+    const size = block.size ?? DEFAULT_SIZE
+    const indent = block.indent ?? 0
+    const left = MARGIN + indent
+    const right = PAGE_WIDTH - MARGIN
+    const muted = Boolean(block.muted)
+
+    if (pages[pages.length - 1].lines.length > 0) y -= block.spaceBefore ?? 0
+
+    const words = block.runs.flatMap(run =>
+      run.text.split(/(\s+)/).filter(Boolean).map(text => ({ text, font: run.font ?? 'regular' }))
+    )
+
+    let line: PlacedLine = { y: newLine(size), size, muted, words: [] }
+    if (block.marker) {
+      line.words.push({ text: block.marker, font: 'regular', x: left - textWidth(`${block.marker} `, 'regular', size) })
+    }
+    let x = left
+
+    for (const word of words) {
+      const isSpace = /^\s+$/.test(word.text)
+      if (isSpace) {
+        if (x > left) x += textWidth(' ', word.font, size)
+        continue
+      }
+
+      const width = textWidth(word.text, word.font, size)
+      if (x + width > right && x > left) {
+        pages[pages.length - 1].lines.push(line)
+        line = { y: newLine(size), size, muted, words: [] }
+        x = left
+      }
+      line.words.push({ text: word.text, font: word.font, x })
+      x += width
+    }
+
+    pages[pages.length - 1].lines.push(line)
+  }
+
+  return pages
+}
+
+function pageContent(page: Page, pageNumber: number, pageCount: number, footer: string): string {
+  const ops: string[] = []
+
+  for (const line of page.lines) {
+    ops.push(line.muted ? '0.42 0.45 0.5 rg' : '0.07 0.09 0.15 rg')
+    for (const word of line.words) {
+      ops.push(`BT /${FONT_RESOURCES[word.font].name} ${line.size} Tf ${word.x.toFixed(2)} ${line.y.toFixed(2)} Td ${pdfString(word.text)} Tj ET`)
+    }
+  }
+
+  const footerText = `${footer}${footer ? '  ·  ' : ''}Page ${pageNumber} of ${pageCount}`
+  ops.push('0.42 0.45 0.5 rg')
+  ops.push(`BT /F1 ${FOOTER_SIZE} Tf ${MARGIN} ${MARGIN} Td ${pdfString(footerText)} Tj ET`)
+
+  return ops.join('\n')
+}
+
+/**
+ * Render blocks of text as a PDF file.
+ */
+export function renderPdf(blocks: PdfBlock[], { title, footer = '' }: PdfDocumentOptions): Uint8Array {
+  const pages = layout(blocks)
+  const objects: string[] = []
+  const addObject = (body: string): number => {
+    objects.push(body)
+    return objects.length
+  }
+
+  const catalogId = addObject('') // filled in once the page tree exists
+  const pagesId = addObject('')
+  const fontIds = Object.fromEntries(
+    (Object.keys(FONT_RESOURCES) as PdfFont[]).map(font => [
+      font,
+      addObject(`<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_RESOURCES[font].baseFont} /Encoding /WinAnsiEncoding >>`)
+    ])
+  ) as Record<PdfFont, number>
+  const fontDictionary = (Object.keys(FONT_RESOURCES) as PdfFont[])
+    .map(font => `/${FONT_RESOURCES[font].name} ${fontIds[font]} 0 R`)
+    .join(' ')
+
+  const pageIds = pages.map((page, index) => {
+    const content = pageContent(page, index + 1, pages.length, footer)
+    const contentId = addObject(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`)
+    return addObject(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << ${fontDictionary} >> >> /Contents ${contentId} 0 R >>`
+    )
+  })
+
+  objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`
+  objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`
+  const infoId = addObject(`<< /Title ${pdfString(title)} /Producer (DOCM Web) >>`)
+
+  // Every object body is ASCII, so string lengths are byte offsets
+  let output = '%PDF-1.4\n'
+  const offsets = objects.map((body, index) => {
+    const offset = output.length
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`
+    return offset
+  })
+
+  const xrefOffset = output.length
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  output += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('')
+  output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+  return new TextEncoder().encode(output)
+}
@@ -0,0 +1,104 @@
+// Client-safe helpers for anonymous sermon playback events. Events carry a
+// random per-tab session id and nothing that identifies the viewer; the server
+// counts each event once per session (see src/db/add_sermon_playback_events.sql).
+
+export const PLAYBACK_EVENTS = ['started', 'progress_25', 'progress_50', 'progress_75', 'completed', 'download'] as const
+export const PLAYBACK_MEDIA = ['video', 'audio'] as const
+
+export type PlaybackEvent = typeof PLAYBACK_EVENTS[number]
+export type PlaybackMedia = typeof PLAYBACK_MEDIA[number]
+
+export interface PlaybackEventPayload {
+  sermonId: string
+  sessionId: string
+  event: PlaybackEvent
+  media: PlaybackMedia
+}
+
+export const PLAYBACK_EVENTS_ENDPOINT = '/api/sermon-playback'
+
+// Kept in sessionStorage so the id ends with the tab and is never shared
+// between visits
+const PLAYBACK_SESSION_KEY = 'docm_playback_session'
+
+// "Most watched this month" counts sessions over a rolling window
+export const MOST_WATCHED_WINDOW_DAYS = 30
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9-]{16,64}$/
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Progress milestones, as fractions of the media's duration
+const PROGRESS_MILESTONES: [number, PlaybackEvent][] = [
+  [0.25, 'progress_25'],
+  [0.5, 'progress_50'],
+  [0.75, 'progress_75']
+]
+
+export function isPlaybackEvent(value: unknown): value is PlaybackEvent {
+  return typeof value === 'string' && (PLAYBACK_EVENTS as readonly string[]).includes(value)
+}
+
+export function isPlaybackMedia(value: unknown): value is PlaybackMedia {
+  return typeof value === 'string' && (PLAYBACK_MEDIA as readonly string[]).includes(value)
+}
+
+export function isPlaybackSessionId(value: unknown): value is string {
+  return typeof value === 'string' && SESSION_ID_PATTERN.test(value)
+}
+
+/**
+ * Whether an id can refer to a database sermon. Default (seed) sermons have
+ * non-uuid ids and are never tracked.
+ */
+export function isTrackableSermonId(value: unknown): value is string {
+  return typeof value === 'string' && UUID_PATTERN.test(value)
+}
+
+/**
+ * Progress milestones reached at a playback position. 'completed' is reported
+ * by the player's ended event instead, since the last seconds often go unplayed.
+ */
+export function reachedMilestones(currentTime: number, duration: number): PlaybackEvent[] {
+  if (!Number.isFinite(duration) || duration <= 0) return []
+
+  const fraction = currentTime / duration
+  return PROGRESS_MILESTONES.filter(([threshold]) => fraction >= threshold).map(([, event]) => event)
+}
+
+function playbackSessionId(): string {
+  try {
+    const stored = window.sessionStorage.getItem(PLAYBACK_SESSION_KEY)
+    if (isPlaybackSessionId(stored)) return stored
+
+    const created = crypto.randomUUID()
+    window.sessionStorage.setItem(PLAYBACK_SESSION_KEY, created)
+    return created
+  } catch {
+    // Storage disabled: events from this page view still share one id
+    return crypto.randomUUID()
+  }
+}
+
+/**
+ * Send one playback event without delaying the page. Uses sendBeacon so events
+ * survive navigation, falling back to a keepalive fetch. Failures are ignored.
+ */
+export function sendPlaybackEvent(sermonId: string, event: PlaybackEvent, media: PlaybackMedia): void {
+  if (typeof window === 'undefined' || !isTrackableSermonId(sermonId)) return
+
+  const payload: PlaybackEventPayload = { sermonId, sessionId: playbackSessionId(), event, media }
+  const body = JSON.stringify(payload)
+
+  try {
+    if (navigator.sendBeacon?.(PLAYBACK_EVENTS_ENDPOINT, new Blob([body], { type: 'application/json' }))) return
+  } catch {
+    // Fall through to fetch
+  }
+
+  fetch(PLAYBACK_EVENTS_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body,
+    keepalive: true
+  }).catch(() => {})
+}
@@ -0,0 +1,243 @@
+import { createHash } from 'crypto'
+import { NextResponse, type NextRequest } from 'next/server'
+import { CACHE_TAGS } from '@/lib/cache-tags'
+import { cachedContent, fromIsoString, toIsoString } from '@/lib/content/cache'
+import type { Tables } from '@/lib/database.types'
+import { publishWindowCacheControl } from '@/lib/publish-window'
+import { seriesRepo, sermonsRepo, settingsRepo } from '@/lib/repositories'
+import { siteOrigin } from '@/lib/site-url'
+import { isSupabaseConfigured } from '@/lib/supabase'
+
+// Apple and most podcast apps stop reading long before this
+const MAX_EPISODES = 300
+
+// Podcasting 2.0 namespace for podcast:guid (UUIDv5 of the feed URL)
+const PODCAST_GUID_NAMESPACE = 'ead4c236-bf58-58c6-a2c6-a6b28d128cb6'
+
+type Sermon = Tables<'sermons'>
+type SermonSeries = Tables<'sermon_series'>
+type TenantSettings = Tables<'tenant_settings'>
+
+export interface PodcastFeedData {
+  tenant: TenantSettings | null
+  // Set when this is a per-series feed
+  series: SermonSeries | null
+  episodes: Sermon[]
+  nextChangeAt: Date | null
+}
+
+interface FeedUrls {
+  // Public site origin, e.g. https://example.org
+  siteUrl: string
+  // Absolute URL of the feed itself
+  feedUrl: string
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function element(name: string, value: string | null | undefined, attributes = ''): string {
+  if (!value) return ''
+  return `<${name}${attributes}>${escapeXml(value)}</${name}>`
+}
+
+function absoluteUrl(url: string, siteUrl: string): string {
+  return new URL(url, siteUrl).toString()
+}
+
+/**
+ * podcast:guid for a feed: a UUIDv5 of the feed URL without its scheme and
+ * trailing slashes, so it stays stable when the feed is moved.
+ */
+export function podcastGuid(feedUrl: string): string {
+  const name = feedUrl.replace(/^[a-z]+:\/\//i, '').replace(/\/+$/, '')
+  const namespace = Buffer.from(PODCAST_GUID_NAMESPACE.replace(/-/g, ''), 'hex')
+  const hash = createHash('sha1').update(namespace).update(name).digest()
+
+  hash[6] = (hash[6] & 0x0f) | 0x50 // version 5
+  hash[8] = (hash[8] & 0x3f) | 0x80 // RFC 4122 variant
+
+  const hex = hash.subarray(0, 16).toString('hex')
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+}
+
+// Enclosure MIME type from the audio file extension
+function audioMimeType(url: string): string {
+  const extension = url.split('?')[0].split('.').pop()?.toLowerCase()
+  switch (extension) {
+    case 'm4a':
+      return 'audio/x-m4a'
+    case 'aac':
+      return 'audio/aac'
+    case 'ogg':
+    case 'oga':
+      return 'audio/ogg'
+    case 'wav':
+      return 'audio/wav'
+    default:
+      return 'audio/mpeg'
+  }
+}
+
+// Sermon durations are stored in minutes; itunes:duration takes seconds
+function episodeDuration(minutes: number | null): string | null {
+  return minutes && minutes > 0 ? String(Math.round(minutes * 60)) : null
+}
+
+function renderEpisode(sermon: Sermon, { siteUrl }: FeedUrls, channelImage: string | null): string {
+  const link = absoluteUrl(`/media/sermons/${sermon.slug}`, siteUrl)
+  const audioUrl = absoluteUrl(sermon.audio_url as string, siteUrl)
+  const summary = [sermon.description, sermon.scripture_reference && `Scripture: ${sermon.scripture_reference}`]
+    .filter(Boolean)
+    .join('\n\n') || `A sermon by ${sermon.speaker}.`
+  const image = sermon.thumbnail_image ? absoluteUrl(sermon.thumbnail_image, siteUrl) : channelImage
+
+  return [
+    '<item>',
+    element('title', sermon.title),
+    element('link', link),
+    element('guid', sermon.id, ' isPermaLink="false"'),
+    element('pubDate', new Date(sermon.sermon_date).toUTCString()),
+    element('description', summary),
+    // Length is required by RSS but unknown without fetching the file; 0 is the accepted convention
+    `<enclosure url="${escapeXml(audioUrl)}" length="0" type="${audioMimeType(audioUrl)}"/>`,
+    element('itunes:title', sermon.title),
+    element('itunes:author', sermon.speaker),
+    element('itunes:summary', summary),
+    element('itunes:duration', episodeDuration(sermon.duration)),
+    image ? `<itunes:image href="${escapeXml(image)}"/>` : '',
+    '<itunes:episodeType>full</itunes:episodeType>',
+    element('podcast:person', sermon.speaker, ' role="host"'),
+    '</item>'
+  ].filter(Boolean).join('\n')
+}
+
+/**
+ * Render a podcast RSS 2.0 feed with iTunes and Podcasting 2.0 tags. Channel
+ * metadata comes from the tenant's podcast_* settings, falling back to its
+ * name, description, logo and contact email.
+ */
+export function renderPodcastFeed({ tenant, series, episodes }: PodcastFeedData, urls: FeedUrls): string {
+  const churchName = tenant?.name || 'Church'
+  const baseTitle = tenant?.podcast_title || `${churchName} Sermons`
+  const title = series ? `${baseTitle}: ${series.title}` : baseTitle
+  const description = series?.description || tenant?.podcast_description || tenant?.description || `Sermons from ${churchName}.`
+  const author = tenant?.podcast_author || churchName
+  const ownerEmail = tenant?.podcast_owner_email || tenant?.contact_email
+  const imageSource = series?.artwork_url || tenant?.podcast_image_url || tenant?.logo_url
+  const image = imageSource ? absoluteUrl(imageSource, urls.siteUrl) : null
+  const category = tenant?.podcast_category || 'Religion & Spirituality'
+  const subcategory = tenant?.podcast_subcategory
+  const link = absoluteUrl(series ? `/media/sermons/series/${series.slug}` : '/media/sermons', urls.siteUrl)
+
+  const channel = [
+    element('title', title),
+    element('link', link),
+    element('description', description),
+    element('language', tenant?.podcast_language || 'en-us'),
+    element('copyright', `© ${new Date().getFullYear()} ${churchName}`),
+    element('lastBuildDate', new Date().toUTCString()),
+    `<atom:link href="${escapeXml(urls.feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    image ? `<image><url>${escapeXml(image)}</url>${element('title', title)}${element('link', link)}</image>` : '',
+    element('itunes:author', author),
+    element('itunes:summary', description),
+    '<itunes:type>episodic</itunes:type>',
+    `<itunes:explicit>${tenant?.podcast_explicit ? 'true' : 'false'}</itunes:explicit>`,
+    ownerEmail ? `<itunes:owner>${element('itunes:name', author)}${element('itunes:email', ownerEmail)}</itunes:owner>` : '',
+    image ? `<itunes:image href="${escapeXml(image)}"/>` : '',
+    subcategory
+      ? `<itunes:category text="${escapeXml(category)}"><itunes:category text="${escapeXml(subcategory)}"/></itunes:category>`
+      : `<itunes:category text="${escapeXml(category)}"/>`,
+    element('podcast:guid', podcastGuid(urls.feedUrl)),
+    ownerEmail ? element('podcast:locked', 'no', ` owner="${escapeXml(ownerEmail)}"`) : '',
+    ...episodes.map(sermon => renderEpisode(sermon, urls, image))
+  ].filter(Boolean).join('\n')
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:podcast="https://podcastindex.org/namespace/1.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '<channel>',
+    channel,
+    '</channel>',
+    '</rss>'
+  ].join('\n')
+}
+
+// Episodes and channel settings for a feed. Resolves to null when the series
+// does not exist; throws on query errors.
+async function fetchPodcastFeed(seriesSlug: string | null) {
+  const now = new Date()
+  let series: SermonSeries | null = null
+
+  if (seriesSlug) {
+    const { data, error: seriesError } = await seriesRepo.findBySlug(seriesSlug)
+    if (seriesError) throw seriesError
+
+    series = data
+    if (!series) return null
+  }
+
+  const [{ data: tenant, error: tenantError }, { data: episodes, error: episodesError }] = await Promise.all([
+    settingsRepo.getTenantSettings(),
+    sermonsRepo.listPodcastEpisodes({ seriesId: series?.id, limit: MAX_EPISODES, now })
+  ])
+
+  if (tenantError) throw tenantError
+  if (episodesError) throw episodesError
+
+  const nextChangeAt = await sermonsRepo.nextScheduledChange(now)
+  return { tenant, series, episodes: episodes || [], nextChangeAt: toIsoString(nextChangeAt) }
+}
+
+const fetchCachedPodcastFeed = cachedContent(
+  fetchPodcastFeed,
+  ['podcast-feed'],
+  [CACHE_TAGS.sermons, CACHE_TAGS.series, CACHE_TAGS.settings]
+)
+
+/**
+ * Everything needed to render the main podcast feed, or one series' feed
+ * when a series slug is given. Null when that series does not exist.
+ */
+export async function getPodcastFeed(seriesSlug: string | null = null): Promise<PodcastFeedData | null> {
+  const record = await fetchCachedPodcastFeed(seriesSlug)
+  if (!record) return null
+
+  return { ...record, nextChangeAt: fromIsoString(record.nextChangeAt) }
+}
+
+/**
+ * GET handler body shared by the main and per-series feed routes.
+ */
+export async function podcastFeedResponse(request: NextRequest, seriesSlug: string | null = null): Promise<Response> {
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json({ error: 'Podcast feed is not available' }, { status: 503 })
+  }
+
+  try {
+    const feed = await getPodcastFeed(seriesSlug)
+    if (!feed) {
+      return NextResponse.json({ error: 'Series not found' }, { status: 404 })
+    }
+
+    const siteUrl = siteOrigin(feed.tenant?.website, request.nextUrl.origin)
+    const feedUrl = absoluteUrl(request.nextUrl.pathname, siteUrl)
+
+    console.log(`🎙️ Podcast feed${feed.series ? ` for ${feed.series.title}` : ''}: ${feed.episodes.length} episodes`)
+    return new Response(renderPodcastFeed(feed, { siteUrl, feedUrl }), {
+      headers: {
+        'Content-Type': 'application/rss+xml; charset=utf-8',
+        'Cache-Control': publishWindowCacheControl(feed.nextChangeAt)
+      }
+    })
+  } catch (error) {
+    console.error('❌ Podcast feed error:', error)
+    return NextResponse.json({ error: 'Failed to build podcast feed' }, { status: 500 })
+  }
+}
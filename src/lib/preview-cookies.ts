@@ -0,0 +1,7 @@
+// Cookie names shared by the preview API routes and the client-side banner.
+// Kept separate from preview.ts so client components don't pull in node:crypto.
+
+// httpOnly cookie carrying the signed token
+export const PREVIEW_COOKIE = 'docm_preview'
+// Readable flag so client components can show the preview banner
+export const PREVIEW_FLAG_COOKIE = 'docm_preview_active'
@@ -0,0 +1,90 @@
+import { cookies, draftMode } from 'next/headers'
+import type { NextRequest } from 'next/server'
+import { PREVIEW_COOKIE, PREVIEW_FLAG_COOKIE } from '@/lib/preview-cookies'
+import { createSignedToken, verifySignedToken, type SignedTokenPayload } from '@/lib/signed-token'
+
+export { PREVIEW_COOKIE, PREVIEW_FLAG_COOKIE }
+
+const DEFAULT_TTL_SECONDS = 60 * 60 // 1 hour
+const TOKEN_TYPE = 'preview'
+
+type PreviewPayload = SignedTokenPayload
+
+function getPreviewSecret(): string | null {
+  return process.env.PREVIEW_SECRET || null
+}
+
+/**
+ * Create a signed preview token. The admin app mints the same format with the
+ * shared PREVIEW_SECRET and typ "preview" (see signed-token.ts).
+ */
+export function createPreviewToken(ttlSeconds: number = DEFAULT_TTL_SECONDS): string {
+  const secret = getPreviewSecret()
+  if (!secret) {
+    throw new Error('PREVIEW_SECRET not configured')
+  }
+
+  return createSignedToken({}, secret, ttlSeconds, TOKEN_TYPE)
+}
+
+/**
+ * Verify a preview token and return its payload, or null when the token is
+ * missing, tampered with, expired, not a preview token, or preview is not
+ * configured.
+ */
+export function verifyPreviewToken(token: string | null | undefined): PreviewPayload | null {
+  const secret = getPreviewSecret()
+  if (!secret) return null
+
+  return verifySignedToken<PreviewPayload>(token, secret, TOKEN_TYPE)
+}
+
+// Stand-in origin for resolving redirect paths; only whether it changes matters
+const REDIRECT_BASE = 'http://localhost'
+
+function hasControlCharacters(value: string): boolean {
+  return [...value].some(character => {
+    const code = character.charCodeAt(0)
+    return code < 0x20 || code === 0x7f
+  })
+}
+
+/**
+ * Only allow same-site redirects so the preview endpoints cannot be used as an
+ * open redirect. Browsers read "/\evil.com" as "//evil.com", so backslashes
+ * and control characters are refused, and the path must resolve to the same
+ * origin.
+ */
+export function safeRedirectPath(path: string | null): string {
+  if (!path || !path.startsWith('/') || path.includes('\\') || hasControlCharacters(path)) return '/'
+
+  try {
+    const url = new URL(path, REDIRECT_BASE)
+    if (url.origin !== REDIRECT_BASE) return '/'
+    return `${url.pathname}${url.search}${url.hash}`
+  } catch {
+    return '/'
+  }
+}
+
+/**
+ * Whether an API request is in preview mode, via ?preview=<token> or the
+ * preview cookie set by /api/preview.
+ */
+export function isPreviewRequest(request: NextRequest): boolean {
+  const token = request.nextUrl.searchParams.get('preview') || request.cookies.get(PREVIEW_COOKIE)?.value
+  return verifyPreviewToken(token) !== null
+}
+
+/**
+ * Whether the current server component render is in preview mode. Entering
+ * preview also enables Next.js draft mode, which is checked first: it lets
+ * statically rendered (ISR) pages skip the cookie read outside preview.
+ */
+export async function isPreviewMode(): Promise<boolean> {
+  const draft = await draftMode()
+  if (!draft.isEnabled) return false
+
+  const cookieStore = await cookies()
+  return verifyPreviewToken(cookieStore.get(PREVIEW_COOKIE)?.value) !== null
+}
@@ -0,0 +1,115 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/lib/database.types'
+
+// Optional scheduling columns on pages, page_sections, blogs and sermons.
+// A null bound means "no limit" on that side.
+export interface PublishWindow {
+  publish_at?: string | null
+  unpublish_at?: string | null
+}
+
+// How long CDN caches may keep content responses when nothing is scheduled
+const DEFAULT_CONTENT_MAX_AGE = 300 // 5 minutes
+const DEFAULT_STALE_WHILE_REVALIDATE = 60
+
+/**
+ * Whether a row is live at `now`: publish_at has passed (or is unset) and
+ * unpublish_at has not been reached (or is unset).
+ */
+export function isWithinPublishWindow(row: PublishWindow, now: Date = new Date()): boolean {
+  const time = now.getTime()
+  if (row.publish_at && new Date(row.publish_at).getTime() > time) return false
+  if (row.unpublish_at && new Date(row.unpublish_at).getTime() <= time) return false
+  return true
+}
+
+export function filterByPublishWindow<T extends PublishWindow>(rows: T[], now: Date = new Date()): T[] {
+  return rows.filter(row => isWithinPublishWindow(row, now))
+}
+
+/**
+ * The earliest publish_at/unpublish_at strictly after `now` across the given
+ * rows, i.e. the next moment the rendered content changes by itself.
+ */
+export function nextWindowBoundary(rows: PublishWindow[], now: Date = new Date()): Date | null {
+  let next: number | null = null
+  for (const row of rows) {
+    for (const value of [row.publish_at, row.unpublish_at]) {
+      if (!value) continue
+      const time = new Date(value).getTime()
+      if (Number.isNaN(time) || time <= now.getTime()) continue
+      if (next === null || time < next) next = time
+    }
+  }
+  return next === null ? null : new Date(next)
+}
+
+/**
+ * Restrict a Supabase query to rows that are live at `now`.
+ */
+export function applyPublishWindow<Q extends { or: (filters: string) => Q }>(query: Q, now: Date = new Date()): Q {
+  const iso = now.toISOString()
+  return query
+    .or(`publish_at.is.null,publish_at.lte.${iso}`)
+    .or(`unpublish_at.is.null,unpublish_at.gt.${iso}`)
+}
+
+/**
+ * Find the next scheduled publish/unpublish time for published rows of a
+ * table. Scheduled rows are filtered out of the main query, so their
+ * publish_at has to be looked up separately. Errors resolve to null.
+ */
+export async function getNextScheduledBoundary(
+  supabase: SupabaseClient<Database>,
+  table: 'blogs' | 'sermons',
+  now: Date = new Date()
+): Promise<Date | null> {
+  const iso = now.toISOString()
+  try {
+    const [upcoming, expiring] = await Promise.all([
+      supabase
+        .from(table)
+        .select('publish_at')
+        .eq('status', 'published')
+        .gt('publish_at', iso)
+        .order('publish_at', { ascending: true })
+        .limit(1),
+      supabase
+        .from(table)
+        .select('unpublish_at')
+        .eq('status', 'published')
+        .gt('unpublish_at', iso)
+        .order('unpublish_at', { ascending: true })
+        .limit(1)
+    ])
+
+    return nextWindowBoundary([...(upcoming.data || []), ...(expiring.data || [])], now)
+  } catch (error) {
+    console.info(`Could not look up scheduled ${table} changes:`, error)
+    return null
+  }
+}
+
+/**
+ * Cache-Control value that lets CDNs cache content until the next publish
+ * window boundary at the latest. Preview responses are never cached.
+ */
+export function publishWindowCacheControl(
+  boundary: Date | null,
+  { now = new Date(), preview = false }: { now?: Date; preview?: boolean } = {}
+): string {
+  if (preview) return 'private, no-store'
+
+  if (!boundary) {
+    return `public, s-maxage=${DEFAULT_CONTENT_MAX_AGE}, stale-while-revalidate=${DEFAULT_STALE_WHILE_REVALIDATE}`
+  }
+
+  const untilBoundary = Math.max(1, Math.ceil((boundary.getTime() - now.getTime()) / 1000))
+  const maxAge = Math.min(DEFAULT_CONTENT_MAX_AGE, untilBoundary)
+  // Never let a stale copy outlive the boundary
+  const staleWhileRevalidate = Math.min(DEFAULT_STALE_WHILE_REVALIDATE, untilBoundary - maxAge)
+
+  return staleWhileRevalidate > 0
+    ? `public, s-maxage=${maxAge}, stale-while-revalidate=${staleWhileRevalidate}`
+    : `public, s-maxage=${maxAge}, must-revalidate`
+}
@@ -0,0 +1,90 @@
+import { applyPublishWindow, getNextScheduledBoundary } from '@/lib/publish-window'
+import { contentClient, publicClient, trustedClient } from './clients'
+
+export interface BlogListFilters {
+  status: string
+  search?: string
+  category?: string
+  page: number
+  limit: number
+}
+
+export const blogsRepo = {
+  /**
+   * One page of blogs with an exact total count. Publish windows only apply
+   * to the public (published) listing.
+   */
+  list({ status, search, category, page, limit }: BlogListFilters, now: Date = new Date()) {
+    let query = publicClient()
+      .from('blogs')
+      .select('*', { count: 'exact' })
+      .eq('status', status)
+      .order('published_at', { ascending: false })
+
+    if (status === 'published') {
+      query = applyPublishWindow(query, now)
+    }
+
+    if (search?.trim()) {
+      query = query.or(`title.ilike.%${search}%,content.ilike.%${search}%,excerpt.ilike.%${search}%`)
+    }
+
+    // Categories are stored as tags
+    if (category?.trim()) {
+      query = query.contains('tags', [category])
+    }
+
+    const from = (page - 1) * limit
+    return query.range(from, from + limit - 1)
+  },
+
+  findBySlug(slug: string, { preview = false }: { preview?: boolean } = {}) {
+    return contentClient(preview)
+      .from('blogs')
+      .select('*')
+      .eq('slug', slug)
+      .in('status', preview ? ['draft', 'published'] : ['published'])
+      .single()
+  },
+
+  /**
+   * Published posts inside their publish window, by id, newest first.
+   */
+  listPublishedByIds(ids: string[], now: Date = new Date()) {
+    return applyPublishWindow(
+      publicClient()
+        .from('blogs')
+        .select('*')
+        .eq('status', 'published')
+        .in('id', ids),
+      now
+    )
+      .order('published_at', { ascending: false })
+  },
+
+  /**
+   * Scripture reference of every post, drafts included, for building the
+   * passage index. Uses the service role when available.
+   */
+  listReferencesForIndex() {
+    return trustedClient()
+      .from('blogs')
+      .select('id, scripture_reference')
+  },
+
+  /**
+   * The current scripture reference of one post, drafts included; null data
+   * when it no longer exists.
+   */
+  findReferenceForIndex(id: string) {
+    return trustedClient()
+      .from('blogs')
+      .select('id, scripture_reference')
+      .eq('id', id)
+      .maybeSingle()
+  },
+
+  nextScheduledChange(now: Date = new Date()) {
+    return getNextScheduledBoundary(publicClient(), 'blogs', now)
+  }
+}
@@ -0,0 +1,26 @@
+import { createServerSupabaseClient } from '@/lib/supabase'
+import { createPrivilegedSupabaseClient, hasPrivilegedAccess } from '@/lib/supabase-admin'
+
+// Which Supabase role each kind of access uses. Repositories pick one of these
+// rather than creating clients themselves, so the anon/privileged split lives
+// in one place.
+
+// Published website content: anon role, row-level security applies.
+export const publicClient = () => createServerSupabaseClient()
+
+// Content reads that may include drafts. Drafts are hidden from the anon role
+// by RLS, so preview mode reads with the service role instead.
+export const contentClient = (preview: boolean) => (
+  preview ? createPrivilegedSupabaseClient() : createServerSupabaseClient()
+)
+
+// Rows written on behalf of visitors (forms, registrations, donations) and
+// settings that RLS may hide from anon. Uses the service role when it is
+// configured and falls back to anon where policies allow it.
+export const trustedClient = () => (
+  hasPrivilegedAccess() ? createPrivilegedSupabaseClient() : createServerSupabaseClient()
+)
+
+// Admin-only operations (storage, media library management). Throws when the
+// service role is not configured.
+export const privilegedClient = () => createPrivilegedSupabaseClient()
@@ -0,0 +1,47 @@
+import type { TablesInsert } from '@/lib/database.types'
+import { trustedClient } from './clients'
+
+// Tenant that website-created contacts belong to (from the admin migrations)
+export const DEFAULT_TENANT_ID = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11'
+
+export const contactsRepo = {
+  findByEmail(email: string) {
+    return trustedClient()
+      .from('contacts')
+      .select('id')
+      .eq('email', email)
+      .single()
+  },
+
+  create(contact: TablesInsert<'contacts'>) {
+    return trustedClient()
+      .from('contacts')
+      .insert(contact)
+      .select('id')
+      .single()
+  },
+
+  list({ limit }: { limit: number }) {
+    return trustedClient()
+      .from('contacts')
+      .select('id, first_name, last_name, email')
+      .limit(limit)
+  }
+}
+
+export const plannedVisitsRepo = {
+  create(visit: TablesInsert<'planned_visits'>) {
+    return trustedClient()
+      .from('planned_visits')
+      .insert(visit)
+      .select('id')
+      .single()
+  },
+
+  list({ limit }: { limit: number }) {
+    return trustedClient()
+      .from('planned_visits')
+      .select('id, contact_id, event_name')
+      .limit(limit)
+  }
+}
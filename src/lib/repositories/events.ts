@@ -0,0 +1,142 @@
+import { privilegedClient, publicClient, trustedClient } from './clients'
+
+export const eventsRepo = {
+  /**
+   * One-off events on or after `from`, soonest first.
+   */
+  listUpcoming({ from = new Date(), limit }: { from?: Date; limit: number }) {
+    return publicClient()
+      .from('events')
+      .select('*')
+      .is('rrule', null)
+      .gte('event_date', from.toISOString())
+      .order('event_date', { ascending: true })
+      .limit(limit)
+  },
+
+  /**
+   * One-off events from `from` up to (not including) `to`, soonest first.
+   */
+  listBetween({ from, to }: { from: Date; to: Date }) {
+    return publicClient()
+      .from('events')
+      .select('*')
+      .is('rrule', null)
+      .gte('event_date', from.toISOString())
+      .lt('event_date', to.toISOString())
+      .order('event_date', { ascending: true })
+  },
+
+  /**
+   * Recurring events whose first occurrence is before `before`. Their rules
+   * decide which occurrences are still to come.
+   */
+  listRecurring({ before }: { before: Date }) {
+    return publicClient()
+      .from('events')
+      .select('*')
+      .not('rrule', 'is', null)
+      .lt('event_date', before.toISOString())
+  },
+
+  /**
+   * Events for calendar feeds: one-off events from `since` on and every
+   * recurring event, optionally only one ministry's.
+   */
+  listForFeed({ since, ministryGroupId }: { since: Date; ministryGroupId?: string | null }) {
+    const query = publicClient()
+      .from('events')
+      .select('*')
+      .or(`rrule.not.is.null,event_date.gte.${since.toISOString()}`)
+      .order('event_date', { ascending: true })
+
+    return ministryGroupId ? query.eq('ministry_group_id', ministryGroupId) : query
+  },
+
+  findById(eventId: string) {
+    return publicClient()
+      .from('events')
+      .select('*')
+      .eq('id', eventId)
+      .single()
+  },
+
+  listImages(eventIds: string | string[]) {
+    const query = publicClient().from('event_images').select('*')
+    return (Array.isArray(eventIds) ? query.in('event_id', eventIds) : query.eq('event_id', eventIds))
+      .order('sort_order', { ascending: true })
+  },
+
+  /**
+   * Per-occurrence changes to recurring events: moved, renamed or cancelled
+   * occurrences.
+   */
+  listOccurrenceOverrides(eventIds: string | string[]) {
+    const query = publicClient().from('event_occurrence_overrides').select('*')
+    return Array.isArray(eventIds) ? query.in('event_id', eventIds) : query.eq('event_id', eventIds)
+  }
+}
+
+// Registrations are written on behalf of visitors and are not readable by anon.
+// Those for a recurring event are per occurrence, identified by its scheduled
+// start; a null occurrenceStart means a one-off event.
+// See src/db/add_event_waitlist.sql
+export type RegistrationStatus = 'confirmed' | 'waitlisted' | 'cancelled'
+
+export const registrationsRepo = {
+  /**
+   * How many registrations for an event (or one occurrence of it) have a
+   * status.
+   */
+  countWithStatus(eventId: string, status: RegistrationStatus, occurrenceStart: string | null = null) {
+    const query = trustedClient()
+      .from('registrations')
+      .select('*', { count: 'exact', head: true })
+      .eq('event_id', eventId)
+      .eq('status', status)
+    return occurrenceStart ? query.eq('occurrence_start', occurrenceStart) : query.is('occurrence_start', null)
+  },
+
+  /**
+   * A contact's registration for an event occurrence that hasn't been
+   * cancelled.
+   */
+  find(eventId: string, contactId: string, occurrenceStart: string | null = null) {
+    const query = trustedClient()
+      .from('registrations')
+      .select('id, status')
+      .eq('event_id', eventId)
+      .eq('contact_id', contactId)
+      .neq('status', 'cancelled')
+    return (occurrenceStart ? query.eq('occurrence_start', occurrenceStart) : query.is('occurrence_start', null))
+      .single()
+  },
+
+  /**
+   * Register a contact, on the waitlist once the occurrence is full. Resolves
+   * to the registration's id, status and waitlist position (null unless
+   * waitlisted), or a unique violation (23505) when the contact already has a
+   * registration for the occurrence. Needs the service role.
+   */
+  register(eventId: string, contactId: string, occurrenceStart: string | null = null) {
+    return privilegedClient()
+      .rpc('register_for_event', {
+        target_event: eventId,
+        target_contact: contactId,
+        target_occurrence: occurrenceStart
+      })
+      .single()
+  },
+
+  /**
+   * Cancel a registration, given its contact's email. Resolves to whether
+   * one was cancelled; a freed place goes to the next on the waitlist. Needs
+   * the service role.
+   */
+  cancel(registrationId: string, email: string) {
+    return privilegedClient().rpc('cancel_event_registration', {
+      target_registration: registrationId,
+      contact_email: email
+    })
+  }
+}
@@ -0,0 +1,67 @@
+import type { TablesInsert, TablesUpdate } from '@/lib/database.types'
+import { publicClient, trustedClient } from './clients'
+
+export const givingRepo = {
+  listFundDesignations() {
+    return publicClient()
+      .from('payment_categories')
+      .select('id, name, description, is_active')
+      .eq('is_active', true)
+      .order('order', { ascending: true })
+  },
+
+  createTransaction(transaction: TablesInsert<'transactions'>) {
+    return trustedClient()
+      .from('transactions')
+      .insert(transaction)
+      .select()
+      .single()
+  },
+
+  /**
+   * The most recent pending recurring transaction for a Stripe customer and
+   * amount, i.e. the one created before the subscription was confirmed.
+   */
+  findPendingRecurringTransaction(customerId: string, amount: number) {
+    return trustedClient()
+      .from('transactions')
+      .select('id')
+      .eq('stripe_customer_id', customerId)
+      .eq('amount', amount)
+      .eq('is_recurring', true)
+      .eq('payment_status', 'pending')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .single()
+  },
+
+  updateTransaction(id: string, changes: TablesUpdate<'transactions'>) {
+    return trustedClient()
+      .from('transactions')
+      .update(changes)
+      .eq('id', id)
+  },
+
+  updateTransactionByPaymentIntent(paymentIntentId: string, changes: TablesUpdate<'transactions'>) {
+    return trustedClient()
+      .from('transactions')
+      .update(changes)
+      .eq('stripe_payment_intent_id', paymentIntentId)
+  },
+
+  upsertRecurringDonation(donation: TablesInsert<'recurring_donations'>) {
+    return trustedClient()
+      .from('recurring_donations')
+      .upsert(donation, {
+        onConflict: 'stripe_subscription_id',
+        ignoreDuplicates: false
+      })
+  },
+
+  updateRecurringDonation(subscriptionId: string, changes: TablesUpdate<'recurring_donations'>) {
+    return trustedClient()
+      .from('recurring_donations')
+      .update(changes)
+      .eq('stripe_subscription_id', subscriptionId)
+  }
+}
@@ -0,0 +1,18 @@
+// Data-access layer: every route and server component reads and writes
+// Supabase through these repositories. See ./clients for which role each
+// repository uses.
+export { pagesRepo, type SectionProps } from './pages'
+export { sermonsRepo, type SermonBrowseFilters, type SermonSearchFilters } from './sermons'
+export { blogsRepo, type BlogListFilters } from './blogs'
+export { eventsRepo, registrationsRepo, type RegistrationStatus } from './events'
+export { contactsRepo, plannedVisitsRepo, DEFAULT_TENANT_ID } from './contacts'
+export { newsletterRepo, messagesRepo } from './outreach'
+export { givingRepo } from './giving'
+export { settingsRepo } from './settings'
+export { mediaRepo } from './media'
+export { ministriesRepo } from './ministries'
+export { scriptureRepo, type ScriptureContentType } from './scripture'
+export { seriesRepo } from './series'
+export { speakersRepo } from './speakers'
+export { playbackRepo } from './playback'
+export { progressRepo } from './progress'
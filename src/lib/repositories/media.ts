@@ -0,0 +1,80 @@
+import type { TablesInsert } from '@/lib/database.types'
+import { privilegedClient, publicClient } from './clients'
+
+// Public storage bucket that website uploads go to
+const UPLOAD_BUCKET = 'uploadmedia'
+
+export const mediaRepo = {
+  /**
+   * Media library items that belong to a collection, optionally of one type.
+   */
+  listCollectionItems({ type }: { type?: string | null } = {}) {
+    let query = publicClient()
+      .from('media_library')
+      .select('collection_name, collection_category, collection_date, description, type, url, uploaded_at')
+      .filter('collection_name', 'not.is', null)
+
+    if (type) {
+      query = query.eq('type', type)
+    }
+
+    return query
+  },
+
+  /**
+   * Items of a collection, matching any of the given collection names.
+   */
+  listCollection(collectionNames: string[]) {
+    return publicClient()
+      .from('media_library')
+      .select('id, collection_name, collection_category, collection_date, description, type, url, uploaded_at, alt_text')
+      .in('collection_name', collectionNames)
+      .order('uploaded_at', { ascending: true })
+  },
+
+  // Everything in the library, including items RLS hides from visitors
+  listAll() {
+    return privilegedClient()
+      .from('media_library')
+      .select('*')
+      .order('uploaded_at', { ascending: false })
+  },
+
+  create(item: TablesInsert<'media_library'>) {
+    return privilegedClient()
+      .from('media_library')
+      .insert(item)
+      .select()
+      .single()
+  },
+
+  /**
+   * Create the upload bucket if it does not exist yet. Resolves to the
+   * storage error, or null on success.
+   */
+  async ensureUploadBucket() {
+    const storage = privilegedClient().storage
+    const { data: buckets } = await storage.listBuckets()
+    if (buckets?.some(bucket => bucket.name === UPLOAD_BUCKET)) return null
+
+    console.log(`Creating ${UPLOAD_BUCKET} bucket with admin privileges`)
+    const { error } = await storage.createBucket(UPLOAD_BUCKET, { public: true })
+    return error
+  },
+
+  uploadFile(fileName: string, body: Buffer, contentType: string) {
+    return privilegedClient().storage
+      .from(UPLOAD_BUCKET)
+      .upload(fileName, body, {
+        contentType,
+        cacheControl: '3600',
+        upsert: true
+      })
+  },
+
+  getPublicUrl(fileName: string) {
+    return privilegedClient().storage
+      .from(UPLOAD_BUCKET)
+      .getPublicUrl(fileName)
+  }
+}
@@ -0,0 +1,54 @@
+import { publicClient } from './clients'
+
+const TEMPLATE_COLUMNS = `
+  id,
+  title,
+  excerpt,
+  description,
+  featured_image,
+  icon_emoji,
+  gradient_colors,
+  category,
+  requirements,
+  benefits,
+  time_commitment,
+  contact_person,
+  contact_email,
+  contact_phone,
+  custom_cta_text,
+  custom_cta_url,
+  priority_order,
+  ministry_group_id,
+  ministry_group:groups!ministry_group_id(
+    id,
+    name,
+    type,
+    image_url
+  )
+`
+
+export const ministriesRepo = {
+  /**
+   * Published "get involved" templates with their linked ministry group,
+   * in priority order.
+   */
+  listTemplates({ limit }: { limit?: number } = {}) {
+    const query = publicClient()
+      .from('get_involved_templates')
+      .select(TEMPLATE_COLUMNS)
+      .eq('status', 'published')
+      .order('priority_order', { ascending: true })
+
+    return limit ? query.limit(limit) : query
+  },
+
+  listActiveGroups({ limit }: { limit?: number } = {}) {
+    const query = publicClient()
+      .from('groups')
+      .select('id, name, description, type, status, image_url, created_at')
+      .eq('status', 'active')
+      .order('created_at', { ascending: true })
+
+    return limit ? query.limit(limit) : query
+  }
+}
@@ -0,0 +1,51 @@
+import type { TablesInsert, TablesUpdate } from '@/lib/database.types'
+import { trustedClient } from './clients'
+
+export const newsletterRepo = {
+  findByEmail(email: string) {
+    return trustedClient()
+      .from('newsletter_subscribers')
+      .select('id, status, first_name, last_name')
+      .eq('email', email.toLowerCase())
+      .single()
+  },
+
+  subscribe(subscriber: TablesInsert<'newsletter_subscribers'>) {
+    return trustedClient()
+      .from('newsletter_subscribers')
+      .insert(subscriber)
+      .select()
+  },
+
+  update(id: string, changes: TablesUpdate<'newsletter_subscribers'>) {
+    return trustedClient()
+      .from('newsletter_subscribers')
+      .update(changes)
+      .eq('id', id)
+  }
+}
+
+// Messages from the contact form, surfaced in the admin outreach inbox
+export const messagesRepo = {
+  createWebsiteMessage(message: TablesInsert<'website_messages'>) {
+    return trustedClient()
+      .from('website_messages')
+      .insert(message)
+      .select()
+  },
+
+  // Legacy table, used when website_messages is unavailable
+  createContactSubmission(submission: TablesInsert<'contact_submissions'>) {
+    return trustedClient()
+      .from('contact_submissions')
+      .insert(submission)
+      .select()
+  },
+
+  createPrayerRequest(request: TablesInsert<'prayer_requests'>) {
+    return trustedClient()
+      .from('prayer_requests')
+      .insert(request)
+      .select()
+  }
+}
@@ -0,0 +1,64 @@
+import { contentClient, publicClient, trustedClient } from './clients'
+
+// Section props are free-form JSON edited in the admin app. Each section type
+// reads and narrows its own keys; section-registry validates the ones it
+// renders.
+export type SectionProps = Record<string, unknown>
+
+interface PageQueryOptions {
+  // Include unpublished pages and rows that RLS hides from visitors
+  preview?: boolean
+}
+
+export const pagesRepo = {
+  /**
+   * Pages matching one or more slugs. Outside preview mode only pages with a
+   * published_at are returned; publish windows are applied by the caller.
+   */
+  findCandidates(slug: string | string[], { preview = false }: PageQueryOptions = {}) {
+    const supabase = contentClient(preview)
+    let query = supabase.from('pages').select('*')
+    query = Array.isArray(slug) ? query.in('slug', slug) : query.eq('slug', slug)
+
+    if (!preview) {
+      query = query.not('published_at', 'is', null) // Only published pages
+    }
+
+    return query
+  },
+
+  /**
+   * A single page by slug (PGRST116 when missing). Used by the fixed-layout
+   * page APIs, some of which historically also serve unpublished pages.
+   */
+  getBySlug(slug: string, { publishedOnly = true }: { publishedOnly?: boolean } = {}) {
+    let query = publicClient().from('pages').select('*').eq('slug', slug)
+
+    if (publishedOnly) {
+      query = query.not('published_at', 'is', null)
+    }
+
+    return query.single()
+  },
+
+  /**
+   * The slug of a page by id, published or not. Used to work out which page a
+   * changed section belongs to.
+   */
+  findSlugById(id: string) {
+    return trustedClient()
+      .from('pages')
+      .select('slug')
+      .eq('id', id)
+      .maybeSingle()
+  },
+
+  listSections(pageId: string, { preview = false }: PageQueryOptions = {}) {
+    return contentClient(preview)
+      .from('page_sections')
+      .select('*')
+      .eq('page_id', pageId)
+      .order('order', { ascending: true })
+      .overrideTypes<Array<{ props: SectionProps | null; draft_props: SectionProps | null }>>()
+  }
+}
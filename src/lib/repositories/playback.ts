@@ -0,0 +1,32 @@
+import type { PlaybackEvent, PlaybackMedia } from '@/lib/playback-events'
+import { privilegedClient, publicClient } from './clients'
+
+export const playbackRepo = {
+  /**
+   * Record one playback milestone (see src/db/add_sermon_playback_events.sql).
+   * `sourceHash` is the hex SHA-256 the throttle counts by. Resolves to whether
+   * the event was new for the session and under the throttle; a new 'started'
+   * event also increments the sermon's view_count. Needs the service role.
+   */
+  record(sermonId: string, sessionId: string, event: PlaybackEvent, media: PlaybackMedia, sourceHash: string) {
+    return privilegedClient().rpc('record_sermon_playback', {
+      target_sermon: sermonId,
+      target_session: sessionId,
+      playback_event: event,
+      playback_media: media,
+      target_source: sourceHash
+    })
+  },
+
+  /**
+   * Published sermons ranked by sessions that started them since a date.
+   * Resolves to { sermon_id, views } rows, most watched first.
+   */
+  mostWatched(since: Date, limit: number, now: Date = new Date()) {
+    return publicClient().rpc('most_watched_sermons', {
+      since: since.toISOString(),
+      as_of: now.toISOString(),
+      result_limit: limit
+    })
+  }
+}
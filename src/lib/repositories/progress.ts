@@ -0,0 +1,25 @@
+import type { TablesInsert } from '@/lib/database.types'
+import { trustedClient } from './clients'
+
+export const progressRepo = {
+  /**
+   * A member's saved playback positions, most recently played first.
+   */
+  listForContact(contactId: string, limit: number) {
+    return trustedClient()
+      .from('sermon_progress')
+      .select('*')
+      .eq('contact_id', contactId)
+      .order('updated_at', { ascending: false })
+      .limit(limit)
+  },
+
+  /**
+   * Save playback positions, replacing each sermon's previous row.
+   */
+  upsert(rows: TablesInsert<'sermon_progress'>[]) {
+    return trustedClient()
+      .from('sermon_progress')
+      .upsert(rows, { onConflict: 'contact_id,sermon_id' })
+  }
+}
@@ -0,0 +1,65 @@
+import type { TablesInsert } from '@/lib/database.types'
+import { rangeBounds, type ScriptureRange } from '@/lib/scripture'
+import { privilegedClient, publicClient } from './clients'
+
+export type ScriptureContentType = 'sermon' | 'blog'
+
+// PostgREST filter for passages overlapping any of the ranges. Built only from
+// numbers, never from user input.
+function overlapFilter(ranges: ScriptureRange[]): string {
+  return ranges
+    .map(range => {
+      const [start, end] = rangeBounds(range)
+      return `and(book_number.eq.${range.bookNumber},start_position.lte.${end},end_position.gte.${start})`
+    })
+    .join(',')
+}
+
+export const scriptureRepo = {
+  /**
+   * Replace the indexed passages of one sermon or blog post in one
+   * transaction (see src/db/add_scripture_passages.sql). An empty
+   * range list just removes them.
+   */
+  replacePassages(contentType: ScriptureContentType, contentId: string, ranges: ScriptureRange[]) {
+    const passages: Omit<TablesInsert<'scripture_passages'>, 'content_type' | 'content_id'>[] = ranges.map(range => {
+      const [startPosition, endPosition] = rangeBounds(range)
+      return {
+        book: range.book,
+        book_number: range.bookNumber,
+        start_chapter: range.startChapter,
+        start_verse: range.startVerse,
+        end_chapter: range.endChapter,
+        end_verse: range.endVerse,
+        start_position: startPosition,
+        end_position: endPosition
+      }
+    })
+
+    return privilegedClient().rpc('replace_scripture_passages', {
+      target_type: contentType,
+      target_content: contentId,
+      passages
+    })
+  },
+
+  // Every indexed passage in a book
+  listForBook(bookNumber: number) {
+    return publicClient()
+      .from('scripture_passages')
+      .select('*')
+      .eq('book_number', bookNumber)
+      .order('start_position', { ascending: true })
+  },
+
+  /**
+   * Passages of one content type that overlap any of the ranges.
+   */
+  findOverlapping(ranges: ScriptureRange[], contentType: ScriptureContentType) {
+    return publicClient()
+      .from('scripture_passages')
+      .select('content_id')
+      .eq('content_type', contentType)
+      .or(overlapFilter(ranges))
+  }
+}
@@ -0,0 +1,33 @@
+import { publicClient } from './clients'
+
+export const seriesRepo = {
+  /**
+   * Published sermon series in listing order: sort_order, then newest first.
+   */
+  listPublished() {
+    return publicClient()
+      .from('sermon_series')
+      .select('*')
+      .eq('status', 'published')
+      .order('sort_order', { ascending: true })
+      .order('start_date', { ascending: false, nullsFirst: false })
+  },
+
+  findById(id: string) {
+    return publicClient()
+      .from('sermon_series')
+      .select('*')
+      .eq('id', id)
+      .eq('status', 'published')
+      .maybeSingle()
+  },
+
+  findBySlug(slug: string) {
+    return publicClient()
+      .from('sermon_series')
+      .select('*')
+      .eq('slug', slug)
+      .eq('status', 'published')
+      .maybeSingle()
+  }
+}
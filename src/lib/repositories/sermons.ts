@@ -0,0 +1,253 @@
+import { applyPublishWindow, getNextScheduledBoundary } from '@/lib/publish-window'
+import { contentClient, publicClient, trustedClient } from './clients'
+
+export interface SermonBrowseFilters {
+  seriesId?: string
+  speakerId?: string
+  page: number
+  limit: number
+}
+
+export interface SermonSearchFilters extends SermonBrowseFilters {
+  // Web-search syntax: words, "quoted phrases", -excluded words and "or"
+  query: string
+  // Sermons whose scripture reference overlaps the searched passage
+  scriptureIds?: string[]
+}
+
+// Drafts are only visible in preview mode
+const visibleStatuses = (preview: boolean) => (preview ? ['draft', 'published'] : ['published'])
+
+export const sermonsRepo = {
+  /**
+   * Latest published sermons that are inside their publish window.
+   */
+  listPublished({ limit, now = new Date() }: { limit: number; now?: Date }) {
+    return applyPublishWindow(
+      publicClient()
+        .from('sermons')
+        .select('*')
+        .eq('status', 'published'),
+      now
+    )
+      .order('sermon_date', { ascending: false })
+      .limit(limit)
+  },
+
+  /**
+   * Published sermons with audio, newest first, optionally from one series.
+   * These are the episodes of the podcast feeds.
+   */
+  listPodcastEpisodes({ seriesId, limit, now = new Date() }: { seriesId?: string; limit: number; now?: Date }) {
+    let query = applyPublishWindow(
+      publicClient()
+        .from('sermons')
+        .select('*')
+        .eq('status', 'published')
+        .not('audio_url', 'is', null),
+      now
+    )
+
+    if (seriesId) {
+      query = query.eq('series_id', seriesId)
+    }
+
+    return query
+      .order('sermon_date', { ascending: false })
+      .limit(limit)
+  },
+
+  /**
+   * Published episodes of one series in order: series_order, then date.
+   */
+  listBySeries(seriesId: string, now: Date = new Date()) {
+    return applyPublishWindow(
+      publicClient()
+        .from('sermons')
+        .select('*')
+        .eq('status', 'published')
+        .eq('series_id', seriesId),
+      now
+    )
+      .order('series_order', { ascending: true, nullsFirst: false })
+      .order('sermon_date', { ascending: true })
+  },
+
+  /**
+   * Published sermons by one speaker, newest first.
+   */
+  listBySpeaker(speakerId: string, now: Date = new Date()) {
+    return applyPublishWindow(
+      publicClient()
+        .from('sermons')
+        .select('*')
+        .eq('status', 'published')
+        .eq('speaker_id', speakerId),
+      now
+    )
+      .order('sermon_date', { ascending: false })
+  },
+
+  /**
+   * Published sermons preached on one date (YYYY-MM-DD), latest added first.
+   * Used to link a livestreamed service to its recording.
+   */
+  listPublishedOnDate(date: string, now: Date = new Date()) {
+    return applyPublishWindow(
+      publicClient()
+        .from('sermons')
+        .select('id, slug, title, sermon_date')
+        .eq('status', 'published')
+        .eq('sermon_date', date),
+      now
+    )
+      .order('created_at', { ascending: false })
+  },
+
+  /**
+   * Series and date of every published sermon in a series, for episode
+   * counts and derived series date ranges.
+   */
+  listSeriesEpisodeDates(now: Date = new Date()) {
+    return applyPublishWindow(
+      publicClient()
+        .from('sermons')
+        .select('series_id, sermon_date')
+        .eq('status', 'published')
+        .not('series_id', 'is', null),
+      now
+    )
+  },
+
+  /**
+   * One page of published sermons matching the browse filters, with an exact
+   * total count.
+   */
+  browse({ seriesId, speakerId, page, limit }: SermonBrowseFilters, now: Date = new Date()) {
+    let query = applyPublishWindow(
+      publicClient()
+        .from('sermons')
+        .select('*', { count: 'exact' })
+        .eq('status', 'published'),
+      now
+    )
+      .order('sermon_date', { ascending: false })
+
+    if (seriesId) {
+      query = query.eq('series_id', seriesId)
+    }
+
+    if (speakerId) {
+      query = query.eq('speaker_id', speakerId)
+    }
+
+    const startIndex = (page - 1) * limit
+    return query.range(startIndex, startIndex + limit - 1)
+  },
+
+  /**
+   * Ranked full-text search (see src/db/add_sermon_search.sql). Resolves to
+   * one page of { id, rank, snippet, total_count }; the query is passed as a
+   * parameter, never interpolated into a filter.
+   */
+  search({ query, scriptureIds = [], seriesId, speakerId, page, limit }: SermonSearchFilters, now: Date = new Date()) {
+    return publicClient().rpc('search_sermons', {
+      search_query: query,
+      scripture_ids: scriptureIds,
+      series_filter: seriesId || null,
+      speaker_filter: speakerId || null,
+      as_of: now.toISOString(),
+      page_offset: (page - 1) * limit,
+      page_limit: limit
+    })
+  },
+
+  /**
+   * Published sermons inside their publish window, by id. Order is not kept.
+   */
+  listPublishedByIds(ids: string[], now: Date = new Date()) {
+    return applyPublishWindow(
+      publicClient()
+        .from('sermons')
+        .select('*')
+        .eq('status', 'published')
+        .in('id', ids),
+      now
+    )
+  },
+
+  /**
+   * Published sermons by all-time view_count, for when no recent playback
+   * events have been recorded.
+   */
+  listMostViewed(limit: number, now: Date = new Date()) {
+    return applyPublishWindow(
+      publicClient()
+        .from('sermons')
+        .select('*')
+        .eq('status', 'published'),
+      now
+    )
+      .order('view_count', { ascending: false, nullsFirst: false })
+      .order('sermon_date', { ascending: false })
+      .limit(limit)
+  },
+
+  /**
+   * Scripture reference of every sermon, drafts included, for building the
+   * passage index. Uses the service role when available.
+   */
+  listReferencesForIndex() {
+    return trustedClient()
+      .from('sermons')
+      .select('id, scripture_reference')
+  },
+
+  /**
+   * The current scripture reference of one sermon, drafts included; null data
+   * when it no longer exists.
+   */
+  findReferenceForIndex(id: string) {
+    return trustedClient()
+      .from('sermons')
+      .select('id, scripture_reference')
+      .eq('id', id)
+      .maybeSingle()
+  },
+
+  /**
+   * Series and speaker of every published sermon, for browse filter options.
+   */
+  listFilterOptions(now: Date = new Date()) {
+    return applyPublishWindow(
+      publicClient()
+        .from('sermons')
+        .select('series_id, speaker_id')
+        .eq('status', 'published'),
+      now
+    )
+  },
+
+  findBySlug(slug: string, { preview = false }: { preview?: boolean } = {}) {
+    return contentClient(preview)
+      .from('sermons')
+      .select('*')
+      .eq('slug', slug)
+      .in('status', visibleStatuses(preview))
+      .single()
+  },
+
+  /**
+   * Every visible sermon, for resolving legacy title-based slugs.
+   */
+  listVisible({ preview = false }: { preview?: boolean } = {}) {
+    return contentClient(preview)
+      .from('sermons')
+      .select('*')
+      .in('status', visibleStatuses(preview))
+  },
+
+  nextScheduledChange(now: Date = new Date()) {
+    return getNextScheduledBoundary(publicClient(), 'sermons', now)
+  }
+}
@@ -0,0 +1,31 @@
+import { publicClient, trustedClient } from './clients'
+
+export const settingsRepo = {
+  /**
+   * The tenant's settings row (name, branding, time zone). Tenant settings are
+   * public church information but RLS may hide them from anon, so the service
+   * role is used when available.
+   */
+  getTenantSettings() {
+    return trustedClient()
+      .from('tenant_settings')
+      .select('*')
+      .limit(1)
+      .maybeSingle()
+  },
+
+  listNavigation() {
+    return publicClient()
+      .from('navigation')
+      .select('*')
+      .eq('is_active', true)
+      .order('order', { ascending: true })
+  },
+
+  getFooterSettings() {
+    return publicClient()
+      .from('footer_settings')
+      .select('*')
+      .maybeSingle()
+  }
+}
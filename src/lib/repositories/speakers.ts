@@ -0,0 +1,33 @@
+import { publicClient } from './clients'
+
+export const speakersRepo = {
+  /**
+   * Published speakers in listing order: sort_order, then name.
+   */
+  listPublished() {
+    return publicClient()
+      .from('speakers')
+      .select('*')
+      .eq('status', 'published')
+      .order('sort_order', { ascending: true })
+      .order('name', { ascending: true })
+  },
+
+  findById(id: string) {
+    return publicClient()
+      .from('speakers')
+      .select('*')
+      .eq('id', id)
+      .eq('status', 'published')
+      .maybeSingle()
+  },
+
+  findBySlug(slug: string) {
+    return publicClient()
+      .from('speakers')
+      .select('*')
+      .eq('slug', slug)
+      .eq('status', 'published')
+      .maybeSingle()
+  }
+}
@@ -0,0 +1,306 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { CACHE_TAGS } from '@/lib/cache-tags'
+import { normalizePageSlug } from '@/lib/cms-pages'
+import { blogsRepo, pagesRepo, sermonsRepo } from '@/lib/repositories'
+import { indexScripture } from '@/lib/scripture-index'
+
+// Header carrying base64url(HMAC-SHA256(raw body)) signed with REVALIDATE_SECRET
+export const REVALIDATE_SIGNATURE_HEADER = 'x-revalidate-signature'
+
+export const REVALIDATABLE_TABLES = [
+  'pages',
+  'page_sections',
+  'sermons',
+  'sermon_series',
+  'speakers',
+  'blogs',
+  'events',
+  'navigation',
+  'tenant_settings',
+  'media_library'
+] as const
+
+export type RevalidatableTable = typeof REVALIDATABLE_TABLES[number]
+
+type ChangeRecord = Record<string, unknown>
+
+/**
+ * A row change, in the shape Supabase database webhooks send:
+ * { type: 'UPDATE', table: 'sermons', record: {...}, old_record: {...} }
+ */
+export interface ContentChange {
+  type?: 'INSERT' | 'UPDATE' | 'DELETE'
+  table: RevalidatableTable
+  record?: ChangeRecord | null
+  old_record?: ChangeRecord | null
+}
+
+export interface RevalidationPath {
+  path: string
+  // 'page' for dynamic route patterns such as /media/sermons/[slug],
+  // 'layout' to revalidate everything below a layout
+  type?: 'page' | 'layout'
+}
+
+export interface RevalidationPlan {
+  tags: string[]
+  paths: RevalidationPath[]
+}
+
+// CMS pages with a fixed route of their own rather than /<slug>
+const FIXED_PAGE_PATHS: Record<string, string> = {
+  home: '/',
+  homepage: '/',
+  index: '/',
+  giving: '/give',
+  sermons: '/media/sermons',
+  blog: '/media/blog',
+  gallery: '/media/gallery'
+}
+
+// The homepage loader reads whichever of these slugs is published
+const HOME_PAGE_SLUGS = ['home', 'homepage', 'index']
+
+function getRevalidateSecret(): string | null {
+  return process.env.REVALIDATE_SECRET || null
+}
+
+function sign(body: string, secret: string): string {
+  return createHmac('sha256', secret).update(body).digest('base64url')
+}
+
+/**
+ * Sign a webhook body. The admin app computes the same signature with the
+ * shared REVALIDATE_SECRET and sends it in the x-revalidate-signature header.
+ */
+export function signRevalidationBody(body: string): string {
+  const secret = getRevalidateSecret()
+  if (!secret) {
+    throw new Error('REVALIDATE_SECRET not configured')
+  }
+  return sign(body, secret)
+}
+
+/**
+ * Whether a raw request body matches its signature. False when the signature
+ * is missing or wrong, or revalidation is not configured.
+ */
+export function verifyRevalidationSignature(body: string, signature: string | null): boolean {
+  const secret = getRevalidateSecret()
+  if (!secret || !signature) return false
+
+  const expected = Buffer.from(sign(body, secret))
+  const received = Buffer.from(signature)
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+export function isRevalidatableTable(value: unknown): value is RevalidatableTable {
+  return typeof value === 'string' && (REVALIDATABLE_TABLES as readonly string[]).includes(value)
+}
+
+// Values of a column in the new and old row, so renames invalidate both slugs
+function changedValues(change: ContentChange, column: string): string[] {
+  const values = [change.record?.[column], change.old_record?.[column]]
+  return [...new Set(values.filter((value): value is string => typeof value === 'string' && value.length > 0))]
+}
+
+// Sermon columns the site updates itself as sermons are played. Updates that
+// touch nothing else are left to the regular revalidate interval rather than
+// invalidating every sermon page on each play.
+const SERMON_COUNTER_COLUMNS = ['view_count', 'updated_at']
+
+// Whether an UPDATE changed nothing outside the given columns
+function changesOnly(change: ContentChange, columns: string[]): boolean {
+  const { record, old_record: oldRecord } = change
+  if (change.type !== 'UPDATE' || !record || !oldRecord) return false
+
+  return Object.keys({ ...record, ...oldRecord }).every(column =>
+    columns.includes(column) || JSON.stringify(record[column]) === JSON.stringify(oldRecord[column])
+  )
+}
+
+function pagePath(slug: string): string {
+  return FIXED_PAGE_PATHS[slug] ?? `/${slug}`
+}
+
+function addPage(plan: RevalidationPlan, rawSlug: string) {
+  const slug = normalizePageSlug(rawSlug)
+  plan.tags.push(CACHE_TAGS.page(slug))
+  if (HOME_PAGE_SLUGS.includes(slug)) {
+    plan.tags.push(CACHE_TAGS.page('home'))
+  }
+  plan.paths.push({ path: pagePath(slug) })
+}
+
+/**
+ * Work out which cache tags and paths a row change affects. Section changes
+ * look up their page's slug; when a page cannot be identified every page is
+ * invalidated instead.
+ */
+export async function planRevalidation(change: ContentChange): Promise<RevalidationPlan> {
+  const plan: RevalidationPlan = { tags: [], paths: [] }
+
+  switch (change.table) {
+    case 'pages': {
+      const slugs = changedValues(change, 'slug')
+      if (slugs.length === 0) {
+        plan.tags.push(CACHE_TAGS.pages)
+        plan.paths.push({ path: '/', type: 'layout' })
+      }
+      slugs.forEach(slug => addPage(plan, slug))
+      break
+    }
+
+    case 'page_sections': {
+      const slugs: string[] = []
+      for (const pageId of changedValues(change, 'page_id')) {
+        const { data: page, error } = await pagesRepo.findSlugById(pageId)
+        if (error) {
+          console.error(`❌ Could not look up page ${pageId} for revalidation:`, error.message)
+        }
+        if (page?.slug) slugs.push(page.slug)
+      }
+
+      if (slugs.length === 0) {
+        plan.tags.push(CACHE_TAGS.pages)
+        plan.paths.push({ path: '/', type: 'layout' })
+      }
+      slugs.forEach(slug => addPage(plan, slug))
+      break
+    }
+
+    case 'sermons': {
+      if (changesOnly(change, SERMON_COUNTER_COLUMNS)) break
+
+      // The sermons tag also covers the latest-sermons section on the homepage
+      plan.tags.push(CACHE_TAGS.sermons)
+      plan.paths.push({ path: '/' }, { path: '/media/sermons' }, { path: '/media/sermons/browse' })
+
+      const slugs = changedValues(change, 'slug')
+      if (slugs.length === 0) {
+        plan.paths.push({ path: '/media/sermons/[slug]', type: 'page' })
+      }
+      slugs.forEach(slug => plan.paths.push({ path: `/media/sermons/${slug}` }))
+      plan.paths.push(
+        { path: '/media/scripture/[book]', type: 'page' },
+        { path: '/media/sermons/series/[slug]', type: 'page' },
+        { path: '/media/sermons/speakers/[slug]', type: 'page' }
+      )
+      break
+    }
+
+    case 'sermon_series': {
+      // Sermon pages show their series too
+      plan.tags.push(CACHE_TAGS.series)
+      plan.paths.push({ path: '/media/sermons/[slug]', type: 'page' })
+
+      const slugs = changedValues(change, 'slug')
+      if (slugs.length === 0) {
+        plan.paths.push({ path: '/media/sermons/series/[slug]', type: 'page' })
+      }
+      slugs.forEach(slug => plan.paths.push({ path: `/media/sermons/series/${slug}` }))
+      break
+    }
+
+    case 'speakers': {
+      // Sermon pages show their speaker; the about page links leaders to theirs
+      plan.tags.push(CACHE_TAGS.speakers)
+      plan.paths.push({ path: '/media/sermons/[slug]', type: 'page' }, { path: '/about' })
+
+      const slugs = changedValues(change, 'slug')
+      if (slugs.length === 0) {
+        plan.paths.push({ path: '/media/sermons/speakers/[slug]', type: 'page' })
+      }
+      slugs.forEach(slug => plan.paths.push({ path: `/media/sermons/speakers/${slug}` }))
+      break
+    }
+
+    case 'blogs': {
+      plan.tags.push(CACHE_TAGS.blogs)
+      plan.paths.push({ path: '/media/blog' }, { path: '/media/scripture/[book]', type: 'page' })
+
+      const slugs = changedValues(change, 'slug')
+      if (slugs.length === 0) {
+        plan.paths.push({ path: '/blog/[slug]', type: 'page' })
+      }
+      slugs.forEach(slug => plan.paths.push({ path: `/blog/${slug}` }))
+      break
+    }
+
+    case 'events':
+      plan.tags.push(CACHE_TAGS.events)
+      plan.paths.push({ path: '/' }, { path: '/events' })
+      break
+
+    case 'navigation':
+      // The header is rendered by the root layout on every page
+      plan.tags.push(CACHE_TAGS.navigation)
+      plan.paths.push({ path: '/', type: 'layout' })
+      break
+
+    case 'tenant_settings':
+      plan.tags.push(CACHE_TAGS.settings, CACHE_TAGS.footer)
+      plan.paths.push({ path: '/', type: 'layout' })
+      break
+
+    case 'media_library':
+      plan.paths.push({ path: '/media/gallery' }, { path: '/media/gallery/[collectionId]', type: 'page' })
+      break
+  }
+
+  return plan
+}
+
+/**
+ * Keep derived data in step with a change: sermon and blog scripture
+ * references are re-parsed into the passage index. Runs after the change's
+ * own caches are invalidated and is best-effort, so an indexing failure
+ * never holds up revalidation; failures are logged. Resolves to the caches
+ * that depend on what was rebuilt.
+ *
+ * The reference is read from the database rather than the change, since a
+ * replayed or out-of-order delivery would otherwise write stale passages.
+ */
+export async function updateDerivedContent(change: ContentChange): Promise<RevalidationPlan> {
+  const plan: RevalidationPlan = { tags: [], paths: [] }
+  if (change.table !== 'sermons' && change.table !== 'blogs') return plan
+  if (change.table === 'sermons' && changesOnly(change, SERMON_COUNTER_COLUMNS)) return plan
+
+  const contentType = change.table === 'sermons' ? 'sermon' : 'blog'
+  const id = (change.record ?? change.old_record)?.id
+  if (typeof id !== 'string') return plan
+
+  try {
+    const repo = contentType === 'sermon' ? sermonsRepo : blogsRepo
+    const { data: row, error } = await repo.findReferenceForIndex(id)
+    if (error) throw error
+
+    // A row that no longer exists has its passages removed
+    await indexScripture(contentType, id, row?.scripture_reference ?? null)
+  } catch (error) {
+    console.error(`❌ Could not update the scripture index for ${contentType} ${id}:`, error)
+    return plan
+  }
+
+  plan.tags.push(CACHE_TAGS.scripture)
+  plan.paths.push(
+    { path: '/media/scripture/[book]', type: 'page' },
+    { path: '/media/sermons/[slug]', type: 'page' }
+  )
+  return plan
+}
+
+/**
+ * Merge the plans for several changes, dropping duplicate tags and paths.
+ */
+export function mergeRevalidationPlans(plans: RevalidationPlan[]): RevalidationPlan {
+  const tags = new Set<string>()
+  const paths = new Map<string, RevalidationPath>()
+
+  for (const plan of plans) {
+    plan.tags.forEach(tag => tags.add(tag))
+    plan.paths.forEach(entry => paths.set(`${entry.type ?? ''}:${entry.path}`, entry))
+  }
+
+  return { tags: [...tags], paths: [...paths.values()] }
+}
@@ -0,0 +1,160 @@
+import { CACHE_TAGS } from '@/lib/cache-tags'
+import { cachedContent } from '@/lib/content/cache'
+import type { Tables } from '@/lib/database.types'
+import { blogsRepo, scriptureRepo, sermonsRepo, type ScriptureContentType } from '@/lib/repositories'
+import { BIBLE_BOOKS, formatScriptureRange, parseScriptureReference, type BibleBook } from '@/lib/scripture'
+
+type Sermon = Tables<'sermons'>
+type BlogPost = Tables<'blogs'>
+type Passage = Tables<'scripture_passages'>
+
+export interface ScriptureBookContent {
+  // Chapters that at least one sermon or post touches
+  chapters: number[]
+  sermons: Array<Sermon & { passages: string[] }>
+  blogs: Array<BlogPost & { passages: string[] }>
+}
+
+/**
+ * Rewrite the passage index for one sermon or blog post from its free-text
+ * scripture_reference. References that cannot be parsed are logged and leave
+ * the item out of the index. Throws on query errors.
+ */
+export async function indexScripture(contentType: ScriptureContentType, contentId: string, reference: string | null) {
+  const ranges = parseScriptureReference(reference)
+  if (reference && ranges.length === 0) {
+    console.log(`⚠️ Could not parse scripture reference for ${contentType} ${contentId}: "${reference}"`)
+  }
+
+  const { error } = await scriptureRepo.replacePassages(contentType, contentId, ranges)
+  if (error) throw error
+}
+
+/**
+ * Rebuild the whole passage index from every sermon and blog post.
+ */
+export async function reindexAllScripture(): Promise<Record<ScriptureContentType, number>> {
+  const [sermonsResult, blogsResult] = await Promise.all([
+    sermonsRepo.listReferencesForIndex(),
+    blogsRepo.listReferencesForIndex()
+  ])
+  if (sermonsResult.error) throw sermonsResult.error
+  if (blogsResult.error) throw blogsResult.error
+
+  for (const sermon of sermonsResult.data || []) {
+    await indexScripture('sermon', sermon.id, sermon.scripture_reference)
+  }
+  for (const blog of blogsResult.data || []) {
+    await indexScripture('blog', blog.id, blog.scripture_reference)
+  }
+
+  return { sermon: sermonsResult.data?.length ?? 0, blog: blogsResult.data?.length ?? 0 }
+}
+
+function passageLabel(passage: Passage): string {
+  return formatScriptureRange({
+    book: passage.book,
+    bookNumber: passage.book_number,
+    startChapter: passage.start_chapter,
+    startVerse: passage.start_verse,
+    endChapter: passage.end_chapter,
+    endVerse: passage.end_verse
+  })
+}
+
+// Sermons and posts touching a book (or one chapter of it), newest first.
+// Throws on query errors.
+async function fetchScriptureBookContent(bookNumber: number, chapterCount: number, chapter: number | null): Promise<ScriptureBookContent> {
+  const now = new Date()
+  const { data: passages, error } = await scriptureRepo.listForBook(bookNumber)
+  if (error) throw error
+
+  const chapters = new Set<number>()
+  const labels = new Map<string, string[]>()
+
+  for (const passage of passages || []) {
+    for (let current = passage.start_chapter; current <= Math.min(passage.end_chapter, chapterCount); current++) {
+      chapters.add(current)
+    }
+
+    const touchesChapter = chapter === null || (passage.start_chapter <= chapter && passage.end_chapter >= chapter)
+    if (!touchesChapter) continue
+
+    const key = `${passage.content_type}:${passage.content_id}`
+    labels.set(key, [...(labels.get(key) || []), passageLabel(passage)])
+  }
+
+  const idsOf = (type: ScriptureContentType) => [...labels.keys()]
+    .filter(key => key.startsWith(`${type}:`))
+    .map(key => key.slice(type.length + 1))
+
+  const sermonIds = idsOf('sermon')
+  const blogIds = idsOf('blog')
+
+  const [sermonsResult, blogsResult] = await Promise.all([
+    sermonIds.length > 0 ? sermonsRepo.listPublishedByIds(sermonIds, now) : null,
+    blogIds.length > 0 ? blogsRepo.listPublishedByIds(blogIds, now) : null
+  ])
+  if (sermonsResult?.error) throw sermonsResult.error
+  if (blogsResult?.error) throw blogsResult.error
+
+  const sermons = (sermonsResult?.data || [])
+    .map(sermon => ({ ...sermon, passages: labels.get(`sermon:${sermon.id}`) || [] }))
+    .sort((a, b) => b.sermon_date.localeCompare(a.sermon_date))
+  const blogs = (blogsResult?.data || [])
+    .map(blog => ({ ...blog, passages: labels.get(`blog:${blog.id}`) || [] }))
+
+  return { chapters: [...chapters].sort((a, b) => a - b), sermons, blogs }
+}
+
+const fetchCachedScriptureBookContent = cachedContent(
+  fetchScriptureBookContent,
+  ['scripture-book'],
+  [CACHE_TAGS.sermons, CACHE_TAGS.blogs, CACHE_TAGS.scripture]
+)
+
+/**
+ * Published sermons and posts on a book, or on one chapter when given.
+ * Throws on query errors.
+ */
+export function getScriptureBookContent(book: BibleBook, chapter: number | null = null): Promise<ScriptureBookContent> {
+  return fetchCachedScriptureBookContent(BIBLE_BOOKS.indexOf(book) + 1, book.chapters, chapter)
+}
+
+// Other published sermons whose passages overlap this sermon's reference
+async function fetchPassageRelatedSermons(sermonId: string, reference: string | null, limit: number): Promise<Sermon[]> {
+  const ranges = parseScriptureReference(reference)
+  if (ranges.length === 0) return []
+
+  const { data: matches, error } = await scriptureRepo.findOverlapping(ranges, 'sermon')
+  if (error) throw error
+
+  const ids = [...new Set((matches || []).map(match => match.content_id))].filter(id => id !== sermonId)
+  if (ids.length === 0) return []
+
+  const { data: sermons, error: sermonsError } = await sermonsRepo.listPublishedByIds(ids)
+  if (sermonsError) throw sermonsError
+
+  return (sermons || [])
+    .sort((a, b) => b.sermon_date.localeCompare(a.sermon_date))
+    .slice(0, limit)
+}
+
+const fetchCachedPassageRelatedSermons = cachedContent(
+  fetchPassageRelatedSermons,
+  ['passage-related-sermons'],
+  [CACHE_TAGS.sermons, CACHE_TAGS.scripture]
+)
+
+/**
+ * "Other messages on this passage" for a sermon page. Resolves to an empty
+ * list on errors so the sermon itself still renders.
+ */
+export async function getPassageRelatedSermons(sermon: Pick<Sermon, 'id' | 'scripture_reference'>, limit = 4): Promise<Sermon[]> {
+  try {
+    return await fetchCachedPassageRelatedSermons(sermon.id, sermon.scripture_reference, limit)
+  } catch (error) {
+    console.error('Error loading sermons on the same passage:', error)
+    return []
+  }
+}
@@ -0,0 +1,287 @@
+// Parsing of free-text scripture references ("Matthew 6:9-13", "1 Cor 13; 14:1",
+// "Romans 8:28, 31-39") into structured verse ranges that can be compared.
+
+export interface BibleBook {
+  name: string
+  chapters: number
+  // Common abbreviations and alternative names, in addition to the name itself
+  aliases: string[]
+}
+
+// Protestant canon in order, with chapter counts
+export const BIBLE_BOOKS: readonly BibleBook[] = [
+  { name: 'Genesis', chapters: 50, aliases: ['gen', 'ge', 'gn'] },
+  { name: 'Exodus', chapters: 40, aliases: ['exod', 'exo', 'ex'] },
+  { name: 'Leviticus', chapters: 27, aliases: ['lev', 'le', 'lv'] },
+  { name: 'Numbers', chapters: 36, aliases: ['num', 'nu', 'nm', 'nb'] },
+  { name: 'Deuteronomy', chapters: 34, aliases: ['deut', 'de', 'dt'] },
+  { name: 'Joshua', chapters: 24, aliases: ['josh', 'jos', 'jsh'] },
+  { name: 'Judges', chapters: 21, aliases: ['judg', 'jdg', 'jg', 'jdgs'] },
+  { name: 'Ruth', chapters: 4, aliases: ['rth', 'ru'] },
+  { name: '1 Samuel', chapters: 31, aliases: ['1 sam', '1 sa', '1 sm', '1 s'] },
+  { name: '2 Samuel', chapters: 24, aliases: ['2 sam', '2 sa', '2 sm', '2 s'] },
+  { name: '1 Kings', chapters: 22, aliases: ['1 kgs', '1 ki', '1 kin', '1 k'] },
+  { name: '2 Kings', chapters: 25, aliases: ['2 kgs', '2 ki', '2 kin', '2 k'] },
+  { name: '1 Chronicles', chapters: 29, aliases: ['1 chron', '1 chr', '1 ch'] },
+  { name: '2 Chronicles', chapters: 36, aliases: ['2 chron', '2 chr', '2 ch'] },
+  { name: 'Ezra', chapters: 10, aliases: ['ezr', 'ez'] },
+  { name: 'Nehemiah', chapters: 13, aliases: ['neh', 'ne'] },
+  { name: 'Esther', chapters: 10, aliases: ['esth', 'est', 'es'] },
+  { name: 'Job', chapters: 42, aliases: ['jb'] },
+  { name: 'Psalms', chapters: 150, aliases: ['psalm', 'ps', 'psa', 'pss', 'psm'] },
+  { name: 'Proverbs', chapters: 31, aliases: ['prov', 'pro', 'prv', 'pr'] },
+  { name: 'Ecclesiastes', chapters: 12, aliases: ['eccles', 'eccl', 'ecc', 'ec', 'qoh'] },
+  { name: 'Song of Songs', chapters: 8, aliases: ['song of solomon', 'song', 'sos', 'so', 'canticles'] },
+  { name: 'Isaiah', chapters: 66, aliases: ['isa', 'is'] },
+  { name: 'Jeremiah', chapters: 52, aliases: ['jer', 'je', 'jr'] },
+  { name: 'Lamentations', chapters: 5, aliases: ['lam', 'la'] },
+  { name: 'Ezekiel', chapters: 48, aliases: ['ezek', 'eze', 'ezk'] },
+  { name: 'Daniel', chapters: 12, aliases: ['dan', 'da', 'dn'] },
+  { name: 'Hosea', chapters: 14, aliases: ['hos', 'ho'] },
+  { name: 'Joel', chapters: 3, aliases: ['jl'] },
+  { name: 'Amos', chapters: 9, aliases: ['am'] },
+  { name: 'Obadiah', chapters: 1, aliases: ['obad', 'ob'] },
+  { name: 'Jonah', chapters: 4, aliases: ['jnh', 'jon'] },
+  { name: 'Micah', chapters: 7, aliases: ['mic', 'mc'] },
+  { name: 'Nahum', chapters: 3, aliases: ['nah', 'na'] },
+  { name: 'Habakkuk', chapters: 3, aliases: ['hab', 'hb'] },
+  { name: 'Zephaniah', chapters: 3, aliases: ['zeph', 'zep', 'zp'] },
+  { name: 'Haggai', chapters: 2, aliases: ['hag', 'hg'] },
+  { name: 'Zechariah', chapters: 14, aliases: ['zech', 'zec', 'zc'] },
+  { name: 'Malachi', chapters: 4, aliases: ['mal', 'ml'] },
+  { name: 'Matthew', chapters: 28, aliases: ['matt', 'mat', 'mt'] },
+  { name: 'Mark', chapters: 16, aliases: ['mrk', 'mar', 'mk', 'mr'] },
+  { name: 'Luke', chapters: 24, aliases: ['luk', 'lk'] },
+  { name: 'John', chapters: 21, aliases: ['joh', 'jhn', 'jn'] },
+  { name: 'Acts', chapters: 28, aliases: ['act', 'ac'] },
+  { name: 'Romans', chapters: 16, aliases: ['rom', 'ro', 'rm'] },
+  { name: '1 Corinthians', chapters: 16, aliases: ['1 cor', '1 co'] },
+  { name: '2 Corinthians', chapters: 13, aliases: ['2 cor', '2 co'] },
+  { name: 'Galatians', chapters: 6, aliases: ['gal', 'ga'] },
+  { name: 'Ephesians', chapters: 6, aliases: ['eph', 'ephes'] },
+  { name: 'Philippians', chapters: 4, aliases: ['phil', 'php', 'pp'] },
+  { name: 'Colossians', chapters: 4, aliases: ['col', 'co'] },
+  { name: '1 Thessalonians', chapters: 5, aliases: ['1 thess', '1 thes', '1 th'] },
+  { name: '2 Thessalonians', chapters: 3, aliases: ['2 thess', '2 thes', '2 th'] },
+  { name: '1 Timothy', chapters: 6, aliases: ['1 tim', '1 ti'] },
+  { name: '2 Timothy', chapters: 4, aliases: ['2 tim', '2 ti'] },
+  { name: 'Titus', chapters: 3, aliases: ['tit', 'ti'] },
+  { name: 'Philemon', chapters: 1, aliases: ['philem', 'phm', 'pm'] },
+  { name: 'Hebrews', chapters: 13, aliases: ['heb'] },
+  { name: 'James', chapters: 5, aliases: ['jas', 'jm'] },
+  { name: '1 Peter', chapters: 5, aliases: ['1 pet', '1 pe', '1 pt', '1 p'] },
+  { name: '2 Peter', chapters: 3, aliases: ['2 pet', '2 pe', '2 pt', '2 p'] },
+  { name: '1 John', chapters: 5, aliases: ['1 jn', '1 jhn', '1 jo', '1 j'] },
+  { name: '2 John', chapters: 1, aliases: ['2 jn', '2 jhn', '2 jo', '2 j'] },
+  { name: '3 John', chapters: 1, aliases: ['3 jn', '3 jhn', '3 jo', '3 j'] },
+  { name: 'Jude', chapters: 1, aliases: ['jud', 'jd'] },
+  { name: 'Revelation', chapters: 22, aliases: ['revelations', 'rev', 're', 'rv', 'apocalypse'] }
+]
+
+/**
+ * A contiguous passage. A null verse means the whole chapter (from its start
+ * or to its end), so "John 3" is chapter 3, verse null to chapter 3, verse null.
+ */
+export interface ScriptureRange {
+  book: string
+  // 1-based position in BIBLE_BOOKS
+  bookNumber: number
+  startChapter: number
+  startVerse: number | null
+  endChapter: number
+  endVerse: number | null
+}
+
+// Verse positions are encoded as chapter * 1000 + verse for comparisons
+const WHOLE_CHAPTER_END = 999
+
+// "First", "II", "1st" ... -> "1", "2", "3"
+const BOOK_NUMBER_WORDS: Record<string, string> = {
+  '1': '1', '1st': '1', i: '1', first: '1',
+  '2': '2', '2nd': '2', ii: '2', second: '2',
+  '3': '3', '3rd': '3', iii: '3', third: '3'
+}
+
+// Lookup key for a book name: lowercase, no dots or spaces ("1 Cor." -> "1cor")
+function bookKey(name: string): string {
+  return name.toLowerCase().replace(/[.\s]/g, '')
+}
+
+const BOOKS_BY_KEY = new Map<string, number>()
+BIBLE_BOOKS.forEach((book, index) => {
+  for (const name of [book.name, ...book.aliases]) {
+    BOOKS_BY_KEY.set(bookKey(name), index)
+  }
+})
+
+/**
+ * Find a book by name or abbreviation ("Matt", "1 Cor", "II Kings", "Ps").
+ * Unambiguous prefixes of three or more letters are accepted as well.
+ */
+export function findBibleBook(input: string): BibleBook | null {
+  const match = input.trim().toLowerCase().match(/^(1st|2nd|3rd|first|second|third|iii|ii|i|[123])?\s*(.+)$/)
+  if (!match) return null
+
+  const [, numberWord, rest] = match
+  // "i" is only a book number when followed by a space ("I Kings", not "Isaiah")
+  const number = numberWord && (/^\d/.test(numberWord) || /\s/.test(input.trim()[numberWord.length] ?? ''))
+    ? BOOK_NUMBER_WORDS[numberWord]
+    : ''
+  const key = number ? number + bookKey(rest) : bookKey(input)
+
+  const exact = BOOKS_BY_KEY.get(key)
+  if (exact !== undefined) return BIBLE_BOOKS[exact]
+
+  if (key.replace(/^\d/, '').length < 3) return null
+  const candidates = BIBLE_BOOKS.filter(book => bookKey(book.name).startsWith(key))
+  return candidates.length === 1 ? candidates[0] : null
+}
+
+function bookRange(book: BibleBook, bookNumber: number, startChapter: number, startVerse: number | null, endChapter: number, endVerse: number | null): ScriptureRange | null {
+  if (startChapter < 1 || endChapter > book.chapters || endChapter < startChapter) return null
+  if (startChapter === endChapter && startVerse !== null && endVerse !== null && endVerse < startVerse) return null
+  return { book: book.name, bookNumber, startChapter, startVerse, endChapter, endVerse }
+}
+
+// Parse the chapter/verse part of one passage ("6:9-13, 16", "3", "1-2", "3:16-4:2")
+function parsePassages(book: BibleBook, text: string): ScriptureRange[] | null {
+  const bookNumber = BIBLE_BOOKS.indexOf(book) + 1
+  const ranges: ScriptureRange[] = []
+  // Single-chapter books are cited by verse ("Jude 3")
+  let chapter: number | null = book.chapters === 1 ? 1 : null
+  let verseContext = book.chapters === 1
+
+  if (!text) {
+    const whole = bookRange(book, bookNumber, 1, null, book.chapters, null)
+    return whole ? [whole] : null
+  }
+
+  for (const part of text.split(',')) {
+    const match = part.trim().match(/^(\d+)(?::(\d+))?(?:\s*[-–—]\s*(\d+)(?::(\d+))?)?$/)
+    if (!match) return null
+
+    const [, first, firstVerse, second, secondVerse] = match
+    const a = Number(first)
+    const b = second !== undefined ? Number(second) : undefined
+    let range: ScriptureRange | null
+
+    if (firstVerse !== undefined) {
+      // 3:16, 3:16-18 or 3:16-4:2
+      chapter = a
+      verseContext = true
+      const startVerse = Number(firstVerse)
+      if (secondVerse !== undefined) {
+        range = bookRange(book, bookNumber, a, startVerse, b as number, Number(secondVerse))
+        chapter = b as number
+      } else {
+        range = bookRange(book, bookNumber, a, startVerse, a, b ?? startVerse)
+      }
+    } else if (verseContext && chapter !== null) {
+      // Verses in the current chapter: "31-39" after "8:28", or "16" in Jude
+      range = secondVerse !== undefined
+        ? bookRange(book, bookNumber, chapter, a, b as number, Number(secondVerse))
+        : bookRange(book, bookNumber, chapter, a, chapter, b ?? a)
+      if (secondVerse !== undefined) chapter = b as number
+    } else if (secondVerse !== undefined) {
+      // 3-4:2: from the start of chapter 3 to 4:2
+      chapter = b as number
+      verseContext = true
+      range = bookRange(book, bookNumber, a, null, b as number, Number(secondVerse))
+    } else {
+      // Whole chapters: 3 or 1-2
+      chapter = b ?? a
+      range = bookRange(book, bookNumber, a, null, b ?? a, null)
+    }
+
+    if (!range) return null
+    ranges.push(range)
+  }
+
+  return ranges
+}
+
+/**
+ * Parse a free-text reference into verse ranges. Passages are separated by
+ * semicolons and may omit the book to continue the previous one
+ * ("1 Cor 13; 14:1"). Translations in parentheses are ignored. Returns an
+ * empty array when any part cannot be understood.
+ */
+export function parseScriptureReference(reference: string | null | undefined): ScriptureRange[] {
+  if (!reference) return []
+
+  const cleaned = reference.replace(/\([^)]*\)/g, ' ').replace(/\s+/g, ' ').trim()
+  const ranges: ScriptureRange[] = []
+  let book: BibleBook | null = null
+
+  for (const segment of cleaned.split(';')) {
+    const text = segment.trim()
+    if (!text) continue
+
+    // Book name (which may start with a number, "1 John") followed by chapters and verses
+    const match = text.match(/^((?:[123]\s*)?[^\d]+?)\.?\s*(\d[\d\s:,\-–—]*)?$/)
+    if (match && /[a-z]/i.test(match[1])) {
+      book = findBibleBook(match[1])
+      if (!book) return []
+      const passages = parsePassages(book, (match[2] ?? '').trim())
+      if (!passages) return []
+      ranges.push(...passages)
+    } else if (book && /^\d/.test(text)) {
+      const passages = parsePassages(book, text)
+      if (!passages) return []
+      ranges.push(...passages)
+    } else {
+      return []
+    }
+  }
+
+  return ranges
+}
+
+/**
+ * Start and end of a range as chapter * 1000 + verse, with whole chapters
+ * running from verse 0 to 999. Stored in scripture_passages for overlap queries.
+ */
+export function rangeBounds(range: ScriptureRange): [number, number] {
+  return [
+    range.startChapter * 1000 + (range.startVerse ?? 0),
+    range.endChapter * 1000 + (range.endVerse ?? WHOLE_CHAPTER_END)
+  ]
+}
+
+export function rangesOverlap(a: ScriptureRange, b: ScriptureRange): boolean {
+  if (a.bookNumber !== b.bookNumber) return false
+  const [aStart, aEnd] = rangeBounds(a)
+  const [bStart, bEnd] = rangeBounds(b)
+  return aStart <= bEnd && bStart <= aEnd
+}
+
+// Whether any passage in one list overlaps any passage in the other
+export function referencesOverlap(a: ScriptureRange[], b: ScriptureRange[]): boolean {
+  return a.some(left => b.some(right => rangesOverlap(left, right)))
+}
+
+// URL segment for a book, e.g. "1 Samuel" -> "1-samuel"
+export function bookSlug(book: BibleBook | string): string {
+  const name = typeof book === 'string' ? book : book.name
+  return name.toLowerCase().replace(/\s+/g, '-')
+}
+
+export function findBookBySlug(slug: string): BibleBook | null {
+  return BIBLE_BOOKS.find(book => bookSlug(book) === slug.toLowerCase()) ?? null
+}
+
+/**
+ * Display form of a range: "John 3", "John 3:16-18", "John 3:16-4:2", "Genesis 1-2".
+ */
+export function formatScriptureRange(range: ScriptureRange): string {
+  const { book, startChapter, startVerse, endChapter, endVerse } = range
+  const start = startVerse === null ? `${startChapter}` : `${startChapter}:${startVerse}`
+
+  if (startChapter === endChapter) {
+    if (startVerse === null || endVerse === null) return `${book} ${startChapter}`
+    return endVerse === startVerse ? `${book} ${start}` : `${book} ${start}-${endVerse}`
+  }
+
+  const end = endVerse === null ? `${endChapter}` : `${endChapter}:${endVerse}`
+  return `${book} ${start}-${end}`
+}
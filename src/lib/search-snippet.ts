@@ -0,0 +1,30 @@
+// Search snippets from search_sermons mark matches with these delimiters
+// (ts_headline StartSel/StopSel in src/db/add_sermon_search.sql). They are
+// plain text, so snippets are rendered without HTML.
+export const SNIPPET_HIGHLIGHT_START = '⟦'
+export const SNIPPET_HIGHLIGHT_END = '⟧'
+
+export interface SnippetPart {
+  text: string
+  highlighted: boolean
+}
+
+/**
+ * Split a snippet into plain and highlighted runs for rendering.
+ */
+export function splitSnippet(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = []
+
+  for (const chunk of snippet.split(SNIPPET_HIGHLIGHT_START)) {
+    const end = chunk.indexOf(SNIPPET_HIGHLIGHT_END)
+    if (end === -1) {
+      if (chunk) parts.push({ text: chunk, highlighted: false })
+      continue
+    }
+    parts.push({ text: chunk.slice(0, end), highlighted: true })
+    const rest = chunk.slice(end + SNIPPET_HIGHLIGHT_END.length)
+    if (rest) parts.push({ text: rest, highlighted: false })
+  }
+
+  return parts
+}
@@ -0,0 +1,219 @@
+// Lightweight runtime schemas for CMS section props.
+// page_sections.props is free-form JSON edited in the admin app, so every
+// field is parsed leniently: bad values are dropped (and reported) rather than
+// failing the whole section, and the section defaults fill the gaps.
+
+export interface SchemaIssue {
+  path: string
+  message: string
+}
+
+export interface Field<T> {
+  readonly required: boolean
+  parse: (value: unknown, path: string, issues: SchemaIssue[]) => T | undefined
+}
+
+type FieldValue<F> = F extends Field<infer T> ? T : never
+
+export type Shape = Record<string, Field<unknown>>
+
+type RequiredKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends { required: true } ? K : never
+}[keyof S]
+
+type OptionalKeys<S extends Shape> = Exclude<keyof S, RequiredKeys<S>>
+
+export type InferShape<S extends Shape> = {
+  [K in RequiredKeys<S>]: FieldValue<S[K]>
+} & {
+  [K in OptionalKeys<S>]?: FieldValue<S[K]>
+}
+
+const isMissing = (value: unknown) => value === undefined || value === null
+
+function primitive<T>(
+  expected: string,
+  coerce: (value: unknown) => T | undefined
+): Field<T> {
+  return {
+    required: false,
+    parse(value, path, issues) {
+      if (isMissing(value)) return undefined
+      const parsed = coerce(value)
+      if (parsed === undefined) {
+        issues.push({ path, message: `Expected ${expected}, received ${typeof value}` })
+      }
+      return parsed
+    }
+  }
+}
+
+/**
+ * Plain text. Numbers are accepted and stringified since the admin forms
+ * sometimes save numeric-looking inputs as numbers.
+ */
+export function string(): Field<string> {
+  return primitive('string', value => {
+    if (typeof value === 'string') return value
+    if (typeof value === 'number') return String(value)
+    return undefined
+  })
+}
+
+/**
+ * Finite number. Numeric strings ("6") are coerced.
+ */
+export function number(): Field<number> {
+  return primitive('number', value => {
+    const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+    return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : undefined
+  })
+}
+
+/**
+ * Boolean. The strings "true"/"false" are coerced.
+ */
+export function boolean(): Field<boolean> {
+  return primitive('boolean', value => {
+    if (typeof value === 'boolean') return value
+    if (value === 'true') return true
+    if (value === 'false') return false
+    return undefined
+  })
+}
+
+/**
+ * One of a fixed set of string values.
+ */
+export function oneOf<const V extends readonly string[]>(values: V): Field<V[number]> {
+  return {
+    required: false,
+    parse(value, path, issues) {
+      if (isMissing(value)) return undefined
+      if (typeof value === 'string' && values.includes(value)) return value as V[number]
+      issues.push({ path, message: `Expected one of ${values.join(', ')}, received ${JSON.stringify(value)}` })
+      return undefined
+    }
+  }
+}
+
+/**
+ * Array of items. Invalid items are dropped individually.
+ */
+export function arrayOf<T>(item: Field<T>): Field<T[]> {
+  return {
+    required: false,
+    parse(value, path, issues) {
+      if (isMissing(value)) return undefined
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `Expected array, received ${typeof value}` })
+        return undefined
+      }
+      const result: T[] = []
+      value.forEach((entry, index) => {
+        const before = issues.length
+        const parsed = item.parse(entry, `${path}[${index}]`, issues)
+        if (parsed === undefined) {
+          if (issues.length === before) {
+            issues.push({ path: `${path}[${index}]`, message: 'Empty item removed' })
+          }
+          return
+        }
+        result.push(parsed)
+      })
+      return result
+    }
+  }
+}
+
+/**
+ * Nested object. Keys that are not in the shape are passed through untouched
+ * so newer admin fields do not get stripped before the component sees them.
+ */
+export function object<S extends Shape>(shape: S): Field<InferShape<S>> {
+  return {
+    required: false,
+    parse(value, path, issues) {
+      if (isMissing(value)) return undefined
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        issues.push({ path, message: `Expected object, received ${Array.isArray(value) ? 'array' : typeof value}` })
+        return undefined
+      }
+
+      return parseShape(shape, value as Record<string, unknown>, {}, path, issues)
+    }
+  }
+}
+
+/**
+ * Marks a field as required. Required fields missing from an object make the
+ * whole object invalid.
+ */
+export function required<T>(field: Field<T>): Field<T> & { required: true } {
+  return { ...field, required: true }
+}
+
+/**
+ * Substitutes a fallback when the value is missing or invalid, so the field is
+ * always present in the parsed output.
+ */
+export function withDefault<T>(field: Field<T>, fallback: T): Field<T> & { required: true } {
+  return {
+    required: true,
+    parse: (value, path, issues) => field.parse(value, path, issues) ?? fallback
+  }
+}
+
+function parseShape<S extends Shape>(
+  shape: S,
+  input: Record<string, unknown>,
+  defaults: Partial<InferShape<S>>,
+  path: string,
+  issues: SchemaIssue[]
+): InferShape<S> | undefined {
+  const fallbacks = defaults as Record<string, unknown>
+  const result: Record<string, unknown> = { ...input }
+  let valid = true
+
+  for (const key of Object.keys(shape)) {
+    const field = shape[key]
+    const fieldPath = path ? `${path}.${key}` : key
+    const parsed = field.parse(input[key], fieldPath, issues) ?? fallbacks[key]
+    if (parsed === undefined) {
+      delete result[key]
+      if (field.required) {
+        issues.push({ path: fieldPath, message: 'Required' })
+        valid = false
+      }
+    } else {
+      result[key] = parsed
+    }
+  }
+
+  return valid ? (result as InferShape<S>) : undefined
+}
+
+export interface ParseResult<T> {
+  data: T | undefined
+  issues: SchemaIssue[]
+}
+
+/**
+ * Parse a props object against a shape, filling dropped or missing keys from
+ * defaults before required fields are checked.
+ */
+export function parseProps<S extends Shape>(
+  shape: S,
+  value: unknown,
+  defaults: Partial<InferShape<S>> = {}
+): ParseResult<InferShape<S>> {
+  const issues: SchemaIssue[] = []
+  let input: Record<string, unknown> = {}
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    input = value as Record<string, unknown>
+  } else if (!isMissing(value)) {
+    issues.push({ path: '', message: `Expected object, received ${Array.isArray(value) ? 'array' : typeof value}` })
+  }
+  const data = parseShape(shape, input, defaults, '', issues)
+  return { data, issues }
+}
@@ -0,0 +1,54 @@
+import { formatTimestamp, parseTimestamp } from '@/lib/sermon-notes'
+import { sermonVideoSource, videoThumbnailUrl, type SermonVideoFields } from '@/lib/video-providers'
+
+// Shareable clip links: /media/sermons/<slug>?t=754&end=912 opens the player
+// at 12:34 and stops it at 15:12. Both values are seconds, "12:34" or "754s".
+
+export interface SermonClip {
+  start: number
+  // Null plays on to the end of the sermon
+  end: number | null
+}
+
+// Clips shorter than this are treated as a start time only
+export const MIN_CLIP_SECONDS = 5
+
+function parseClipTime(value: string | string[] | undefined): number | null {
+  const text = Array.isArray(value) ? value[0] : value
+  return text === undefined ? null : parseTimestamp(text.replace(/s$/i, ''))
+}
+
+/**
+ * The clip named by a sermon URL's t and end parameters. Null without a start
+ * time; an end at or before the start is ignored.
+ */
+export function parseClip(params: { t?: string | string[]; end?: string | string[] }): SermonClip | null {
+  const start = parseClipTime(params.t)
+  if (start === null) return null
+
+  const end = parseClipTime(params.end)
+  return { start, end: end !== null && end - start >= MIN_CLIP_SECONDS ? end : null }
+}
+
+export function clipHref(slug: string, clip: SermonClip): string {
+  const query = new URLSearchParams({ t: String(Math.floor(clip.start)) })
+  if (clip.end !== null) query.set('end', String(Math.floor(clip.end)))
+  return `/media/sermons/${slug}?${query}`
+}
+
+// "12:34–15:12", or "from 12:34" for an open-ended clip
+export function clipRangeLabel(clip: SermonClip): string {
+  return clip.end !== null
+    ? `${formatTimestamp(clip.start)}–${formatTimestamp(clip.end)}`
+    : `from ${formatTimestamp(clip.start)}`
+}
+
+export function clipTitle(sermonTitle: string, clip: SermonClip): string {
+  return `${sermonTitle} (clip ${clipRangeLabel(clip)})`
+}
+
+// Preview image for share cards: the sermon's artwork, else the video's thumbnail
+export function sermonShareImage(sermon: SermonVideoFields & { thumbnail_image?: string | null }): string | null {
+  if (sermon.thumbnail_image) return sermon.thumbnail_image
+  return videoThumbnailUrl(sermonVideoSource(sermon), 'medium')
+}
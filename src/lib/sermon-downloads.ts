@@ -0,0 +1,40 @@
+import type { NextRequest } from 'next/server'
+import type { Tables } from '@/lib/database.types'
+import { defaultSermonDetail } from '@/lib/default-content'
+import { isPreviewRequest } from '@/lib/preview'
+import { isWithinPublishWindow, nextWindowBoundary, publishWindowCacheControl } from '@/lib/publish-window'
+import { sermonsRepo } from '@/lib/repositories'
+import { isSupabaseConfigured } from '@/lib/supabase'
+
+export type DownloadableSermon = Tables<'sermons'> | typeof defaultSermonDetail
+
+/**
+ * The sermon behind a per-sermon file route (notes PDF, captions): visible
+ * sermons only, drafts in preview mode, and the demo sermon when Supabase is
+ * not configured. Null when there is no such sermon.
+ */
+export async function loadDownloadableSermon(request: NextRequest, slug: string): Promise<DownloadableSermon | null> {
+  if (!isSupabaseConfigured()) return defaultSermonDetail
+
+  const preview = isPreviewRequest(request)
+  const { data: sermon, error } = await sermonsRepo.findBySlug(slug, { preview })
+  if (error && error.code !== 'PGRST116') throw error
+  if (!sermon || (!preview && !isWithinPublishWindow(sermon, new Date()))) return null
+  return sermon
+}
+
+/**
+ * Cache-Control for a file built from the sermon: cached until its next
+ * publish window boundary, and never cached in preview, where it may show a
+ * draft.
+ */
+export function downloadCacheControl(request: NextRequest, sermon: DownloadableSermon): string {
+  const now = new Date()
+  const boundary = 'publish_at' in sermon ? nextWindowBoundary([sermon], now) : null
+  return publishWindowCacheControl(boundary, { now, preview: isPreviewRequest(request) })
+}
+
+// Attachment file name derived from the slug, safe for a header value
+export function downloadFilename(slug: string, suffix: string): string {
+  return `${slug.replace(/[^\w-]/g, '') || 'sermon'}${suffix}`
+}
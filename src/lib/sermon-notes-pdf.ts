@@ -0,0 +1,102 @@
+import { renderPdf, type PdfBlock, type PdfRun } from '@/lib/pdf'
+import {
+  blankPlaceholder,
+  collectScriptureReferences,
+  formatTimestamp,
+  parseChapters,
+  parseOutline,
+  type OutlineBlock
+} from '@/lib/sermon-notes'
+import { formatDate } from '@/lib/utils'
+
+export interface SermonNotesSource {
+  title: string
+  speaker: string
+  sermon_date: string
+  series?: string | null
+  scripture_reference?: string | null
+  notes?: string | null
+  outline?: string | null
+  chapters?: unknown
+}
+
+// Answers print in bold; open blanks print as a line to write on
+function outlineRuns(block: OutlineBlock, answers: string[]): PdfRun[] {
+  return block.segments.map(segment => {
+    if (segment.type === 'text') {
+      return { text: segment.text, font: block.kind === 'heading' ? 'bold' : block.kind === 'scripture' ? 'italic' : 'regular' }
+    }
+    const answer = answers[segment.index]?.trim()
+    return answer ? { text: answer, font: 'bold' } : { text: blankPlaceholder(segment.answer) }
+  })
+}
+
+/**
+ * Printable notes for a sermon: heading, scripture references, the outline
+ * (with the visitor's answers when given), chapters and the plain notes.
+ */
+export function renderSermonNotesPdf(sermon: SermonNotesSource, answers: string[] = []): Uint8Array {
+  const outline = parseOutline(sermon.outline)
+  const chapters = parseChapters(sermon.chapters)
+  const references = collectScriptureReferences({
+    scriptureReference: sermon.scripture_reference,
+    outline,
+    notes: sermon.notes
+  })
+
+  const byline = [sermon.speaker, formatDate(sermon.sermon_date), sermon.series ? `${sermon.series} Series` : null]
+    .filter(Boolean)
+    .join('  ·  ')
+
+  const blocks: PdfBlock[] = [
+    { runs: [{ text: sermon.title, font: 'bold' }], size: 22 },
+    { runs: [{ text: byline }], muted: true, spaceBefore: 4 }
+  ]
+
+  const section = (heading: string) => {
+    blocks.push({ runs: [{ text: heading.toUpperCase(), font: 'bold' }], size: 10, muted: true, spaceBefore: 20 })
+  }
+
+  if (references.length > 0) {
+    section('Scripture')
+    references.forEach(reference => blocks.push({ runs: [{ text: reference, font: 'italic' }], indent: 14, marker: '•', spaceBefore: 2 }))
+  }
+
+  if (outline.blocks.length > 0) {
+    section('Outline')
+    outline.blocks.forEach(block => {
+      const runs = outlineRuns(block, answers)
+      switch (block.kind) {
+        case 'heading':
+          blocks.push({ runs, size: 13, spaceBefore: 12 })
+          break
+        case 'bullet':
+          blocks.push({ runs, indent: 14, marker: '•', spaceBefore: 6 })
+          break
+        case 'scripture':
+          blocks.push({ runs, indent: 14, spaceBefore: 6, muted: true })
+          break
+        default:
+          blocks.push({ runs, spaceBefore: 6 })
+      }
+    })
+  }
+
+  if (chapters.length > 0) {
+    section('Chapters')
+    chapters.forEach(chapter => blocks.push({
+      runs: [{ text: formatTimestamp(chapter.start), font: 'bold' }, { text: `  ${chapter.title}` }],
+      spaceBefore: 2
+    }))
+  }
+
+  if (sermon.notes?.trim()) {
+    section('Notes')
+    sermon.notes.trim().split(/\r?\n/).forEach(line => {
+      // Keep blank lines as paragraph breaks
+      blocks.push(line.trim() ? { runs: [{ text: line }], spaceBefore: 2 } : { runs: [], spaceBefore: 2 })
+    })
+  }
+
+  return renderPdf(blocks, { title: sermon.title, footer: sermon.title })
+}
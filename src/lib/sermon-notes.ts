@@ -0,0 +1,180 @@
+import { formatScriptureRange, parseScriptureReference } from '@/lib/scripture'
+
+// Client-safe parsing of structured sermon notes: timestamped chapters and
+// fill-in-the-blank outlines (formats in src/db/add_sermon_chapters_outline.sql).
+
+export interface SermonChapter {
+  // Seconds into the video or audio
+  start: number
+  title: string
+}
+
+export type OutlineSegment =
+  | { type: 'text'; text: string }
+  // index counts blanks across the whole outline, for storing answers
+  | { type: 'blank'; index: number; answer: string }
+
+export interface OutlineBlock {
+  kind: 'heading' | 'bullet' | 'scripture' | 'text'
+  segments: OutlineSegment[]
+}
+
+export interface SermonOutline {
+  blocks: OutlineBlock[]
+  blankCount: number
+}
+
+const BLANK_PATTERN = /\[\[([^\]]+)\]\]/g
+
+/**
+ * Seconds for "12:34", "1:02:34" or a plain number of seconds; null when the
+ * value is not a timestamp.
+ */
+export function parseTimestamp(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? Math.floor(value) : null
+  if (typeof value !== 'string') return null
+
+  const text = value.trim()
+  if (/^\d+$/.test(text)) return parseInt(text, 10)
+  if (!/^\d+(:[0-5]\d){1,2}$/.test(text)) return null
+
+  return text.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0)
+}
+
+// 754 -> "12:34", 3754 -> "1:02:34"
+export function formatTimestamp(seconds: number): string {
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const secs = (Math.floor(seconds) % 60).toString().padStart(2, '0')
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}` : `${minutes}:${secs}`
+}
+
+/**
+ * Chapters from the sermons.chapters column, in playback order. Entries
+ * without a usable time or title are dropped, as are duplicate start times.
+ */
+export function parseChapters(value: unknown): SermonChapter[] {
+  if (!Array.isArray(value)) return []
+
+  const chapters = value.flatMap(item => {
+    if (!item || typeof item !== 'object') return []
+    const entry = item as Record<string, unknown>
+    const start = parseTimestamp(entry.start ?? entry.time)
+    const title = typeof (entry.title ?? entry.heading) === 'string' ? String(entry.title ?? entry.heading).trim() : ''
+    return start !== null && title ? [{ start, title }] : []
+  })
+
+  return chapters
+    .sort((a, b) => a.start - b.start)
+    .filter((chapter, index, sorted) => index === 0 || chapter.start !== sorted[index - 1].start)
+}
+
+// Index of the chapter playing at a position, or -1 before the first one
+export function activeChapterIndex(chapters: SermonChapter[], position: number): number {
+  let active = -1
+  chapters.forEach((chapter, index) => {
+    if (chapter.start <= position) active = index
+  })
+  return active
+}
+
+function parseSegments(text: string, firstIndex: number): OutlineSegment[] {
+  const segments: OutlineSegment[] = []
+  let index = firstIndex
+  let last = 0
+
+  for (const match of text.matchAll(BLANK_PATTERN)) {
+    if (match.index > last) segments.push({ type: 'text', text: text.slice(last, match.index) })
+    segments.push({ type: 'blank', index: index++, answer: match[1].trim() })
+    last = match.index + match[0].length
+  }
+  if (last < text.length) segments.push({ type: 'text', text: text.slice(last) })
+
+  return segments
+}
+
+/**
+ * Parse the outline markup into blocks. Blank lines are ignored.
+ */
+export function parseOutline(text: string | null | undefined): SermonOutline {
+  const blocks: OutlineBlock[] = []
+  let blankCount = 0
+
+  for (const rawLine of (text || '').split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line) continue
+
+    const marker = line.match(/^(#+|[-*•]|>)\s*(.*)$/)
+    const kind: OutlineBlock['kind'] = !marker
+      ? 'text'
+      : marker[1].startsWith('#') ? 'heading' : marker[1] === '>' ? 'scripture' : 'bullet'
+    const content = marker ? marker[2] : line
+
+    const segments = parseSegments(content, blankCount)
+    blankCount += segments.filter(segment => segment.type === 'blank').length
+    blocks.push({ kind, segments })
+  }
+
+  return { blocks, blankCount }
+}
+
+// Line of underscores roughly as wide as the answer, so blanks don't give it away
+export function blankPlaceholder(answer: string): string {
+  return '_'.repeat(Math.max(8, Math.min(24, answer.length + 4)))
+}
+
+function segmentText(segment: OutlineSegment, answers: string[]): string {
+  if (segment.type === 'text') return segment.text
+  const answer = answers[segment.index]?.trim()
+  return answer || blankPlaceholder(segment.answer)
+}
+
+export function blockText(block: OutlineBlock, answers: string[]): string {
+  return block.segments.map(segment => segmentText(segment, answers)).join('')
+}
+
+/**
+ * The outline as plain text with the visitor's answers filled in, for
+ * downloading or copying.
+ */
+export function outlineToText(outline: SermonOutline, answers: string[]): string {
+  return outline.blocks
+    .map(block => {
+      const text = blockText(block, answers)
+      switch (block.kind) {
+        case 'heading': return `\n${text.toUpperCase()}`
+        case 'bullet': return `  • ${text}`
+        case 'scripture': return `  ${text}`
+        default: return text
+      }
+    })
+    .join('\n')
+    .trim()
+}
+
+/**
+ * Scripture references for the notes: the sermon's main reference, outline
+ * scripture lines, and note lines that are nothing but a reference. Each
+ * passage is listed once, in the order it appears.
+ */
+export function collectScriptureReferences(sources: {
+  scriptureReference?: string | null
+  outline?: SermonOutline
+  notes?: string | null
+}): string[] {
+  const candidates = [
+    sources.scriptureReference || '',
+    ...(sources.outline?.blocks ?? [])
+      .filter(block => block.kind === 'scripture')
+      .map(block => blockText(block, [])),
+    ...(sources.notes || '').split(/\r?\n/).map(line => line.replace(/^(?:[-*•>]|\d+[.)])\s+/, '').trim())
+  ]
+
+  const seen = new Set<string>()
+  return candidates.flatMap(candidate => parseScriptureReference(candidate).map(formatScriptureRange))
+    .filter(reference => {
+      if (seen.has(reference)) return false
+      seen.add(reference)
+      return true
+    })
+}
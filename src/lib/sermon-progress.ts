@@ -0,0 +1,140 @@
+// Client-safe helpers for remembering where a viewer stopped in a sermon.
+// Anonymous visitors keep progress in localStorage; members also sync it to
+// /api/sermon-progress (see src/db/add_sermon_progress.sql).
+
+export interface SermonProgressEntry {
+  sermonId: string
+  // Seconds into the video or audio
+  position: number
+  // Seconds, when the player knew it
+  duration: number | null
+  completed: boolean
+  // ISO timestamp of the last update; the newer entry wins when merging
+  updatedAt: string
+}
+
+export type SermonProgressMap = Record<string, SermonProgressEntry>
+
+export const SERMON_PROGRESS_ENDPOINT = '/api/sermon-progress'
+
+// Positions closer than this to either end are not worth resuming from
+export const MIN_RESUME_SECONDS = 30
+// Playing this fraction of a sermon counts as finishing it; closing words and
+// music are often skipped
+export const COMPLETION_THRESHOLD = 0.95
+
+// Most entries a browser keeps or a request may send
+export const MAX_PROGRESS_ENTRIES = 200
+
+export function isSermonProgressEntry(value: unknown): value is SermonProgressEntry {
+  if (!value || typeof value !== 'object') return false
+  const entry = value as Record<string, unknown>
+  return typeof entry.sermonId === 'string'
+    && typeof entry.position === 'number' && Number.isFinite(entry.position) && entry.position >= 0
+    && (entry.duration === null || (typeof entry.duration === 'number' && Number.isFinite(entry.duration) && entry.duration > 0))
+    && typeof entry.completed === 'boolean'
+    && typeof entry.updatedAt === 'string' && !Number.isNaN(Date.parse(entry.updatedAt))
+}
+
+/**
+ * Progress entry for a playback position. Reaching COMPLETION_THRESHOLD marks
+ * the sermon completed and keeps it completed on later partial replays.
+ */
+export function progressEntry(
+  sermonId: string,
+  position: number,
+  duration: number | null,
+  previous?: SermonProgressEntry
+): SermonProgressEntry {
+  const knownDuration = duration && Number.isFinite(duration) && duration > 0 ? duration : previous?.duration ?? null
+  const reachedEnd = knownDuration !== null && position >= knownDuration * COMPLETION_THRESHOLD
+
+  return {
+    sermonId,
+    position: Math.max(0, Math.floor(position)),
+    duration: knownDuration !== null ? Math.round(knownDuration) : null,
+    completed: reachedEnd || Boolean(previous?.completed),
+    updatedAt: new Date().toISOString()
+  }
+}
+
+// Fraction of the sermon played, 0-1, or null when the duration is unknown
+export function progressFraction(entry: SermonProgressEntry): number | null {
+  if (!entry.duration) return null
+  return Math.min(1, entry.position / entry.duration)
+}
+
+/**
+ * Position to resume from, or null to start at the beginning: nothing saved,
+ * barely started, or close enough to the end.
+ */
+export function resumePosition(entry: SermonProgressEntry | undefined): number | null {
+  if (!entry || entry.position < MIN_RESUME_SECONDS) return null
+  if (entry.duration && entry.duration - entry.position < MIN_RESUME_SECONDS) return null
+  return entry.position
+}
+
+// Started but never finished: the "Continue watching" candidates
+export function isInProgress(entry: SermonProgressEntry): boolean {
+  return !entry.completed && resumePosition(entry) !== null
+}
+
+/**
+ * In-progress entries, most recently played first.
+ */
+export function continueWatchingEntries(progress: SermonProgressMap, limit: number): SermonProgressEntry[] {
+  return Object.values(progress)
+    .filter(isInProgress)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, limit)
+}
+
+/**
+ * Merge two progress maps entry by entry, keeping the newer update. A sermon
+ * completed on either side stays completed.
+ */
+export function mergeProgress(a: SermonProgressMap, b: SermonProgressMap): SermonProgressMap {
+  const merged: SermonProgressMap = { ...a }
+  for (const entry of Object.values(b)) {
+    const existing = merged[entry.sermonId]
+    if (!existing) {
+      merged[entry.sermonId] = entry
+      continue
+    }
+
+    const newer = entry.updatedAt > existing.updatedAt ? entry : existing
+    merged[entry.sermonId] = { ...newer, completed: existing.completed || entry.completed }
+  }
+  return merged
+}
+
+/**
+ * The most recent entries, for bounding what a browser stores.
+ */
+export function trimProgress(progress: SermonProgressMap, limit: number = MAX_PROGRESS_ENTRIES): SermonProgressMap {
+  const entries = Object.values(progress)
+  if (entries.length <= limit) return progress
+
+  return Object.fromEntries(
+    entries
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .slice(0, limit)
+      .map(entry => [entry.sermonId, entry])
+  )
+}
+
+// "12 min left" for progress rails
+export function remainingLabel(entry: SermonProgressEntry): string | null {
+  if (!entry.duration) return null
+  const minutes = Math.max(1, Math.round((entry.duration - entry.position) / 60))
+  return `${minutes} min left`
+}
+
+// 754 -> "12:34", 3754 -> "1:02:34"
+export function formatPlaybackPosition(seconds: number): string {
+  const total = Math.floor(seconds)
+  const hours = Math.floor(total / 3600)
+  const minutes = Math.floor((total % 3600) / 60)
+  const secs = (total % 60).toString().padStart(2, '0')
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}` : `${minutes}:${secs}`
+}
@@ -0,0 +1,64 @@
+import type { Tables } from '@/lib/database.types'
+import { scriptureRepo, sermonsRepo, type SermonSearchFilters } from '@/lib/repositories'
+import { parseScriptureReference } from '@/lib/scripture'
+
+// Longer input is truncated before it reaches the database
+const MAX_QUERY_LENGTH = 200
+
+export type SermonSearchHit = Tables<'sermons'> & {
+  rank: number
+  // Matching excerpt with highlights, see src/lib/search-snippet.ts
+  snippet: string | null
+}
+
+/**
+ * Trim, collapse whitespace and cap the length of a user's search input.
+ */
+export function normalizeSearchQuery(query: string | null | undefined): string {
+  return (query || '').replace(/\s+/g, ' ').trim().slice(0, MAX_QUERY_LENGTH)
+}
+
+/**
+ * Ids of sermons whose indexed passages overlap the passage in the query
+ * (see src/lib/scripture-index.ts). Only queries with a chapter or verse
+ * ("John 3", "Rom 8:28") are treated as passages, so a bare "James" stays a
+ * text search. Unpublished ids are dropped by search_sermons.
+ */
+async function findScriptureMatches(query: string): Promise<string[]> {
+  if (!/\d/.test(query)) return []
+
+  const passages = parseScriptureReference(query)
+  if (passages.length === 0) return []
+
+  const { data: matches, error } = await scriptureRepo.findOverlapping(passages, 'sermon')
+  if (error) throw error
+
+  return [...new Set((matches || []).map(match => match.content_id))]
+}
+
+/**
+ * One page of ranked search results with highlighted snippets. Throws on
+ * query errors.
+ */
+export async function searchSermons(
+  filters: SermonSearchFilters,
+  now: Date = new Date()
+): Promise<{ sermons: SermonSearchHit[]; total: number }> {
+  const scriptureIds = await findScriptureMatches(filters.query)
+
+  const { data: hits, error } = await sermonsRepo.search({ ...filters, scriptureIds }, now)
+  if (error) throw error
+  if (!hits || hits.length === 0) return { sermons: [], total: 0 }
+
+  const { data: rows, error: rowsError } = await sermonsRepo.listPublishedByIds(hits.map(hit => hit.id), now)
+  if (rowsError) throw rowsError
+
+  // Keep the ranked order of the search results
+  const rowsById = new Map((rows || []).map(row => [row.id, row]))
+  const sermons = hits.flatMap(hit => {
+    const row = rowsById.get(hit.id)
+    return row ? [{ ...row, rank: hit.rank, snippet: hit.snippet }] : []
+  })
+
+  return { sermons, total: Number(hits[0].total_count) }
+}
@@ -0,0 +1,67 @@
+import type { SermonSeriesSummary } from '@/lib/default-content'
+
+// Client-safe helpers for presenting sermon series.
+
+export type SeriesStatus = 'current' | 'completed' | 'upcoming'
+
+// A series without an end date stays current while its latest episode is
+// this recent
+const CURRENT_SERIES_DAYS = 21
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type SeriesDates = Pick<SermonSeriesSummary, 'start_date' | 'end_date' | 'first_sermon_date' | 'last_sermon_date'>
+
+// Dates are plain YYYY-MM-DD; parse them as UTC midnight
+function parseDate(value: string | null): Date | null {
+  if (!value) return null
+  const date = new Date(value.length === 10 ? `${value}T00:00:00Z` : value)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * First and last day of a series: the explicit dates when set, otherwise the
+ * dates of its first and latest episodes.
+ */
+export function seriesDateRange(series: SeriesDates): { start: Date | null; end: Date | null } {
+  return {
+    start: parseDate(series.start_date ?? series.first_sermon_date),
+    end: parseDate(series.end_date ?? series.last_sermon_date)
+  }
+}
+
+export function seriesStatus(series: SeriesDates, now: Date = new Date()): SeriesStatus {
+  const { start, end } = seriesDateRange(series)
+
+  if (start && start.getTime() > now.getTime()) return 'upcoming'
+  if (!start && !end) return 'upcoming'
+
+  const endedAt = series.end_date
+    ? end
+    : end && new Date(end.getTime() + CURRENT_SERIES_DAYS * DAY_MS)
+
+  return endedAt && endedAt.getTime() < now.getTime() ? 'completed' : 'current'
+}
+
+/**
+ * Length of a series in weeks, e.g. "6 weeks". Null when it has no dates yet.
+ */
+export function seriesDurationLabel(series: SeriesDates): string | null {
+  const { start, end } = seriesDateRange(series)
+  if (!start || !end) return null
+
+  const weeks = Math.max(1, Math.round((end.getTime() - start.getTime()) / (7 * DAY_MS)) + 1)
+  return weeks === 1 ? '1 week' : `${weeks} weeks`
+}
+
+// Month and year a series starts, e.g. "November 2023"
+export function seriesStartLabel(series: SeriesDates): string | null {
+  const { start } = seriesDateRange(series)
+  return start
+    ? start.toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+    : null
+}
+
+export function seriesHref(slug: string): string {
+  return `/media/sermons/series/${slug}`
+}
@@ -0,0 +1,62 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+
+// Tokens the admin app and the site both mint and check with a shared
+// secret: base64url(JSON payload) + "." + base64url(HMAC-SHA256). Preview
+// and member links use this format. The typ claim names what a token is for,
+// so one kind is never accepted as another even if their secrets match.
+
+export interface SignedTokenPayload {
+  typ: string // e.g. "preview"
+  exp: number // Unix seconds
+}
+
+function sign(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data).digest('base64url')
+}
+
+/**
+ * Sign a payload for a purpose (`typ`), adding an expiry `ttlSeconds` from
+ * now.
+ */
+export function createSignedToken<P extends object>(
+  payload: P,
+  secret: string,
+  ttlSeconds: number,
+  typ: string
+): string {
+  const signed: P & SignedTokenPayload = { ...payload, typ, exp: Math.floor(Date.now() / 1000) + ttlSeconds }
+  const data = Buffer.from(JSON.stringify(signed)).toString('base64url')
+  return `${data}.${sign(data, secret)}`
+}
+
+/**
+ * Verify a token and return its payload, or null when it is missing,
+ * tampered with, expired or for another purpose than `typ`. Other fields are
+ * the caller's to check.
+ */
+export function verifySignedToken<P extends SignedTokenPayload>(
+  token: string | null | undefined,
+  secret: string,
+  typ: string
+): P | null {
+  if (!token) return null
+
+  const [data, signature] = token.split('.')
+  if (!data || !signature) return null
+
+  const expected = Buffer.from(sign(data, secret))
+  const received = Buffer.from(signature)
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return null
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf8')) as P
+    if (typeof payload?.exp !== 'number' || payload.exp * 1000 <= Date.now() || payload.typ !== typ) {
+      return null
+    }
+    return payload
+  } catch {
+    return null
+  }
+}
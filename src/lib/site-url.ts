@@ -0,0 +1,29 @@
+// tenant_settings.website is free text: "https://gracechurch.org/",
+// "gracechurch.org" and "www.gracechurch.org/home" are all in use. Absolute
+// links (feeds, calendar files, share cards) are built from its origin.
+
+/**
+ * The origin of a configured website, e.g. "https://gracechurch.org", adding
+ * https:// when the scheme is missing. Null when unset or not an http(s) URL.
+ */
+export function normalizeSiteOrigin(website: string | null | undefined): string | null {
+  const value = website?.trim()
+  if (!value) return null
+
+  const candidate = /^[a-z][a-z\d+.-]*:\/\//i.test(value) ? value : `https://${value}`
+  try {
+    const url = new URL(candidate)
+    if ((url.protocol !== 'http:' && url.protocol !== 'https:') || !url.hostname) return null
+    return url.origin
+  } catch {
+    return null
+  }
+}
+
+/**
+ * The public site origin: the configured website when it is usable, otherwise
+ * `fallback` (usually the origin the request was made on).
+ */
+export function siteOrigin(website: string | null | undefined, fallback: string): string {
+  return normalizeSiteOrigin(website) ?? fallback
+}
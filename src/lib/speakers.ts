@@ -0,0 +1,34 @@
+import type { SpeakerSummary } from '@/lib/default-content'
+
+// Client-safe helpers for matching and linking speakers.
+
+// Honorifics ignored when comparing names, so "Pastor Sarah Johnson" matches "Sarah Johnson"
+const HONORIFICS = /^(pastor|ps|rev|reverend|dr|bishop|apostle|elder|minister|evangelist|prophet|prophetess)\.?\s+/
+
+export function normalizeSpeakerName(name: string): string {
+  let normalized = name.toLowerCase().replace(/\s+/g, ' ').trim()
+  while (HONORIFICS.test(normalized)) {
+    normalized = normalized.replace(HONORIFICS, '')
+  }
+  return normalized
+}
+
+/**
+ * The speaker whose name or one of whose aliases matches, ignoring case,
+ * spacing and honorifics.
+ */
+export function findSpeakerByName<T extends Pick<SpeakerSummary, 'name' | 'aliases'>>(
+  speakers: T[],
+  name: string
+): T | null {
+  const wanted = normalizeSpeakerName(name)
+  if (!wanted) return null
+
+  return speakers.find(speaker =>
+    [speaker.name, ...speaker.aliases].some(candidate => normalizeSpeakerName(candidate) === wanted)
+  ) ?? null
+}
+
+export function speakerHref(slug: string): string {
+  return `/media/sermons/speakers/${slug}`
+}
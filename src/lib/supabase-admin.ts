@@ -0,0 +1,30 @@
+import { createClient } from '@supabase/supabase-js'
+import type { Database } from '@/lib/database.types'
+
+// Privileged (service-role) Supabase access. The key bypasses row-level
+// security, so it is only read from the server-only SUPABASE_SERVICE_ROLE_KEY
+// and this module must never be imported from client components.
+
+function getServiceRoleKey(): string | null {
+  return process.env.SUPABASE_SERVICE_ROLE_KEY || null
+}
+
+export function hasPrivilegedAccess(): boolean {
+  return Boolean(process.env.NEXT_PUBLIC_SUPABASE_URL && getServiceRoleKey())
+}
+
+export const createPrivilegedSupabaseClient = () => {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const key = getServiceRoleKey()
+
+  if (!url || !key) {
+    throw new Error('Supabase service role not configured')
+  }
+
+  return createClient<Database>(url, key, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  })
+}
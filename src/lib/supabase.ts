@@ -1,6 +1,12 @@
 import { createServerClient } from '@supabase/ssr'
+import type { Database, Tables } from '@/lib/database.types'
 
-// Server-side Supabase client for API routes
+export function isSupabaseConfigured(): boolean {
+  return Boolean(process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY)
+}
+
+// Server-side Supabase client for API routes. Uses the anon key, so row-level
+// security applies; anything that must bypass RLS goes through supabase-admin.
 export const createServerSupabaseClient = () => {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL
   const key = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
@@ -9,7 +15,7 @@ export const createServerSupabaseClient = () => {
     throw new Error('Supabase environment variables not configured')
   }
   
-  return createServerClient(
+  return createServerClient<Database>(
     url,
     key,
   {
@@ -29,75 +35,9 @@ export const createServerSupabaseClient = () => {
 }
 
 // Types for the website (focusing on public-facing data)
-export type Contact = {
-  id: string
-  first_name: string | null
-  last_name: string | null
-  phone: string | null
-  email: string | null
-  profile_image: string | null
-  lifecycle: string
-  created_at: string
-  updated_at: string
-}
-
-export type Event = {
-  id: string
-  name: string
-  description: string | null
-  location: string | null
-  capacity: number | null
-  event_date: string
-  is_recurring: boolean
-  created_at: string
-  updated_at: string
-}
-
-export type EventImage = {
-  id: string
-  event_id: string
-  url: string
-  alt_text: string | null
-  sort_order: number
-  created_at: string
-}
-
-export type EventRegistration = {
-  id: string
-  event_id: string
-  contact_id: string
-  status: string
-  created_at: string
-  updated_at: string
-}
+export type Contact = Tables<'contacts'>
+export type Event = Tables<'events'>
+export type EventImage = Tables<'event_images'>
+export type EventRegistration = Tables<'registrations'>
 
-export type Database = {
-  public: {
-    Tables: {
-      'contacts': {
-        Row: Contact
-        Insert: Omit<Contact, 'id' | 'created_at' | 'updated_at'>
-        Update: Partial<Omit<Contact, 'id' | 'created_at' | 'updated_at'>>
-      }
-    }
-  },
-  events: {
-    Tables: {
-      'events': {
-        Row: Event
-        Insert: Omit<Event, 'id' | 'created_at' | 'updated_at'>
-        Update: Partial<Omit<Event, 'id' | 'created_at' | 'updated_at'>>
-      },
-      'event_images': {
-        Row: EventImage
-        Insert: Omit<EventImage, 'id' | 'created_at'>
-        Update: Partial<Omit<EventImage, 'id' | 'created_at'>>
-      },
-      'registrations': {
-        Row: EventRegistration
-        Insert: Omit<EventRegistration, 'id' | 'created_at' | 'updated_at'>
-        Update: Partial<Omit<EventRegistration, 'id' | 'created_at' | 'updated_at'>>
-      }
-    }
-  }
-} 
\ No newline at end of file
+export type { Database }
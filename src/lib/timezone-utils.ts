@@ -1,4 +1,4 @@
-import { createServerSupabaseClient } from '@/lib/supabase'
+import { settingsRepo } from '@/lib/repositories'
 
 // Cache for tenant timezone to avoid repeated API calls
 let cachedTimezone: string | null = null
@@ -20,11 +20,7 @@ export async function getConfiguredTimezone(): Promise<string> {
   const defaultTimezone = 'America/New_York'
   
   try {
-    const supabase = createServerSupabaseClient()
-    const { data: settings, error } = await supabase
-      .from('tenant_settings')
-      .select('time_zone')
-      .limit(1)
+    const { data: settings, error } = await settingsRepo.getTenantSettings()
     
     // Handle case where no records exist or query fails
     if (error) {
@@ -36,9 +32,7 @@ export async function getConfiguredTimezone(): Promise<string> {
     }
     
     // Check if we have data and extract timezone
-    const timezone = (settings && settings.length > 0) 
-      ? settings[0]?.time_zone || defaultTimezone
-      : defaultTimezone
+    const timezone = settings?.time_zone || defaultTimezone
     
     // Update cache
     cachedTimezone = timezone
@@ -165,6 +159,66 @@ export async function formatTimeOnly(date: string | Date): Promise<string> {
   })
 }
 
+export interface ZonedDateTime {
+  year: number
+  // 1-12
+  month: number
+  day: number
+  // 0-23
+  hour: number
+  minute: number
+  // 0 = Sunday
+  weekday: number
+}
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+/**
+ * The wall-clock date and time of an instant in a time zone
+ */
+export function getZonedDateTime(date: Date, timezone: string): ZonedDateTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    weekday: 'short',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric'
+  }).formatToParts(date)
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(entry => entry.type === type)?.value ?? ''
+
+  return {
+    year: Number(part('year')),
+    month: Number(part('month')),
+    day: Number(part('day')),
+    hour: Number(part('hour')) % 24,
+    minute: Number(part('minute')),
+    weekday: WEEKDAY_NAMES.indexOf(part('weekday'))
+  }
+}
+
+/**
+ * The instant a wall-clock date and time occurs in a time zone. Times skipped
+ * by a daylight saving change land an hour later.
+ */
+export function zonedDateTimeToDate(
+  { year, month, day, hour, minute }: Omit<ZonedDateTime, 'weekday'>,
+  timezone: string
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute)
+  const offsetAt = (instant: number) => {
+    const zoned = getZonedDateTime(new Date(instant), timezone)
+    return Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute) - instant
+  }
+
+  // The offset is taken again at the first guess, which may be on the other
+  // side of a daylight saving change
+  const guess = wallClock - offsetAt(wallClock)
+  return new Date(wallClock - offsetAt(guess))
+}
+
 /**
  * Initialize timezone cache - call this in your app startup
  */
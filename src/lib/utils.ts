@@ -21,4 +21,19 @@ export function formatDateTime(date: string | Date) {
     hour: 'numeric',
     minute: '2-digit',
   })
-} 
\ No newline at end of file
+}
+
+// Helper function to determine if a URL is a video
+export function isVideoUrl(url?: string | null) {
+  return Boolean(url?.match(/\.(mp4|webm|ogg|avi|mov|wmv)(\?.*)?$/i))
+}
+
+// URL slug for a title or name, e.g. "Faith & Works" -> "faith-works"
+export function generateSlug(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, '') // Remove special characters
+    .replace(/\s+/g, '-') // Replace spaces with hyphens
+    .replace(/-+/g, '-') // Replace multiple hyphens with single hyphen
+    .trim()
+}
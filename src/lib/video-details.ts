@@ -0,0 +1,54 @@
+import type { VideoSource } from '@/lib/video-providers'
+
+// Provider details change rarely; oEmbed responses are cached for a day
+const DETAILS_REVALIDATE_SECONDS = 86_400
+
+export interface VideoDetails {
+  title: string | null
+  thumbnailUrl: string | null
+  // Seconds, when the provider reports it
+  durationSeconds: number | null
+}
+
+interface OEmbedResponse {
+  title?: unknown
+  thumbnail_url?: unknown
+  duration?: unknown
+}
+
+function oEmbedEndpoint(source: VideoSource): string | null {
+  switch (source.provider) {
+    case 'youtube':
+      return `https://www.youtube.com/oembed?format=json&url=${encodeURIComponent(`https://www.youtube.com/watch?v=${source.id}`)}`
+    case 'vimeo':
+      return `https://vimeo.com/api/oembed.json?url=${encodeURIComponent(source.url)}`
+    default:
+      // Facebook's oEmbed needs an app token; streams and files describe themselves when loaded
+      return null
+  }
+}
+
+/**
+ * Title, thumbnail and duration from the provider's oEmbed endpoint. YouTube
+ * doesn't report durations; Facebook, HLS streams and files return null and
+ * players read the duration once the media loads.
+ */
+export async function fetchVideoDetails(source: VideoSource | null): Promise<VideoDetails | null> {
+  const endpoint = source ? oEmbedEndpoint(source) : null
+  if (!source || !endpoint) return null
+
+  try {
+    const response = await fetch(endpoint, { next: { revalidate: DETAILS_REVALIDATE_SECONDS } })
+    if (!response.ok) throw new Error(`HTTP ${response.status}`)
+    const data: OEmbedResponse = await response.json()
+
+    return {
+      title: typeof data.title === 'string' ? data.title : null,
+      thumbnailUrl: typeof data.thumbnail_url === 'string' ? data.thumbnail_url : null,
+      durationSeconds: typeof data.duration === 'number' && data.duration > 0 ? data.duration : null
+    }
+  } catch (error) {
+    console.log(`Video details unavailable for ${source.provider} video:`, error instanceof Error ? error.message : error)
+    return null
+  }
+}
@@ -0,0 +1,207 @@
+// Client-safe video provider handling: which service a video URL belongs to,
+// how to embed it and where its thumbnail lives. Sermons, testimonials, the
+// about page's story media and gallery videos all go through parseVideoUrl so
+// every player on the site accepts the same links.
+
+// Stored in sermons.video_type; 'upload' is a direct video file (MP4, WebM)
+export const VIDEO_TYPES = ['upload', 'youtube', 'vimeo', 'facebook', 'hls'] as const
+export type VideoType = typeof VIDEO_TYPES[number]
+
+export type VideoProvider = 'youtube' | 'vimeo' | 'facebook' | 'hls' | 'file'
+
+export interface VideoSource {
+  provider: VideoProvider
+  // The URL as given, for "open in a new tab" links
+  url: string
+  // Provider video id (YouTube, Vimeo and Facebook), null for streams and files
+  id: string | null
+  // Vimeo's private-link hash for unlisted videos
+  hash?: string | null
+}
+
+export interface EmbedOptions {
+  autoplay?: boolean
+  muted?: boolean
+  loop?: boolean
+  // Seconds
+  start?: number
+  end?: number | null
+  // Let the page follow and control playback over postMessage (YouTube, Vimeo)
+  enableApi?: boolean
+  // Page origin for YouTube's postMessage API
+  origin?: string
+}
+
+export type ThumbnailSize = 'small' | 'medium' | 'large'
+
+// The video columns of a sermon row
+export interface SermonVideoFields {
+  video_type?: string | null
+  video_url?: string | null
+  youtube_url?: string | null
+  youtube_id?: string | null
+}
+
+const YOUTUBE_HOSTS = /^(?:www\.|m\.|music\.)?(?:youtube\.com|youtube-nocookie\.com)$/
+const YOUTUBE_ID = /^[\w-]{11}$/
+const VIDEO_FILE_EXTENSIONS = /\.(mp4|m4v|webm|ogv|mov)$/i
+const HLS_EXTENSION = /\.m3u8$/i
+
+function parseUrl(url: string): URL | null {
+  try {
+    return new URL(url.trim())
+  } catch {
+    return null
+  }
+}
+
+function parseYouTube(url: URL): string | null {
+  const host = url.hostname.toLowerCase()
+  const segments = url.pathname.split('/').filter(Boolean)
+
+  const id = host === 'youtu.be'
+    ? segments[0]
+    : YOUTUBE_HOSTS.test(host)
+      ? url.searchParams.get('v') ?? (['embed', 'shorts', 'live', 'v'].includes(segments[0]) ? segments[1] : undefined)
+      : undefined
+
+  return id && YOUTUBE_ID.test(id) ? id : null
+}
+
+function parseVimeo(url: URL): { id: string; hash: string | null } | null {
+  const host = url.hostname.toLowerCase()
+  if (host !== 'vimeo.com' && host !== 'www.vimeo.com' && host !== 'player.vimeo.com') return null
+
+  // vimeo.com/123, vimeo.com/123/abcdef, player.vimeo.com/video/123?h=abcdef,
+  // vimeo.com/channels/staffpicks/123, vimeo.com/showcase/1/video/123
+  const segments = url.pathname.split('/').filter(Boolean)
+  const idIndex = segments.findIndex(segment => /^\d+$/.test(segment) && segment.length >= 6)
+  if (idIndex < 0) return null
+
+  const next = segments[idIndex + 1]
+  const hash = url.searchParams.get('h') ?? (next && /^[0-9a-f]+$/i.test(next) ? next : null)
+  return { id: segments[idIndex], hash }
+}
+
+function parseFacebook(url: URL): string | null {
+  const host = url.hostname.toLowerCase()
+  if (host === 'fb.watch') return url.pathname.split('/').filter(Boolean)[0] ?? null
+  if (!/^(?:www\.|m\.|web\.)?facebook\.com$/.test(host)) return null
+
+  // facebook.com/<page>/videos/<id>, /watch/?v=<id>, /reel/<id>, /video.php?v=<id>
+  const segments = url.pathname.split('/').filter(Boolean)
+  const videosIndex = segments.findIndex(segment => segment === 'videos' || segment === 'reel')
+  const id = url.searchParams.get('v') ?? (videosIndex >= 0 ? segments[videosIndex + 1] : null)
+  return id && /^[\w.-]+$/.test(id) ? id : null
+}
+
+/**
+ * Work out which provider serves a video URL. The video type stored with a
+ * sermon is a hint for URLs that don't say, such as storage links without a
+ * file extension. Null for anything that isn't a playable video link.
+ */
+export function parseVideoUrl(url: string | null | undefined, type?: string | null): VideoSource | null {
+  if (!url?.trim()) return null
+  const parsed = parseUrl(url)
+  if (!parsed || !/^https?:$/.test(parsed.protocol)) return null
+
+  const youTubeId = parseYouTube(parsed)
+  if (youTubeId) return { provider: 'youtube', url, id: youTubeId }
+
+  const vimeo = parseVimeo(parsed)
+  if (vimeo) return { provider: 'vimeo', url, id: vimeo.id, hash: vimeo.hash }
+
+  const facebookId = parseFacebook(parsed)
+  if (facebookId) return { provider: 'facebook', url, id: facebookId }
+
+  if (HLS_EXTENSION.test(parsed.pathname) || type === 'hls') return { provider: 'hls', url, id: null }
+  if (VIDEO_FILE_EXTENSIONS.test(parsed.pathname) || type === 'upload') return { provider: 'file', url, id: null }
+
+  return null
+}
+
+/**
+ * A sermon's video, from its YouTube id or its video and YouTube URLs.
+ */
+export function sermonVideoSource(sermon: SermonVideoFields): VideoSource | null {
+  if (sermon.youtube_id && YOUTUBE_ID.test(sermon.youtube_id)) {
+    return {
+      provider: 'youtube',
+      url: sermon.youtube_url || `https://www.youtube.com/watch?v=${sermon.youtube_id}`,
+      id: sermon.youtube_id
+    }
+  }
+  return parseVideoUrl(sermon.video_url, sermon.video_type) ?? parseVideoUrl(sermon.youtube_url, 'youtube')
+}
+
+// Providers played in an iframe rather than a <video> element
+export function isEmbedProvider(provider: VideoProvider): provider is 'youtube' | 'vimeo' | 'facebook' {
+  return provider === 'youtube' || provider === 'vimeo' || provider === 'facebook'
+}
+
+/**
+ * The iframe URL for an embedded provider, null for streams and files that
+ * play in a native <video> element.
+ */
+export function videoEmbedUrl(source: VideoSource, options: EmbedOptions = {}): string | null {
+  const { autoplay = false, muted = false, loop = false, start = 0, end = null, enableApi = false, origin } = options
+  const startSeconds = Math.max(0, Math.floor(start))
+
+  switch (source.provider) {
+    case 'youtube': {
+      const query = new URLSearchParams({ autoplay: autoplay ? '1' : '0', rel: '0', playsinline: '1' })
+      if (startSeconds > 0) query.set('start', String(startSeconds))
+      if (end) query.set('end', String(Math.floor(end)))
+      if (muted) query.set('mute', '1')
+      // Looping a single video needs it as its own playlist
+      if (loop) {
+        query.set('loop', '1')
+        query.set('playlist', source.id as string)
+      }
+      if (enableApi) {
+        query.set('enablejsapi', '1')
+        if (origin) query.set('origin', origin)
+      }
+      return `https://www.youtube.com/embed/${source.id}?${query}`
+    }
+    case 'vimeo': {
+      const query = new URLSearchParams()
+      if (source.hash) query.set('h', source.hash)
+      if (autoplay) query.set('autoplay', '1')
+      if (muted) query.set('muted', '1')
+      if (loop) query.set('loop', '1')
+      if (enableApi) query.set('api', '1')
+      const time = startSeconds > 0 ? `#t=${startSeconds}s` : ''
+      return `https://player.vimeo.com/video/${source.id}?${query}${time}`
+    }
+    case 'facebook': {
+      const query = new URLSearchParams({ href: source.url, show_text: 'false' })
+      if (autoplay) query.set('autoplay', 'true')
+      if (muted) query.set('mute', 'true')
+      return `https://www.facebook.com/plugins/video.php?${query}`
+    }
+    default:
+      return null
+  }
+}
+
+/**
+ * A thumbnail that can be derived from the URL alone (YouTube). Vimeo
+ * thumbnails and durations come from fetchVideoDetails; streams and files
+ * have none.
+ */
+export function videoThumbnailUrl(source: VideoSource | null, size: ThumbnailSize = 'large'): string | null {
+  if (source?.provider !== 'youtube') return null
+  const file = size === 'small' ? 'mqdefault' : size === 'medium' ? 'hqdefault' : 'maxresdefault'
+  return `https://img.youtube.com/vi/${source.id}/${file}.jpg`
+}
+
+// Where the video is watched outside this site, for "Watch on ..." buttons
+export function videoProviderName(provider: VideoProvider): string {
+  switch (provider) {
+    case 'youtube': return 'YouTube'
+    case 'vimeo': return 'Vimeo'
+    case 'facebook': return 'Facebook'
+    default: return 'External Site'
+  }
+}
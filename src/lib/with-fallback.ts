@@ -0,0 +1,64 @@
+import { defaultContentResponse, type ContentResponse, type FallbackReason } from '@/lib/content-response'
+import { isSupabaseConfigured } from '@/lib/supabase'
+
+interface FallbackOptions<T extends object, D extends object> {
+  // Used in log lines and messages, e.g. 'homepage' or 'sermons browse'
+  label: string
+  // Default payload for the given reason (see src/lib/default-content.ts)
+  fallback: (reason: FallbackReason) => D | Promise<D>
+  // Load database content. Resolve to null when there is nothing to show and
+  // throw (e.g. a PostgrestError) when a query fails.
+  load: () => Promise<T | null>
+  // Message for database responses; defaults to "Loaded <label> from database"
+  describe?: (payload: T) => string
+}
+
+function errorDetail(error: unknown): string {
+  if (error instanceof Error) return error.message
+  if (error && typeof error === 'object' && 'message' in error) return String(error.message)
+  return 'Unknown error'
+}
+
+/**
+ * Run a content query and fall back to seed content when Supabase is not
+ * configured, the query fails or it returns nothing. The result always
+ * carries its source, and a structured reason when the default was used.
+ * Database rows and seed content may differ in shape (T and D).
+ */
+export async function withFallback<T extends object, D extends object = T>({
+  label,
+  fallback,
+  load,
+  describe
+}: FallbackOptions<T, D>): Promise<ContentResponse<T | D>> {
+  const tag = label.toUpperCase()
+
+  const serveDefault = async (reason: FallbackReason, detail?: string) =>
+    defaultContentResponse(await fallback(reason), label, reason, detail)
+
+  if (!isSupabaseConfigured()) {
+    console.log(`🔄 ${tag} SOURCE: DEFAULT (Supabase not configured)`)
+    return serveDefault('not_configured')
+  }
+
+  let payload: T | null
+  try {
+    payload = await load()
+  } catch (error) {
+    const detail = errorDetail(error)
+    console.error(`🔄 ${tag} SOURCE: DEFAULT (Database error):`, detail)
+    return serveDefault('query_error', detail)
+  }
+
+  if (!payload) {
+    console.log(`🔄 ${tag} SOURCE: DEFAULT (No content found)`)
+    return serveDefault('empty')
+  }
+
+  console.log(`✅ ${tag} SOURCE: DATABASE`)
+  return {
+    ...payload,
+    source: 'database',
+    message: describe ? describe(payload) : `Loaded ${label} from database`
+  }
+}